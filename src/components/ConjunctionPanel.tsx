@@ -0,0 +1,125 @@
+import React, { useState } from 'react';
+import { ConjunctionScreening, Conjunction, TleCatalog } from '../models/ConjunctionScreening';
+
+interface ConjunctionPanelProps {
+  screening: ConjunctionScreening;
+}
+
+const SCREENING_WINDOWS_HOURS = [1, 6, 24];
+const THRESHOLDS_KM = [1, 5, 10, 25];
+
+const formatUtcTime = (date: Date): string => date.toISOString().replace('T', ' ').slice(5, 19);
+
+export const ConjunctionPanel: React.FC<ConjunctionPanelProps> = ({ screening }) => {
+  const [catalogs, setCatalogs] = useState<TleCatalog[]>(screening.getCatalogs());
+  const [windowHours, setWindowHours] = useState<number>(6);
+  const [thresholdKm, setThresholdKm] = useState<number>(5);
+  const [conjunctions, setConjunctions] = useState<Conjunction[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleCatalogFiles = (files: FileList | null) => {
+    if (!files) return;
+
+    Array.from(files).forEach(file => {
+      const reader = new FileReader();
+      reader.onload = () => {
+        const catalog = screening.loadCatalog(file.name, String(reader.result));
+        setCatalogs(screening.getCatalogs());
+        setMessage(`${file.name}: ${catalog.objects.length} objects loaded, ${catalog.errors.length} rejected`);
+      };
+      reader.onerror = () => setMessage(`Could not read ${file.name}`);
+      reader.readAsText(file);
+    });
+  };
+
+  const handleRemoveCatalog = (name: string) => {
+    screening.removeCatalog(name);
+    setCatalogs(screening.getCatalogs());
+  };
+
+  const handleScreen = () => {
+    const start = screening.getCurrentTime();
+    const end = new Date(start.getTime() + windowHours * 3600 * 1000);
+    setConjunctions(screening.screen(start, end, { thresholdKm }));
+    setMessage(null);
+  };
+
+  const handleAvoid = (conjunction: Conjunction) => {
+    try {
+      const plan = screening.planAvoidanceManeuver(conjunction);
+      setMessage(plan.predicted
+        ? `${conjunction.primaryId}: miss distance ${conjunction.missDistance.toFixed(2)} → ${plan.predicted.missDistance.toFixed(2)} km`
+        : `${conjunction.primaryId}: maneuver scheduled`);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  return (
+    <div className="conjunction-panel">
+      <h2>Conjunction Screening</h2>
+
+      <div className="conjunction-catalogs">
+        <label>
+          Load catalog (TLE/OMM):
+          <input type="file" accept=".tle,.txt,.3le,.xml,.kvn,.json,.csv" multiple onChange={(e) => handleCatalogFiles(e.target.files)} />
+        </label>
+        {catalogs.map(catalog => (
+          <div key={catalog.name} className="detail-row">
+            <span className="label">{catalog.name}</span>
+            <span className="value">{catalog.objects.length} objects</span>
+            <button onClick={() => handleRemoveCatalog(catalog.name)}>Remove</button>
+          </div>
+        ))}
+      </div>
+
+      <div className="pass-controls">
+        <select value={windowHours} onChange={(e) => setWindowHours(parseFloat(e.target.value))}>
+          {SCREENING_WINDOWS_HOURS.map(hours => (
+            <option key={hours} value={hours}>Next {hours} h</option>
+          ))}
+        </select>
+        <select value={thresholdKm} onChange={(e) => setThresholdKm(parseFloat(e.target.value))}>
+          {THRESHOLDS_KM.map(km => (
+            <option key={km} value={km}>&lt; {km} km</option>
+          ))}
+        </select>
+        <button onClick={handleScreen}>Screen</button>
+      </div>
+
+      {message && <p className="conjunction-message">{message}</p>}
+
+      {conjunctions && conjunctions.length === 0 && (
+        <p>No conjunctions in the selected window</p>
+      )}
+      {conjunctions && conjunctions.length > 0 && (
+        <table className="pass-table">
+          <thead>
+            <tr>
+              <th>Primary</th>
+              <th>Secondary</th>
+              <th>TCA (UTC)</th>
+              <th>Miss</th>
+              <th>R / I / C (km)</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {conjunctions.map(conjunction => (
+              <tr key={`${conjunction.primaryId}-${conjunction.secondaryId}-${conjunction.tca.getTime()}`}>
+                <td>{conjunction.primaryId}</td>
+                <td title={conjunction.secondarySource}>{conjunction.secondaryName}</td>
+                <td>{formatUtcTime(conjunction.tca)}</td>
+                <td>{conjunction.missDistance.toFixed(2)} km</td>
+                <td>
+                  {conjunction.radial.toFixed(2)} / {conjunction.inTrack.toFixed(2)} / {conjunction.crossTrack.toFixed(2)}
+                </td>
+                <td><button onClick={() => handleAvoid(conjunction)}>Avoid</button></td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { EphemerisExport, EphemerisFrame } from '../models/EphemerisExport';
+
+interface EphemerisExportPanelProps {
+  exporter: EphemerisExport;
+  satelliteIds: () => string[];
+}
+
+const DURATIONS_HOURS = [1, 6, 24];
+const STEPS_SECONDS = [10, 60, 300];
+
+// Hand the text to the browser as a file download
+const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+export const EphemerisExportPanel: React.FC<EphemerisExportPanelProps> = ({ exporter, satelliteIds }) => {
+  const [selection, setSelection] = useState<string>('');
+  const [durationHours, setDurationHours] = useState<number>(1);
+  const [stepSeconds, setStepSeconds] = useState<number>(60);
+  const [frame, setFrame] = useState<EphemerisFrame>('TEME');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = (format: 'oem' | 'csv') => {
+    // Comma-separated IDs, or every satellite when left empty
+    const ids = selection.trim().length > 0
+      ? selection.split(',').map(id => id.trim()).filter(id => id.length > 0)
+      : satelliteIds();
+    const start = exporter.getCurrentTime();
+    const end = new Date(start.getTime() + durationHours * 3600 * 1000);
+
+    try {
+      const ephemerides = exporter.sample({ satelliteIds: ids, start, end, stepSeconds, frame });
+      const stamp = start.toISOString().slice(0, 19).replace(/[-:]/g, '');
+      if (format === 'oem') {
+        downloadText(EphemerisExport.toOem(ephemerides), `ephemeris_${stamp}.oem`, 'text/plain');
+      } else {
+        downloadText(EphemerisExport.toCsv(ephemerides), `ephemeris_${stamp}.csv`, 'text/csv');
+      }
+      setError(null);
+    } catch (exportError) {
+      setError(exportError instanceof Error ? exportError.message : String(exportError));
+    }
+  };
+
+  return (
+    <div className="ephemeris-export-panel">
+      <h2>Ephemeris Export</h2>
+      <input
+        type="text"
+        placeholder="Satellite IDs (all if empty)"
+        value={selection}
+        onChange={(e) => setSelection(e.target.value)}
+      />
+      <div className="pass-controls">
+        <select value={durationHours} onChange={(e) => setDurationHours(parseFloat(e.target.value))}>
+          {DURATIONS_HOURS.map(hours => (
+            <option key={hours} value={hours}>Next {hours} h</option>
+          ))}
+        </select>
+        <select value={stepSeconds} onChange={(e) => setStepSeconds(parseFloat(e.target.value))}>
+          {STEPS_SECONDS.map(step => (
+            <option key={step} value={step}>Every {step} s</option>
+          ))}
+        </select>
+        <select value={frame} onChange={(e) => setFrame(e.target.value as EphemerisFrame)}>
+          <option value="TEME">TEME</option>
+          <option value="ITRF">ITRF</option>
+        </select>
+      </div>
+      <div className="pass-controls">
+        <button onClick={() => handleExport('oem')}>Export OEM</button>
+        <button onClick={() => handleExport('csv')}>Export CSV</button>
+      </div>
+      {error && <p className="conjunction-message">{error}</p>}
+    </div>
+  );
+};
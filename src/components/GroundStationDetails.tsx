@@ -1,11 +1,26 @@
 import React, { useEffect, useState } from 'react';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { PassPredictor, SatellitePass } from '../models/PassPredictor';
+import { MIN_OPERATING_ELEVATION } from '../data/StarlinkGroundStations';
 
 interface GroundStationDetailsProps {
   groundStation: GroundStationData | null;
+  passPredictor?: PassPredictor | null;
 }
 
-export const GroundStationDetails: React.FC<GroundStationDetailsProps> = ({ groundStation }) => {
+const PASS_WINDOWS_HOURS = [1, 3, 6, 12];
+
+const formatUtcTime = (date: Date): string => date.toISOString().slice(11, 19);
+
+export const GroundStationDetails: React.FC<GroundStationDetailsProps> = ({ groundStation, passPredictor }) => {
+  const [passWindowHours, setPassWindowHours] = useState<number>(1);
+  const [passes, setPasses] = useState<SatellitePass[] | null>(null);
+
+  // Predictions belong to the station they were computed for
+  useEffect(() => {
+    setPasses(null);
+  }, [groundStation?.id]);
+
   if (!groundStation) {
     return (
       <div className="ground-station-details">
@@ -18,6 +33,13 @@ export const GroundStationDetails: React.FC<GroundStationDetailsProps> = ({ grou
   const incomingTraffic = groundStation.traffic.incoming.toFixed(2);
   const outgoingTraffic = groundStation.traffic.outgoing.toFixed(2);
 
+  const handlePredictPasses = () => {
+    if (!passPredictor) return;
+    const start = passPredictor.getCurrentTime();
+    const end = new Date(start.getTime() + passWindowHours * 3600 * 1000);
+    setPasses(passPredictor.predictGroundStationPasses(groundStation, start, end));
+  };
+
   // Status color
   const getStatusColor = (status: string) => {
     switch (status) {
@@ -95,6 +117,61 @@ export const GroundStationDetails: React.FC<GroundStationDetailsProps> = ({ grou
           </ul>
         </div>
       )}
+      
+      {passPredictor && (
+        <div className="pass-predictions">
+          <h4>Upcoming Passes</h4>
+          {groundStation.elevationConstraints && (
+            <div className="detail-row">
+              <span className="label">Elevation Mask:</span>
+              <span className="value">
+                {Math.max(groundStation.elevationConstraints.minElevation, MIN_OPERATING_ELEVATION)}°–{groundStation.elevationConstraints.maxElevation}°
+                {' '}(filed {groundStation.elevationConstraints.minElevation}°–{groundStation.elevationConstraints.maxElevation}°)
+              </span>
+            </div>
+          )}
+          <div className="pass-controls">
+            <select
+              value={passWindowHours}
+              onChange={(e) => setPassWindowHours(parseFloat(e.target.value))}
+            >
+              {PASS_WINDOWS_HOURS.map(hours => (
+                <option key={hours} value={hours}>Next {hours} h</option>
+              ))}
+            </select>
+            <button onClick={handlePredictPasses}>Predict</button>
+          </div>
+          {passes && passes.length === 0 && (
+            <p>No passes in the selected window</p>
+          )}
+          {passes && passes.length > 0 && (
+            <table className="pass-table">
+              <thead>
+                <tr>
+                  <th>Satellite</th>
+                  <th>AOS (UTC)</th>
+                  <th>TCA (UTC)</th>
+                  <th>LOS (UTC)</th>
+                  <th>Max El</th>
+                  <th>Az (AOS→LOS)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {passes.map(pass => (
+                  <tr key={`${pass.satelliteId}-${pass.aos.getTime()}`} className={pass.truncated ? 'truncated' : undefined}>
+                    <td>{pass.satelliteId}</td>
+                    <td>{formatUtcTime(pass.aos)}</td>
+                    <td>{formatUtcTime(pass.tca)}</td>
+                    <td>{formatUtcTime(pass.los)}</td>
+                    <td>{pass.maxElevation.toFixed(1)}°</td>
+                    <td>{pass.aosAzimuth.toFixed(0)}°→{pass.losAzimuth.toFixed(0)}°</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
     </div>
   );
 };
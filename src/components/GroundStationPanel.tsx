@@ -1,10 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { PassPredictor } from '../models/PassPredictor';
 import { GroundStationDetails } from './GroundStationDetails';
 import { GroundStationControls } from './GroundStationControls';
 
 interface GroundStationPanelProps {
   groundStations: GroundStationData[];
+  passPredictor?: PassPredictor | null;
   onSetStatus: (id: string, status: 'operational' | 'degraded' | 'offline') => void;
   onSetBandwidth: (id: string, bandwidth: number) => void;
   onToggleInternet: (id: string, connected: boolean) => void;
@@ -14,6 +16,7 @@ interface GroundStationPanelProps {
 
 export const GroundStationPanel: React.FC<GroundStationPanelProps> = ({
   groundStations,
+  passPredictor,
   onSetStatus,
   onSetBandwidth,
   onToggleInternet,
@@ -55,7 +58,7 @@ export const GroundStationPanel: React.FC<GroundStationPanelProps> = ({
         </div>
         
         <div className="details-section">
-          <GroundStationDetails groundStation={selectedStation} />
+          <GroundStationDetails groundStation={selectedStation} passPredictor={passPredictor} />
         </div>
       </div>
       
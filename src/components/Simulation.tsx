@@ -1,32 +1,54 @@
 import React, { useEffect, useState } from 'react';
 import { SatelliteNetwork } from '../models/SatelliteNetwork';
 import { GroundStationNetwork } from '../models/GroundStationNetwork';
+import { SimulationClock } from '../models/SimulationClock';
+import { PassPredictor } from '../models/PassPredictor';
+import { ConjunctionScreening } from '../models/ConjunctionScreening';
+import { EphemerisExport } from '../models/EphemerisExport';
 import { VisualizationEngine } from '../visualization/VisualizationEngine';
+import { CatalogIngestion, CatalogFile } from '../visualization/CatalogIngestion';
 import { GroundStationPanel } from './GroundStationPanel';
+import { ConjunctionPanel } from './ConjunctionPanel';
+import { EphemerisExportPanel } from './EphemerisExportPanel';
 
 interface SimulationProps {
   containerRef: React.RefObject<HTMLDivElement>;
 }
 
+const WARP_FACTORS = [1, 10, 60, 300, 1000];
+
+// datetime-local inputs carry no zone; the simulation clock is always UTC
+const toUtcInputValue = (date: Date): string => date.toISOString().slice(0, 16);
+
 export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
   const [satelliteNetwork, setSatelliteNetwork] = useState<SatelliteNetwork | null>(null);
   const [groundStationNetwork, setGroundStationNetwork] = useState<GroundStationNetwork | null>(null);
   const [visualizationEngine, setVisualizationEngine] = useState<VisualizationEngine | null>(null);
+  const [passPredictor, setPassPredictor] = useState<PassPredictor | null>(null);
+  const [conjunctionScreening, setConjunctionScreening] = useState<ConjunctionScreening | null>(null);
+  const [ephemerisExport, setEphemerisExport] = useState<EphemerisExport | null>(null);
   const [simulationSpeed, setSimulationSpeed] = useState<number>(1);
   const [isPaused, setIsPaused] = useState<boolean>(false);
+  const [simulationClock, setSimulationClock] = useState<SimulationClock | null>(null);
+  const [simulationTime, setSimulationTime] = useState<Date>(new Date());
+  const [jumpDate, setJumpDate] = useState<string>(toUtcInputValue(new Date()));
   const [selectedGroundStationId, setSelectedGroundStationId] = useState<string | null>(null);
   const [enhancedVisualsEnabled, setEnhancedVisualsEnabled] = useState<boolean>(false);
+  const [elementSetStatus, setElementSetStatus] = useState<string | null>(null);
 
   // Initialize simulation
   useEffect(() => {
     if (!containerRef.current) return;
 
+    // One clock drives every model and renderer
+    const clock = new SimulationClock(new Date(), 1);
+    
     // Initialize networks
-    const satNetwork = new SatelliteNetwork();
+    const satNetwork = new SatelliteNetwork(clock);
     const gsNetwork = new GroundStationNetwork();
     
     // Initialize visualization engine
-    const visEngine = new VisualizationEngine(containerRef.current);
+    const visEngine = new VisualizationEngine(containerRef.current, clock);
     
     // Connect networks to visualization
     visEngine.setSatelliteNetwork(satNetwork);
@@ -39,10 +61,21 @@ export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
     setSatelliteNetwork(satNetwork);
     setGroundStationNetwork(gsNetwork);
     setVisualizationEngine(visEngine);
+    setPassPredictor(new PassPredictor(satNetwork));
+    setConjunctionScreening(new ConjunctionScreening(satNetwork));
+    setEphemerisExport(new EphemerisExport(satNetwork));
+    setSimulationClock(clock);
+    
+    // Refresh the displayed UTC time at a UI-friendly rate rather than every tick
+    const clockDisplayInterval = window.setInterval(() => {
+      setSimulationTime(clock.getDate());
+    }, 500);
     
     // Clean up on unmount
     return () => {
+      window.clearInterval(clockDisplayInterval);
       visEngine.dispose();
+      satNetwork.dispose();
     };
   }, [containerRef]);
 
@@ -63,6 +96,48 @@ export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
     }
   };
 
+  // Handle jump to date
+  const handleJumpToDate = () => {
+    const date = new Date(`${jumpDate}:00Z`);
+    if (isNaN(date.getTime())) {
+      console.warn(`Invalid simulation date: ${jumpDate}`);
+      return;
+    }
+    if (visualizationEngine) {
+      visualizationEngine.jumpToDate(date);
+    }
+    if (simulationClock) {
+      setSimulationTime(simulationClock.getDate());
+    }
+  };
+
+  const handleResetToNow = () => {
+    const now = new Date();
+    setJumpDate(toUtcInputValue(now));
+    if (visualizationEngine) {
+      visualizationEngine.jumpToDate(now);
+    }
+    setSimulationTime(now);
+  };
+
+  // Load TLE/OMM files from disk and show the satellites they describe
+  const handleElementSetFiles = async (files: FileList | null) => {
+    if (!files || !visualizationEngine) return;
+
+    const catalogFiles: CatalogFile[] = await Promise.all(
+      Array.from(files).map(async file => ({ name: file.name, text: await file.text() }))
+    );
+    const result = CatalogIngestion.ingest(catalogFiles);
+    const added = visualizationEngine.loadElementSets(result.records);
+
+    result.errors.forEach(error => {
+      console.warn(`${error.source} record ${error.record}${error.line ? ` (line ${error.line})` : ''} ${error.name}: ${error.message}`);
+    });
+    setElementSetStatus(
+      `${added} satellites loaded, ${result.errors.length} element sets rejected, ${result.duplicates} older duplicates skipped`
+    );
+  };
+
   // Handle ground station status change
   const handleSetGroundStationStatus = (id: string, status: 'operational' | 'degraded' | 'offline') => {
     if (groundStationNetwork) {
@@ -127,17 +202,40 @@ export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
         
         <div className="control-group">
           <label>
-            Simulation Speed:
-            <input
-              type="range"
-              min="0.1"
-              max="10"
-              step="0.1"
+            Time Warp:
+            <select
               value={simulationSpeed}
               onChange={(e) => handleSpeedChange(parseFloat(e.target.value))}
+            >
+              {WARP_FACTORS.map(factor => (
+                <option key={factor} value={factor}>{factor}x</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        <div className="control-group">
+          <div>UTC: {simulationTime.toISOString().replace('T', ' ').slice(0, 19)}</div>
+          <input
+            type="datetime-local"
+            value={jumpDate}
+            onChange={(e) => setJumpDate(e.target.value)}
+          />
+          <button onClick={handleJumpToDate}>Jump</button>
+          <button onClick={handleResetToNow}>Now</button>
+        </div>
+        
+        <div className="control-group">
+          <label>
+            Element sets (TLE/OMM):
+            <input
+              type="file"
+              accept=".tle,.txt,.3le,.xml,.kvn,.json,.csv"
+              multiple
+              onChange={(e) => handleElementSetFiles(e.target.files)}
             />
-            {simulationSpeed.toFixed(1)}x
           </label>
+          {elementSetStatus && <div>{elementSetStatus}</div>}
         </div>
         
         <div className="control-group" style={{ marginTop: '20px', padding: '15px', border: '2px solid #ff6b35', borderRadius: '8px', backgroundColor: '#fff3f0' }}>
@@ -188,6 +286,7 @@ export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
         {groundStationNetwork && (
           <GroundStationPanel
             groundStations={groundStationNetwork.getAllGroundStations()}
+            passPredictor={passPredictor}
             onSetStatus={handleSetGroundStationStatus}
             onSetBandwidth={handleSetGroundStationBandwidth}
             onToggleInternet={handleToggleGroundStationInternet}
@@ -195,6 +294,15 @@ export const Simulation: React.FC<SimulationProps> = ({ containerRef }) => {
             onToggleGroundStationView={handleToggleGroundStationView}
           />
         )}
+        {conjunctionScreening && (
+          <ConjunctionPanel screening={conjunctionScreening} />
+        )}
+        {ephemerisExport && satelliteNetwork && (
+          <EphemerisExportPanel
+            exporter={ephemerisExport}
+            satelliteIds={() => satelliteNetwork.getAllSatellites().map(satellite => satellite.id)}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,85 @@
+import { ConstellationDefinition, ShellDefinition } from '../models/Constellation';
+
+// Starlink shells as authorised by the FCC (2018 grant, modified April 2021)
+const STARLINK_SHELL_1_DEFINITION: ShellDefinition = {
+  name: 'Shell 1',
+  altitude: 550,
+  inclination: 53,
+  planes: 72,
+  satellitesPerPlane: 22,
+  phasingFactor: 17,
+  pattern: 'delta',
+  generation: 'v1.5'
+};
+
+// Shell 1 only: 1,584 satellites
+export const STARLINK_SHELL_1: ConstellationDefinition = {
+  name: 'Starlink Shell 1',
+  shells: [STARLINK_SHELL_1_DEFINITION]
+};
+
+// The full first-generation system: 4,408 satellites in five shells
+export const STARLINK_GEN1: ConstellationDefinition = {
+  name: 'Starlink Gen1',
+  shells: [
+    STARLINK_SHELL_1_DEFINITION,
+    {
+      name: 'Shell 2',
+      altitude: 540,
+      inclination: 53.2,
+      planes: 72,
+      satellitesPerPlane: 22,
+      phasingFactor: 17,
+      pattern: 'delta',
+      generation: 'v1.5'
+    },
+    {
+      name: 'Shell 3',
+      altitude: 570,
+      inclination: 70,
+      planes: 36,
+      satellitesPerPlane: 20,
+      phasingFactor: 11,
+      pattern: 'delta',
+      generation: 'v1.5'
+    },
+    {
+      name: 'Shell 4',
+      altitude: 560,
+      inclination: 97.6,
+      planes: 6,
+      satellitesPerPlane: 58,
+      phasingFactor: 1,
+      pattern: 'star',
+      generation: 'v2.0'
+    },
+    {
+      name: 'Shell 5',
+      altitude: 560,
+      inclination: 97.6,
+      planes: 4,
+      satellitesPerPlane: 43,
+      phasingFactor: 1,
+      pattern: 'star',
+      generation: 'v2.0',
+      raanOffset: 15
+    }
+  ]
+};
+
+// Reduced Shell 1 used by the interactive network model: 9 × 20 = 180 satellites
+export const DEMO_CONSTELLATION: ConstellationDefinition = {
+  name: 'Starlink demo',
+  shells: [
+    {
+      name: 'Demo shell',
+      altitude: 550,
+      inclination: 53,
+      planes: 9,
+      satellitesPerPlane: 20,
+      phasingFactor: 1,
+      pattern: 'delta',
+      generation: 'v1.5'
+    }
+  ]
+};
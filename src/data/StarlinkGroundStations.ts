@@ -1,3 +1,48 @@
+// Gateway antenna pointing mask. Azimuth windows are degrees clockwise from true
+// north; a window with min > max wraps through north.
+export interface ElevationConstraints {
+  minElevation: number; // degrees
+  maxElevation: number; // degrees
+  azimuthLimits?: { min: number; max: number }[];
+}
+
+// Mask for gateways without a site survey: Starlink's 25° minimum operating elevation
+export const DEFAULT_ELEVATION_CONSTRAINTS: ElevationConstraints = {
+  minElevation: 25,
+  maxElevation: 90
+};
+
+// Lowest elevation Starlink operates gateway links at, whatever a site's filing allows
+export const MIN_OPERATING_ELEVATION = 25;
+
+// True when a look direction falls inside a station's elevation and azimuth mask, raised
+// to an operating floor where the mask itself goes lower
+export function isWithinElevationMask(
+  azimuth: number,
+  elevation: number,
+  constraints: ElevationConstraints,
+  minOperatingElevation: number = -90
+): boolean {
+  if (elevation < Math.max(constraints.minElevation, minOperatingElevation) || elevation > constraints.maxElevation) {
+    return false;
+  }
+
+  if (!constraints.azimuthLimits || constraints.azimuthLimits.length === 0) {
+    return true;
+  }
+
+  const az = ((azimuth % 360) + 360) % 360;
+  return constraints.azimuthLimits.some(({ min, max }) =>
+    min <= max ? az >= min && az <= max : az >= min || az <= max
+  );
+}
+
+// Whether a gateway can link in a look direction: its mask raised to the operating floor.
+// Live links, predicted contacts and predicted passes all use this test.
+export function isGatewayLinkVisible(azimuth: number, elevation: number, constraints: ElevationConstraints): boolean {
+  return isWithinElevationMask(azimuth, elevation, constraints, MIN_OPERATING_ELEVATION);
+}
+
 // Real Starlink ground station locations based on FCC filings and regulatory disclosures
 export interface RealGroundStationData {
   id: string;
@@ -8,11 +53,7 @@ export interface RealGroundStationData {
   regulatoryFiling: string;
   operationalStatus: 'active' | 'planned' | 'construction';
   antennaTypes: ('radome' | 'phased-array' | 'uplink-dish' | 'gateway')[];
-  elevationConstraints: {
-    minElevation: number; // degrees
-    maxElevation: number; // degrees
-    azimuthLimits?: { min: number; max: number }[];
-  };
+  elevationConstraints: ElevationConstraints;
   backhaul: {
     type: 'fiber' | 'microwave' | 'satellite';
     latencyMs: number;
@@ -0,0 +1,113 @@
+// Markets subscriber counts are configured for
+export type SubscriberRegion = 'north-america' | 'south-america' | 'europe' | 'africa' | 'asia' | 'oceania';
+
+// A 10° latitude/longitude cell given by its centre, with the population it holds
+export interface PopulationCell {
+  latitude: number;
+  longitude: number;
+  population: number; // millions, approximate
+  region: SubscriberRegion;
+}
+
+export const POPULATION_CELL_SIZE = 10; // degrees
+
+// Subscribers per region, roughly in line with public figures for 2024; spread over each
+// region's cells in proportion to population
+export const DEFAULT_REGION_SUBSCRIBERS: Record<SubscriberRegion, number> = {
+  'north-america': 2000000,
+  'south-america': 300000,
+  europe: 600000,
+  africa: 100000,
+  asia: 150000,
+  oceania: 350000
+};
+
+// Coarse population of the cells in markets Starlink serves, rounded from gridded census data
+export const POPULATION_GRID: PopulationCell[] = [
+  // North America, Central America and the Caribbean
+  { latitude: 65, longitude: -150, population: 0.7, region: 'north-america' },
+  { latitude: 55, longitude: -125, population: 1, region: 'north-america' },
+  { latitude: 55, longitude: -115, population: 4, region: 'north-america' },
+  { latitude: 45, longitude: -125, population: 8, region: 'north-america' },
+  { latitude: 45, longitude: -115, population: 4, region: 'north-america' },
+  { latitude: 45, longitude: -105, population: 3, region: 'north-america' },
+  { latitude: 45, longitude: -95, population: 14, region: 'north-america' },
+  { latitude: 45, longitude: -85, population: 50, region: 'north-america' },
+  { latitude: 45, longitude: -75, population: 55, region: 'north-america' },
+  { latitude: 35, longitude: -125, population: 10, region: 'north-america' },
+  { latitude: 35, longitude: -115, population: 30, region: 'north-america' },
+  { latitude: 35, longitude: -105, population: 8, region: 'north-america' },
+  { latitude: 35, longitude: -95, population: 15, region: 'north-america' },
+  { latitude: 35, longitude: -85, population: 40, region: 'north-america' },
+  { latitude: 35, longitude: -75, population: 20, region: 'north-america' },
+  { latitude: 25, longitude: -115, population: 4, region: 'north-america' },
+  { latitude: 25, longitude: -105, population: 12, region: 'north-america' },
+  { latitude: 25, longitude: -95, population: 25, region: 'north-america' },
+  { latitude: 25, longitude: -85, population: 20, region: 'north-america' },
+  { latitude: 15, longitude: -105, population: 20, region: 'north-america' },
+  { latitude: 15, longitude: -95, population: 30, region: 'north-america' },
+  { latitude: 15, longitude: -85, population: 25, region: 'north-america' },
+  { latitude: 15, longitude: -75, population: 20, region: 'north-america' },
+
+  // South America
+  { latitude: 5, longitude: -75, population: 60, region: 'south-america' },
+  { latitude: 5, longitude: -65, population: 15, region: 'south-america' },
+  { latitude: -5, longitude: -75, population: 20, region: 'south-america' },
+  { latitude: -5, longitude: -65, population: 5, region: 'south-america' },
+  { latitude: -5, longitude: -45, population: 40, region: 'south-america' },
+  { latitude: -5, longitude: -35, population: 20, region: 'south-america' },
+  { latitude: -15, longitude: -75, population: 10, region: 'south-america' },
+  { latitude: -15, longitude: -65, population: 10, region: 'south-america' },
+  { latitude: -15, longitude: -55, population: 15, region: 'south-america' },
+  { latitude: -15, longitude: -45, population: 30, region: 'south-america' },
+  { latitude: -25, longitude: -55, population: 25, region: 'south-america' },
+  { latitude: -25, longitude: -45, population: 60, region: 'south-america' },
+  { latitude: -35, longitude: -75, population: 10, region: 'south-america' },
+  { latitude: -35, longitude: -65, population: 35, region: 'south-america' },
+  { latitude: -45, longitude: -75, population: 1, region: 'south-america' },
+
+  // Europe
+  { latitude: 65, longitude: 15, population: 5, region: 'europe' },
+  { latitude: 65, longitude: 25, population: 5, region: 'europe' },
+  { latitude: 55, longitude: -5, population: 60, region: 'europe' },
+  { latitude: 55, longitude: 5, population: 45, region: 'europe' },
+  { latitude: 55, longitude: 15, population: 50, region: 'europe' },
+  { latitude: 55, longitude: 25, population: 25, region: 'europe' },
+  { latitude: 45, longitude: -5, population: 25, region: 'europe' },
+  { latitude: 45, longitude: 5, population: 50, region: 'europe' },
+  { latitude: 45, longitude: 15, population: 45, region: 'europe' },
+  { latitude: 45, longitude: 25, population: 40, region: 'europe' },
+  { latitude: 45, longitude: 35, population: 20, region: 'europe' },
+  { latitude: 35, longitude: -5, population: 40, region: 'europe' },
+  { latitude: 35, longitude: 15, population: 15, region: 'europe' },
+  { latitude: 35, longitude: 25, population: 25, region: 'europe' },
+
+  // Africa
+  { latitude: 15, longitude: -15, population: 30, region: 'africa' },
+  { latitude: 5, longitude: 5, population: 80, region: 'africa' },
+  { latitude: 5, longitude: 35, population: 60, region: 'africa' },
+  { latitude: -5, longitude: 35, population: 40, region: 'africa' },
+  { latitude: -15, longitude: 25, population: 15, region: 'africa' },
+  { latitude: -15, longitude: 35, population: 25, region: 'africa' },
+  { latitude: -25, longitude: 25, population: 20, region: 'africa' },
+  { latitude: -35, longitude: 15, population: 5, region: 'africa' },
+
+  // Asia
+  { latitude: 45, longitude: 105, population: 3, region: 'asia' },
+  { latitude: 35, longitude: 135, population: 80, region: 'asia' },
+  { latitude: 15, longitude: 125, population: 60, region: 'asia' },
+  { latitude: 5, longitude: 105, population: 40, region: 'asia' },
+  { latitude: -5, longitude: 105, population: 80, region: 'asia' },
+  { latitude: -5, longitude: 115, population: 60, region: 'asia' },
+
+  // Oceania
+  { latitude: -5, longitude: 145, population: 8, region: 'oceania' },
+  { latitude: -15, longitude: 135, population: 0.5, region: 'oceania' },
+  { latitude: -15, longitude: 175, population: 1, region: 'oceania' },
+  { latitude: -25, longitude: 155, population: 4, region: 'oceania' },
+  { latitude: -35, longitude: 115, population: 2.5, region: 'oceania' },
+  { latitude: -35, longitude: 135, population: 1.5, region: 'oceania' },
+  { latitude: -35, longitude: 145, population: 12, region: 'oceania' },
+  { latitude: -35, longitude: 175, population: 3, region: 'oceania' },
+  { latitude: -45, longitude: 175, population: 2, region: 'oceania' }
+];
@@ -0,0 +1,32 @@
+// Customer dish hardware: the lowest elevation its phased array can track and its peak rates
+export interface DishDefinition {
+  name: string;
+  minElevation: number; // degrees
+  downlink: number;     // Mbps
+  uplink: number;       // Mbps
+}
+
+export type DishType = 'standard' | 'high-performance' | 'mini';
+
+// Published field-of-view limits and typical peak speeds per dish generation
+export const DISH_TYPES: Record<DishType, DishDefinition> = {
+  standard: { name: 'Standard', minElevation: 25, downlink: 220, uplink: 25 },
+  'high-performance': { name: 'High Performance', minElevation: 20, downlink: 350, uplink: 40 },
+  mini: { name: 'Mini', minElevation: 25, downlink: 100, uplink: 10 }
+};
+
+// Subscription ceilings, applied on top of the dish's own limits
+export interface ServicePlanDefinition {
+  name: string;
+  downlink: number; // Mbps
+  uplink: number;   // Mbps
+}
+
+export type ServicePlan = 'residential' | 'roam' | 'business' | 'maritime';
+
+export const SERVICE_PLANS: Record<ServicePlan, ServicePlanDefinition> = {
+  residential: { name: 'Residential', downlink: 220, uplink: 25 },
+  roam: { name: 'Roam', downlink: 100, uplink: 10 },
+  business: { name: 'Business', downlink: 350, uplink: 40 },
+  maritime: { name: 'Maritime', downlink: 350, uplink: 40 }
+};
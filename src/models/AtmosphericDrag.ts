@@ -0,0 +1,86 @@
+export interface DragConfig {
+  solarFlux: number;        // F10.7 index, solar flux units (70 quiet, 150 moderate, 250 maximum)
+  geomagneticIndex: number; // daily Ap
+  reentryAltitude: number;  // km; satellites whose perigee drops below this are removed
+}
+
+/**
+ * Thermospheric density and circular-orbit decay for drag studies.
+ *
+ * Above 180 km density follows the exponential model used for IPS/ASWFC decay
+ * predictions, whose scale height grows with F10.7 and Ap; below that it falls
+ * back to the static CIRA-72 exponential table (Vallado, Table 8-4).
+ * Decay assumes a near-circular orbit: da/dt = -ρ·B·√(μa), B = Cd·A/m.
+ */
+export class AtmosphericDrag {
+  public static readonly DEFAULT_CONFIG: DragConfig = {
+    solarFlux: 150,
+    geomagneticIndex: 15,
+    reentryAltitude: 120
+  };
+
+  // Reference density in the SGP4 definition B* = B·ρ0/2 (kg/m²/earth radius)
+  private static readonly BSTAR_REFERENCE_DENSITY = 0.15696615;
+  private static readonly MU = 3.986004418e14; // m³/s²
+
+  // Base altitude (km), nominal density (kg/m³), scale height (km)
+  private static readonly LOW_ALTITUDE_TABLE: [number, number, number][] = [
+    [0, 1.225, 7.249],
+    [25, 3.899e-2, 6.349],
+    [30, 1.774e-2, 6.682],
+    [40, 3.972e-3, 7.554],
+    [50, 1.057e-3, 8.382],
+    [60, 3.206e-4, 7.714],
+    [70, 8.770e-5, 6.549],
+    [80, 1.905e-5, 5.799],
+    [90, 3.396e-6, 5.382],
+    [100, 5.297e-7, 5.877],
+    [110, 9.661e-8, 7.263],
+    [120, 2.438e-8, 9.473],
+    [130, 8.484e-9, 12.636],
+    [140, 3.845e-9, 16.149],
+    [150, 2.070e-9, 22.523],
+    [180, 5.464e-10, 29.740]
+  ];
+
+  /** Atmospheric density in kg/m³ at a geometric altitude in km */
+  public static density(altitude: number, config: DragConfig = this.DEFAULT_CONFIG): number {
+    if (altitude >= 180) {
+      const temperature = 900 + 2.5 * (config.solarFlux - 70) + 1.5 * config.geomagneticIndex; // K
+      const molecularMass = Math.max(27 - 0.012 * (altitude - 200), 5); // amu
+      const scaleHeight = temperature / molecularMass; // km
+      return 6e-10 * Math.exp(-(altitude - 175) / scaleHeight);
+    }
+
+    const clamped = Math.max(altitude, 0);
+    let row = this.LOW_ALTITUDE_TABLE[0];
+    for (const entry of this.LOW_ALTITUDE_TABLE) {
+      if (entry[0] <= clamped) row = entry;
+    }
+    const [baseAltitude, baseDensity, scaleHeight] = row;
+    return baseDensity * Math.exp(-(clamped - baseAltitude) / scaleHeight);
+  }
+
+  /** Ballistic coefficient Cd·A/m (m²/kg) equivalent to a TLE B* term (1/earth radii) */
+  public static ballisticCoefficientFromBstar(bstar: number): number {
+    return 2 * bstar / this.BSTAR_REFERENCE_DENSITY;
+  }
+
+  public static bstarFromBallisticCoefficient(ballisticCoefficient: number): number {
+    return ballisticCoefficient * this.BSTAR_REFERENCE_DENSITY / 2;
+  }
+
+  /**
+   * Rate of change of the semi-major axis (km/s, negative) for a near-circular orbit.
+   * altitude is the orbit's height above the Earth in km, semiMajorAxis its radius in km.
+   */
+  public static semiMajorAxisRate(
+    altitude: number,
+    semiMajorAxis: number,
+    ballisticCoefficient: number,
+    config: DragConfig = this.DEFAULT_CONFIG
+  ): number {
+    const rho = this.density(altitude, config);
+    return -rho * ballisticCoefficient * Math.sqrt(this.MU * semiMajorAxis * 1000) / 1000;
+  }
+}
@@ -0,0 +1,418 @@
+import { SatelliteNetwork, Position, Velocity, AvoidanceManeuver } from './SatelliteNetwork';
+import { Coordinates } from './Coordinates';
+import { TleParser, OrbitalElements } from '../visualization/TleParser';
+import { CatalogIngestion, IngestionError } from '../visualization/CatalogIngestion';
+
+// An object from an externally supplied element set catalog (debris, other operators)
+export interface CatalogObject {
+  id: string; // `${catalog}/${noradId}`
+  name: string;
+  noradId: number;
+  elements: OrbitalElements;
+}
+
+export interface TleCatalog {
+  name: string;
+  objects: CatalogObject[];
+  errors: IngestionError[];
+  duplicates: number; // superseded element sets of the same objects
+  loadedAt: Date;
+}
+
+export interface Conjunction {
+  primaryId: string;     // constellation satellite
+  secondaryId: string;   // constellation satellite or catalog object
+  secondaryName: string;
+  secondarySource: string; // 'constellation' or the catalog name
+  tca: Date;               // time of closest approach
+  missDistance: number;    // km
+  // Secondary relative to primary at TCA in the primary's radial/in-track/cross-track frame (km)
+  radial: number;
+  inTrack: number;
+  crossTrack: number;
+  relativeSpeed: number;   // km/s
+}
+
+export interface ScreeningOptions {
+  stepSeconds?: number;      // sampling step of the coarse scan
+  thresholdKm?: number;      // report approaches closer than this
+  toleranceSeconds?: number; // TCA refinement accuracy
+  primaryIds?: string[];     // constellation satellites to screen, all by default
+  includeCatalogs?: boolean;
+}
+
+export interface AvoidanceOptions {
+  leadSeconds?: number;     // maneuver start before TCA
+  durationSeconds?: number;
+  deltaAltitude?: number;   // km
+}
+
+export interface AvoidancePlan {
+  maneuver: AvoidanceManeuver;
+  original: Conjunction;
+  predicted: Conjunction | null; // closest approach of the pair with the maneuver applied
+}
+
+interface InertialState {
+  position: Position; // km, ECI/TEME
+  velocity: Velocity; // km/s
+}
+
+interface ScreeningObject {
+  id: string;
+  name: string;
+  source: string;
+  minRadius: number; // km, bounds of the geocentric distance over the window
+  maxRadius: number;
+  state: (time: number) => InertialState | null;
+}
+
+/**
+ * Conjunction assessment for the constellation against itself and any loaded
+ * element set catalogs.
+ *
+ * Pairs whose radial bands cannot come within the threshold are discarded (the
+ * classic apogee/perigee filter). The rest are sampled on a coarse grid; a change
+ * of sign of the range rate brackets each close approach, which is refined by
+ * bisection. Constellation satellites use the network's ephemeris cache, catalog
+ * objects SGP4, both in the same inertial frame.
+ */
+export class ConjunctionScreening {
+  private network: SatelliteNetwork;
+  private catalogs: Map<string, TleCatalog> = new Map();
+
+  private static readonly DEFAULT_OPTIONS: Required<Omit<ScreeningOptions, 'primaryIds'>> = {
+    stepSeconds: 60,
+    thresholdKm: 5,
+    toleranceSeconds: 0.01,
+    includeCatalogs: true
+  };
+
+  private static readonly DEFAULT_AVOIDANCE: Required<AvoidanceOptions> = {
+    leadSeconds: 1800,
+    durationSeconds: 3600,
+    deltaAltitude: 1
+  };
+
+  // Margin on radial bands for short-period and drag variations over the window (km)
+  private static readonly RADIAL_MARGIN = 25;
+  private static readonly MU = 398600.4418; // km³/s²
+
+  constructor(network: SatelliteNetwork) {
+    this.network = network;
+  }
+
+  public getCurrentTime(): Date {
+    return this.network.getClock().getDate();
+  }
+
+  /**
+   * Load a catalog from local file contents in any format CatalogIngestion reads,
+   * replacing any catalog of the same name. Invalid element sets are reported per
+   * record rather than failing the whole file.
+   */
+  public loadCatalog(name: string, text: string): TleCatalog {
+    const { records, errors, duplicates } = CatalogIngestion.parse(text, name);
+    const objects: CatalogObject[] = records.map(record => ({
+      id: `${name}/${record.elements.noradId}`,
+      name: record.name,
+      noradId: record.elements.noradId,
+      elements: record.elements
+    }));
+
+    const catalog: TleCatalog = { name, objects, errors, duplicates, loadedAt: new Date() };
+    this.catalogs.set(name, catalog);
+    return catalog;
+  }
+
+  public removeCatalog(name: string): boolean {
+    return this.catalogs.delete(name);
+  }
+
+  public getCatalogs(): TleCatalog[] {
+    return Array.from(this.catalogs.values());
+  }
+
+  /** Close approaches of constellation satellites between start and end, ordered by TCA */
+  public screen(start: Date, end: Date, options: ScreeningOptions = {}): Conjunction[] {
+    const resolved = { ...ConjunctionScreening.DEFAULT_OPTIONS, ...options };
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    this.validateWindow(startTime, endTime, resolved.stepSeconds, resolved.toleranceSeconds);
+
+    const primaryIds = new Set(options.primaryIds ?? this.network.getAllSatellites().map(satellite => satellite.id));
+    const constellation = this.network.getAllSatellites().map(satellite => this.constellationObject(satellite.id, startTime, endTime));
+    const catalog = resolved.includeCatalogs ? this.catalogObjects() : [];
+    const objects = [...constellation, ...catalog];
+
+    // Every pair with at least one screened constellation satellite, primary first
+    const pairs: [ScreeningObject, ScreeningObject][] = [];
+    const threshold = resolved.thresholdKm;
+    const overlaps = (a: ScreeningObject, b: ScreeningObject) =>
+      a.minRadius - b.maxRadius <= threshold && b.minRadius - a.maxRadius <= threshold;
+
+    constellation.forEach((primary, i) => {
+      if (!primaryIds.has(primary.id)) return;
+      objects.forEach((secondary, j) => {
+        // Constellation pairs are visited once, from the lower index when both are screened
+        if (j < constellation.length && (j === i || (j < i && primaryIds.has(secondary.id)))) return;
+        if (overlaps(primary, secondary)) {
+          pairs.push([primary, secondary]);
+        }
+      });
+    });
+
+    return this.scan(pairs, startTime, endTime, resolved.stepSeconds, resolved.toleranceSeconds, threshold)
+      .sort((a, b) => a.tca.getTime() - b.tca.getTime());
+  }
+
+  /** Closest approach of two objects within a window, regardless of distance */
+  public closestApproach(
+    primaryId: string,
+    secondaryId: string,
+    start: Date,
+    end: Date,
+    options: Pick<ScreeningOptions, 'stepSeconds' | 'toleranceSeconds'> = {}
+  ): Conjunction | null {
+    const resolved = { ...ConjunctionScreening.DEFAULT_OPTIONS, ...options };
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    this.validateWindow(startTime, endTime, resolved.stepSeconds, resolved.toleranceSeconds);
+
+    const primary = this.findObject(primaryId, startTime, endTime);
+    const secondary = this.findObject(secondaryId, startTime, endTime);
+    if (!primary || !secondary) {
+      throw new Error(`Unknown object: ${primary ? secondaryId : primaryId}`);
+    }
+
+    const approaches = this.scan([[primary, secondary]], startTime, endTime, resolved.stepSeconds, resolved.toleranceSeconds, Infinity);
+    return approaches.reduce<Conjunction | null>(
+      (closest, approach) => (!closest || approach.missDistance < closest.missDistance ? approach : closest), null
+    );
+  }
+
+  /**
+   * Schedule an altitude-change avoidance maneuver for the primary of a conjunction
+   * and predict the pair's new closest approach around the original TCA.
+   */
+  public planAvoidanceManeuver(conjunction: Conjunction, options: AvoidanceOptions = {}): AvoidancePlan {
+    const resolved = { ...ConjunctionScreening.DEFAULT_AVOIDANCE, ...options };
+    const tca = conjunction.tca.getTime();
+    const start = new Date(tca - resolved.leadSeconds * 1000);
+
+    const maneuver = this.network.scheduleAvoidanceManeuver(
+      conjunction.primaryId, start, resolved.durationSeconds, resolved.deltaAltitude
+    );
+
+    // Re-screen the pair over the maneuver, padded by one step on either side
+    const padding = ConjunctionScreening.DEFAULT_OPTIONS.stepSeconds * 1000;
+    const predicted = this.closestApproach(
+      conjunction.primaryId,
+      conjunction.secondaryId,
+      new Date(Math.min(maneuver.startTime, tca) - padding),
+      new Date(Math.max(maneuver.endTime, tca) + padding)
+    );
+
+    return { maneuver, original: conjunction, predicted };
+  }
+
+  private validateWindow(startTime: number, endTime: number, stepSeconds: number, toleranceSeconds: number): void {
+    if (isNaN(startTime) || isNaN(endTime) || endTime <= startTime) {
+      throw new Error('Invalid screening window');
+    }
+    if (stepSeconds <= 0 || toleranceSeconds <= 0) {
+      throw new Error('Screening steps must be positive');
+    }
+  }
+
+  // Sample every pair on the coarse grid and refine each approach that may breach the threshold
+  private scan(
+    pairs: [ScreeningObject, ScreeningObject][],
+    startTime: number,
+    endTime: number,
+    stepSeconds: number,
+    toleranceSeconds: number,
+    threshold: number
+  ): Conjunction[] {
+    const conjunctions: Conjunction[] = [];
+    if (pairs.length === 0) return conjunctions;
+
+    // States are sampled once per object per step
+    const objects = Array.from(new Set(pairs.reduce<ScreeningObject[]>((all, pair) => all.concat(pair), [])));
+    const index = new Map(objects.map((object, i) => [object, i]));
+    const sample = (time: number) => objects.map(object => object.state(time));
+
+    const previousRate = new Float64Array(pairs.length).fill(NaN);
+    const previousDistance = new Float64Array(pairs.length).fill(NaN);
+    const step = stepSeconds * 1000;
+
+    for (let time = startTime, previousTime = startTime; ; previousTime = time, time = Math.min(time + step, endTime)) {
+      const states = sample(time);
+
+      pairs.forEach(([primary, secondary], p) => {
+        const a = states[index.get(primary)!];
+        const b = states[index.get(secondary)!];
+        if (!a || !b) {
+          previousRate[p] = NaN;
+          return;
+        }
+
+        const relative = ConjunctionScreening.relativeState(a, b);
+        const distance = ConjunctionScreening.norm(relative.position);
+        const rate = ConjunctionScreening.dot(relative.position, relative.velocity);
+
+        // Range rate turning from closing to opening brackets a minimum; it can be no
+        // closer than the sampled distances allow at the current relative speed
+        if (previousRate[p] < 0 && rate >= 0) {
+          const bound = Math.min(previousDistance[p], distance) -
+            ConjunctionScreening.norm(relative.velocity) * (time - previousTime) / 2000;
+          if (bound <= threshold) {
+            const conjunction = this.refine(primary, secondary, previousTime, time, toleranceSeconds * 1000);
+            if (conjunction && conjunction.missDistance <= threshold) {
+              conjunctions.push(conjunction);
+            }
+          }
+        }
+
+        previousRate[p] = rate;
+        previousDistance[p] = distance;
+      });
+
+      if (time >= endTime) break;
+    }
+
+    return conjunctions;
+  }
+
+  // Bisection on the range rate between a closing and an opening sample
+  private refine(primary: ScreeningObject, secondary: ScreeningObject, low: number, high: number, tolerance: number): Conjunction | null {
+    const rangeRate = (time: number): number | null => {
+      const a = primary.state(time);
+      const b = secondary.state(time);
+      if (!a || !b) return null;
+      const relative = ConjunctionScreening.relativeState(a, b);
+      return ConjunctionScreening.dot(relative.position, relative.velocity);
+    };
+
+    while (high - low > tolerance) {
+      const mid = (low + high) / 2;
+      const rate = rangeRate(mid);
+      if (rate === null) return null;
+      if (rate < 0) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    const tca = (low + high) / 2;
+    const a = primary.state(tca);
+    const b = secondary.state(tca);
+    if (!a || !b) return null;
+
+    const relative = ConjunctionScreening.relativeState(a, b);
+
+    // Radial along r, cross-track along the orbit normal, in-track completing the triad
+    const radialAxis = ConjunctionScreening.unit(a.position);
+    const crossAxis = ConjunctionScreening.unit(ConjunctionScreening.cross(a.position, a.velocity));
+    const inTrackAxis = ConjunctionScreening.cross(crossAxis, radialAxis);
+
+    return {
+      primaryId: primary.id,
+      secondaryId: secondary.id,
+      secondaryName: secondary.name,
+      secondarySource: secondary.source,
+      tca: new Date(tca),
+      missDistance: ConjunctionScreening.norm(relative.position),
+      radial: ConjunctionScreening.dot(relative.position, radialAxis),
+      inTrack: ConjunctionScreening.dot(relative.position, inTrackAxis),
+      crossTrack: ConjunctionScreening.dot(relative.position, crossAxis),
+      relativeSpeed: ConjunctionScreening.norm(relative.velocity)
+    };
+  }
+
+  private findObject(id: string, startTime: number, endTime: number): ScreeningObject | null {
+    if (this.network.getSatellite(id)) {
+      return this.constellationObject(id, startTime, endTime);
+    }
+    return this.catalogObjects().find(object => object.id === id) ?? null;
+  }
+
+  private constellationObject(id: string, startTime: number, endTime: number): ScreeningObject {
+    const state = (time: number): InertialState | null => {
+      // Satellites can reenter or be removed while a screening result is in use
+      const satellite = this.network.getSatellite(id);
+      if (!satellite) return null;
+      const { position, velocity } = this.network.getEphemerisCache().getState(id, time)
+        ?? this.network.propagateSatellite(satellite, new Date(time));
+      return { position: Coordinates.fromSceneAxes(position), velocity: Coordinates.fromSceneAxes(velocity) };
+    };
+
+    // Raising and deorbiting are monotonic, so the window ends bound the radius
+    const radii = [startTime, endTime].map(time => {
+      const current = state(time);
+      return current ? ConjunctionScreening.norm(current.position) : NaN;
+    });
+
+    return {
+      id,
+      name: id,
+      source: 'constellation',
+      minRadius: Math.min(...radii) - ConjunctionScreening.RADIAL_MARGIN,
+      maxRadius: Math.max(...radii) + ConjunctionScreening.RADIAL_MARGIN,
+      state
+    };
+  }
+
+  private catalogObjects(): ScreeningObject[] {
+    const objects: ScreeningObject[] = [];
+
+    this.catalogs.forEach(catalog => {
+      catalog.objects.forEach(object => {
+        const { meanMotion, eccentricity } = object.elements;
+        const meanMotionRad = meanMotion * 2 * Math.PI / 86400;
+        const semiMajorAxis = Math.cbrt(ConjunctionScreening.MU / (meanMotionRad * meanMotionRad));
+        const propagator = TleParser.getPropagator(object.elements);
+
+        objects.push({
+          id: object.id,
+          name: object.name,
+          source: catalog.name,
+          minRadius: semiMajorAxis * (1 - eccentricity) - ConjunctionScreening.RADIAL_MARGIN,
+          maxRadius: semiMajorAxis * (1 + eccentricity) + ConjunctionScreening.RADIAL_MARGIN,
+          state: time => propagator.propagate(new Date(time))
+        });
+      });
+    });
+
+    return objects;
+  }
+
+  private static relativeState(a: InertialState, b: InertialState): InertialState {
+    return {
+      position: { x: b.position.x - a.position.x, y: b.position.y - a.position.y, z: b.position.z - a.position.z },
+      velocity: { x: b.velocity.x - a.velocity.x, y: b.velocity.y - a.velocity.y, z: b.velocity.z - a.velocity.z }
+    };
+  }
+
+  private static dot(a: Position, b: Position): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+  }
+
+  private static cross(a: Position, b: Position): Position {
+    return {
+      x: a.y * b.z - a.z * b.y,
+      y: a.z * b.x - a.x * b.z,
+      z: a.x * b.y - a.y * b.x
+    };
+  }
+
+  private static norm(a: Position): number {
+    return Math.sqrt(this.dot(a, a));
+  }
+
+  private static unit(a: Position): Position {
+    const length = this.norm(a);
+    return { x: a.x / length, y: a.y / length, z: a.z / length };
+  }
+}
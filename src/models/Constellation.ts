@@ -0,0 +1,138 @@
+import { OrbitalParameters } from './SatelliteNetwork';
+import { AtmosphericDrag } from './AtmosphericDrag';
+
+export type SatelliteGeneration = 'v0.9' | 'v1.0' | 'v1.5' | 'v2.0';
+
+// Walker delta spreads planes over 360° of RAAN, Walker star over 180°
+export type WalkerPattern = 'delta' | 'star';
+
+export interface ShellDefinition {
+  name: string;
+  altitude: number;           // km above the mean Earth radius
+  inclination: number;        // degrees
+  planes: number;             // P
+  satellitesPerPlane: number; // S, so T = P * S
+  phasingFactor: number;      // F in i:T/P/F, 0 <= F < P
+  pattern: WalkerPattern;
+  generation: SatelliteGeneration;
+  raanOffset?: number;        // degrees, RAAN of the first plane
+  eccentricity?: number;
+  // Drag: Cd·A/m in m²/kg, or a TLE-style B* (1/earth radii) converted to one
+  ballisticCoefficient?: number;
+  bstar?: number;
+  // false: the slots start empty and are filled by scheduled launches
+  deployed?: boolean;
+}
+
+export interface ConstellationDefinition {
+  name: string;
+  shells: ShellDefinition[];
+}
+
+// One satellite slot produced by the generator
+export interface ConstellationSlot {
+  id: string;
+  shellIndex: number;
+  shellName: string;
+  plane: number;
+  slot: number;
+  generation: SatelliteGeneration;
+  orbitalParameters: OrbitalParameters;
+  ballisticCoefficient: number; // Cd·A/m, m²/kg
+  deployed: boolean;
+}
+
+/**
+ * Generates satellite slots for multi-shell Walker constellations.
+ *
+ * Walker i:T/P/F: planes are spaced evenly in RAAN, satellites evenly in mean
+ * anomaly within a plane, and each plane is phased F·360°/T ahead of the previous.
+ * SatelliteNetwork and SatelliteManager both build their satellites from these slots.
+ */
+export class ConstellationDesigner {
+  // Starlink-class bus flying its low-drag attitude: Cd 2.2, ~2.5 m² frontal area, ~260 kg
+  public static readonly DEFAULT_BALLISTIC_COEFFICIENT = 0.02; // m²/kg
+
+  public static validate(definition: ConstellationDefinition): void {
+    if (definition.shells.length === 0) {
+      throw new Error(`Constellation ${definition.name} has no shells`);
+    }
+
+    definition.shells.forEach(shell => {
+      const isCount = (value: number) => Number.isInteger(value) && value > 0;
+
+      if (!isCount(shell.planes) || !isCount(shell.satellitesPerPlane)) {
+        throw new Error(`Shell ${shell.name}: planes and satellitesPerPlane must be positive integers`);
+      }
+      if (!Number.isInteger(shell.phasingFactor) || shell.phasingFactor < 0 || shell.phasingFactor >= shell.planes) {
+        throw new Error(`Shell ${shell.name}: phasing factor must be an integer in [0, ${shell.planes - 1}]`);
+      }
+      if (!(shell.altitude > 0)) {
+        throw new Error(`Shell ${shell.name}: altitude must be positive`);
+      }
+      if (shell.inclination < 0 || shell.inclination > 180) {
+        throw new Error(`Shell ${shell.name}: inclination must be within [0, 180] degrees`);
+      }
+      if (shell.eccentricity !== undefined && (shell.eccentricity < 0 || shell.eccentricity >= 1)) {
+        throw new Error(`Shell ${shell.name}: eccentricity must be within [0, 1)`);
+      }
+      if ((shell.ballisticCoefficient !== undefined && shell.ballisticCoefficient < 0) ||
+          (shell.bstar !== undefined && shell.bstar < 0)) {
+        throw new Error(`Shell ${shell.name}: drag terms must not be negative`);
+      }
+    });
+  }
+
+  /** All satellite slots of a constellation, shell by shell and plane by plane */
+  public static generate(definition: ConstellationDefinition): ConstellationSlot[] {
+    this.validate(definition);
+
+    const slots: ConstellationSlot[] = [];
+
+    definition.shells.forEach((shell, shellIndex) => {
+      const total = shell.planes * shell.satellitesPerPlane;
+      const raanSpread = shell.pattern === 'star' ? 180 : 360;
+      const raanOffset = shell.raanOffset ?? 0;
+      const ballisticCoefficient = shell.ballisticCoefficient ??
+        (shell.bstar !== undefined
+          ? AtmosphericDrag.ballisticCoefficientFromBstar(shell.bstar)
+          : this.DEFAULT_BALLISTIC_COEFFICIENT);
+
+      for (let plane = 0; plane < shell.planes; plane++) {
+        const raan = (raanOffset + plane * raanSpread / shell.planes) % 360;
+        const planePhase = plane * shell.phasingFactor * 360 / total;
+
+        for (let slot = 0; slot < shell.satellitesPerPlane; slot++) {
+          slots.push({
+            id: this.satelliteId(shellIndex, plane, slot),
+            shellIndex,
+            shellName: shell.name,
+            plane,
+            slot,
+            generation: shell.generation,
+            orbitalParameters: {
+              altitude: shell.altitude,
+              inclination: shell.inclination,
+              eccentricity: shell.eccentricity ?? 0.0001, // Nearly circular
+              argumentOfPeriapsis: 0,
+              longitudeOfAscendingNode: raan,
+              meanAnomaly: (slot * 360 / shell.satellitesPerPlane + planePhase) % 360
+            },
+            ballisticCoefficient,
+            deployed: shell.deployed ?? true
+          });
+        }
+      }
+    });
+
+    return slots;
+  }
+
+  public static satelliteId(shellIndex: number, plane: number, slot: number): string {
+    return `sat_${shellIndex}_${plane}_${slot}`;
+  }
+
+  public static totalSatellites(definition: ConstellationDefinition): number {
+    return definition.shells.reduce((sum, shell) => sum + shell.planes * shell.satellitesPerPlane, 0);
+  }
+}
@@ -0,0 +1,106 @@
+import { Contact, ContactPlan } from './ContactPlanner';
+import { MinHeap } from './RoutingEngine';
+
+// A contact taken by a route; times are ms since the Unix epoch (UTC)
+export interface ContactHop {
+  contact: Contact;
+  departure: number; // transmission starts, at or after the contact opens
+  arrival: number;   // last bit received at the far end
+}
+
+export interface ContactRoute {
+  source: string;
+  destination: string;
+  departure: number; // ms, when the data was ready at the source
+  arrival: number;   // ms, earliest arrival at the destination
+  latency: number;   // seconds from departure to arrival, including waits for contacts
+  hops: ContactHop[];
+}
+
+/**
+ * Contact graph routing (DTN-style) over a predicted contact plan.
+ *
+ * Routes minimise the arrival time rather than a static cost: data waits at a node
+ * until its next contact opens (store-and-forward), is serialized at the contact's
+ * rate and arrives one light time later. A contact is usable only if the whole
+ * transmission fits before it closes. Arrival times never decrease with departure
+ * time, so Dijkstra over nodes keyed by earliest arrival finds the optimum.
+ */
+export class ContactGraphRouter {
+  private plan: ContactPlan | null = null;
+  private outgoing: Map<string, Contact[]> = new Map();
+
+  constructor(plan?: ContactPlan) {
+    if (plan) this.setPlan(plan);
+  }
+
+  public getPlan(): ContactPlan | null {
+    return this.plan;
+  }
+
+  public setPlan(plan: ContactPlan): void {
+    this.plan = plan;
+    this.outgoing = new Map();
+    plan.contacts.forEach(contact => {
+      let contacts = this.outgoing.get(contact.from);
+      if (!contacts) {
+        contacts = [];
+        this.outgoing.set(contact.from, contacts);
+      }
+      contacts.push(contact);
+    });
+  }
+
+  /**
+   * Earliest-arrival route for size KB of data ready at the source at a time (ms since
+   * the Unix epoch), skipping any excluded contacts; null when the destination cannot
+   * be reached within the plan.
+   */
+  public findRoute(
+    sourceId: string,
+    destinationId: string,
+    departure: number,
+    size: number = 0,
+    excluded?: Set<Contact>
+  ): ContactRoute | null {
+    if (!this.plan) return null;
+
+    const arrivals = new Map<string, number>([[sourceId, departure]]);
+    const previous = new Map<string, ContactHop>();
+    const closed = new Set<string>();
+    const open = new MinHeap();
+    open.push(sourceId, departure);
+
+    while (open.size > 0) {
+      const nodeId = open.pop()!;
+      if (closed.has(nodeId)) continue;
+      if (nodeId === destinationId) {
+        const hops: ContactHop[] = [];
+        for (let node = nodeId; node !== sourceId; node = hops[0].contact.from) {
+          hops.unshift(previous.get(node)!);
+        }
+        const arrival = arrivals.get(nodeId)!;
+        return { source: sourceId, destination: destinationId, departure, arrival, latency: (arrival - departure) / 1000, hops };
+      }
+      closed.add(nodeId);
+
+      const ready = arrivals.get(nodeId)!;
+      (this.outgoing.get(nodeId) ?? []).forEach(contact => {
+        if (contact.end <= ready || closed.has(contact.to) || excluded?.has(contact)) return;
+
+        const transmission = contact.rate > 0 ? size / (contact.rate * 1024 / 8) * 1000 : Infinity;
+        const start = Math.max(ready, contact.start);
+        if (start + transmission > contact.end) return;
+
+        const arrival = start + transmission + contact.owlt * 1000;
+        if (arrival < (arrivals.get(contact.to) ?? Infinity)) {
+          arrivals.set(contact.to, arrival);
+          previous.set(contact.to, { contact, departure: start, arrival });
+          open.push(contact.to, arrival);
+        }
+      });
+    }
+
+    return null;
+  }
+}
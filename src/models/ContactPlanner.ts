@@ -0,0 +1,247 @@
+import { SatelliteNetwork, Satellite, GroundStation, OrbitalState } from './SatelliteNetwork';
+import { Coordinates } from './Coordinates';
+import { LaserNode } from './LaserTerminals';
+import { isGatewayLinkVisible } from '../data/StarlinkGroundStations';
+
+// isl: laser link between satellites; ground: satellite and station; internet: station to its backbone;
+// access: user terminal and its serving satellite, added around routes rather than planned
+export type ContactType = 'isl' | 'ground' | 'internet' | 'access';
+
+// Window in which one node can send to another; times are ms since the Unix epoch (UTC)
+export interface Contact {
+  from: string;
+  to: string;
+  type: ContactType;
+  start: number;
+  end: number;
+  rate: number;  // Mbps
+  range: number; // km, longest over the window
+  owlt: number;  // seconds, one-way light time at that range
+}
+
+export interface ContactPlan {
+  start: number; // ms since the Unix epoch (UTC)
+  end: number;
+  stepSeconds: number; // sampling interval the windows were found at
+  contacts: Contact[]; // ordered by start
+}
+
+export interface ContactPlanOptions {
+  horizonSeconds?: number;
+  stepSeconds?: number;      // laser link assignment and visibility sampling interval
+  toleranceSeconds?: number; // ground window edge refinement accuracy
+}
+
+// A window still open at the current sample, between two nodes in both directions
+interface OpenWindow {
+  nodeA: string;
+  nodeB: string;
+  type: ContactType;
+  start: number;
+  lastSeen: number;
+  rateAB: number;
+  rateBA: number;
+  range: number;
+}
+
+/**
+ * Predicts every inter-satellite and ground link window over a horizon.
+ *
+ * Satellite states come from the network's ephemeris cache. Laser links are found by
+ * running a copy of the network's terminal assignment forward in steps, so predicted
+ * windows follow the same field-of-regard, slew and acquisition rules as the live
+ * links; a window ends at the last step its link was still up. Ground windows are
+ * sampled against each station's pointing mask and their edges refined by bisection.
+ * Health, power and beam state are held at their current values, while scheduled
+ * avoidance maneuvers take satellites off the laser mesh for their duration.
+ */
+export class ContactPlanner {
+  private network: SatelliteNetwork;
+
+  public static readonly DEFAULT_OPTIONS: Required<ContactPlanOptions> = {
+    horizonSeconds: 600,
+    stepSeconds: 10,
+    toleranceSeconds: 0.5
+  };
+
+  private static readonly LIGHT_SPEED = 299792.458; // km/s
+  private static readonly POLAR_RADIUS = 6356.752; // km, lowest a station can sit
+
+  constructor(network: SatelliteNetwork) {
+    this.network = network;
+  }
+
+  /** Contacts from a time (ms since the Unix epoch) to the end of the horizon */
+  public generate(start: number, options: ContactPlanOptions = {}): ContactPlan {
+    const { horizonSeconds, stepSeconds, toleranceSeconds } = { ...ContactPlanner.DEFAULT_OPTIONS, ...options };
+    if (!(horizonSeconds > 0) || !(stepSeconds > 0) || !(toleranceSeconds > 0)) {
+      throw new Error('Contact plan horizon and steps must be positive');
+    }
+
+    const end = start + horizonSeconds * 1000;
+    const step = stepSeconds * 1000;
+    const tolerance = toleranceSeconds * 1000;
+
+    const satellites = this.network.getAllSatellites()
+      .filter(satellite => satellite.status === 'operational' || satellite.status === 'degraded');
+    const laserSatellites = satellites.filter(satellite => satellite.power.islEnabled);
+    const beamSatellites = satellites.filter(satellite => satellite.power.activeBeams > 0);
+    const groundStations = this.network.getAllGroundStations().filter(groundStation => groundStation.status !== 'offline');
+    const maneuvers = new Map(this.network.getAvoidanceManeuvers().map(maneuver => [maneuver.satelliteId, maneuver]));
+
+    const ephemeris = this.network.getEphemerisCache();
+    const terminals = this.network.getLaserTerminals().clone();
+    const contacts: Contact[] = [];
+    const open = new Map<string, OpenWindow>();
+
+    for (let time = start, previous = start; ; previous = time, time = Math.min(time + step, end)) {
+      const states = new Map<string, OrbitalState>();
+      satellites.forEach(satellite => {
+        const state = ephemeris.getState(satellite.id, time);
+        if (state) states.set(satellite.id, state);
+      });
+      const seen = new Set<string>();
+
+      // Laser links: the copied assignment carries on from the live links
+      const nodes: LaserNode[] = laserSatellites
+        .filter(satellite => {
+          const maneuver = maneuvers.get(satellite.id);
+          return states.has(satellite.id) && !(maneuver && time >= maneuver.startTime && time < maneuver.endTime);
+        })
+        .map(satellite => {
+          const { position, velocity } = states.get(satellite.id)!;
+          return { id: satellite.id, position, velocity, generation: satellite.type };
+        });
+      terminals.update(nodes, time);
+
+      terminals.getLinks().forEach(link => {
+        if (link.state !== 'up') return;
+        const [nodeA, nodeB] = link.satelliteA < link.satelliteB
+          ? [link.satelliteA, link.satelliteB]
+          : [link.satelliteB, link.satelliteA];
+        const key = `${nodeA}|${nodeB}`;
+        seen.add(key);
+
+        const window = open.get(key);
+        if (window) {
+          window.lastSeen = time;
+          window.range = Math.max(window.range, link.range);
+        } else {
+          open.set(key, {
+            nodeA, nodeB, type: 'isl', start: Math.max(start, Math.min(link.upAt, time)), lastSeen: time,
+            rateAB: link.capacity, rateBA: link.capacity, range: link.range
+          });
+        }
+      });
+
+      // Ground links: satellites inside each station's pointing mask
+      const gmst = Coordinates.gmst(new Date(time));
+      groundStations.forEach(groundStation => {
+        const site = Coordinates.toSceneAxes(Coordinates.geodeticToEci({ ...groundStation.position, altitude: 0 }, gmst));
+        const aboveHorizonOnly = groundStation.elevationConstraints.minElevation >= 0;
+
+        beamSatellites.forEach(satellite => {
+          const state = states.get(satellite.id);
+          if (!state) return;
+
+          // Beyond the distance to the horizon the satellite cannot be above the mask
+          const { x, y, z } = state.position;
+          const dx = x - site.x;
+          const dy = y - site.y;
+          const dz = z - site.z;
+          if (aboveHorizonOnly && dx * dx + dy * dy + dz * dz > x * x + y * y + z * z - ContactPlanner.POLAR_RADIUS ** 2) return;
+
+          const look = this.lookAngles(groundStation, state, gmst);
+          if (!isGatewayLinkVisible(look.azimuth, look.elevation, groundStation.elevationConstraints)) return;
+
+          const key = `${satellite.id}|${groundStation.id}`;
+          seen.add(key);
+
+          const window = open.get(key);
+          if (window) {
+            window.lastSeen = time;
+            window.range = Math.max(window.range, look.range);
+          } else {
+            const visible = (t: number) => this.isVisible(groundStation, satellite, t);
+            open.set(key, {
+              nodeA: satellite.id, nodeB: groundStation.id, type: 'ground',
+              start: time === start ? start : this.bisectCrossing(visible, previous, time, tolerance),
+              lastSeen: time,
+              rateAB: satellite.bandwidth.downlink, rateBA: groundStation.bandwidth, range: look.range
+            });
+          }
+        });
+      });
+
+      // Windows not seen at this sample closed since the last one
+      open.forEach((window, key) => {
+        if (seen.has(key)) return;
+        let closed = window.lastSeen;
+        if (window.type === 'ground') {
+          const satellite = this.network.getSatellite(window.nodeA);
+          const groundStation = this.network.getGroundStation(window.nodeB);
+          if (satellite && groundStation) {
+            closed = this.bisectCrossing(t => this.isVisible(groundStation, satellite, t), window.lastSeen, time, tolerance);
+          }
+        }
+        this.closeWindow(window, closed, contacts);
+        open.delete(key);
+      });
+
+      if (time >= end) break;
+    }
+
+    open.forEach(window => this.closeWindow(window, window.lastSeen, contacts));
+
+    // Stations hand traffic to the internet for as long as they are connected to it
+    groundStations.forEach(groundStation => {
+      if (!groundStation.connections.internet) return;
+      contacts.push({
+        from: groundStation.id, to: 'internet', type: 'internet',
+        start, end, rate: groundStation.bandwidth, range: 0, owlt: 0
+      });
+    });
+
+    contacts.sort((a, b) => a.start - b.start);
+    return { start, end, stepSeconds, contacts };
+  }
+
+  private closeWindow(window: OpenWindow, end: number, contacts: Contact[]): void {
+    if (end <= window.start) return;
+
+    const owlt = window.range / ContactPlanner.LIGHT_SPEED;
+    const { nodeA, nodeB, type, start, range } = window;
+    contacts.push({ from: nodeA, to: nodeB, type, start, end, rate: window.rateAB, range, owlt });
+    contacts.push({ from: nodeB, to: nodeA, type, start, end, rate: window.rateBA, range, owlt });
+  }
+
+  private isVisible(groundStation: GroundStation, satellite: Satellite, time: number): boolean {
+    const state = this.network.getEphemerisCache().getState(satellite.id, time)
+      ?? this.network.propagateSatellite(satellite, new Date(time));
+    const look = this.lookAngles(groundStation, state, Coordinates.gmst(new Date(time)));
+    return isGatewayLinkVisible(look.azimuth, look.elevation, groundStation.elevationConstraints);
+  }
+
+  private lookAngles(groundStation: GroundStation, state: OrbitalState, gmst: number) {
+    const observer = { ...groundStation.position, altitude: 0 };
+    return Coordinates.lookAnglesEci(observer, Coordinates.fromSceneAxes(state.position), gmst);
+  }
+
+  // First time (within tolerance) the visibility differs from what it was at before
+  private bisectCrossing(visible: (time: number) => boolean, before: number, after: number, tolerance: number): number {
+    const initial = visible(before);
+    let low = before;
+    let high = after;
+
+    while (high - low > tolerance) {
+      const mid = (low + high) / 2;
+      if (visible(mid) === initial) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return high;
+  }
+}
@@ -0,0 +1,246 @@
+import { Position, Velocity } from './SatelliteNetwork';
+
+export interface Geodetic {
+  latitude: number;  // degrees, geodetic (WGS84)
+  longitude: number; // degrees, east positive
+  altitude: number;  // km above the WGS84 ellipsoid
+}
+
+export interface Enu {
+  east: number;  // km
+  north: number; // km
+  up: number;    // km
+}
+
+export interface LookAngles {
+  azimuth: number;   // degrees clockwise from true north, [0, 360)
+  elevation: number; // degrees above the local horizon
+  range: number;     // km
+  rangeRate: number; // km/s, positive when receding
+}
+
+/**
+ * Shared coordinate frames and look-angle math.
+ *
+ * Frames (all Cartesian values in km, km/s):
+ * - Geodetic: WGS84 latitude/longitude/altitude
+ * - ECEF: Earth-centred Earth-fixed, z through the north pole, x through Greenwich
+ * - ECI/TEME: inertial frame SGP4 propagates in; rotated from ECEF by GMST about z
+ *   (polar motion and nutation are neglected, UT1 is approximated by UTC)
+ * - ENU: topocentric east/north/up at an observer
+ * - Scene axes: the Y-up three.js convention (x, z, -y) applied to either ECI or ECEF.
+ *   Scene units are km; the Earth mesh is rotated by GMST about +Y.
+ */
+export class Coordinates {
+  // WGS84 ellipsoid
+  public static readonly WGS84_A = 6378.137; // km, equatorial radius
+  public static readonly WGS84_F = 1 / 298.257223563;
+  public static readonly WGS84_E2 = Coordinates.WGS84_F * (2 - Coordinates.WGS84_F);
+  public static readonly EARTH_ROTATION_RATE = 7.292115e-5; // rad/s
+
+  private static readonly DEG = Math.PI / 180;
+
+  /** Julian date (UTC) of a calendar date */
+  public static julianDate(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5;
+  }
+
+  /** Greenwich mean sidereal time in radians (IAU-82), [0, 2π) */
+  public static gmst(date: Date): number {
+    const tut1 = (this.julianDate(date) - 2451545.0) / 36525.0;
+    let gmst = -6.2e-6 * tut1 * tut1 * tut1 + 0.093104 * tut1 * tut1 +
+      (876600.0 * 3600 + 8640184.812866) * tut1 + 67310.54841; // seconds
+    gmst = (gmst * this.DEG / 240.0) % (2 * Math.PI); // 360/86400 = 1/240
+
+    return gmst < 0 ? gmst + 2 * Math.PI : gmst;
+  }
+
+  public static geodeticToEcef(geodetic: Geodetic): Position {
+    const lat = geodetic.latitude * this.DEG;
+    const lon = geodetic.longitude * this.DEG;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+
+    // Prime vertical radius of curvature
+    const n = this.WGS84_A / Math.sqrt(1 - this.WGS84_E2 * sinLat * sinLat);
+
+    return {
+      x: (n + geodetic.altitude) * cosLat * Math.cos(lon),
+      y: (n + geodetic.altitude) * cosLat * Math.sin(lon),
+      z: (n * (1 - this.WGS84_E2) + geodetic.altitude) * sinLat
+    };
+  }
+
+  public static ecefToGeodetic(ecef: Position): Geodetic {
+    const p = Math.sqrt(ecef.x * ecef.x + ecef.y * ecef.y);
+    const longitude = Math.atan2(ecef.y, ecef.x);
+
+    // Fixed-point iteration on latitude; converges to sub-millimetre in a few steps for LEO
+    let lat = Math.atan2(ecef.z, p * (1 - this.WGS84_E2));
+    for (let i = 0; i < 5; i++) {
+      const sinLat = Math.sin(lat);
+      const n = this.WGS84_A / Math.sqrt(1 - this.WGS84_E2 * sinLat * sinLat);
+      lat = Math.atan2(ecef.z + this.WGS84_E2 * n * sinLat, p);
+    }
+
+    const sinLat = Math.sin(lat);
+    const altitude = p * Math.cos(lat) + ecef.z * sinLat -
+      this.WGS84_A * Math.sqrt(1 - this.WGS84_E2 * sinLat * sinLat);
+
+    return {
+      latitude: lat / this.DEG,
+      longitude: longitude / this.DEG,
+      altitude
+    };
+  }
+
+  public static eciToEcef(eci: Position, gmst: number): Position {
+    const cosT = Math.cos(gmst);
+    const sinT = Math.sin(gmst);
+
+    return {
+      x: cosT * eci.x + sinT * eci.y,
+      y: -sinT * eci.x + cosT * eci.y,
+      z: eci.z
+    };
+  }
+
+  public static ecefToEci(ecef: Position, gmst: number): Position {
+    return this.eciToEcef(ecef, -gmst);
+  }
+
+  /** Earth-relative velocity: rotate into ECEF and remove the frame rotation (ω × r) */
+  public static eciVelocityToEcef(eci: Position, velocity: Velocity, gmst: number): Velocity {
+    const r = this.eciToEcef(eci, gmst);
+    const v = this.eciToEcef(velocity, gmst);
+
+    return {
+      x: v.x + this.EARTH_ROTATION_RATE * r.y,
+      y: v.y - this.EARTH_ROTATION_RATE * r.x,
+      z: v.z
+    };
+  }
+
+  public static ecefVelocityToEci(ecef: Position, velocity: Velocity, gmst: number): Velocity {
+    const v: Velocity = {
+      x: velocity.x - this.EARTH_ROTATION_RATE * ecef.y,
+      y: velocity.y + this.EARTH_ROTATION_RATE * ecef.x,
+      z: velocity.z
+    };
+
+    return this.ecefToEci(v, gmst);
+  }
+
+  public static geodeticToEci(geodetic: Geodetic, gmst: number): Position {
+    return this.ecefToEci(this.geodeticToEcef(geodetic), gmst);
+  }
+
+  public static eciToGeodetic(eci: Position, gmst: number): Geodetic {
+    return this.ecefToGeodetic(this.eciToEcef(eci, gmst));
+  }
+
+  /** Topocentric east/north/up offset of an ECEF point from an observer */
+  public static ecefToEnu(target: Position, observer: Geodetic): Enu {
+    const origin = this.geodeticToEcef(observer);
+    return this.rotateToEnu(
+      { x: target.x - origin.x, y: target.y - origin.y, z: target.z - origin.z },
+      observer
+    );
+  }
+
+  /** ENU vector at an observer expressed as an ECEF vector (direction only, no origin shift) */
+  public static enuToEcefVector(enu: Enu, observer: Geodetic): Position {
+    const lat = observer.latitude * this.DEG;
+    const lon = observer.longitude * this.DEG;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+    const sinLon = Math.sin(lon);
+    const cosLon = Math.cos(lon);
+
+    return {
+      x: -sinLon * enu.east - sinLat * cosLon * enu.north + cosLat * cosLon * enu.up,
+      y: cosLon * enu.east - sinLat * sinLon * enu.north + cosLat * sinLon * enu.up,
+      z: cosLat * enu.north + sinLat * enu.up
+    };
+  }
+
+  /**
+   * Azimuth, elevation, range and range-rate of a target from a ground observer.
+   * Target state is Earth-fixed; the observer is stationary in ECEF.
+   */
+  public static lookAngles(observer: Geodetic, target: Position, targetVelocity?: Velocity): LookAngles {
+    const origin = this.geodeticToEcef(observer);
+    const rho = { x: target.x - origin.x, y: target.y - origin.y, z: target.z - origin.z };
+    const range = Math.sqrt(rho.x * rho.x + rho.y * rho.y + rho.z * rho.z);
+    const enu = this.rotateToEnu(rho, observer);
+
+    const azimuth = (Math.atan2(enu.east, enu.north) / this.DEG + 360) % 360;
+
+    const elevation = range > 0 ? Math.asin(Math.max(-1, Math.min(1, enu.up / range))) / this.DEG : 90;
+
+    const rangeRate = targetVelocity && range > 0
+      ? (rho.x * targetVelocity.x + rho.y * targetVelocity.y + rho.z * targetVelocity.z) / range
+      : 0;
+
+    return { azimuth, elevation, range, rangeRate };
+  }
+
+  /** Look angles to a target given in the inertial frame at Earth rotation angle gmst */
+  public static lookAnglesEci(observer: Geodetic, target: Position, gmst: number, targetVelocity?: Velocity): LookAngles {
+    const ecef = this.eciToEcef(target, gmst);
+    const velocity = targetVelocity ? this.eciVelocityToEcef(target, targetVelocity, gmst) : undefined;
+    return this.lookAngles(observer, ecef, velocity);
+  }
+
+  /** Look angles between two Earth-fixed points; the observer's geodetic position is derived */
+  public static lookAnglesEcef(observer: Position, target: Position, targetVelocity?: Velocity): LookAngles {
+    return this.lookAngles(this.ecefToGeodetic(observer), target, targetVelocity);
+  }
+
+  /**
+   * Look angles between two Earth-fixed scene positions (Y-up axes).
+   * unitsPerKm converts callers that work in metres (1000) or scaled scenes.
+   */
+  public static sceneLookAngles(observer: Position, target: Position, unitsPerKm: number = 1): LookAngles {
+    const toKm = (p: Position): Position => {
+      const axes = this.fromSceneAxes(p);
+      return { x: axes.x / unitsPerKm, y: axes.y / unitsPerKm, z: axes.z / unitsPerKm };
+    };
+    return this.lookAnglesEcef(toKm(observer), toKm(target));
+  }
+
+  /** ECI or ECEF (z = north) to the Y-up scene axes used by the renderer: (x, z, -y) */
+  public static toSceneAxes(p: Position): Position {
+    return { x: p.x, y: p.z, z: -p.y };
+  }
+
+  /** Inverse of toSceneAxes */
+  public static fromSceneAxes(p: Position): Position {
+    return { x: p.x, y: -p.z, z: p.y };
+  }
+
+  /** Inertial scene position to Earth-fixed (ECEF) km */
+  public static sceneToEcef(p: Position, gmst: number): Position {
+    return this.eciToEcef(this.fromSceneAxes(p), gmst);
+  }
+
+  /** Earth-fixed (ECEF) km to an inertial scene position */
+  public static ecefToScene(p: Position, gmst: number): Position {
+    return this.toSceneAxes(this.ecefToEci(p, gmst));
+  }
+
+  private static rotateToEnu(rho: Position, observer: Geodetic): Enu {
+    const lat = observer.latitude * this.DEG;
+    const lon = observer.longitude * this.DEG;
+    const sinLat = Math.sin(lat);
+    const cosLat = Math.cos(lat);
+    const sinLon = Math.sin(lon);
+    const cosLon = Math.cos(lon);
+
+    return {
+      east: -sinLon * rho.x + cosLon * rho.y,
+      north: -sinLat * cosLon * rho.x - sinLat * sinLon * rho.y + cosLat * rho.z,
+      up: cosLat * cosLon * rho.x + cosLat * sinLon * rho.y + sinLat * rho.z
+    };
+  }
+}
@@ -0,0 +1,94 @@
+import { Position } from './SatelliteNetwork';
+import { Coordinates } from './Coordinates';
+
+// Cylindrical: Earth's shadow as a cylinder, umbra only; conical: umbra and penumbra cones
+export type ShadowModel = 'cylindrical' | 'conical';
+
+export type EclipseState = 'sunlit' | 'penumbra' | 'umbra';
+
+export interface EclipseEvent {
+  satelliteId: string;
+  type: 'entry' | 'exit'; // entry into penumbra or umbra, exit back into full sunlight
+  time: Date;
+  state: EclipseState;    // state after the transition
+}
+
+/**
+ * Solar ephemeris and Earth shadow geometry.
+ *
+ * The Sun follows the Astronomical Almanac low-precision series (about 0.01°
+ * between 1950 and 2050), in the inertial frame satellites are propagated in.
+ * The conical model treats Earth and Sun as spheres and returns the visible
+ * fraction of the solar disk (Montenbruck & Gill, section 3.4.2).
+ */
+export class Eclipse {
+  public static readonly SUN_RADIUS = 696000; // km
+  public static readonly AU = 149597870.7; // km
+
+  private static readonly DEG = Math.PI / 180;
+
+  /** Geocentric inertial position of the Sun (km) */
+  public static sunPosition(date: Date): Position {
+    const t = (Coordinates.julianDate(date) - 2451545.0) / 36525.0;
+
+    const meanLongitude = 280.460 + 36000.771 * t;
+    const meanAnomaly = (357.5291092 + 35999.05034 * t) * this.DEG;
+    const eclipticLongitude = (meanLongitude + 1.914666471 * Math.sin(meanAnomaly) +
+      0.019994643 * Math.sin(2 * meanAnomaly)) * this.DEG;
+    const distance = (1.000140612 - 0.016708617 * Math.cos(meanAnomaly) -
+      0.000139589 * Math.cos(2 * meanAnomaly)) * this.AU;
+    const obliquity = (23.439291 - 0.0130042 * t) * this.DEG;
+
+    return {
+      x: distance * Math.cos(eclipticLongitude),
+      y: distance * Math.cos(obliquity) * Math.sin(eclipticLongitude),
+      z: distance * Math.sin(obliquity) * Math.sin(eclipticLongitude)
+    };
+  }
+
+  /** Fraction of the solar disk visible from a position (inertial, km): 1 sunlit, 0 umbra */
+  public static sunlitFraction(position: Position, sun: Position, model: ShadowModel = 'conical'): number {
+    return model === 'cylindrical'
+      ? this.cylindricalShadow(position, sun)
+      : this.conicalShadow(position, sun);
+  }
+
+  public static stateOf(sunlitFraction: number): EclipseState {
+    if (sunlitFraction >= 1) return 'sunlit';
+    return sunlitFraction <= 0 ? 'umbra' : 'penumbra';
+  }
+
+  private static cylindricalShadow(position: Position, sun: Position): number {
+    const sunDistance = Math.hypot(sun.x, sun.y, sun.z);
+    const along = (position.x * sun.x + position.y * sun.y + position.z * sun.z) / sunDistance;
+    if (along >= 0) return 1;
+
+    // Distance from the Earth-Sun line on the night side
+    const radius2 = position.x * position.x + position.y * position.y + position.z * position.z;
+    return radius2 - along * along < Coordinates.WGS84_A * Coordinates.WGS84_A ? 0 : 1;
+  }
+
+  private static conicalShadow(position: Position, sun: Position): number {
+    const toSun = { x: sun.x - position.x, y: sun.y - position.y, z: sun.z - position.z };
+    const sunDistance = Math.hypot(toSun.x, toSun.y, toSun.z);
+    const radius = Math.hypot(position.x, position.y, position.z);
+
+    // Apparent radii of Sun and Earth, and the separation of their centers
+    const a = Math.asin(Math.min(1, this.SUN_RADIUS / sunDistance));
+    const b = Math.asin(Math.min(1, Coordinates.WGS84_A / radius));
+    const cosC = -(position.x * toSun.x + position.y * toSun.y + position.z * toSun.z) / (radius * sunDistance);
+    const c = Math.acos(Math.max(-1, Math.min(1, cosC)));
+
+    if (c >= a + b) return 1;
+    if (c <= b - a) return 0;
+    if (c <= a - b) return 1 - (b * b) / (a * a); // annular: Earth entirely inside the solar disk
+
+    // Partial overlap of the two disks
+    const x = (c * c + a * a - b * b) / (2 * c);
+    const y = Math.sqrt(Math.max(0, a * a - x * x));
+    const overlap = a * a * Math.acos(Math.max(-1, Math.min(1, x / a))) +
+      b * b * Math.acos(Math.max(-1, Math.min(1, (c - x) / b))) - c * y;
+
+    return Math.max(0, Math.min(1, 1 - overlap / (Math.PI * a * a)));
+  }
+}
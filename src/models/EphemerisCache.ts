@@ -0,0 +1,275 @@
+import { OrbitalState, Position } from './SatelliteNetwork';
+
+export type InterpolationMethod = 'hermite' | 'lagrange';
+
+export interface EphemerisCacheOptions {
+  toleranceKm?: number;         // interpolation error bound used to pick the node step
+  stepSeconds?: number;         // fixed node step, overriding toleranceKm
+  method?: InterpolationMethod;
+  lagrangeOrder?: number;       // nodes per Lagrange interpolation, even
+  blockSize?: number;           // nodes computed together on a cache miss
+  maxBlocksPerSatellite?: number;
+  minRadius?: number;           // km, lowest orbit the error bound must hold for
+}
+
+// Exact state of a satellite at a time in ms since the Unix epoch (UTC), null if it does not exist
+export type StateProvider = (satelliteId: string, time: number) => OrbitalState | null;
+
+/**
+ * Shared cache of state vectors on a fixed time grid, interpolated between nodes.
+ *
+ * Nodes are computed in blocks on first use and kept per satellite (oldest blocks
+ * are evicted first). Cubic Hermite uses positions and velocities of the two
+ * bracketing nodes; Lagrange uses positions and velocities of the surrounding
+ * lagrangeOrder nodes. For a circular orbit each component's n-th derivative is
+ * bounded by r·ωⁿ, which gives the error bound the node step is chosen from.
+ */
+export class EphemerisCache {
+  private provider: StateProvider;
+  private options: Required<Omit<EphemerisCacheOptions, 'stepSeconds'>>;
+  private step: number; // ms between nodes
+
+  // satelliteId -> block index -> 6 values (x, y, z, vx, vy, vz) per node, NaN when unavailable
+  private blocks: Map<string, Map<number, Float64Array>> = new Map();
+
+  private static readonly DEFAULT_OPTIONS: Required<Omit<EphemerisCacheOptions, 'stepSeconds'>> = {
+    toleranceKm: 0.001,
+    method: 'hermite',
+    lagrangeOrder: 8,
+    blockSize: 16,
+    maxBlocksPerSatellite: 64,
+    minRadius: 6371 + 200
+  };
+
+  private static readonly MU = 398600.4418; // km³/s²
+
+  constructor(provider: StateProvider, options: EphemerisCacheOptions = {}) {
+    this.provider = provider;
+    this.options = { ...EphemerisCache.DEFAULT_OPTIONS, ...options };
+
+    const { lagrangeOrder, blockSize, toleranceKm } = this.options;
+    if (this.options.method === 'lagrange' && (lagrangeOrder < 2 || lagrangeOrder % 2 !== 0)) {
+      throw new Error('Lagrange order must be an even number of at least 2');
+    }
+    if (!Number.isInteger(blockSize) || blockSize < 1) {
+      throw new Error('Block size must be a positive integer');
+    }
+    if (options.stepSeconds === undefined && !(toleranceKm > 0)) {
+      throw new Error('Interpolation tolerance must be positive');
+    }
+
+    // Whole milliseconds, since node times go through Date; rounding down keeps the bound
+    this.step = Math.floor((options.stepSeconds ?? this.stepForTolerance(toleranceKm)) * 1000);
+    if (!(this.step > 0)) {
+      throw new Error('Ephemeris step must be positive');
+    }
+  }
+
+  public getStepSeconds(): number {
+    return this.step / 1000;
+  }
+
+  /** Worst-case interpolated position error (km) at the configured step and minimum radius */
+  public getErrorBound(): number {
+    return this.errorBound(this.step / 1000);
+  }
+
+  /** Interpolated state at a time in ms since the Unix epoch; null if the satellite is unknown */
+  public getState(satelliteId: string, time: number): OrbitalState | null {
+    const index = Math.floor(time / this.step);
+
+    // Exactly on a node: no interpolation needed
+    if (time === index * this.step) {
+      return this.getNode(satelliteId, index);
+    }
+
+    return this.options.method === 'hermite'
+      ? this.interpolateHermite(satelliteId, index, time)
+      : this.interpolateLagrange(satelliteId, index, time);
+  }
+
+  public getPosition(satelliteId: string, time: number): Position | null {
+    return this.getState(satelliteId, time)?.position ?? null;
+  }
+
+  /** Drop cached nodes of one satellite (all when omitted) after its trajectory changed */
+  public invalidate(satelliteId?: string): void {
+    if (satelliteId === undefined) {
+      this.blocks.clear();
+    } else {
+      this.blocks.delete(satelliteId);
+    }
+  }
+
+  /**
+   * Cubic Lagrange through the four samples around a time, for trajectories known
+   * only as positions. Times in any unit, ascending.
+   */
+  public static interpolatePositions(times: number[], positions: Position[], time: number): Position {
+    if (positions.length === 1) return { ...positions[0] };
+
+    let index = 0;
+    while (index < times.length - 2 && times[index + 1] < time) index++;
+    const first = Math.max(0, Math.min(index - 1, times.length - 4));
+    const last = Math.min(times.length, first + 4);
+
+    return this.lagrange(times.slice(first, last), positions.slice(first, last), time);
+  }
+
+  // Largest step meeting the tolerance: bound(h) scales with hⁿ, so solve for h directly
+  private stepForTolerance(tolerance: number): number {
+    const order = this.options.method === 'hermite' ? 4 : this.options.lagrangeOrder;
+    return Math.pow(tolerance / this.errorBound(1), 1 / order);
+  }
+
+  private errorBound(stepSeconds: number): number {
+    const radius = this.options.minRadius;
+    const omega = Math.sqrt(EphemerisCache.MU / Math.pow(radius, 3));
+
+    if (this.options.method === 'hermite') {
+      // |f - p| <= h⁴/384 · max|f⁗|
+      return Math.pow(stepSeconds, 4) / 384 * radius * Math.pow(omega, 4);
+    }
+
+    // |f - p| <= max|Π(t - tᵢ)| / n! · max|f⁽ⁿ⁾|, with Π largest in the central interval
+    const order = this.options.lagrangeOrder;
+    let product = 1;
+    let factorial = 1;
+    for (let i = 1; i <= order; i++) {
+      factorial *= i;
+    }
+    for (let k = 1; k <= order / 2; k++) {
+      product *= Math.pow((k - 0.5) * stepSeconds, 2);
+    }
+    return product / factorial * radius * Math.pow(omega, order);
+  }
+
+  private interpolateHermite(satelliteId: string, index: number, time: number): OrbitalState | null {
+    const start = this.getNode(satelliteId, index);
+    const end = this.getNode(satelliteId, index + 1);
+    if (!start || !end) return null;
+
+    const h = this.step / 1000; // s
+    const s = (time - index * this.step) / this.step;
+    const s2 = s * s;
+    const s3 = s2 * s;
+
+    // Basis functions and their derivatives with respect to s
+    const h00 = 2 * s3 - 3 * s2 + 1;
+    const h10 = s3 - 2 * s2 + s;
+    const h01 = -2 * s3 + 3 * s2;
+    const h11 = s3 - s2;
+    const d00 = 6 * s2 - 6 * s;
+    const d10 = 3 * s2 - 4 * s + 1;
+    const d01 = -6 * s2 + 6 * s;
+    const d11 = 3 * s2 - 2 * s;
+
+    const component = (axis: 'x' | 'y' | 'z') => {
+      const p0 = start.position[axis];
+      const p1 = end.position[axis];
+      const v0 = start.velocity[axis] * h;
+      const v1 = end.velocity[axis] * h;
+      return {
+        position: h00 * p0 + h10 * v0 + h01 * p1 + h11 * v1,
+        velocity: (d00 * p0 + d10 * v0 + d01 * p1 + d11 * v1) / h
+      };
+    };
+
+    const x = component('x');
+    const y = component('y');
+    const z = component('z');
+
+    return {
+      position: { x: x.position, y: y.position, z: z.position },
+      velocity: { x: x.velocity, y: y.velocity, z: z.velocity }
+    };
+  }
+
+  private interpolateLagrange(satelliteId: string, index: number, time: number): OrbitalState | null {
+    const half = this.options.lagrangeOrder / 2;
+    const times: number[] = [];
+    const positions: Position[] = [];
+    const velocities: Position[] = [];
+
+    for (let k = index - half + 1; k <= index + half; k++) {
+      const node = this.getNode(satelliteId, k);
+      if (!node) return null;
+      times.push(k * this.step);
+      positions.push(node.position);
+      velocities.push(node.velocity);
+    }
+
+    return {
+      position: EphemerisCache.lagrange(times, positions, time),
+      velocity: EphemerisCache.lagrange(times, velocities, time)
+    };
+  }
+
+  private static lagrange(times: number[], values: Position[], time: number): Position {
+    const result = { x: 0, y: 0, z: 0 };
+
+    for (let i = 0; i < times.length; i++) {
+      let weight = 1;
+      for (let j = 0; j < times.length; j++) {
+        if (j !== i) {
+          weight *= (time - times[j]) / (times[i] - times[j]);
+        }
+      }
+      result.x += weight * values[i].x;
+      result.y += weight * values[i].y;
+      result.z += weight * values[i].z;
+    }
+
+    return result;
+  }
+
+  private getNode(satelliteId: string, index: number): OrbitalState | null {
+    const { blockSize } = this.options;
+    const blockIndex = Math.floor(index / blockSize);
+    const block = this.getBlock(satelliteId, blockIndex);
+    const offset = (index - blockIndex * blockSize) * 6;
+
+    if (isNaN(block[offset])) return null;
+
+    return {
+      position: { x: block[offset], y: block[offset + 1], z: block[offset + 2] },
+      velocity: { x: block[offset + 3], y: block[offset + 4], z: block[offset + 5] }
+    };
+  }
+
+  private getBlock(satelliteId: string, blockIndex: number): Float64Array {
+    let satelliteBlocks = this.blocks.get(satelliteId);
+    if (!satelliteBlocks) {
+      satelliteBlocks = new Map();
+      this.blocks.set(satelliteId, satelliteBlocks);
+    }
+
+    let block = satelliteBlocks.get(blockIndex);
+    if (block) return block;
+
+    const { blockSize, maxBlocksPerSatellite } = this.options;
+    block = new Float64Array(blockSize * 6);
+    for (let i = 0; i < blockSize; i++) {
+      const state = this.provider(satelliteId, (blockIndex * blockSize + i) * this.step);
+      const offset = i * 6;
+      if (!state) {
+        block.fill(NaN, offset, offset + 6);
+        continue;
+      }
+      block[offset] = state.position.x;
+      block[offset + 1] = state.position.y;
+      block[offset + 2] = state.position.z;
+      block[offset + 3] = state.velocity.x;
+      block[offset + 4] = state.velocity.y;
+      block[offset + 5] = state.velocity.z;
+    }
+
+    // Maps iterate in insertion order, so the first key is the oldest block
+    if (satelliteBlocks.size >= maxBlocksPerSatellite) {
+      satelliteBlocks.delete(satelliteBlocks.keys().next().value as number);
+    }
+    satelliteBlocks.set(blockIndex, block);
+
+    return block;
+  }
+}
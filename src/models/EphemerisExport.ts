@@ -0,0 +1,160 @@
+import { SatelliteNetwork, Position, Velocity } from './SatelliteNetwork';
+import { Coordinates, Geodetic } from './Coordinates';
+
+// TEME: the inertial frame satellites are propagated in; ITRF: Earth-fixed (ECEF)
+export type EphemerisFrame = 'TEME' | 'ITRF';
+
+export interface EphemerisRequest {
+  satelliteIds: string[];
+  start: Date;
+  end: Date;
+  stepSeconds: number;
+  frame?: EphemerisFrame;
+}
+
+export interface EphemerisSample {
+  time: Date;
+  position: Position; // km
+  velocity: Velocity; // km/s
+  geodetic: Geodetic;
+}
+
+export interface Ephemeris {
+  satelliteId: string;
+  frame: EphemerisFrame;
+  samples: EphemerisSample[];
+}
+
+/**
+ * Samples satellite trajectories and writes them as CCSDS OEM (KVN) or flat CSV.
+ *
+ * States come from SatelliteNetwork.propagateSatellite, so exported trajectories
+ * match what the simulation shows. Time tags are UTC.
+ */
+export class EphemerisExport {
+  private network: SatelliteNetwork;
+
+  // Guards the browser against accidentally huge exports
+  private static readonly MAX_SAMPLES = 500000;
+
+  constructor(network: SatelliteNetwork) {
+    this.network = network;
+  }
+
+  public getCurrentTime(): Date {
+    return this.network.getClock().getDate();
+  }
+
+  /** Trajectories of the requested satellites on a regular grid from start to end inclusive */
+  public sample(request: EphemerisRequest): Ephemeris[] {
+    const startTime = request.start.getTime();
+    const endTime = request.end.getTime();
+    const frame = request.frame ?? 'TEME';
+
+    if (isNaN(startTime) || isNaN(endTime) || endTime <= startTime) {
+      throw new Error('Invalid ephemeris time range');
+    }
+    if (!(request.stepSeconds > 0)) {
+      throw new Error('Ephemeris step must be positive');
+    }
+
+    const step = request.stepSeconds * 1000;
+    const times: number[] = [];
+    for (let time = startTime; time < endTime; time += step) {
+      times.push(time);
+    }
+    times.push(endTime);
+
+    if (times.length * request.satelliteIds.length > EphemerisExport.MAX_SAMPLES) {
+      throw new Error(`Ephemeris request exceeds ${EphemerisExport.MAX_SAMPLES} samples; use a longer step or fewer satellites`);
+    }
+
+    return request.satelliteIds.map(satelliteId => {
+      const satellite = this.network.getSatellite(satelliteId);
+      if (!satellite) {
+        throw new Error(`Unknown satellite: ${satelliteId}`);
+      }
+
+      const samples = times.map(time => {
+        const date = new Date(time);
+        const state = this.network.propagateSatellite(satellite, date);
+        const gmst = Coordinates.gmst(date);
+        const eci = Coordinates.fromSceneAxes(state.position);
+        const eciVelocity = Coordinates.fromSceneAxes(state.velocity);
+
+        return {
+          time: date,
+          position: frame === 'TEME' ? eci : Coordinates.eciToEcef(eci, gmst),
+          velocity: frame === 'TEME' ? eciVelocity : Coordinates.eciVelocityToEcef(eci, eciVelocity, gmst),
+          geodetic: Coordinates.eciToGeodetic(eci, gmst)
+        };
+      });
+
+      return { satelliteId, frame, samples };
+    });
+  }
+
+  /** CCSDS 502.0-B-2 Orbit Ephemeris Message, one segment per satellite */
+  public static toOem(ephemerides: Ephemeris[], originator: string = 'STARLINK-SIMULATOR'): string {
+    const lines: string[] = [
+      'CCSDS_OEM_VERS = 2.0',
+      `CREATION_DATE = ${this.formatTime(new Date())}`,
+      `ORIGINATOR = ${originator}`
+    ];
+
+    ephemerides.forEach(ephemeris => {
+      if (ephemeris.samples.length === 0) return;
+
+      lines.push(
+        '',
+        'META_START',
+        `OBJECT_NAME = ${ephemeris.satelliteId}`,
+        `OBJECT_ID = ${ephemeris.satelliteId}`,
+        'CENTER_NAME = EARTH',
+        `REF_FRAME = ${ephemeris.frame}`,
+        'TIME_SYSTEM = UTC',
+        `START_TIME = ${this.formatTime(ephemeris.samples[0].time)}`,
+        `STOP_TIME = ${this.formatTime(ephemeris.samples[ephemeris.samples.length - 1].time)}`,
+        'META_STOP',
+        ''
+      );
+
+      ephemeris.samples.forEach(({ time, position, velocity }) => {
+        lines.push([
+          this.formatTime(time),
+          ...[position.x, position.y, position.z].map(value => value.toFixed(6)),
+          ...[velocity.x, velocity.y, velocity.z].map(value => value.toFixed(9))
+        ].join(' '));
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  /** One row per sample: time, frame, x/y/z (km), vx/vy/vz (km/s), lat/lon (deg), alt (km) */
+  public static toCsv(ephemerides: Ephemeris[]): string {
+    const lines = ['satellite_id,time_utc,frame,x_km,y_km,z_km,vx_km_s,vy_km_s,vz_km_s,latitude_deg,longitude_deg,altitude_km'];
+
+    ephemerides.forEach(ephemeris => {
+      ephemeris.samples.forEach(({ time, position, velocity, geodetic }) => {
+        lines.push([
+          ephemeris.satelliteId,
+          time.toISOString(),
+          ephemeris.frame,
+          ...[position.x, position.y, position.z].map(value => value.toFixed(6)),
+          ...[velocity.x, velocity.y, velocity.z].map(value => value.toFixed(9)),
+          geodetic.latitude.toFixed(6),
+          geodetic.longitude.toFixed(6),
+          geodetic.altitude.toFixed(6)
+        ].join(','));
+      });
+    });
+
+    return lines.join('\n') + '\n';
+  }
+
+  // CCSDS time code without the zone designator, which OEM does not allow
+  private static formatTime(date: Date): string {
+    return date.toISOString().replace('Z', '');
+  }
+}
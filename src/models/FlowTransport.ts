@@ -0,0 +1,568 @@
+import { EventEmitter } from 'events';
+import { SatelliteNetwork, DataPacket, NodeType } from './SatelliteNetwork';
+
+// reno: slow start, then additive increase and halving on loss; bbr: window from the
+// measured bottleneck bandwidth and minimum RTT, not cut on loss
+export type CongestionControl = 'reno' | 'bbr';
+
+export type FlowStatus = 'active' | 'completed' | 'failed';
+
+// timeout: too many retransmission timeouts in a row; endpoint-lost: a node it runs between is gone;
+// clock-jump: in progress across a jump of the simulation clock
+export type FlowFailureReason = 'timeout' | 'endpoint-lost' | 'clock-jump';
+
+export interface FlowTransportConfig {
+  segmentSize: number;       // KB of data per packet
+  acknowledgmentSize: number; // KB
+  initialWindow: number;     // segments
+  initialRto: number;        // seconds
+  minRto: number;            // seconds
+  maxRto: number;            // seconds
+  maxTimeouts: number;       // timeouts in a row before a flow fails
+}
+
+export interface FlowOptions {
+  priority?: number;
+  congestionControl?: CongestionControl;
+}
+
+export interface Flow {
+  id: string;
+  source: string;      // node the data leaves from; a gateway for downloads from the internet
+  destination: string; // node ID, or 'internet'
+  size: number;        // KB
+  priority: number;
+  congestionControl: CongestionControl;
+  status: FlowStatus;
+  failureReason?: FlowFailureReason;
+  startTime: number;             // ms since the Unix epoch (UTC)
+  completionTime: number | null; // seconds from the start until the last segment was acknowledged
+  acknowledged: number;          // KB
+  goodput: number;               // Mbps, acknowledged data over the time since the start
+  congestionWindow: number;      // segments
+  slowStartThreshold: number;    // segments
+  smoothedRtt: number | null;    // seconds
+  minRtt: number | null;         // seconds
+  segmentsSent: number;          // including retransmissions
+  retransmissions: number;
+  timeouts: number;
+  networkDrops: number;          // packets of the flow, data or acknowledgments, the network dropped
+  longestStall: number;          // seconds, longest wait for the acknowledged data to advance
+}
+
+interface SentSegment {
+  sentAt: number;         // ms
+  retransmitted: boolean;
+  delivered: number;      // KB the flow had delivered when the segment was sent
+  deliveredTime: number;  // ms of that delivery
+}
+
+interface BbrState {
+  mode: 'startup' | 'drain' | 'probe-bandwidth';
+  round: number;
+  roundEnd: number;        // delivered KB that ends the current round once acknowledged
+  samples: { round: number; rate: number }[]; // delivery rates, KB per ms
+  fullBandwidth: number;
+  fullBandwidthRounds: number;
+  minRtt: number;          // ms, windowed
+  minRttStamp: number;     // ms
+}
+
+interface FlowState {
+  flow: Flow;
+  sourceType: NodeType;
+  destinationType: NodeType;
+  segments: number;
+  // Receiver
+  received: Uint8Array;
+  expected: number; // next segment not yet received in order
+  // Sender
+  acked: Uint8Array;
+  unacknowledged: number; // lowest segment not yet acknowledged
+  next: number;           // next segment never sent
+  outstanding: Map<number, SentSegment>;
+  lost: Set<number>;      // waiting for retransmission
+  duplicateAcks: number;
+  recover: number;        // highest segment sent when recovery began; -1 outside recovery
+  rto: number;            // seconds
+  rttVariance: number;    // seconds
+  timerStart: number;     // ms
+  consecutiveTimeouts: number;
+  lastProgress: number;   // ms
+  delivered: number;      // KB
+  deliveredTime: number;  // ms
+  bbr: BbrState;
+}
+
+/**
+ * TCP-like flows over the packet network.
+ *
+ * A flow splits its data into segments sent as packets and acknowledged by packets
+ * travelling back over the network, so RTT is measured along the satellite path the
+ * traffic takes at the time. Acknowledgments are cumulative and also name the segment
+ * that triggered them, so a sender retransmits only what is missing. Three duplicate
+ * acknowledgments trigger a fast retransmit and NewReno-style recovery; a retransmission
+ * timeout (RFC 6298, backing off exponentially) sends the window again from one segment.
+ *
+ * Acknowledgments drive sending at the simulated time they arrive, within a step;
+ * timeouts are checked once per network update.
+ */
+export class FlowTransport extends EventEmitter {
+  public static readonly DEFAULT_CONFIG: FlowTransportConfig = {
+    segmentSize: 64,
+    acknowledgmentSize: 0.064,
+    initialWindow: 10,
+    initialRto: 1,
+    minRto: 0.2,
+    maxRto: 60,
+    maxTimeouts: 8
+  };
+
+  // Window gains cycled one round each while probing for bandwidth; without pacing the
+  // window alone sets the sending rate, so the gains apply to it
+  private static readonly BBR_GAIN_CYCLE = [1.25, 0.75, 1, 1, 1, 1, 1, 1];
+  private static readonly BBR_BANDWIDTH_ROUNDS = 10;
+  private static readonly BBR_MIN_RTT_WINDOW = 10000; // ms
+  private static readonly MIN_WINDOW = 4; // segments, floor of a BBR window
+
+  private network: SatelliteNetwork;
+  private config: FlowTransportConfig;
+  private flows: Map<string, FlowState> = new Map();
+  private flowCount: number = 0;
+
+  constructor(network: SatelliteNetwork, config: Partial<FlowTransportConfig> = {}) {
+    super();
+    this.network = network;
+    this.config = { ...FlowTransport.DEFAULT_CONFIG, ...config };
+    if (!(this.config.segmentSize > 0) || !(this.config.acknowledgmentSize > 0) || !(this.config.initialWindow >= 1) ||
+        !(this.config.minRto > 0) || !(this.config.maxRto >= this.config.minRto) || !(this.config.maxTimeouts >= 1)) {
+      throw new Error('Invalid flow transport configuration');
+    }
+
+    network.on('packetDelivered', this.handleDelivered);
+    network.on('packetDropped', this.handleDropped);
+    network.on('update', this.handleUpdate);
+    network.getClock().on('jump', this.handleClockJump);
+  }
+
+  public dispose(): void {
+    this.network.off('packetDelivered', this.handleDelivered);
+    this.network.off('packetDropped', this.handleDropped);
+    this.network.off('update', this.handleUpdate);
+    this.network.getClock().off('jump', this.handleClockJump);
+  }
+
+  public getConfig(): FlowTransportConfig {
+    return { ...this.config };
+  }
+
+  public getFlow(id: string): Flow | undefined {
+    return this.flows.get(id)?.flow;
+  }
+
+  public getAllFlows(): Flow[] {
+    return Array.from(this.flows.values()).map(state => state.flow);
+  }
+
+  /**
+   * Start sending size KB from a node to another node or the internet. A download from
+   * 'internet' starts at the internet gateway nearest the destination. Throws if an
+   * endpoint does not exist or the flow would not cross a single link.
+   */
+  public startFlow(source: string, destination: string, size: number, options: FlowOptions = {}): Flow {
+    if (!(size > 0)) {
+      throw new Error('Flow size must be positive');
+    }
+    if (source === 'internet') {
+      if (destination === 'internet') {
+        throw new Error('A flow needs at least one endpoint in the network');
+      }
+      const gateway = this.network.getInternetGateway(destination);
+      if (!gateway) {
+        throw new Error(`No internet gateway for flow to ${destination}`);
+      }
+      source = gateway.id;
+    }
+
+    const sourceType = this.network.getNodeType(source);
+    const destinationType = this.network.getNodeType(destination);
+    if (!sourceType || sourceType === 'internet' || !this.nodeExists(source)) {
+      throw new Error(`Unknown flow source: ${source}`);
+    }
+    if (!destinationType || (destinationType !== 'internet' && !this.nodeExists(destination))) {
+      throw new Error(`Unknown flow destination: ${destination}`);
+    }
+    if (source === destination || (destinationType === 'internet' && this.network.getGroundStation(source)?.connections.internet)) {
+      throw new Error(`Flow from ${source} to ${destination} would not leave its source`);
+    }
+
+    const now = this.network.getClock().getTime();
+    const segments = Math.ceil(size / this.config.segmentSize);
+    const flow: Flow = {
+      id: `flow_${this.flowCount++}`,
+      source,
+      destination,
+      size,
+      priority: options.priority ?? 1,
+      congestionControl: options.congestionControl ?? 'reno',
+      status: 'active',
+      startTime: now,
+      completionTime: null,
+      acknowledged: 0,
+      goodput: 0,
+      congestionWindow: this.config.initialWindow,
+      slowStartThreshold: Infinity,
+      smoothedRtt: null,
+      minRtt: null,
+      segmentsSent: 0,
+      retransmissions: 0,
+      timeouts: 0,
+      networkDrops: 0,
+      longestStall: 0
+    };
+    const state: FlowState = {
+      flow,
+      sourceType,
+      destinationType,
+      segments,
+      received: new Uint8Array(segments),
+      expected: 0,
+      acked: new Uint8Array(segments),
+      unacknowledged: 0,
+      next: 0,
+      outstanding: new Map(),
+      lost: new Set(),
+      duplicateAcks: 0,
+      recover: -1,
+      rto: this.config.initialRto,
+      rttVariance: 0,
+      timerStart: now,
+      consecutiveTimeouts: 0,
+      lastProgress: now,
+      delivered: 0,
+      deliveredTime: now,
+      bbr: {
+        mode: 'startup', round: 0, roundEnd: 0, samples: [],
+        fullBandwidth: 0, fullBandwidthRounds: 0, minRtt: Infinity, minRttStamp: now
+      }
+    };
+    this.flows.set(flow.id, state);
+    this.transmit(state, now);
+    return flow;
+  }
+
+  private handleDelivered = (packet: DataPacket): void => {
+    const state = packet.segment ? this.flows.get(packet.segment.flowId) : undefined;
+    if (!state || state.flow.status !== 'active') return;
+
+    const time = packet.timestamp + packet.latency * 1000;
+    if (packet.segment!.acknowledgment === undefined) {
+      this.receiveSegment(state, packet, time);
+    } else {
+      this.receiveAcknowledgment(state, packet.segment!.sequence, packet.segment!.acknowledgment, time);
+    }
+  };
+
+  private handleDropped = (packet: DataPacket): void => {
+    const state = packet.segment ? this.flows.get(packet.segment.flowId) : undefined;
+    if (state) state.flow.networkDrops++;
+  };
+
+  private handleUpdate = (): void => {
+    const now = this.network.getClock().getTime();
+    this.flows.forEach(state => {
+      if (state.flow.status !== 'active') return;
+
+      // Retransmission timeout: everything in flight is presumed lost
+      if (state.outstanding.size > 0 && now - state.timerStart >= state.rto * 1000) {
+        this.timeout(state, now);
+        if (state.flow.status !== 'active') return;
+      }
+
+      const elapsed = (now - state.flow.startTime) / 1000;
+      state.flow.goodput = elapsed > 0 ? state.flow.acknowledged * 8 / 1024 / elapsed : 0;
+      state.flow.longestStall = Math.max(state.flow.longestStall, (now - state.lastProgress) / 1000);
+    });
+  };
+
+  // In-flight segments were dropped by the network across the jump
+  private handleClockJump = (): void => {
+    this.flows.forEach(state => {
+      if (state.flow.status === 'active') this.fail(state, 'clock-jump');
+    });
+  };
+
+  // A data segment reached the receiver, which acknowledges it from where it arrived
+  private receiveSegment(state: FlowState, packet: DataPacket, time: number): void {
+    const { sequence } = packet.segment!;
+    state.received[sequence] = 1;
+    while (state.expected < state.segments && state.received[state.expected]) {
+      state.expected++;
+    }
+
+    const receiver = packet.path[packet.path.length - 1];
+    const acknowledgment = this.network.createPacket(
+      this.network.getNodeType(receiver)!, receiver, state.sourceType, state.flow.source,
+      this.config.acknowledgmentSize, state.flow.priority,
+      { timestamp: time, segment: { flowId: state.flow.id, sequence, acknowledgment: state.expected } }
+    );
+    if (!acknowledgment) this.fail(state, 'endpoint-lost');
+  }
+
+  private receiveAcknowledgment(state: FlowState, sequence: number, cumulative: number, time: number): void {
+    const { flow } = state;
+    const previous = state.unacknowledged;
+
+    // Cumulatively acknowledged segments, then the one that triggered the acknowledgment
+    const indices: number[] = [];
+    for (let index = state.unacknowledged; index < cumulative; index++) {
+      indices.push(index);
+    }
+    indices.push(sequence);
+
+    let newlyAcked = 0;
+    let rateSample = 0;
+    for (const index of indices) {
+      if (state.acked[index]) continue;
+      state.acked[index] = 1;
+      newlyAcked++;
+      state.lost.delete(index);
+
+      const size = this.segmentBytes(state, index);
+      flow.acknowledged += size;
+      state.delivered += size;
+      state.deliveredTime = time;
+
+      const sent = state.outstanding.get(index);
+      if (!sent) continue;
+      state.outstanding.delete(index);
+      if (time > sent.deliveredTime) {
+        rateSample = Math.max(rateSample, (state.delivered - sent.delivered) / (time - sent.deliveredTime));
+      }
+      if (!sent.retransmitted && index === sequence) {
+        this.sampleRtt(state, time - sent.sentAt, time);
+      }
+      if (sent.delivered >= state.bbr.roundEnd) {
+        state.bbr.round++;
+        state.bbr.roundEnd = state.delivered;
+        this.startRound(state);
+      }
+    }
+    while (state.unacknowledged < state.segments && state.acked[state.unacknowledged]) {
+      state.unacknowledged++;
+    }
+
+    if (state.unacknowledged > previous) {
+      flow.longestStall = Math.max(flow.longestStall, (time - state.lastProgress) / 1000);
+      state.lastProgress = time;
+      state.timerStart = time;
+      state.consecutiveTimeouts = 0;
+      state.duplicateAcks = 0;
+
+      if (state.unacknowledged >= state.segments) {
+        this.complete(state, time);
+        return;
+      }
+
+      // A partial acknowledgment during recovery exposes the next hole
+      if (state.recover >= 0) {
+        if (state.unacknowledged > state.recover) {
+          state.recover = -1;
+        } else {
+          this.markLost(state, state.unacknowledged);
+        }
+      }
+    } else if (state.outstanding.size > 0 || state.lost.size > 0) {
+      state.duplicateAcks++;
+      if (state.duplicateAcks === 3 && state.recover < 0) {
+        // Fast retransmit of the first missing segment
+        state.recover = state.next - 1;
+        this.markLost(state, state.unacknowledged);
+        if (flow.congestionControl === 'reno') {
+          flow.slowStartThreshold = Math.max(2, (state.outstanding.size + 1) / 2);
+          flow.congestionWindow = flow.slowStartThreshold;
+        }
+      }
+    }
+
+    if (rateSample > 0) {
+      state.bbr.samples.push({ round: state.bbr.round, rate: rateSample });
+    }
+    this.growWindow(state, newlyAcked);
+    this.transmit(state, time);
+  }
+
+  private growWindow(state: FlowState, newlyAcked: number): void {
+    const { flow, bbr } = state;
+    if (newlyAcked === 0) return;
+
+    if (flow.congestionControl === 'reno') {
+      // The window holds during recovery
+      if (state.recover >= 0) return;
+      if (flow.congestionWindow < flow.slowStartThreshold) {
+        flow.congestionWindow += newlyAcked;
+      } else {
+        flow.congestionWindow += newlyAcked / flow.congestionWindow;
+      }
+      return;
+    }
+
+    const bdp = this.bdpSegments(state);
+    if (bbr.mode === 'startup' || bdp === null) {
+      flow.congestionWindow += newlyAcked;
+    } else if (bbr.mode === 'drain') {
+      flow.congestionWindow = Math.max(FlowTransport.MIN_WINDOW, bdp);
+    } else {
+      const cycle = FlowTransport.BBR_GAIN_CYCLE;
+      flow.congestionWindow = Math.max(FlowTransport.MIN_WINDOW, cycle[bbr.round % cycle.length] * bdp);
+    }
+  }
+
+  // BBR moves between modes once per round trip
+  private startRound(state: FlowState): void {
+    const { bbr } = state;
+    bbr.samples = bbr.samples.filter(sample => sample.round > bbr.round - FlowTransport.BBR_BANDWIDTH_ROUNDS);
+    if (state.flow.congestionControl !== 'bbr') return;
+
+    if (bbr.mode === 'startup') {
+      // Bandwidth has stopped growing by a quarter a round for three rounds: the pipe is full
+      const bandwidth = this.bottleneckBandwidth(state);
+      if (bandwidth >= bbr.fullBandwidth * 1.25) {
+        bbr.fullBandwidth = bandwidth;
+        bbr.fullBandwidthRounds = 0;
+      } else if (++bbr.fullBandwidthRounds >= 3) {
+        bbr.mode = 'drain';
+      }
+    } else if (bbr.mode === 'drain') {
+      bbr.mode = 'probe-bandwidth';
+    }
+  }
+
+  private sampleRtt(state: FlowState, rtt: number, time: number): void {
+    const { flow, bbr } = state;
+    const seconds = rtt / 1000;
+    if (flow.smoothedRtt === null) {
+      flow.smoothedRtt = seconds;
+      state.rttVariance = seconds / 2;
+    } else {
+      state.rttVariance = 0.75 * state.rttVariance + 0.25 * Math.abs(flow.smoothedRtt - seconds);
+      flow.smoothedRtt = 0.875 * flow.smoothedRtt + 0.125 * seconds;
+    }
+    state.rto = Math.min(this.config.maxRto, Math.max(this.config.minRto, flow.smoothedRtt + 4 * state.rttVariance));
+    flow.minRtt = Math.min(flow.minRtt ?? Infinity, seconds);
+
+    if (rtt <= bbr.minRtt || time - bbr.minRttStamp > FlowTransport.BBR_MIN_RTT_WINDOW) {
+      bbr.minRtt = rtt;
+      bbr.minRttStamp = time;
+    }
+  }
+
+  private timeout(state: FlowState, now: number): void {
+    const { flow } = state;
+    flow.timeouts++;
+    if (++state.consecutiveTimeouts > this.config.maxTimeouts) {
+      this.fail(state, 'timeout');
+      return;
+    }
+
+    if (flow.congestionControl === 'reno') {
+      flow.slowStartThreshold = Math.max(2, state.outstanding.size / 2);
+    }
+    flow.congestionWindow = 1;
+    Array.from(state.outstanding.keys()).forEach(index => this.markLost(state, index));
+    state.recover = -1;
+    state.duplicateAcks = 0;
+    state.rto = Math.min(this.config.maxRto, state.rto * 2);
+    state.timerStart = now;
+    this.transmit(state, now);
+  }
+
+  // Send retransmissions, then new segments, while the window has room
+  private transmit(state: FlowState, time: number): void {
+    const { flow } = state;
+    while (flow.status === 'active' && state.outstanding.size < Math.max(1, Math.floor(flow.congestionWindow))) {
+      let index: number;
+      const retransmission = state.lost.size > 0;
+      if (retransmission) {
+        index = Math.min(...Array.from(state.lost));
+        state.lost.delete(index);
+      } else if (state.next < state.segments) {
+        index = state.next++;
+      } else {
+        return;
+      }
+
+      if (state.outstanding.size === 0) state.timerStart = time;
+      state.outstanding.set(index, {
+        sentAt: time, retransmitted: retransmission, delivered: state.delivered, deliveredTime: state.deliveredTime
+      });
+      flow.segmentsSent++;
+      if (retransmission) flow.retransmissions++;
+
+      const packet = this.network.createPacket(
+        state.sourceType, flow.source, state.destinationType, flow.destination,
+        this.segmentBytes(state, index), flow.priority,
+        { timestamp: time, segment: { flowId: flow.id, sequence: index } }
+      );
+      if (!packet) this.fail(state, 'endpoint-lost');
+    }
+  }
+
+  private markLost(state: FlowState, index: number): void {
+    if (state.acked[index]) return;
+    state.outstanding.delete(index);
+    state.lost.add(index);
+  }
+
+  private complete(state: FlowState, time: number): void {
+    const { flow } = state;
+    flow.status = 'completed';
+    flow.completionTime = (time - flow.startTime) / 1000;
+    flow.goodput = flow.completionTime > 0 ? flow.acknowledged * 8 / 1024 / flow.completionTime : 0;
+    this.release(state);
+    this.emit('flowCompleted', flow);
+  }
+
+  private fail(state: FlowState, reason: FlowFailureReason): void {
+    state.flow.status = 'failed';
+    state.flow.failureReason = reason;
+    this.release(state);
+    this.emit('flowFailed', state.flow);
+  }
+
+  // Finished flows keep only their statistics
+  private release(state: FlowState): void {
+    state.outstanding.clear();
+    state.lost.clear();
+    state.received = new Uint8Array(0);
+    state.acked = new Uint8Array(0);
+    state.bbr.samples = [];
+  }
+
+  // KB per ms
+  private bottleneckBandwidth(state: FlowState): number {
+    return state.bbr.samples.reduce((highest, sample) => Math.max(highest, sample.rate), 0);
+  }
+
+  // Bandwidth-delay product in segments, once both are measured
+  private bdpSegments(state: FlowState): number | null {
+    const bandwidth = this.bottleneckBandwidth(state);
+    if (bandwidth <= 0 || !isFinite(state.bbr.minRtt)) return null;
+    return bandwidth * state.bbr.minRtt / this.config.segmentSize;
+  }
+
+  private segmentBytes(state: FlowState, index: number): number {
+    return index < state.segments - 1
+      ? this.config.segmentSize
+      : state.flow.size - this.config.segmentSize * (state.segments - 1);
+  }
+
+  private nodeExists(id: string): boolean {
+    switch (this.network.getNodeType(id)) {
+      case 'satellite': return !!this.network.getSatellite(id);
+      case 'groundStation': return !!this.network.getGroundStation(id);
+      case 'userTerminal': return !!this.network.getUserTerminal(id);
+      default: return false;
+    }
+  }
+}
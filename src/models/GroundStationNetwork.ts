@@ -1,6 +1,6 @@
 import { EventEmitter } from 'events';
 import { GeoPosition } from '../models/SatelliteNetwork';
-import { STARLINK_GROUND_STATIONS, RealGroundStationData } from '../data/StarlinkGroundStations';
+import { STARLINK_GROUND_STATIONS, RealGroundStationData, ElevationConstraints } from '../data/StarlinkGroundStations';
 
 export interface GroundStationData {
   id: string;
@@ -22,11 +22,7 @@ export interface GroundStationData {
   regulatoryFiling?: string;
   operationalStatus?: 'active' | 'planned' | 'construction';
   antennaTypes?: string[];
-  elevationConstraints?: {
-    minElevation: number;
-    maxElevation: number;
-    azimuthLimits?: { min: number; max: number }[];
-  };
+  elevationConstraints?: ElevationConstraints;
   backhaul?: {
     type: string;
     latencyMs: number;
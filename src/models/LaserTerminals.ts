@@ -0,0 +1,498 @@
+import { Position, Velocity } from './SatelliteNetwork';
+import { SatelliteGeneration } from './Constellation';
+import { SpatialHash } from './SpatialHash';
+
+export interface LaserTerminalMount {
+  name: string;
+  azimuth: number;   // boresight, degrees from the velocity direction towards the orbit normal
+  halfWidth: number; // degrees of azimuth either side of the boresight
+}
+
+export interface LaserTerminalConfig {
+  terminals: LaserTerminalMount[];
+  minElevation: number;    // degrees above the local horizontal
+  maxElevation: number;
+  maxRange: number;        // km
+  maxSlewRate: number;     // deg/s, also the fastest line of sight a terminal can track
+  acquisitionTime: number; // seconds from pointing at a partner to carrying traffic
+  linkCapacity: number;    // Mbps
+}
+
+export type IslLinkType = 'in-plane' | 'cross-plane';
+
+// acquiring: terminals slewing to and searching for each other; up: carrying traffic
+export type IslLinkState = 'acquiring' | 'up';
+
+export interface IslLink {
+  satelliteA: string;
+  satelliteB: string;
+  terminalA: number; // index into the terminal mounts of each satellite's generation
+  terminalB: number;
+  type: IslLinkType;
+  state: IslLinkState;
+  upAt: number;     // ms since the Unix epoch (UTC) the link comes up
+  capacity: number; // Mbps
+  range: number;    // km at the last update
+}
+
+export interface LaserTerminalState {
+  azimuth: number; // current pointing in the satellite's orbital frame, degrees
+  elevation: number;
+  partner: string | null; // satellite the terminal is assigned to
+}
+
+// A satellite as the link planner sees it: inertial state (km, km/s) with Earth at the origin
+export interface LaserNode {
+  id: string;
+  position: Position;
+  velocity: Velocity;
+  generation: SatelliteGeneration;
+}
+
+// Orbital frame of a satellite: along-track, orbit normal and radial unit vectors
+interface OrbitFrame {
+  along: Position;
+  normal: Position;
+  radial: Position;
+}
+
+interface LinkGeometry {
+  distance: number;
+  fromA: { azimuth: number; elevation: number }; // direction of B in A's orbital frame
+  fromB: { azimuth: number; elevation: number };
+}
+
+// Fore and aft terminals face along the track, the side terminals across it
+const FOUR_TERMINALS: LaserTerminalMount[] = [
+  { name: 'fore', azimuth: 0, halfWidth: 45 },
+  { name: 'left', azimuth: 90, halfWidth: 70 },
+  { name: 'aft', azimuth: 180, halfWidth: 45 },
+  { name: 'right', azimuth: -90, halfWidth: 70 }
+];
+
+/**
+ * Optical inter-satellite link terminals and the links assigned to them.
+ *
+ * Each satellite carries fixed terminals, each steerable within a field of regard
+ * given in its orbital frame. A link needs a free terminal at both ends with the
+ * partner inside its field of regard, range within both terminals' limits, a line
+ * of sight clear of the atmosphere and a line-of-sight rate both can track. Links
+ * are kept while they stay feasible; free terminals are matched greedily, satellites
+ * in the same plane first, then the nearest ones. A new link comes up after the
+ * slower end has slewed to its partner and the acquisition time has passed.
+ */
+export class LaserTerminals {
+  public static readonly DEFAULT_CONFIGS: Record<SatelliteGeneration, LaserTerminalConfig> = {
+    'v0.9': {
+      terminals: FOUR_TERMINALS, minElevation: -25, maxElevation: 10,
+      maxRange: 2500, maxSlewRate: 1, acquisitionTime: 40, linkCapacity: 5000
+    },
+    'v1.0': {
+      terminals: FOUR_TERMINALS, minElevation: -25, maxElevation: 10,
+      maxRange: 3000, maxSlewRate: 1, acquisitionTime: 30, linkCapacity: 10000
+    },
+    'v1.5': {
+      terminals: FOUR_TERMINALS, minElevation: -25, maxElevation: 10,
+      maxRange: 4000, maxSlewRate: 1.5, acquisitionTime: 20, linkCapacity: 20000
+    },
+    'v2.0': {
+      terminals: FOUR_TERMINALS, minElevation: -25, maxElevation: 10,
+      maxRange: 5000, maxSlewRate: 2, acquisitionTime: 10, linkCapacity: 100000
+    }
+  };
+
+  // Orbit normals closer than this put two satellites in the same plane
+  private static readonly IN_PLANE_TOLERANCE = 1.5; // degrees
+  // Range (km) a cross-plane partner may add for each degree it sits closer to a boresight
+  private static readonly RANGE_PER_DEGREE = 50;
+  // Satellites left with free terminals look for partners again after this long
+  private static readonly SEARCH_INTERVAL = 10; // seconds
+  private static readonly EARTH_RADIUS = 6371; // km
+  private static readonly MIN_GRAZING_ALTITUDE = 100; // km, beams stay above the dense atmosphere
+  private static readonly DEG = Math.PI / 180;
+
+  private configs: Record<SatelliteGeneration, LaserTerminalConfig>;
+  private links: Map<string, IslLink> = new Map();
+  private terminals: Map<string, LaserTerminalState[]> = new Map();
+  private nextSearch: Map<string, number> = new Map();
+  private index: SpatialHash;
+
+  constructor(configs: Partial<Record<SatelliteGeneration, LaserTerminalConfig>> = {}) {
+    this.configs = {
+      'v0.9': { ...LaserTerminals.DEFAULT_CONFIGS['v0.9'], ...configs['v0.9'] },
+      'v1.0': { ...LaserTerminals.DEFAULT_CONFIGS['v1.0'], ...configs['v1.0'] },
+      'v1.5': { ...LaserTerminals.DEFAULT_CONFIGS['v1.5'], ...configs['v1.5'] },
+      'v2.0': { ...LaserTerminals.DEFAULT_CONFIGS['v2.0'], ...configs['v2.0'] }
+    };
+    this.index = new SpatialHash(this.getMaxRange());
+  }
+
+  public getConfig(generation: SatelliteGeneration): LaserTerminalConfig {
+    return { ...this.configs[generation] };
+  }
+
+  /** Changed limits apply from the next update; links no longer feasible drop then */
+  public setConfig(generation: SatelliteGeneration, config: Partial<LaserTerminalConfig>): void {
+    this.configs[generation] = { ...this.configs[generation], ...config };
+    if (this.index.getCellSize() !== this.getMaxRange()) {
+      this.index = new SpatialHash(this.getMaxRange());
+    }
+  }
+
+  public getLinks(): IslLink[] {
+    return Array.from(this.links.values());
+  }
+
+  public getLink(satelliteA: string, satelliteB: string): IslLink | undefined {
+    return this.links.get(LaserTerminals.linkKey(satelliteA, satelliteB));
+  }
+
+  public getTerminals(satelliteId: string): LaserTerminalState[] {
+    return (this.terminals.get(satelliteId) ?? []).map(terminal => ({ ...terminal }));
+  }
+
+  /** Drop a satellite's terminals and links; returns the links that were up */
+  public remove(satelliteId: string): [string, string][] {
+    const removed: [string, string][] = [];
+    this.release(satelliteId, removed);
+    this.index.delete(satelliteId);
+    return removed;
+  }
+
+  /** Independent copy of the configurations, terminals and links, to run ahead of the live one */
+  public clone(): LaserTerminals {
+    const copy = new LaserTerminals(this.configs);
+    this.links.forEach((link, key) => copy.links.set(key, { ...link }));
+    this.terminals.forEach((terminals, id) => copy.terminals.set(id, terminals.map(terminal => ({ ...terminal }))));
+    this.nextSearch.forEach((time, id) => copy.nextSearch.set(id, time));
+    return copy;
+  }
+
+  public clear(): void {
+    this.links.clear();
+    this.terminals.clear();
+    this.nextSearch.clear();
+    this.index.clear();
+  }
+
+  /**
+   * Bring terminals and links to a time (ms since the Unix epoch) for the given
+   * satellites; any satellite not listed loses its links. With settle, links assigned
+   * now come up at once, as after a clock jump. Returns the links that came up and
+   * went down, as satellite ID pairs.
+   */
+  public update(nodes: LaserNode[], time: number, settle: boolean = false): { added: [string, string][]; removed: [string, string][] } {
+    const added: [string, string][] = [];
+    const removed: [string, string][] = [];
+    const nodeMap = new Map(nodes.map(node => [node.id, node]));
+    const frames = new Map<string, OrbitFrame>();
+    const frameOf = (node: LaserNode) => {
+      let frame = frames.get(node.id);
+      if (!frame) {
+        frame = LaserTerminals.orbitFrame(node);
+        frames.set(node.id, frame);
+      }
+      return frame;
+    };
+
+    // Satellites that left, or whose generation's terminal layout changed, start over
+    Array.from(this.terminals.keys()).forEach(id => {
+      const node = nodeMap.get(id);
+      if (!node || this.terminals.get(id)!.length !== this.configOf(node).terminals.length) {
+        this.release(id, removed);
+        this.index.delete(id);
+      }
+    });
+    nodes.forEach(node => {
+      if (!this.terminals.has(node.id)) {
+        this.terminals.set(node.id, this.configOf(node).terminals.map(mount => ({
+          azimuth: mount.azimuth, elevation: 0, partner: null
+        })));
+      }
+    });
+
+    // Existing links hold while both ends can still see and track each other
+    this.links.forEach((link, key) => {
+      const nodeA = nodeMap.get(link.satelliteA)!;
+      const nodeB = nodeMap.get(link.satelliteB)!;
+      const geometry = this.geometry(nodeA, nodeB, frameOf(nodeA), frameOf(nodeB));
+
+      if (!geometry ||
+          !this.inFieldOfRegard(nodeA, link.terminalA, geometry.fromA) ||
+          !this.inFieldOfRegard(nodeB, link.terminalB, geometry.fromB)) {
+        this.dropLink(key, link, time, removed);
+        return;
+      }
+
+      this.point(link.satelliteA, link.terminalA, geometry.fromA);
+      this.point(link.satelliteB, link.terminalB, geometry.fromB);
+      link.range = geometry.distance;
+
+      if (link.state === 'acquiring' && (settle || time >= link.upAt)) {
+        link.state = 'up';
+        added.push([link.satelliteA, link.satelliteB]);
+      }
+    });
+
+    // Only satellites with a free terminal can take a new partner, so only they are indexed
+    nodes.forEach(node => {
+      if (this.hasFreeTerminal(node.id)) {
+        this.index.set(node.id, node.position);
+      } else {
+        this.index.delete(node.id);
+      }
+    });
+
+    // Match free terminals of satellites due for a search
+    const searching = nodes.filter(node =>
+      this.hasFreeTerminal(node.id) && (settle || time >= (this.nextSearch.get(node.id) ?? -Infinity)));
+    if (searching.length === 0) return { added, removed };
+
+    const candidates: { nodeA: LaserNode; nodeB: LaserNode; inPlane: boolean; cost: number; geometry: LinkGeometry }[] = [];
+    const searchingIds = new Set(searching.map(node => node.id));
+
+    searching.forEach(nodeA => {
+      const partners = this.terminals.get(nodeA.id)!;
+      this.index.queryRadius(nodeA.position, this.configOf(nodeA).maxRange).forEach(({ id }) => {
+        // A pair of searching satellites is taken once, from the lower ID
+        if (id === nodeA.id || (searchingIds.has(id) && id < nodeA.id) || !this.hasFreeTerminal(id)) return;
+        if (partners.some(terminal => terminal.partner === id)) return;
+
+        const nodeB = nodeMap.get(id)!;
+        const frameA = frameOf(nodeA);
+        const frameB = frameOf(nodeB);
+        const geometry = this.geometry(nodeA, nodeB, frameA, frameB);
+        if (!geometry) return;
+
+        const offsetA = this.boresightOffset(nodeA, geometry.fromA);
+        const offsetB = this.boresightOffset(nodeB, geometry.fromB);
+        if (offsetA === Infinity || offsetB === Infinity) return;
+
+        // Neighbors in the plane keep station, so the nearest are best. Across planes
+        // partners drift along the track, and those near a boresight stay in view longest
+        const alignment = LaserTerminals.dot(frameA.normal, frameB.normal);
+        const inPlane = alignment >= Math.cos(LaserTerminals.IN_PLANE_TOLERANCE * LaserTerminals.DEG);
+        const cost = inPlane
+          ? geometry.distance
+          : offsetA + offsetB + geometry.distance / LaserTerminals.RANGE_PER_DEGREE;
+        candidates.push({ nodeA, nodeB, inPlane, cost, geometry });
+      });
+    });
+
+    candidates.sort((a, b) => a.inPlane !== b.inPlane ? (a.inPlane ? -1 : 1) : a.cost - b.cost);
+
+    candidates.forEach(({ nodeA, nodeB, inPlane, geometry }) => {
+      const terminalA = this.pickTerminal(nodeA, geometry.fromA);
+      const terminalB = this.pickTerminal(nodeB, geometry.fromB);
+      if (terminalA < 0 || terminalB < 0) return;
+
+      const configA = this.configOf(nodeA);
+      const configB = this.configOf(nodeB);
+      const slewTime = Math.max(
+        this.slewAngle(nodeA.id, terminalA, geometry.fromA) / configA.maxSlewRate,
+        this.slewAngle(nodeB.id, terminalB, geometry.fromB) / configB.maxSlewRate
+      );
+      const acquisitionTime = Math.max(configA.acquisitionTime, configB.acquisitionTime);
+
+      const key = LaserTerminals.linkKey(nodeA.id, nodeB.id);
+      const link: IslLink = {
+        satelliteA: nodeA.id,
+        satelliteB: nodeB.id,
+        terminalA,
+        terminalB,
+        type: inPlane ? 'in-plane' : 'cross-plane',
+        state: settle ? 'up' : 'acquiring',
+        upAt: settle ? time : time + (slewTime + acquisitionTime) * 1000,
+        capacity: Math.min(configA.linkCapacity, configB.linkCapacity),
+        range: geometry.distance
+      };
+      this.links.set(key, link);
+      this.terminals.get(nodeA.id)![terminalA].partner = nodeB.id;
+      this.terminals.get(nodeB.id)![terminalB].partner = nodeA.id;
+      this.point(nodeA.id, terminalA, geometry.fromA);
+      this.point(nodeB.id, terminalB, geometry.fromB);
+
+      if (settle) added.push([nodeA.id, nodeB.id]);
+    });
+
+    searching.forEach(node => {
+      if (this.hasFreeTerminal(node.id)) {
+        this.nextSearch.set(node.id, time + LaserTerminals.SEARCH_INTERVAL * 1000);
+      } else {
+        this.nextSearch.delete(node.id);
+      }
+    });
+
+    return { added, removed };
+  }
+
+  private configOf(node: LaserNode): LaserTerminalConfig {
+    return this.configs[node.generation] ?? this.configs['v1.0'];
+  }
+
+  private getMaxRange(): number {
+    return Math.max(...Object.values(this.configs).map(config => config.maxRange));
+  }
+
+  private hasFreeTerminal(satelliteId: string): boolean {
+    return this.terminals.get(satelliteId)!.some(terminal => terminal.partner === null);
+  }
+
+  // Free terminal whose field of regard holds the direction, closest to its boresight; -1 if none
+  private pickTerminal(node: LaserNode, direction: { azimuth: number; elevation: number }): number {
+    const terminals = this.terminals.get(node.id)!;
+    const mounts = this.configOf(node).terminals;
+    let best = -1;
+    let bestOffset = Infinity;
+
+    terminals.forEach((terminal, index) => {
+      if (terminal.partner !== null || !this.inFieldOfRegard(node, index, direction)) return;
+      const offset = Math.abs(LaserTerminals.wrapAngle(direction.azimuth - mounts[index].azimuth));
+      if (offset < bestOffset) {
+        best = index;
+        bestOffset = offset;
+      }
+    });
+
+    return best;
+  }
+
+  // Smallest azimuth offset (degrees) from a boresight whose field of regard holds the direction
+  private boresightOffset(node: LaserNode, direction: { azimuth: number; elevation: number }): number {
+    const mounts = this.configOf(node).terminals;
+    let best = Infinity;
+
+    mounts.forEach((mount, index) => {
+      if (this.inFieldOfRegard(node, index, direction)) {
+        best = Math.min(best, Math.abs(LaserTerminals.wrapAngle(direction.azimuth - mount.azimuth)));
+      }
+    });
+
+    return best;
+  }
+
+  private inFieldOfRegard(node: LaserNode, terminal: number, direction: { azimuth: number; elevation: number }): boolean {
+    const config = this.configOf(node);
+    const mount = config.terminals[terminal];
+    return direction.elevation >= config.minElevation && direction.elevation <= config.maxElevation &&
+      Math.abs(LaserTerminals.wrapAngle(direction.azimuth - mount.azimuth)) <= mount.halfWidth;
+  }
+
+  // Angle (degrees) a terminal turns from its current pointing to a direction
+  private slewAngle(satelliteId: string, terminal: number, direction: { azimuth: number; elevation: number }): number {
+    const { azimuth, elevation } = this.terminals.get(satelliteId)![terminal];
+    const deg = LaserTerminals.DEG;
+    const cosAngle = Math.sin(elevation * deg) * Math.sin(direction.elevation * deg) +
+      Math.cos(elevation * deg) * Math.cos(direction.elevation * deg) * Math.cos((direction.azimuth - azimuth) * deg);
+    return Math.acos(Math.max(-1, Math.min(1, cosAngle))) / deg;
+  }
+
+  private point(satelliteId: string, terminal: number, direction: { azimuth: number; elevation: number }): void {
+    const state = this.terminals.get(satelliteId)![terminal];
+    state.azimuth = direction.azimuth;
+    state.elevation = direction.elevation;
+  }
+
+  /**
+   * Range, directions and trackability of a pair; null when they are out of range of
+   * either end, the beam would graze the atmosphere, or the line of sight turns
+   * faster than either terminal can slew.
+   */
+  private geometry(nodeA: LaserNode, nodeB: LaserNode, frameA: OrbitFrame, frameB: OrbitFrame): LinkGeometry | null {
+    const configA = this.configOf(nodeA);
+    const configB = this.configOf(nodeB);
+    const posA = nodeA.position;
+    const posB = nodeB.position;
+    const d = { x: posB.x - posA.x, y: posB.y - posA.y, z: posB.z - posA.z };
+    const distance2 = LaserTerminals.dot(d, d);
+    const distance = Math.sqrt(distance2);
+    if (distance === 0 || distance > Math.min(configA.maxRange, configB.maxRange)) return null;
+
+    // Closest approach of the segment to Earth's center
+    const t = Math.max(0, Math.min(1, -LaserTerminals.dot(posA, d) / distance2));
+    const closest = { x: posA.x + t * d.x, y: posA.y + t * d.y, z: posA.z + t * d.z };
+    const minRadius = LaserTerminals.EARTH_RADIUS + LaserTerminals.MIN_GRAZING_ALTITUDE;
+    if (LaserTerminals.dot(closest, closest) <= minRadius * minRadius) return null;
+
+    // Inertial line-of-sight rate |d × v| / |d|²
+    const v = {
+      x: nodeB.velocity.x - nodeA.velocity.x,
+      y: nodeB.velocity.y - nodeA.velocity.y,
+      z: nodeB.velocity.z - nodeA.velocity.z
+    };
+    const turn = LaserTerminals.cross(d, v);
+    const rate = Math.sqrt(LaserTerminals.dot(turn, turn)) / distance2;
+    if (rate > Math.min(configA.maxSlewRate, configB.maxSlewRate) * LaserTerminals.DEG) return null;
+
+    const back = { x: -d.x, y: -d.y, z: -d.z };
+    return {
+      distance,
+      fromA: LaserTerminals.direction(frameA, d, distance),
+      fromB: LaserTerminals.direction(frameB, back, distance)
+    };
+  }
+
+  private dropLink(key: string, link: IslLink, time: number, removed: [string, string][]): void {
+    this.links.delete(key);
+    this.freeTerminal(link.satelliteA, link.terminalA, time);
+    this.freeTerminal(link.satelliteB, link.terminalB, time);
+    if (link.state === 'up') {
+      removed.push([link.satelliteA, link.satelliteB]);
+    }
+  }
+
+  // A freed terminal's satellite looks for a new partner right away
+  private freeTerminal(satelliteId: string, terminal: number, time: number): void {
+    const terminals = this.terminals.get(satelliteId);
+    if (terminals) terminals[terminal].partner = null;
+    this.nextSearch.set(satelliteId, time);
+  }
+
+  private release(satelliteId: string, removed: [string, string][]): void {
+    const terminals = this.terminals.get(satelliteId);
+    if (!terminals) return;
+
+    terminals.forEach(terminal => {
+      if (terminal.partner === null) return;
+      const key = LaserTerminals.linkKey(satelliteId, terminal.partner);
+      this.dropLink(key, this.links.get(key)!, -Infinity, removed);
+    });
+    this.terminals.delete(satelliteId);
+    this.nextSearch.delete(satelliteId);
+  }
+
+  private static orbitFrame(node: LaserNode): OrbitFrame {
+    const radial = this.normalize(node.position);
+    const normal = this.normalize(this.cross(node.position, node.velocity));
+    return { along: this.cross(normal, radial), normal, radial };
+  }
+
+  private static direction(frame: OrbitFrame, d: Position, distance: number): { azimuth: number; elevation: number } {
+    return {
+      azimuth: Math.atan2(this.dot(d, frame.normal), this.dot(d, frame.along)) / this.DEG,
+      elevation: Math.asin(Math.max(-1, Math.min(1, this.dot(d, frame.radial) / distance))) / this.DEG
+    };
+  }
+
+  private static linkKey(satelliteA: string, satelliteB: string): string {
+    // Satellite IDs contain underscores, so endpoints are joined with '|'
+    return satelliteA < satelliteB ? `${satelliteA}|${satelliteB}` : `${satelliteB}|${satelliteA}`;
+  }
+
+  private static wrapAngle(degrees: number): number {
+    return ((degrees + 540) % 360) - 180;
+  }
+
+  private static dot(a: Position, b: Position): number {
+    return a.x * b.x + a.y * b.y + a.z * b.z;
+  }
+
+  private static cross(a: Position, b: Position): Position {
+    return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x };
+  }
+
+  private static normalize(a: Position): Position {
+    const length = Math.sqrt(this.dot(a, a));
+    return { x: a.x / length, y: a.y / length, z: a.z / length };
+  }
+}
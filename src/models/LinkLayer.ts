@@ -0,0 +1,220 @@
+import { DataPacket } from './SatelliteNetwork';
+import { MinHeap } from './RoutingEngine';
+import { QosScheduler, QosPolicy, QueueDropReason } from './QosScheduler';
+
+// A directed link as the sender sees it when handing it a packet
+export interface LinkParameters {
+  rate: number;  // Mbps
+  delay: number; // seconds of propagation
+}
+
+export interface LinkStatus {
+  from: string;
+  to: string;
+  rate: number;   // Mbps
+  delay: number;  // seconds
+  queued: number; // packets waiting to be transmitted
+  busy: boolean;  // a packet is being transmitted
+}
+
+// Notified as packets leave a node onto a link and arrive at the far end; times are ms since the Unix epoch (UTC)
+export interface LinkLayerHandler {
+  departed(packet: DataPacket, from: string, to: string, time: number): void;
+  arrived(packet: DataPacket, nodeId: string, time: number): void;
+}
+
+interface LinkState {
+  from: string;
+  to: string;
+  rate: number;
+  delay: number;
+  queue: QosScheduler;
+  busy: boolean;
+}
+
+type LinkEvent =
+  | { kind: 'transmitted'; link: LinkState; packet: DataPacket }
+  | { kind: 'arrival'; packet: DataPacket; nodeId: string };
+
+/**
+ * Directed links between nodes, each with transmit queues served at the link's rate.
+ *
+ * A packet handed to a link waits in its QoS class for the scheduler, takes size / rate to
+ * serialize and reaches the far end after the link's propagation delay. Transmissions
+ * and arrivals are events in simulated time, so a packet can cross several links in
+ * one simulation step, each hop recorded on the packet with its queueing,
+ * serialization and propagation times.
+ */
+export class LinkLayer {
+  private handler: LinkLayerHandler;
+  private policy: QosPolicy = QosScheduler.DEFAULT_POLICY;
+  private links: Map<string, LinkState> = new Map();
+  private queuedOn: Map<string, LinkState> = new Map();
+  private events: Map<string, { time: number; event: LinkEvent }> = new Map();
+  private schedule = new MinHeap();
+  private eventCount: number = 0;
+
+  constructor(handler: LinkLayerHandler) {
+    this.handler = handler;
+  }
+
+  public getPolicy(): QosPolicy {
+    return this.policy;
+  }
+
+  /** Switch every link to a new QoS policy, returning the waiting packets it no longer has room for */
+  public setPolicy(policy: QosPolicy): DataPacket[] {
+    QosScheduler.validate(policy);
+    this.policy = policy;
+
+    const rejected: DataPacket[] = [];
+    this.links.forEach(link => {
+      const waiting = link.queue.drain();
+      link.queue = new QosScheduler(policy);
+      waiting.forEach(queued => {
+        if (link.queue.enqueue(queued)) {
+          this.queuedOn.delete(queued.packet.id);
+          rejected.push(queued.packet);
+        }
+      });
+    });
+    return rejected;
+  }
+
+  public getLinkStatus(from: string, to: string): LinkStatus | undefined {
+    const link = this.links.get(LinkLayer.linkKey(from, to));
+    return link ? LinkLayer.status(link) : undefined;
+  }
+
+  public getLinkStatuses(): LinkStatus[] {
+    return Array.from(this.links.values()).map(link => LinkLayer.status(link));
+  }
+
+  /** Packets waiting on a link, counting the one being transmitted */
+  public getQueueDepth(from: string, to: string): number {
+    const link = this.links.get(LinkLayer.linkKey(from, to));
+    return link ? link.queue.length + (link.busy ? 1 : 0) : 0;
+  }
+
+  /**
+   * Queue a packet at a node for a neighbor at a time (ms); readyAt is when the packet
+   * became ready to leave the node, so queueing includes any time it was held there.
+   * Transmission starts at once if the link is idle. Returns why the packet's class
+   * dropped it instead, or null once it is queued.
+   */
+  public send(
+    packet: DataPacket,
+    from: string,
+    to: string,
+    parameters: LinkParameters,
+    time: number,
+    readyAt: number = time
+  ): QueueDropReason | null {
+    const key = LinkLayer.linkKey(from, to);
+    let link = this.links.get(key);
+    if (!link) {
+      link = { from, to, rate: parameters.rate, delay: parameters.delay, queue: new QosScheduler(this.policy), busy: false };
+      this.links.set(key, link);
+    }
+    link.rate = parameters.rate;
+    link.delay = parameters.delay;
+
+    const dropped = link.queue.enqueue({ packet, readyAt });
+    if (dropped) {
+      if (!link.busy && link.queue.length === 0) this.links.delete(key);
+      return dropped;
+    }
+
+    this.queuedOn.set(packet.id, link);
+    if (!link.busy) {
+      this.startNext(link, time);
+    }
+    return null;
+  }
+
+  /** Process transmissions and arrivals up to a time (ms), in time order */
+  public advance(until: number): void {
+    while (this.schedule.size > 0 && this.schedule.peekKey()! <= until) {
+      const id = this.schedule.pop()!;
+      const { time, event } = this.events.get(id)!;
+      this.events.delete(id);
+
+      if (event.kind === 'transmitted') {
+        event.link.busy = false;
+        this.scheduleEvent(time + event.link.delay * 1000, { kind: 'arrival', packet: event.packet, nodeId: event.link.to });
+        this.startNext(event.link, time);
+      } else if (event.packet.status !== 'dropped') {
+        this.handler.arrived(event.packet, event.nodeId, time);
+      }
+    }
+  }
+
+  /** Take back the packets still waiting on a link, e.g. after it went down */
+  public flush(from: string, to: string): DataPacket[] {
+    const link = this.links.get(LinkLayer.linkKey(from, to));
+    if (!link) return [];
+
+    const packets = link.queue.drain().map(({ packet }) => packet);
+    packets.forEach(packet => this.queuedOn.delete(packet.id));
+    if (!link.busy) {
+      this.links.delete(LinkLayer.linkKey(from, to));
+    }
+    return packets;
+  }
+
+  /** Remove a packet waiting on any link; packets already transmitted are not affected */
+  public remove(packet: DataPacket): boolean {
+    const link = this.queuedOn.get(packet.id);
+    if (!link) return false;
+
+    link.queue.remove(packet);
+    this.queuedOn.delete(packet.id);
+    return true;
+  }
+
+  public clear(): void {
+    this.links.clear();
+    this.queuedOn.clear();
+    this.events.clear();
+    this.schedule = new MinHeap();
+  }
+
+  private startNext(link: LinkState, time: number): void {
+    const next = link.queue.dequeue();
+    if (!next) {
+      this.links.delete(LinkLayer.linkKey(link.from, link.to));
+      return;
+    }
+
+    const { packet, readyAt } = next;
+    this.queuedOn.delete(packet.id);
+    const serialization = link.rate > 0 ? packet.size / (link.rate * 1024 / 8) : Infinity;
+    packet.hops.push({
+      from: link.from,
+      to: link.to,
+      queueing: Math.max(0, time - readyAt) / 1000,
+      serialization,
+      propagation: link.delay
+    });
+
+    link.busy = true;
+    this.handler.departed(packet, link.from, link.to, time);
+    this.scheduleEvent(time + serialization * 1000, { kind: 'transmitted', link, packet });
+  }
+
+  private scheduleEvent(time: number, event: LinkEvent): void {
+    const id = `${this.eventCount++}`;
+    this.events.set(id, { time, event });
+    this.schedule.push(id, time);
+  }
+
+  private static status(link: LinkState): LinkStatus {
+    const { from, to, rate, delay, busy } = link;
+    return { from, to, rate, delay, queued: link.queue.length, busy };
+  }
+
+  private static linkKey(from: string, to: string): string {
+    // Node IDs contain underscores, so endpoints are joined with '|'
+    return `${from}|${to}`;
+  }
+}
@@ -0,0 +1,276 @@
+import { SatelliteNetwork, Satellite } from './SatelliteNetwork';
+import { Coordinates, Geodetic } from './Coordinates';
+import { GroundStationData } from './GroundStationNetwork';
+import { ElevationConstraints, DEFAULT_ELEVATION_CONSTRAINTS, isGatewayLinkVisible } from '../data/StarlinkGroundStations';
+
+export interface PassSite {
+  latitude: number;  // degrees
+  longitude: number; // degrees
+  altitude?: number; // km above the WGS84 ellipsoid
+  elevationConstraints?: ElevationConstraints;
+}
+
+export interface PassTrackPoint {
+  time: Date;
+  azimuth: number;   // degrees
+  elevation: number; // degrees
+  range: number;     // km
+}
+
+export interface SatellitePass {
+  satelliteId: string;
+  aos: Date; // acquisition of signal: satellite enters the site's mask
+  tca: Date; // time of closest approach (maximum elevation)
+  los: Date; // loss of signal: satellite leaves the site's mask
+  maxElevation: number;  // degrees
+  aosAzimuth: number;    // degrees
+  tcaAzimuth: number;    // degrees
+  losAzimuth: number;    // degrees
+  minRange: number;      // km, at TCA
+  duration: number;      // seconds
+  track: PassTrackPoint[];
+  // The pass was already in progress at the window start or still is at its end
+  truncated: boolean;
+}
+
+export interface PassPredictionOptions {
+  stepSeconds?: number;      // coarse search step
+  toleranceSeconds?: number; // AOS/LOS/TCA refinement accuracy
+  trackStepSeconds?: number; // spacing of the azimuth track samples
+}
+
+/**
+ * Predicts when constellation satellites are inside a site's pointing mask, raised to
+ * the gateway operating floor the network links at.
+ *
+ * Visibility is sampled on a coarse grid over the window; mask crossings are then
+ * refined by bisection and the maximum elevation by golden-section search.
+ * Positions come from the network's ephemeris cache (SatelliteNetwork.propagateSatellite
+ * interpolated within its error bound), so predictions match the live simulation.
+ */
+export class PassPredictor {
+  private network: SatelliteNetwork;
+
+  private static readonly DEFAULT_OPTIONS: Required<PassPredictionOptions> = {
+    stepSeconds: 20,
+    toleranceSeconds: 0.5,
+    trackStepSeconds: 10
+  };
+
+  constructor(network: SatelliteNetwork) {
+    this.network = network;
+  }
+
+  /** Current simulation time, the natural start of a prediction window */
+  public getCurrentTime(): Date {
+    return this.network.getClock().getDate();
+  }
+
+  /** Site for a GroundStationNetwork station, including its elevation mask */
+  public static siteFromGroundStation(groundStation: GroundStationData): PassSite {
+    return {
+      latitude: groundStation.position.latitude,
+      longitude: groundStation.position.longitude,
+      elevationConstraints: groundStation.elevationConstraints
+    };
+  }
+
+  /** Passes of one satellite over a site between start and end */
+  public predictPasses(
+    satelliteId: string,
+    site: PassSite,
+    start: Date,
+    end: Date,
+    options: PassPredictionOptions = {}
+  ): SatellitePass[] {
+    const satellite = this.network.getSatellite(satelliteId);
+    if (!satellite) {
+      throw new Error(`Unknown satellite: ${satelliteId}`);
+    }
+
+    return this.findPasses(satellite, site, start, end, { ...PassPredictor.DEFAULT_OPTIONS, ...options });
+  }
+
+  /** Passes of every satellite in the constellation over a site, ordered by AOS */
+  public predictAllPasses(
+    site: PassSite,
+    start: Date,
+    end: Date,
+    options: PassPredictionOptions = {}
+  ): SatellitePass[] {
+    const resolved = { ...PassPredictor.DEFAULT_OPTIONS, ...options };
+    const passes: SatellitePass[] = [];
+
+    this.network.getAllSatellites().forEach(satellite => {
+      passes.push(...this.findPasses(satellite, site, start, end, resolved));
+    });
+
+    return passes.sort((a, b) => a.aos.getTime() - b.aos.getTime());
+  }
+
+  /** Passes over a GroundStationNetwork station, honouring its elevationConstraints and the operating floor */
+  public predictGroundStationPasses(
+    groundStation: GroundStationData,
+    start: Date,
+    end: Date,
+    options: PassPredictionOptions = {}
+  ): SatellitePass[] {
+    return this.predictAllPasses(PassPredictor.siteFromGroundStation(groundStation), start, end, options);
+  }
+
+  private findPasses(
+    satellite: Satellite,
+    site: PassSite,
+    start: Date,
+    end: Date,
+    options: Required<PassPredictionOptions>
+  ): SatellitePass[] {
+    const startTime = start.getTime();
+    const endTime = end.getTime();
+    if (isNaN(startTime) || isNaN(endTime) || endTime <= startTime) {
+      throw new Error('Invalid pass prediction window');
+    }
+    if (options.stepSeconds <= 0 || options.toleranceSeconds <= 0 || options.trackStepSeconds <= 0) {
+      throw new Error('Pass prediction steps must be positive');
+    }
+
+    const observer: Geodetic = {
+      latitude: site.latitude,
+      longitude: site.longitude,
+      altitude: site.altitude ?? 0
+    };
+    const constraints = site.elevationConstraints ?? DEFAULT_ELEVATION_CONSTRAINTS;
+    const visible = (time: number): boolean => {
+      const look = this.lookAngles(satellite, observer, time);
+      return isGatewayLinkVisible(look.azimuth, look.elevation, constraints);
+    };
+
+    const passes: SatellitePass[] = [];
+    const step = options.stepSeconds * 1000;
+    const tolerance = options.toleranceSeconds * 1000;
+
+    let previousTime = startTime;
+    let previousVisible = visible(startTime);
+    let aos: number | null = previousVisible ? startTime : null;
+
+    for (let time = Math.min(startTime + step, endTime); ; time = Math.min(time + step, endTime)) {
+      const isVisible = visible(time);
+
+      if (isVisible && !previousVisible) {
+        aos = this.bisectCrossing(visible, previousTime, time, tolerance);
+      } else if (!isVisible && previousVisible && aos !== null) {
+        const los = this.bisectCrossing(visible, previousTime, time, tolerance);
+        passes.push(this.buildPass(satellite, observer, aos, los, aos === startTime, options));
+        aos = null;
+      }
+
+      previousTime = time;
+      previousVisible = isVisible;
+      if (time >= endTime) break;
+    }
+
+    // Still visible when the window closes
+    if (aos !== null) {
+      passes.push(this.buildPass(satellite, observer, aos, endTime, true, options));
+    }
+
+    return passes;
+  }
+
+  private buildPass(
+    satellite: Satellite,
+    observer: Geodetic,
+    aos: number,
+    los: number,
+    truncated: boolean,
+    options: Required<PassPredictionOptions>
+  ): SatellitePass {
+    const tca = this.findMaxElevation(satellite, observer, aos, los, options.toleranceSeconds * 1000);
+
+    const aosLook = this.lookAngles(satellite, observer, aos);
+    const tcaLook = this.lookAngles(satellite, observer, tca);
+    const losLook = this.lookAngles(satellite, observer, los);
+
+    // Azimuth track from AOS to LOS, always including both end points
+    const track: PassTrackPoint[] = [];
+    const trackStep = options.trackStepSeconds * 1000;
+    for (let time = aos; time < los; time += trackStep) {
+      const look = time === aos ? aosLook : this.lookAngles(satellite, observer, time);
+      track.push({ time: new Date(time), azimuth: look.azimuth, elevation: look.elevation, range: look.range });
+    }
+    track.push({ time: new Date(los), azimuth: losLook.azimuth, elevation: losLook.elevation, range: losLook.range });
+
+    return {
+      satelliteId: satellite.id,
+      aos: new Date(aos),
+      tca: new Date(tca),
+      los: new Date(los),
+      maxElevation: tcaLook.elevation,
+      aosAzimuth: aosLook.azimuth,
+      tcaAzimuth: tcaLook.azimuth,
+      losAzimuth: losLook.azimuth,
+      minRange: tcaLook.range,
+      duration: (los - aos) / 1000,
+      track,
+      truncated
+    };
+  }
+
+  // Time (ms) in (before, after] where visibility changes, to within tolerance
+  private bisectCrossing(visible: (time: number) => boolean, before: number, after: number, tolerance: number): number {
+    const initial = visible(before);
+    let low = before;
+    let high = after;
+
+    while (high - low > tolerance) {
+      const mid = (low + high) / 2;
+      if (visible(mid) === initial) {
+        low = mid;
+      } else {
+        high = mid;
+      }
+    }
+
+    return high;
+  }
+
+  // Golden-section search for peak elevation; a LEO pass has a single maximum
+  private findMaxElevation(satellite: Satellite, observer: Geodetic, start: number, end: number, tolerance: number): number {
+    const ratio = (Math.sqrt(5) - 1) / 2;
+    const elevation = (time: number) => this.lookAngles(satellite, observer, time).elevation;
+
+    let low = start;
+    let high = end;
+    let a = high - ratio * (high - low);
+    let b = low + ratio * (high - low);
+    let elevationA = elevation(a);
+    let elevationB = elevation(b);
+
+    while (high - low > tolerance) {
+      if (elevationA < elevationB) {
+        low = a;
+        a = b;
+        elevationA = elevationB;
+        b = low + ratio * (high - low);
+        elevationB = elevation(b);
+      } else {
+        high = b;
+        b = a;
+        elevationB = elevationA;
+        a = high - ratio * (high - low);
+        elevationA = elevation(a);
+      }
+    }
+
+    // Truncated passes can peak at a window edge
+    const peak = (low + high) / 2;
+    return [start, end].reduce((best, time) => (elevation(time) > elevation(best) ? time : best), peak);
+  }
+
+  private lookAngles(satellite: Satellite, observer: Geodetic, time: number) {
+    const date = new Date(time);
+    const position = this.network.getEphemerisCache().getPosition(satellite.id, time)
+      ?? this.network.propagateSatellite(satellite, date).position;
+    return Coordinates.lookAnglesEci(observer, Coordinates.fromSceneAxes(position), Coordinates.gmst(date));
+  }
+}
@@ -0,0 +1,128 @@
+import { Position, Velocity } from './SatelliteNetwork';
+import { SatelliteGeneration } from './Constellation';
+import { Eclipse } from './Eclipse';
+
+export interface PowerConfig {
+  solarArrayArea: number;   // m²
+  arrayEfficiency: number;  // cell efficiency times pointing and wiring losses
+  batteryCapacity: number;  // Wh
+  chargeEfficiency: number; // fraction of surplus power stored
+  busLoad: number;          // W, avionics, thermal control and propulsion standby
+  beamLoad: number;         // W per active user/gateway beam
+  islLoad: number;          // W per inter-satellite link terminal in use
+  islTerminals: number;     // terminals on board
+  beamShedSoc: number;      // state of charge below which beams are shed
+  islShedSoc: number;       // state of charge below which ISLs are turned off as well
+  recoverySoc: number;      // margin above islShedSoc before ISLs come back
+}
+
+// nominal: all loads powered; beamsShed: fewer beams; islShed: ISLs off, beams off
+export type PowerMode = 'nominal' | 'beamsShed' | 'islShed';
+
+export interface PowerState {
+  stateOfCharge: number; // 0-1
+  generation: number;    // W
+  load: number;          // W
+  activeBeams: number;
+  islEnabled: boolean;
+  mode: PowerMode;
+}
+
+/**
+ * Electrical power budget of a satellite: solar array, battery and loads.
+ *
+ * The array tracks the Sun about the orbit normal, so generation follows the cosine
+ * of the beta angle and the visible fraction of the solar disk. Beams are shed in
+ * proportion as the battery drops from beamShedSoc to islShedSoc; below that the
+ * ISL terminals are turned off too, leaving only the bus.
+ */
+export class PowerModel {
+  public static readonly SOLAR_CONSTANT = 1361; // W/m² at 1 AU
+
+  public static readonly DEFAULT_CONFIGS: Record<SatelliteGeneration, PowerConfig> = {
+    'v0.9': {
+      solarArrayArea: 20, arrayEfficiency: 0.2, batteryCapacity: 4000, chargeEfficiency: 0.9,
+      busLoad: 700, beamLoad: 180, islLoad: 60, islTerminals: 4,
+      beamShedSoc: 0.5, islShedSoc: 0.3, recoverySoc: 0.05
+    },
+    'v1.0': {
+      solarArrayArea: 23, arrayEfficiency: 0.2, batteryCapacity: 4500, chargeEfficiency: 0.9,
+      busLoad: 750, beamLoad: 200, islLoad: 60, islTerminals: 4,
+      beamShedSoc: 0.5, islShedSoc: 0.3, recoverySoc: 0.05
+    },
+    'v1.5': {
+      solarArrayArea: 30, arrayEfficiency: 0.21, batteryCapacity: 6000, chargeEfficiency: 0.9,
+      busLoad: 850, beamLoad: 220, islLoad: 90, islTerminals: 4,
+      beamShedSoc: 0.5, islShedSoc: 0.3, recoverySoc: 0.05
+    },
+    'v2.0': {
+      solarArrayArea: 105, arrayEfficiency: 0.22, batteryCapacity: 20000, chargeEfficiency: 0.9,
+      busLoad: 2000, beamLoad: 600, islLoad: 120, islTerminals: 4,
+      beamShedSoc: 0.5, islShedSoc: 0.3, recoverySoc: 0.05
+    }
+  };
+
+  /** Fully charged satellite with every load available */
+  public static initialState(beams: number): PowerState {
+    return { stateOfCharge: 1, generation: 0, load: 0, activeBeams: beams, islEnabled: true, mode: 'nominal' };
+  }
+
+  /**
+   * Array output (W) for an inertial position and velocity (km, km/s), the Sun's
+   * position (km) and the visible fraction of its disk.
+   */
+  public static generation(config: PowerConfig, position: Position, velocity: Velocity, sun: Position, sunlitFraction: number): number {
+    if (sunlitFraction <= 0) return 0;
+
+    const normal = {
+      x: position.y * velocity.z - position.z * velocity.y,
+      y: position.z * velocity.x - position.x * velocity.z,
+      z: position.x * velocity.y - position.y * velocity.x
+    };
+    const normalLength = Math.hypot(normal.x, normal.y, normal.z);
+    const sunDistance = Math.hypot(sun.x, sun.y, sun.z);
+
+    // Beta angle: Sun elevation above the orbit plane
+    const sinBeta = (normal.x * sun.x + normal.y * sun.y + normal.z * sun.z) / (normalLength * sunDistance);
+    const cosBeta = Math.sqrt(Math.max(0, 1 - sinBeta * sinBeta));
+    const irradiance = this.SOLAR_CONSTANT * Math.pow(Eclipse.AU / sunDistance, 2);
+
+    return irradiance * config.solarArrayArea * config.arrayEfficiency * cosBeta * sunlitFraction;
+  }
+
+  /**
+   * Advance the battery by deltaTime seconds at the given generation, then pick the
+   * loads for the next step. maxBeams is what the satellite can project, islLinks the
+   * inter-satellite links it currently has.
+   */
+  public static step(
+    state: PowerState,
+    config: PowerConfig,
+    generation: number,
+    maxBeams: number,
+    islLinks: number,
+    deltaTime: number
+  ): PowerState {
+    const load = config.busLoad + config.beamLoad * state.activeBeams +
+      (state.islEnabled ? config.islLoad * Math.min(islLinks, config.islTerminals) : 0);
+    const net = generation - load;
+    const stored = net > 0 ? net * config.chargeEfficiency : net;
+    const energy = state.stateOfCharge * config.batteryCapacity + stored * deltaTime / 3600;
+    const stateOfCharge = Math.max(0, Math.min(1, energy / config.batteryCapacity));
+
+    const islEnabled = state.islEnabled
+      ? stateOfCharge >= config.islShedSoc
+      : stateOfCharge >= config.islShedSoc + config.recoverySoc;
+    const beamFraction = (stateOfCharge - config.islShedSoc) / (config.beamShedSoc - config.islShedSoc);
+    const activeBeams = islEnabled ? Math.floor(maxBeams * Math.max(0, Math.min(1, beamFraction))) : 0;
+
+    return {
+      stateOfCharge,
+      generation,
+      load,
+      activeBeams,
+      islEnabled,
+      mode: !islEnabled ? 'islShed' : activeBeams < maxBeams ? 'beamsShed' : 'nominal'
+    };
+  }
+}
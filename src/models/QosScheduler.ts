@@ -0,0 +1,192 @@
+import { DataPacket } from './SatelliteNetwork';
+
+// strict-priority: higher classes always go first; weighted-fair: link shared by class weight
+export type QosScheduling = 'strict-priority' | 'weighted-fair';
+
+// Random early detection over a class's average queue, thresholds as fractions of its limit
+export interface RedParameters {
+  minThreshold: number;
+  maxThreshold: number;
+  maxProbability: number; // drop probability as the average reaches the upper threshold
+}
+
+export interface QosClass {
+  name: string;
+  priority: number;    // lowest DataPacket.priority the class carries; also its strict-priority rank
+  weight: number;      // share of a link under weighted-fair scheduling
+  queueLimit: number;  // KB the class may hold waiting on one link
+  red?: RedParameters; // early drops before the limit; tail drop only when absent
+}
+
+export interface QosPolicy {
+  scheduling: QosScheduling;
+  classes: QosClass[];
+}
+
+// queue-full: tail drop at the class limit; early-drop: random early detection
+export type QueueDropReason = 'queue-full' | 'early-drop';
+
+export interface QueuedPacket {
+  packet: DataPacket;
+  readyAt: number; // ms, when the packet became ready to leave its node
+}
+
+interface ClassQueue {
+  qosClass: QosClass;
+  entries: { queued: QueuedPacket; finish: number }[];
+  bytes: number;        // KB waiting
+  averageBytes: number; // KB, moving average for early drops
+  lastFinish: number;   // virtual finish tag of the class's last packet
+}
+
+/**
+ * Transmit queues of one link, one per QoS class, and the scheduler that serves them.
+ *
+ * Packets are classified by priority. Each class holds at most its queue limit and may
+ * drop early as its average queue grows. Strict priority always serves the highest
+ * class that has packets waiting; weighted-fair scheduling uses self-clocked fair
+ * queueing, so backlogged classes share the link in proportion to their weights
+ * measured in bytes rather than packets.
+ */
+export class QosScheduler {
+  private policy: QosPolicy;
+  private queues: ClassQueue[];
+  private virtualTime: number = 0;
+  private count: number = 0;
+
+  public static readonly DEFAULT_POLICY: QosPolicy = {
+    scheduling: 'strict-priority',
+    classes: [
+      { name: 'control', priority: 3, weight: 8, queueLimit: 10000 },
+      { name: 'voice', priority: 2, weight: 4, queueLimit: 10000 },
+      {
+        name: 'best-effort', priority: 1, weight: 2, queueLimit: 25000,
+        red: { minThreshold: 0.25, maxThreshold: 0.75, maxProbability: 0.1 }
+      },
+      {
+        name: 'bulk', priority: 0, weight: 1, queueLimit: 50000,
+        red: { minThreshold: 0.25, maxThreshold: 0.75, maxProbability: 0.2 }
+      }
+    ]
+  };
+
+  // Weight of each new sample in the average queue size
+  private static readonly RED_AVERAGING = 0.2;
+
+  constructor(policy: QosPolicy) {
+    this.policy = policy;
+    this.queues = QosScheduler.sortClasses(policy).map(qosClass => ({
+      qosClass, entries: [], bytes: 0, averageBytes: 0, lastFinish: 0
+    }));
+  }
+
+  /** Throws if a policy has no classes or an unusable class */
+  public static validate(policy: QosPolicy): void {
+    if (policy.classes.length === 0) {
+      throw new Error('QoS policy needs at least one class');
+    }
+    const names = new Set<string>();
+    policy.classes.forEach(qosClass => {
+      if (names.has(qosClass.name)) {
+        throw new Error(`Duplicate QoS class: ${qosClass.name}`);
+      }
+      names.add(qosClass.name);
+      if (!(qosClass.weight > 0) || !(qosClass.queueLimit > 0)) {
+        throw new Error(`QoS class ${qosClass.name} needs a positive weight and queue limit`);
+      }
+      const red = qosClass.red;
+      if (red && !(red.minThreshold >= 0 && red.minThreshold < red.maxThreshold && red.maxThreshold <= 1 &&
+          red.maxProbability > 0 && red.maxProbability <= 1)) {
+        throw new Error(`QoS class ${qosClass.name} has invalid early drop thresholds`);
+      }
+    });
+  }
+
+  /** Class of a packet priority: the highest class at or below it, else the lowest class */
+  public static classify(policy: QosPolicy, priority: number): QosClass {
+    const classes = QosScheduler.sortClasses(policy);
+    return classes.find(qosClass => qosClass.priority <= priority) ?? classes[classes.length - 1];
+  }
+
+  // Highest priority first
+  private static sortClasses(policy: QosPolicy): QosClass[] {
+    return [...policy.classes].sort((a, b) => b.priority - a.priority);
+  }
+
+  /** Packets waiting in all classes */
+  public get length(): number {
+    return this.count;
+  }
+
+  /** Queue a packet, or the reason its class turned it away */
+  public enqueue(queued: QueuedPacket): QueueDropReason | null {
+    const qosClass = QosScheduler.classify(this.policy, queued.packet.priority);
+    const queue = this.queues.find(candidate => candidate.qosClass === qosClass)!;
+    const { size } = queued.packet;
+
+    queue.averageBytes += (queue.bytes - queue.averageBytes) * QosScheduler.RED_AVERAGING;
+    if (queue.bytes + size > qosClass.queueLimit) return 'queue-full';
+
+    const red = qosClass.red;
+    if (red) {
+      const fill = queue.averageBytes / qosClass.queueLimit;
+      if (fill >= red.maxThreshold) return 'early-drop';
+      if (fill > red.minThreshold) {
+        const probability = red.maxProbability * (fill - red.minThreshold) / (red.maxThreshold - red.minThreshold);
+        if (Math.random() < probability) return 'early-drop';
+      }
+    }
+
+    const finish = Math.max(this.virtualTime, queue.lastFinish) + size / qosClass.weight;
+    queue.lastFinish = finish;
+    queue.entries.push({ queued, finish });
+    queue.bytes += size;
+    this.count++;
+    return null;
+  }
+
+  /** Next packet to transmit under the policy's scheduling */
+  public dequeue(): QueuedPacket | undefined {
+    let next: ClassQueue | undefined;
+    if (this.policy.scheduling === 'strict-priority') {
+      next = this.queues.find(queue => queue.entries.length > 0);
+    } else {
+      this.queues.forEach(queue => {
+        if (queue.entries.length > 0 && (!next || queue.entries[0].finish < next.entries[0].finish)) {
+          next = queue;
+        }
+      });
+    }
+    if (!next) return undefined;
+
+    const { queued, finish } = next.entries.shift()!;
+    next.bytes -= queued.packet.size;
+    this.virtualTime = finish;
+    this.count--;
+    return queued;
+  }
+
+  public remove(packet: DataPacket): boolean {
+    for (const queue of this.queues) {
+      const index = queue.entries.findIndex(entry => entry.queued.packet === packet);
+      if (index >= 0) {
+        queue.entries.splice(index, 1);
+        queue.bytes -= packet.size;
+        this.count--;
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /** Take every waiting packet, highest class first */
+  public drain(): QueuedPacket[] {
+    const drained = this.queues.flatMap(queue => queue.entries.map(entry => entry.queued));
+    this.queues.forEach(queue => {
+      queue.entries = [];
+      queue.bytes = 0;
+    });
+    this.count = 0;
+    return drained;
+  }
+}
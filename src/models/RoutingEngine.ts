@@ -0,0 +1,232 @@
+import { Position } from './SatelliteNetwork';
+
+// Directed link from a node to a neighbor as seen by the router
+export interface RoutingLink {
+  to: string;
+  distance: number;   // km
+  capacity: number;   // Mbps
+  queueDepth: number; // packets waiting at the sending end
+}
+
+export interface RoutingWeights {
+  referencePacketSize: number; // KB, the packet a link's serialization delay is priced for
+  queueWeight: number;         // multiplier on the queueing delay estimate, 0 ignores queues
+}
+
+export interface Route {
+  path: string[]; // source first, destination last
+  cost: number;   // seconds, sum of link weights
+}
+
+/**
+ * Shortest-path routing over a snapshot of the network topology.
+ *
+ * Link weights are delays in seconds: propagation at the speed of light, plus the
+ * serialization of a reference packet for the packets already queued and the one
+ * being sent. Forwarding tables are shortest-path trees towards each destination
+ * (Dijkstra from the destination over reversed links), built on first use and
+ * discarded with the topology. Point-to-point routes use A*, with the straight-line
+ * light time to the destination as the heuristic; it never exceeds the true cost.
+ */
+export class RoutingEngine {
+  public static readonly DEFAULT_WEIGHTS: RoutingWeights = {
+    referencePacketSize: 500,
+    queueWeight: 1
+  };
+
+  private static readonly LIGHT_SPEED = 299792.458; // km/s
+
+  private weights: RoutingWeights;
+  private links: Map<string, RoutingLink[]> = new Map();
+  private reverseLinks: Map<string, { from: string; weight: number }[]> = new Map();
+  private positions: Map<string, Position> = new Map();
+  private tables: Map<string, Map<string, string>> = new Map();
+
+  constructor(weights: Partial<RoutingWeights> = {}) {
+    this.weights = { ...RoutingEngine.DEFAULT_WEIGHTS, ...weights };
+  }
+
+  public getWeights(): RoutingWeights {
+    return { ...this.weights };
+  }
+
+  public setWeights(weights: Partial<RoutingWeights>): void {
+    this.weights = { ...this.weights, ...weights };
+    this.setTopology(this.links, this.positions);
+  }
+
+  /**
+   * Replace the topology: outgoing links per node, and node positions (inertial, km)
+   * for the A* heuristic. Nodes without a position get a zero heuristic.
+   */
+  public setTopology(links: Map<string, RoutingLink[]>, positions: Map<string, Position>): void {
+    this.links = links;
+    this.positions = positions;
+    this.tables.clear();
+
+    this.reverseLinks = new Map();
+    links.forEach((outgoing, from) => {
+      outgoing.forEach(link => {
+        let incoming = this.reverseLinks.get(link.to);
+        if (!incoming) {
+          incoming = [];
+          this.reverseLinks.set(link.to, incoming);
+        }
+        incoming.push({ from, weight: this.linkWeight(link) });
+      });
+    });
+  }
+
+  /** Delay (seconds) a link is priced at */
+  public linkWeight(link: RoutingLink): number {
+    const serialization = link.capacity > 0 ? this.weights.referencePacketSize / (link.capacity * 1024 / 8) : Infinity;
+    return link.distance / RoutingEngine.LIGHT_SPEED + serialization * (1 + this.weights.queueWeight * link.queueDepth);
+  }
+
+  /** Neighbor to forward to from a node towards a destination; null when unreachable */
+  public getNextHop(nodeId: string, destinationId: string): string | null {
+    return this.getForwardingTable(destinationId).get(nodeId) ?? null;
+  }
+
+  /** Next hop towards a destination for every node that can reach it */
+  public getForwardingTable(destinationId: string): Map<string, string> {
+    let table = this.tables.get(destinationId);
+    if (!table) {
+      table = this.buildForwardingTable(destinationId);
+      this.tables.set(destinationId, table);
+    }
+    return table;
+  }
+
+  /** Least-cost route between two nodes; null when there is none */
+  public findRoute(sourceId: string, destinationId: string): Route | null {
+    const target = this.positions.get(destinationId);
+    const heuristic = (nodeId: string) => {
+      const position = this.positions.get(nodeId);
+      if (!target || !position) return 0;
+      const dx = position.x - target.x;
+      const dy = position.y - target.y;
+      const dz = position.z - target.z;
+      return Math.sqrt(dx * dx + dy * dy + dz * dz) / RoutingEngine.LIGHT_SPEED;
+    };
+
+    const costs = new Map<string, number>([[sourceId, 0]]);
+    const previous = new Map<string, string>();
+    const closed = new Set<string>();
+    const open = new MinHeap();
+    open.push(sourceId, heuristic(sourceId));
+
+    while (open.size > 0) {
+      const nodeId = open.pop()!;
+      if (closed.has(nodeId)) continue;
+      if (nodeId === destinationId) {
+        const path = [nodeId];
+        while (path[0] !== sourceId) {
+          path.unshift(previous.get(path[0])!);
+        }
+        return { path, cost: costs.get(nodeId)! };
+      }
+      closed.add(nodeId);
+
+      const cost = costs.get(nodeId)!;
+      (this.links.get(nodeId) ?? []).forEach(link => {
+        if (closed.has(link.to)) return;
+        const next = cost + this.linkWeight(link);
+        if (next < (costs.get(link.to) ?? Infinity)) {
+          costs.set(link.to, next);
+          previous.set(link.to, nodeId);
+          open.push(link.to, next + heuristic(link.to));
+        }
+      });
+    }
+
+    return null;
+  }
+
+  // Dijkstra outward from the destination over incoming links
+  private buildForwardingTable(destinationId: string): Map<string, string> {
+    const table = new Map<string, string>();
+    const costs = new Map<string, number>([[destinationId, 0]]);
+    const closed = new Set<string>();
+    const open = new MinHeap();
+    open.push(destinationId, 0);
+
+    while (open.size > 0) {
+      const nodeId = open.pop()!;
+      if (closed.has(nodeId)) continue;
+      closed.add(nodeId);
+
+      const cost = costs.get(nodeId)!;
+      (this.reverseLinks.get(nodeId) ?? []).forEach(({ from, weight }) => {
+        if (closed.has(from)) return;
+        const next = cost + weight;
+        if (next < (costs.get(from) ?? Infinity)) {
+          costs.set(from, next);
+          table.set(from, nodeId);
+          open.push(from, next);
+        }
+      });
+    }
+
+    return table;
+  }
+}
+
+// Binary min-heap of node IDs; stale entries are skipped by the caller
+export class MinHeap {
+  private ids: string[] = [];
+  private keys: number[] = [];
+
+  public get size(): number {
+    return this.ids.length;
+  }
+
+  public push(id: string, key: number): void {
+    this.ids.push(id);
+    this.keys.push(key);
+
+    let index = this.ids.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.keys[parent] <= key) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  /** Key of the entry pop would return next */
+  public peekKey(): number | undefined {
+    return this.keys[0];
+  }
+
+  public pop(): string | undefined {
+    if (this.ids.length === 0) return undefined;
+
+    const top = this.ids[0];
+    const lastId = this.ids.pop()!;
+    const lastKey = this.keys.pop()!;
+    if (this.ids.length === 0) return top;
+
+    this.ids[0] = lastId;
+    this.keys[0] = lastKey;
+
+    let index = 0;
+    for (;;) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < this.keys.length && this.keys[left] < this.keys[smallest]) smallest = left;
+      if (right < this.keys.length && this.keys[right] < this.keys[smallest]) smallest = right;
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+
+    return top;
+  }
+
+  private swap(a: number, b: number): void {
+    [this.ids[a], this.ids[b]] = [this.ids[b], this.ids[a]];
+    [this.keys[a], this.keys[b]] = [this.keys[b], this.keys[a]];
+  }
+}
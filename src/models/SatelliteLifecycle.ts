@@ -0,0 +1,120 @@
+export type LifecyclePhase = 'launched' | 'raising' | 'operational' | 'deorbiting';
+
+export interface LaunchBatch {
+  id: string;
+  launchDate: Date;
+  shellIndex: number;
+  plane: number;
+  slots?: number[];           // target slots in the plane; defaults to the first vacant ones
+  count?: number;             // satellites to deploy when slots are not given
+  insertionAltitude?: number; // km
+  checkoutDays?: number;      // days in the train before raising starts
+  raiseRate?: number;         // km/day
+  trainSpacing?: number;      // degrees of mean anomaly between neighbours in the train
+  designLifeYears?: number;   // operational life before deorbit starts
+}
+
+// Lifecycle timeline of one satellite; times are ms since the Unix epoch (UTC)
+export interface LifecycleRecord {
+  satelliteId: string;
+  batchId: string | null; // null for satellites that started on-station
+  slotId: string;         // Walker slot the satellite occupies or is heading to
+  phase: LifecyclePhase;
+  launchTime: number;
+  raiseStartTime: number;
+  onStationTime: number;
+  endOfLifeTime: number;
+  insertionAltitude: number; // km
+  targetAltitude: number;    // km
+  deorbitRate: number;       // km/day
+}
+
+export interface LaunchTrain {
+  batchId: string;
+  satelliteIds: string[];
+}
+
+/**
+ * Launch-to-disposal timeline: deployment as a train at the insertion altitude,
+ * checkout, a constant-rate orbit raise to the shell, operation, and a powered
+ * descent at end of life.
+ */
+export class SatelliteLifecycle {
+  public static readonly DEFAULTS = {
+    insertionAltitude: 300, // km
+    checkoutDays: 5,
+    raiseRate: 9,           // km/day, roughly four weeks from 300 km to 550 km
+    trainSpacing: 0.4,      // degrees, a few tens of km along-track
+    designLifeYears: 5,
+    deorbitRate: 10         // km/day
+  };
+
+  private static readonly DAY = 86400 * 1000;
+  private static readonly YEAR = 365.25 * 86400 * 1000;
+
+  /** Timeline for a satellite deployed by a launch batch */
+  public static createRecord(
+    satelliteId: string,
+    slotId: string,
+    batch: LaunchBatch,
+    targetAltitude: number
+  ): LifecycleRecord {
+    const insertionAltitude = batch.insertionAltitude ?? this.DEFAULTS.insertionAltitude;
+    const raiseRate = batch.raiseRate ?? this.DEFAULTS.raiseRate;
+    if (!(raiseRate > 0)) {
+      throw new Error(`Launch ${batch.id}: raise rate must be positive`);
+    }
+
+    const launchTime = batch.launchDate.getTime();
+    const raiseStartTime = launchTime + (batch.checkoutDays ?? this.DEFAULTS.checkoutDays) * this.DAY;
+    const raiseDays = Math.max(targetAltitude - insertionAltitude, 0) / raiseRate;
+    const onStationTime = raiseStartTime + raiseDays * this.DAY;
+
+    return {
+      satelliteId,
+      batchId: batch.id,
+      slotId,
+      phase: 'launched',
+      launchTime,
+      raiseStartTime,
+      onStationTime,
+      endOfLifeTime: onStationTime + (batch.designLifeYears ?? this.DEFAULTS.designLifeYears) * this.YEAR,
+      insertionAltitude,
+      targetAltitude,
+      deorbitRate: this.DEFAULTS.deorbitRate
+    };
+  }
+
+  /** Timeline for a satellite that is already operating in its slot */
+  public static createOnStationRecord(satelliteId: string, slotId: string, altitude: number, time: number): LifecycleRecord {
+    return {
+      satelliteId,
+      batchId: null,
+      slotId,
+      phase: 'operational',
+      launchTime: time,
+      raiseStartTime: time,
+      onStationTime: time,
+      endOfLifeTime: Infinity,
+      insertionAltitude: altitude,
+      targetAltitude: altitude,
+      deorbitRate: this.DEFAULTS.deorbitRate
+    };
+  }
+
+  public static phaseAt(record: LifecycleRecord, time: number): LifecyclePhase {
+    if (time >= record.endOfLifeTime) return 'deorbiting';
+    if (time >= record.onStationTime) return 'operational';
+    if (time >= record.raiseStartTime) return 'raising';
+    return 'launched';
+  }
+
+  /** Altitude (km) commanded while launched or raising */
+  public static raisingAltitudeAt(record: LifecycleRecord, time: number): number {
+    if (time <= record.raiseStartTime) return record.insertionAltitude;
+    if (time >= record.onStationTime) return record.targetAltitude;
+
+    const progress = (time - record.raiseStartTime) / (record.onStationTime - record.raiseStartTime);
+    return record.insertionAltitude + progress * (record.targetAltitude - record.insertionAltitude);
+  }
+}
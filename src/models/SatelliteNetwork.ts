@@ -1,4 +1,27 @@
 import { EventEmitter } from 'events';
+import { SimulationClock } from './SimulationClock';
+import { Coordinates } from './Coordinates';
+import { ConstellationDefinition, ConstellationDesigner, ConstellationSlot, SatelliteGeneration } from './Constellation';
+import { SatelliteLifecycle, LaunchBatch, LaunchTrain, LifecycleRecord } from './SatelliteLifecycle';
+import { AtmosphericDrag, DragConfig } from './AtmosphericDrag';
+import { EphemerisCache } from './EphemerisCache';
+import { Eclipse, EclipseEvent, EclipseState, ShadowModel } from './Eclipse';
+import { PowerModel, PowerConfig, PowerState } from './PowerModel';
+import { LaserTerminals, IslLink } from './LaserTerminals';
+import { RoutingEngine, RoutingLink, Route } from './RoutingEngine';
+import { ContactPlanner, ContactPlan, ContactPlanOptions, Contact } from './ContactPlanner';
+import { ContactGraphRouter, ContactRoute, ContactHop } from './ContactGraphRouter';
+import { LinkLayer, LinkParameters } from './LinkLayer';
+import { QosScheduler, QosPolicy, QueueDropReason } from './QosScheduler';
+import { UserTerminals, UserTerminal, UserTerminalOptions, DensityGrid, DensityGridOptions } from './UserTerminals';
+import { TrafficDemand, TrafficMatrix } from './TrafficDemand';
+import { DEMO_CONSTELLATION } from '../data/ConstellationDefinitions';
+import {
+  ElevationConstraints,
+  DEFAULT_ELEVATION_CONSTRAINTS,
+  STARLINK_GROUND_STATIONS,
+  isGatewayLinkVisible
+} from '../data/StarlinkGroundStations';
 
 export interface OrbitalParameters {
   altitude: number;
@@ -21,11 +44,19 @@ export interface Velocity {
   z: number;
 }
 
+export interface OrbitalState {
+  position: Position; // km, inertial scene axes
+  velocity: Velocity; // km/s, inertial scene axes
+}
+
 export interface GeoPosition {
   latitude: number;
   longitude: number;
 }
 
+// Lifecycle phases plus the health states of an on-station satellite
+export type SatelliteStatus = 'launched' | 'raising' | 'operational' | 'degraded' | 'offline' | 'deorbiting';
+
 export interface Satellite {
   id: string;
   position: Position;
@@ -34,6 +65,7 @@ export interface Satellite {
   connections: {
     satellites: string[];
     groundStations: string[];
+    userTerminals: string[];
   };
   bandwidth: {
     uplink: number;
@@ -43,8 +75,22 @@ export interface Satellite {
   beams: number; // Number of beams this satellite can project
   timeSlots: { duration: 15, allocation: string }[]; // 15-second time slots with allocation IDs
   queue: DataPacket[];
-  status: 'operational' | 'degraded' | 'offline';
-  type: 'v0.9' | 'v1.0' | 'v1.5' | 'v2.0';
+  status: SatelliteStatus;
+  type: SatelliteGeneration;
+  ballisticCoefficient: number; // Cd·A/m, m²/kg
+  stationKeeping: boolean; // altitude is maintained against drag while true
+  eclipse: EclipseState;
+  sunlitFraction: number; // 0-1, visible fraction of the solar disk
+  power: PowerState;
+}
+
+// Temporary altitude change to avoid a predicted conjunction; times are ms since the Unix epoch (UTC)
+export interface AvoidanceManeuver {
+  satelliteId: string;
+  startTime: number;
+  endTime: number;
+  deltaAltitude: number; // km, applied at startTime and reversed at endTime
+  active: boolean;
 }
 
 export interface GroundStation {
@@ -57,19 +103,46 @@ export interface GroundStation {
   coverage: {
     radius: number;
   };
+  elevationConstraints: ElevationConstraints;
   bandwidth: number;
   queue: DataPacket[];
   status: 'operational' | 'degraded' | 'offline';
 }
 
+// One link a packet crossed, in seconds
+export interface PacketHop {
+  from: string;
+  to: string;
+  queueing: number;      // waiting at the sender, including any time stored for a contact
+  serialization: number; // clocking the packet onto the link at its rate
+  propagation: number;   // speed-of-light delay over the link
+}
+
+// no-route: nowhere to forward; node-lost: the node holding it is gone; clock-jump: in flight across a jump
+export type PacketDropReason = QueueDropReason | 'no-route' | 'timeout' | 'node-lost' | 'clock-jump';
+
+export type NodeType = 'satellite' | 'groundStation' | 'userTerminal' | 'internet';
+
+// Transport header of a packet carrying part of a flow (see FlowTransport)
+export interface TransportSegment {
+  flowId: string;
+  sequence: number;        // segment of the flow; on an acknowledgment, the segment that triggered it
+  acknowledgment?: number; // cumulative: next segment the receiver expects; set on acknowledgments only
+}
+
+export interface PacketOptions {
+  timestamp?: number; // ms, creation time within the current step; defaults to the clock
+  segment?: TransportSegment;
+}
+
 export interface DataPacket {
   id: string;
   source: {
-    type: 'satellite' | 'groundStation' | 'internet';
+    type: NodeType;
     id: string;
   };
   destination: {
-    type: 'satellite' | 'groundStation' | 'internet';
+    type: NodeType;
     id: string;
     position?: GeoPosition;
   };
@@ -77,26 +150,505 @@ export interface DataPacket {
   priority: number;
   timestamp: number;
   path: string[];
-  status: 'queued' | 'in-transit' | 'delivered' | 'dropped';
-  latency: number;
+  // stored: held at a node until the contact it is routed over opens
+  status: 'queued' | 'in-transit' | 'stored' | 'delivered' | 'dropped';
+  latency: number; // seconds since creation; end to end once delivered
+  hops: PacketHop[];
+  dropReason?: PacketDropReason;
+  predictedLatency?: number; // seconds, earliest arrival over the contact plan when first routed
+  segment?: TransportSegment;
+}
+
+// Traffic of one QoS class since the policy was set or the statistics were reset
+export interface QosClassStats {
+  name: string;
+  offered: number;
+  delivered: number;
+  dropped: number;
+  drops: Partial<Record<PacketDropReason, number>>;
+  meanLatency: number; // seconds, over delivered packets
+  maxLatency: number;
+}
+
+// shortest-path: forwarding tables over the current links; contact-graph: time-varying
+// routes over predicted contacts, storing packets until their next contact opens
+export type RoutingMode = 'shortest-path' | 'contact-graph';
+
+// A packet's route over the contact plan and the contacts that failed to materialize for it
+interface Bundle {
+  route: ContactRoute;
+  excluded: Set<Contact>;
 }
 
 export class SatelliteNetwork extends EventEmitter {
   private satellites: Map<string, Satellite> = new Map();
   private groundStations: Map<string, GroundStation> = new Map();
+  private userTerminals: UserTerminals = new UserTerminals();
   private packets: Map<string, DataPacket> = new Map();
   private packetCount: number = 0;
   private earthRadius: number = 6371; // km
   private mu: number = 398600.4418; // Earth's standard gravitational parameter (km³/s²)
+  private j2: number = 1.08262668e-3; // Earth's second zonal harmonic (WGS84 equatorial radius)
   private lightSpeed: number = 299792.458; // km/s
   
+  // Shared simulation time; satellite positions are propagated to clock time
+  private clock: SimulationClock;
+  private propagationTime: number; // clock time (ms) of the last propagation
+  
+  // Walker shells the satellites were generated from
+  private constellation: ConstellationDefinition;
+  
+  // Orbit decay of satellites that have stopped station-keeping
+  private dragConfig: DragConfig = { ...AtmosphericDrag.DEFAULT_CONFIG };
+  private maxDragStep: number = 600; // seconds per decay integration step
+  
+  // Every Walker slot with its elements at slotEpoch, occupied or not
+  private slots: Map<string, ConstellationSlot> = new Map();
+  private slotEpoch: number;
+  
+  // Launch, raising, operation and deorbit timeline of each satellite
+  private lifecycle: Map<string, LifecycleRecord> = new Map();
+  private pendingLaunches: { batch: LaunchBatch; slotIds: string[] }[] = [];
+  
+  // Collision-avoidance maneuvers, at most one per satellite
+  private maneuvers: Map<string, AvoidanceManeuver> = new Map();
+  
+  // Interpolated states for satellites on a steady orbit; invalidated whenever an
+  // orbit changes in a way propagateSatellite cannot predict
+  private ephemeris: EphemerisCache;
+  
+  // Earth shadow geometry for the satellites' eclipse states
+  private shadowModel: ShadowModel = 'conical';
+  
+  // Solar array, battery and load figures per satellite generation
+  private powerConfigs: Record<SatelliteGeneration, PowerConfig> = {
+    'v0.9': { ...PowerModel.DEFAULT_CONFIGS['v0.9'] },
+    'v1.0': { ...PowerModel.DEFAULT_CONFIGS['v1.0'] },
+    'v1.5': { ...PowerModel.DEFAULT_CONFIGS['v1.5'] },
+    'v2.0': { ...PowerModel.DEFAULT_CONFIGS['v2.0'] }
+  };
+  
+  // Optical ISL terminals and their links; satellites' connections hold the links that are up
+  private laserTerminals = new LaserTerminals();
+  
+  // Forwarding tables over the current links, rebuilt when the topology changes and
+  // refreshed after routeRefreshInterval seconds so queue depths are taken into account
+  private routing = new RoutingEngine();
+  private routingDirty: boolean = true;
+  private routingBuiltAt: number = -Infinity;
+  private routeRefreshInterval: number = 1;
+  
+  // Predicted contacts for contact-graph routing, regenerated once half the horizon has
+  // passed or when satellites join, leave or change orbit
+  private routingMode: RoutingMode = 'shortest-path';
+  private contactPlanner = new ContactPlanner(this);
+  private contactRouter = new ContactGraphRouter();
+  private contactPlanOptions: Required<ContactPlanOptions> = { ...ContactPlanner.DEFAULT_OPTIONS };
+  private contactPlanStale: boolean = true;
+  private bundles: Map<string, Bundle> = new Map();
+  private packetTimeout: number = 30; // seconds a packet may take under shortest-path routing
+  
+  // Transmit queue, serialization and propagation of every directed link; packets sit in
+  // their node's queue, since readyAt, until they start transmitting
+  private linkLayer = new LinkLayer({
+    departed: (packet, from, to, time) => this.handleDeparture(packet, from, to, time),
+    arrived: (packet, nodeId, time) => this.receivePacket(packet, nodeId, time)
+  });
+  private readyAt: Map<string, number> = new Map();
+  private qosStats: Map<string, QosClassStats> = new Map();
+  
+  // Offered load generated packets follow; the matrix is rebuilt after trafficRefreshInterval
+  // seconds or when user terminals come or go
+  private trafficDemand = new TrafficDemand();
+  private trafficMatrix: TrafficMatrix | null = null;
+  private trafficRefreshInterval: number = 60;
+  
   // Customer laser terminals (rare, special case)
   private customerLaserTerminals: Map<string, { satelliteId: string, bandwidth: number }> = new Map();
   
-  constructor() {
+  constructor(clock: SimulationClock = new SimulationClock(), constellation: ConstellationDefinition = DEMO_CONSTELLATION) {
     super();
+    this.clock = clock;
+    this.propagationTime = clock.getTime();
+    this.slotEpoch = this.propagationTime;
+    this.constellation = constellation;
+    this.ephemeris = new EphemerisCache((id, time) => {
+      const satellite = this.satellites.get(id);
+      return satellite ? this.propagateSatellite(satellite, new Date(time)) : null;
+    });
     this.initializeConstellation();
     this.initializeGroundStations();
+    
+    // The constellation starts with its links already acquired
+    this.updateSatelliteConnections(false);
+    
+    this.clock.on('jump', this.handleClockJump);
+  }
+  
+  public getClock(): SimulationClock {
+    return this.clock;
+  }
+  
+  public getConstellation(): ConstellationDefinition {
+    return this.constellation;
+  }
+  
+  /** Cheap state lookups at arbitrary times, consistent with propagateSatellite */
+  public getEphemerisCache(): EphemerisCache {
+    return this.ephemeris;
+  }
+  
+  /** Terminal configurations and states behind the inter-satellite links */
+  public getLaserTerminals(): LaserTerminals {
+    return this.laserTerminals;
+  }
+  
+  /** Assigned inter-satellite links, including those still being acquired */
+  public getIslLinks(): IslLink[] {
+    return this.laserTerminals.getLinks();
+  }
+  
+  public getRoutingEngine(): RoutingEngine {
+    this.ensureRoutingTopology();
+    return this.routing;
+  }
+  
+  /** Least-delay route between two nodes over the current links; null when there is none */
+  public getRoute(sourceId: string, destinationId: string): Route | null {
+    this.ensureRoutingTopology();
+    return this.routing.findRoute(sourceId, destinationId);
+  }
+  
+  public getRoutingMode(): RoutingMode {
+    return this.routingMode;
+  }
+  
+  /** Packets stored for a contact are routed again when leaving contact-graph mode */
+  public setRoutingMode(mode: RoutingMode): void {
+    if (mode === this.routingMode) return;
+    this.routingMode = mode;
+    this.bundles.clear();
+    
+    const now = this.clock.getTime();
+    this.packets.forEach(packet => {
+      if (packet.status === 'stored') {
+        this.forwardPacket(packet, packet.path[packet.path.length - 1], now);
+      }
+    });
+  }
+  
+  public getLinkLayer(): LinkLayer {
+    return this.linkLayer;
+  }
+  
+  public getQosPolicy(): QosPolicy {
+    return this.linkLayer.getPolicy();
+  }
+  
+  /** Throws on an invalid policy; waiting packets their new class has no room for are dropped */
+  public setQosPolicy(policy: QosPolicy): void {
+    const rejected = this.linkLayer.setPolicy(policy);
+    this.resetQosStatistics();
+    rejected.forEach(packet => this.dropPacket(packet, 'queue-full'));
+  }
+  
+  public getQosStatistics(): QosClassStats[] {
+    return this.getQosPolicy().classes.map(qosClass => {
+      const stats = this.getClassStats(qosClass.name);
+      return { ...stats, drops: { ...stats.drops } };
+    });
+  }
+  
+  public resetQosStatistics(): void {
+    this.qosStats.clear();
+  }
+  
+  public getContactPlanOptions(): Required<ContactPlanOptions> {
+    return { ...this.contactPlanOptions };
+  }
+  
+  public setContactPlanOptions(options: ContactPlanOptions): void {
+    this.contactPlanOptions = { ...this.contactPlanOptions, ...options };
+    this.contactPlanStale = true;
+  }
+  
+  /** Predicted ISL and ground contacts from the current time over the plan horizon */
+  public getContactPlan(): ContactPlan {
+    this.ensureContactPlan();
+    return this.contactRouter.getPlan()!;
+  }
+  
+  public getContactRouter(): ContactGraphRouter {
+    this.ensureContactPlan();
+    return this.contactRouter;
+  }
+  
+  /**
+   * Earliest-arrival route over the contact plan for size KB of data ready now;
+   * its latency includes the time spent waiting for contacts. Null when the
+   * destination cannot be reached within the plan horizon. User terminals are not
+   * in the plan: their access links to their serving satellites are added at either
+   * end, assuming they keep those satellites, the same way packets are forwarded.
+   */
+  public getEarliestArrival(sourceId: string, destinationId: string, size: number = 0): ContactRoute | null {
+    const router = this.getContactRouter();
+    const now = this.clock.getTime();
+    const source = this.userTerminals.get(sourceId);
+    const destination = this.userTerminals.get(destinationId);
+    if (!source && !destination) {
+      return router.findRoute(sourceId, destinationId, now, size);
+    }
+    
+    const hops: ContactHop[] = [];
+    let from = sourceId;
+    let ready = now;
+    if (source) {
+      const access = source.connections.satellite ? this.getAccessContactHop(source.id, source.connections.satellite, now, size) : null;
+      if (!access) return null;
+      hops.push(access);
+      from = access.contact.to;
+      ready = access.arrival;
+    }
+    
+    const to = destination ? destination.connections.satellite : destinationId;
+    if (!to) return null;
+    const route = router.findRoute(from, to, ready, size);
+    if (!route) return null;
+    hops.push(...route.hops);
+    
+    let arrival = route.arrival;
+    if (destination) {
+      const access = this.getAccessContactHop(to, destination.id, arrival, size);
+      if (!access) return null;
+      hops.push(access);
+      arrival = access.arrival;
+    }
+    return { source: sourceId, destination: destinationId, departure: now, arrival, latency: (arrival - now) / 1000, hops };
+  }
+  
+  public getShadowModel(): ShadowModel {
+    return this.shadowModel;
+  }
+  
+  public setShadowModel(model: ShadowModel): void {
+    this.shadowModel = model;
+    const sun = Eclipse.sunPosition(new Date(this.propagationTime));
+    this.satellites.forEach(satellite => this.updateEclipseState(satellite, sun));
+  }
+  
+  /**
+   * Sunlit fraction of a satellite averaged over one orbital period from a date (now when
+   * omitted), with the Sun held at its position at that date. Null for unknown satellites.
+   */
+  public getOrbitSunlitFraction(satelliteId: string, date: Date = this.clock.getDate()): number | null {
+    const satellite = this.satellites.get(satelliteId);
+    if (!satellite) return null;
+    
+    const samples = 180;
+    const start = date.getTime();
+    const period = 2 * Math.PI / this.secularRates(satellite.orbitalParameters).meanAnomalyRate * 1000;
+    const sun = Eclipse.sunPosition(date);
+    
+    let total = 0;
+    for (let i = 0; i < samples; i++) {
+      const time = Math.round(start + (i + 0.5) * period / samples);
+      const position = this.ephemeris.getPosition(satelliteId, time) ?? this.propagateSatellite(satellite, new Date(time)).position;
+      total += Eclipse.sunlitFraction(Coordinates.fromSceneAxes(position), sun, this.shadowModel);
+    }
+    
+    return total / samples;
+  }
+  
+  public getPowerConfig(generation: SatelliteGeneration): PowerConfig {
+    return { ...this.powerConfigs[generation] };
+  }
+  
+  public setPowerConfig(generation: SatelliteGeneration, config: Partial<PowerConfig>): void {
+    this.powerConfigs[generation] = { ...this.powerConfigs[generation], ...config };
+  }
+  
+  public getDragConfig(): DragConfig {
+    return { ...this.dragConfig };
+  }
+  
+  public setDragConfig(config: Partial<DragConfig>): void {
+    this.dragConfig = { ...this.dragConfig, ...config };
+  }
+  
+  /**
+   * Turn station-keeping on or off for the given satellites (all when omitted).
+   * Satellites without station-keeping decay under drag and are removed at reentry.
+   */
+  public setStationKeeping(enabled: boolean, satelliteIds?: string[]): void {
+    const ids = satelliteIds ?? Array.from(this.satellites.keys());
+    ids.forEach(id => {
+      const satellite = this.satellites.get(id);
+      if (satellite) {
+        satellite.stationKeeping = enabled;
+        this.ephemeris.invalidate(id);
+      }
+    });
+  }
+  
+  /**
+   * Schedule a launch into vacant slots of one plane. The batch deploys as a train at
+   * its insertion altitude once the clock passes launchDate, raises to the shell and
+   * only joins routing on arrival. Returns the IDs the satellites will have.
+   */
+  public scheduleLaunch(batch: LaunchBatch): string[] {
+    const shell = this.constellation.shells[batch.shellIndex];
+    if (!shell) {
+      throw new Error(`Launch ${batch.id}: unknown shell ${batch.shellIndex}`);
+    }
+    if (!Number.isInteger(batch.plane) || batch.plane < 0 || batch.plane >= shell.planes) {
+      throw new Error(`Launch ${batch.id}: shell ${shell.name} has no plane ${batch.plane}`);
+    }
+    if (isNaN(batch.launchDate.getTime())) {
+      throw new Error(`Launch ${batch.id}: invalid launch date`);
+    }
+    
+    const vacant = this.getVacantSlots(batch.shellIndex, batch.plane);
+    let slotIds: string[];
+    
+    if (batch.slots) {
+      slotIds = batch.slots.map(slot => ConstellationDesigner.satelliteId(batch.shellIndex, batch.plane, slot));
+      const unavailable = slotIds.filter(id => !vacant.includes(id));
+      if (unavailable.length > 0) {
+        throw new Error(`Launch ${batch.id}: slots not vacant: ${unavailable.join(', ')}`);
+      }
+    } else {
+      slotIds = vacant.slice(0, batch.count ?? vacant.length);
+    }
+    
+    if (slotIds.length === 0) {
+      throw new Error(`Launch ${batch.id}: no vacant slots in ${shell.name} plane ${batch.plane}`);
+    }
+    
+    this.pendingLaunches.push({ batch, slotIds });
+    this.processLaunches(this.clock.getTime());
+    
+    return slotIds;
+  }
+  
+  /** Start end-of-life disposal of the given satellites at a date (now when omitted) */
+  public scheduleDeorbit(satelliteIds: string[], date: Date = this.clock.getDate()): void {
+    satelliteIds.forEach(id => {
+      const record = this.lifecycle.get(id);
+      if (record) {
+        record.endOfLifeTime = date.getTime();
+      }
+    });
+  }
+  
+  /**
+   * Schedule a collision-avoidance maneuver: the satellite changes altitude by
+   * deltaAltitude for durationSeconds from start, then returns. Its inter-satellite
+   * links are dropped while it is maneuvering.
+   */
+  public scheduleAvoidanceManeuver(
+    satelliteId: string,
+    start: Date,
+    durationSeconds: number,
+    deltaAltitude: number = 1
+  ): AvoidanceManeuver {
+    const satellite = this.satellites.get(satelliteId);
+    if (!satellite) {
+      throw new Error(`Unknown satellite: ${satelliteId}`);
+    }
+    if (!this.isOnStation(satellite) || !satellite.stationKeeping) {
+      throw new Error(`Satellite ${satelliteId} is not able to maneuver`);
+    }
+    if (this.maneuvers.has(satelliteId)) {
+      throw new Error(`Satellite ${satelliteId} already has a maneuver scheduled`);
+    }
+    if (!(durationSeconds > 0) || !(start.getTime() > this.propagationTime)) {
+      throw new Error('Maneuvers must start after the current simulation time and have a positive duration');
+    }
+    
+    const maneuver: AvoidanceManeuver = {
+      satelliteId,
+      startTime: start.getTime(),
+      endTime: start.getTime() + durationSeconds * 1000,
+      deltaAltitude,
+      active: false
+    };
+    this.maneuvers.set(satelliteId, maneuver);
+    this.ephemeris.invalidate(satelliteId);
+    this.contactPlanStale = true;
+    
+    return { ...maneuver };
+  }
+  
+  /** Cancel a scheduled or running maneuver; a running one ends immediately */
+  public cancelAvoidanceManeuver(satelliteId: string): boolean {
+    const maneuver = this.maneuvers.get(satelliteId);
+    const satellite = this.satellites.get(satelliteId);
+    if (!maneuver || !satellite) return false;
+    
+    if (maneuver.active) {
+      satellite.orbitalParameters.altitude -= maneuver.deltaAltitude;
+      const { position, velocity } = this.calculateOrbitalState(satellite.orbitalParameters);
+      satellite.position = position;
+      satellite.velocity = velocity;
+      this.emit('maneuverCompleted', satellite, { ...maneuver, active: false });
+    }
+    this.maneuvers.delete(satelliteId);
+    this.ephemeris.invalidate(satelliteId);
+    this.contactPlanStale = true;
+    return true;
+  }
+  
+  public getAvoidanceManeuver(satelliteId: string): AvoidanceManeuver | undefined {
+    const maneuver = this.maneuvers.get(satelliteId);
+    return maneuver ? { ...maneuver } : undefined;
+  }
+  
+  public getAvoidanceManeuvers(): AvoidanceManeuver[] {
+    return Array.from(this.maneuvers.values()).map(maneuver => ({ ...maneuver }));
+  }
+  
+  public isManeuvering(satelliteId: string): boolean {
+    return this.maneuvers.get(satelliteId)?.active ?? false;
+  }
+  
+  public getLifecycle(satelliteId: string): LifecycleRecord | undefined {
+    return this.lifecycle.get(satelliteId);
+  }
+  
+  public getPendingLaunches(): LaunchBatch[] {
+    return this.pendingLaunches.map(({ batch }) => batch);
+  }
+  
+  /** Slots of a plane with no satellite in them and no launch heading for them */
+  public getVacantSlots(shellIndex: number, plane: number): string[] {
+    const reserved = new Set<string>();
+    this.pendingLaunches.forEach(({ slotIds }) => slotIds.forEach(id => reserved.add(id)));
+    
+    return Array.from(this.slots.values())
+      .filter(slot => slot.shellIndex === shellIndex && slot.plane === plane)
+      .map(slot => slot.id)
+      .filter(id => !this.satellites.has(id) && !reserved.has(id));
+  }
+  
+  /** Launch batches whose satellites are still in the deployment train or raising orbit */
+  public getLaunchTrains(): LaunchTrain[] {
+    const trains = new Map<string, string[]>();
+    
+    this.lifecycle.forEach(record => {
+      if (record.batchId && (record.phase === 'launched' || record.phase === 'raising')) {
+        if (!trains.has(record.batchId)) {
+          trains.set(record.batchId, []);
+        }
+        trains.get(record.batchId)!.push(record.satelliteId);
+      }
+    });
+    
+    return Array.from(trains.entries()).map(([batchId, satelliteIds]) => ({ batchId, satelliteIds }));
+  }
+  
+  public dispose(): void {
+    this.clock.off('jump', this.handleClockJump);
+    this.removeAllListeners();
   }
   
   public getSatellite(id: string): Satellite | undefined {
@@ -115,6 +667,76 @@ export class SatelliteNetwork extends EventEmitter {
     return Array.from(this.groundStations.values());
   }
   
+  // Replace a station's pointing mask, e.g. with a site-specific one from StarlinkGroundStations
+  public setGroundStationElevationConstraints(id: string, constraints: ElevationConstraints): boolean {
+    const groundStation = this.groundStations.get(id);
+    if (!groundStation) return false;
+    
+    groundStation.elevationConstraints = constraints;
+    this.updateGroundStationConnections();
+    return true;
+  }
+  
+  public getUserTerminal(id: string): UserTerminal | undefined {
+    return this.userTerminals.get(id);
+  }
+  
+  public getAllUserTerminals(): UserTerminal[] {
+    return this.userTerminals.getAll();
+  }
+  
+  /** Throws on an invalid position; the terminal connects at the next update */
+  public addUserTerminal(position: GeoPosition, options: UserTerminalOptions = {}): UserTerminal {
+    const terminal = this.userTerminals.add(position, options);
+    this.trafficMatrix = null;
+    return terminal;
+  }
+  
+  /** Place terminals over a density grid, scaled down to a manageable sample if needed */
+  public generateUserTerminals(grid: DensityGrid, options: DensityGridOptions = {}): UserTerminal[] {
+    const terminals = this.userTerminals.generateFromGrid(grid, options);
+    this.trafficMatrix = null;
+    return terminals;
+  }
+  
+  /** Traffic waiting at the terminal is dropped with it */
+  public removeUserTerminal(id: string): boolean {
+    const terminal = this.userTerminals.get(id);
+    if (!terminal) return false;
+    
+    terminal.queue.slice().forEach(packet => this.dropPacket(packet, 'node-lost'));
+    this.userTerminals.remove(id);
+    this.trafficMatrix = null;
+    const satellite = terminal.connections.satellite ? this.satellites.get(terminal.connections.satellite) : undefined;
+    if (satellite) {
+      satellite.connections.userTerminals = satellite.connections.userTerminals.filter(other => other !== id);
+      this.routingDirty = true;
+    }
+    return true;
+  }
+  
+  /** Changes to the demand model reach generated traffic when the matrix is next rebuilt */
+  public getTrafficDemand(): TrafficDemand {
+    return this.trafficDemand;
+  }
+  
+  /**
+   * Offered load generated packets are drawn from. Subscribers sit behind the user
+   * terminals when there are any, with all their traffic to and from the internet;
+   * otherwise traffic runs between ground stations.
+   */
+  public getTrafficMatrix(): TrafficMatrix {
+    const now = this.clock.getTime();
+    if (!this.trafficMatrix || now < this.trafficMatrix.time ||
+        now - this.trafficMatrix.time >= this.trafficRefreshInterval * 1000) {
+      const terminals = this.userTerminals.getAll();
+      this.trafficMatrix = terminals.length > 0
+        ? this.trafficDemand.getTrafficMatrix(now, terminals, 1)
+        : this.trafficDemand.getTrafficMatrix(now, Array.from(this.groundStations.values()), 0);
+    }
+    return this.trafficMatrix;
+  }
+  
   public getPacket(id: string): DataPacket | undefined {
     return this.packets.get(id);
   }
@@ -123,9 +745,13 @@ export class SatelliteNetwork extends EventEmitter {
     return Array.from(this.packets.values());
   }
   
+  /**
+   * Advance the network by the simulated seconds of the last clock tick.
+   * Satellite positions always follow the clock's absolute time.
+   */
   public update(deltaTime: number): void {
     // Update satellite positions
-    this.updateSatellitePositions(deltaTime);
+    this.updateSatellitePositions();
     
     // Update satellite connections
     this.updateSatelliteConnections();
@@ -144,31 +770,36 @@ export class SatelliteNetwork extends EventEmitter {
   }
   
   public createPacket(
-    sourceType: 'satellite' | 'groundStation' | 'internet',
+    sourceType: NodeType,
     sourceId: string,
-    destinationType: 'satellite' | 'groundStation' | 'internet',
+    destinationType: NodeType,
     destinationId: string,
     size: number,
-    priority: number
+    priority: number,
+    options: PacketOptions = {}
   ): DataPacket | null {
     // Validate source
     if (sourceType === 'satellite' && !this.satellites.has(sourceId)) return null;
     if (sourceType === 'groundStation' && !this.groundStations.has(sourceId)) return null;
+    if (sourceType === 'userTerminal' && !this.userTerminals.has(sourceId)) return null;
     
     // Validate destination
     if (destinationType === 'satellite' && !this.satellites.has(destinationId)) return null;
     if (destinationType === 'groundStation' && !this.groundStations.has(destinationId)) return null;
+    if (destinationType === 'userTerminal' && !this.userTerminals.has(destinationId)) return null;
     
     // Create packet
     const packetId = `packet_${this.packetCount++}`;
     
-    // Get destination position if it's a ground station
+    // Get destination position if it's on the ground
     let destinationPosition: GeoPosition | undefined;
     if (destinationType === 'groundStation') {
       const groundStation = this.groundStations.get(destinationId);
       if (groundStation) {
         destinationPosition = groundStation.position;
       }
+    } else if (destinationType === 'userTerminal') {
+      destinationPosition = this.userTerminals.get(destinationId)?.position;
     }
     
     const packet: DataPacket = {
@@ -184,30 +815,21 @@ export class SatelliteNetwork extends EventEmitter {
       },
       size,
       priority,
-      timestamp: Date.now(),
+      timestamp: options.timestamp ?? this.clock.getTime(),
       path: [sourceId],
       status: 'queued',
       latency: 0,
+      hops: [],
+      segment: options.segment,
     };
     
     // Add to collection
     this.packets.set(packetId, packet);
     
-    // Add to source queue
-    if (sourceType === 'satellite') {
-      const satellite = this.satellites.get(sourceId);
-      if (satellite) {
-        satellite.queue.push(packet);
-      }
-    } else if (sourceType === 'groundStation') {
-      const groundStation = this.groundStations.get(sourceId);
-      if (groundStation) {
-        groundStation.queue.push(packet);
-      }
-    }
+    this.getPacketClassStats(packet).offered++;
     
-    // Start routing
-    this.routePacket(packet);
+    // Start routing from the source's queue
+    this.receivePacket(packet, sourceId, packet.timestamp);
     
     // Emit packet created event
     this.emit('packetCreated', packet);
@@ -216,65 +838,72 @@ export class SatelliteNetwork extends EventEmitter {
   }
   
   private initializeConstellation(): void {
-    // Create 9 orbital planes (simplified)
-    const orbitalPlanes = 9;
-    const satellitesPerPlane = 20; // Reduced for visualization
-    const baseAltitude = 550; // km
-    
-    for (let plane = 0; plane < orbitalPlanes; plane++) {
-      const inclination = 53 + (plane * 2); // Vary inclination slightly between planes
-      const longitudeOfAscendingNode = (plane * 40) % 360; // Distribute planes around Earth
+    ConstellationDesigner.generate(this.constellation).forEach(slot => {
+      this.slots.set(slot.id, slot);
       
-      for (let i = 0; i < satellitesPerPlane; i++) {
-        const id = `sat_${plane}_${i}`;
-        const meanAnomaly = (i * 360 / satellitesPerPlane) % 360; // Distribute satellites in plane
-        
-        // Determine satellite type first
-        const satelliteType = this.getSatelliteType();
-        
-        // Create satellite object
-        const satellite: Satellite = {
-          id,
-          position: { x: 0, y: 0, z: 0 },
-          velocity: { x: 0, y: 0, z: 0 },
-          orbitalParameters: {
-            altitude: baseAltitude + (Math.random() * 20 - 10), // Small random variation
-            inclination: inclination,
-            eccentricity: 0.0001, // Nearly circular
-            argumentOfPeriapsis: 0,
-            longitudeOfAscendingNode: longitudeOfAscendingNode,
-            meanAnomaly: meanAnomaly,
-          },
-          connections: {
-            satellites: [],
-            groundStations: [],
-          },
-          bandwidth: {
-            uplink: 50, // Mbps per beam to ground
-            downlink: 150, // Mbps per beam to ground  
-            interSatellite: this.getIsLinkBandwidth(satelliteType), // RF ISL bandwidth based on generation
-          },
-          beams: Math.floor(Math.random() * 4) + 8, // 8-12 beams per satellite
-          timeSlots: Array(24).fill(null).map((_, idx) => ({ 
-            duration: 15, 
-            allocation: idx % 3 === 0 ? 'open' : `resource_${Math.floor(Math.random() * 100)}` 
-          })), // 24 15-second slots (6 minutes of scheduling)
-          queue: [],
-          status: 'operational',
-          type: satelliteType, // Realistic mix of satellite generations
-        };
-        
-        // Calculate initial position
-        this.updateSatellitePosition(satellite, 0);
-        
-        // Add to collection
-        this.satellites.set(id, satellite);
-      }
-    }
+      // Undeployed slots stay empty until a launch fills them
+      if (!slot.deployed) return;
+      
+      this.satellites.set(slot.id, this.createSatellite(slot, slot.orbitalParameters, 'operational'));
+      this.lifecycle.set(
+        slot.id,
+        SatelliteLifecycle.createOnStationRecord(slot.id, slot.id, slot.orbitalParameters.altitude, this.slotEpoch)
+      );
+    });
+  }
+  
+  private createSatellite(slot: ConstellationSlot, orbitalParameters: OrbitalParameters, status: SatelliteStatus): Satellite {
+    const beams = Math.floor(Math.random() * 4) + 8; // 8-12 beams per satellite
+    
+    // Create satellite object
+    const satellite: Satellite = {
+      id: slot.id,
+      position: { x: 0, y: 0, z: 0 },
+      velocity: { x: 0, y: 0, z: 0 },
+      orbitalParameters: { ...orbitalParameters },
+      connections: {
+        satellites: [],
+        groundStations: [],
+        userTerminals: [],
+      },
+      bandwidth: {
+        uplink: 50, // Mbps per beam to ground
+        downlink: 150, // Mbps per beam to ground  
+        interSatellite: this.laserTerminals.getConfig(slot.generation).linkCapacity, // Mbps per laser link
+      },
+      beams,
+      timeSlots: Array(24).fill(null).map((_, idx) => ({ 
+        duration: 15, 
+        allocation: idx % 3 === 0 ? 'open' : `resource_${Math.floor(Math.random() * 100)}` 
+      })), // 24 15-second slots (6 minutes of scheduling)
+      queue: [],
+      status,
+      type: slot.generation,
+      ballisticCoefficient: slot.ballisticCoefficient,
+      stationKeeping: true,
+      eclipse: 'sunlit',
+      sunlitFraction: 1,
+      power: PowerModel.initialState(beams),
+    };
+    
+    // Calculate initial position
+    this.updateSatellitePosition(satellite, 0);
+    this.updateEclipseState(satellite, Eclipse.sunPosition(new Date(this.propagationTime)));
+    
+    return satellite;
   }
   
   private initializeGroundStations(): void {
-    // Define major ground station locations
+    // Surveyed gateways from regulatory filings, with their own pointing masks
+    STARLINK_GROUND_STATIONS.forEach(site => {
+      const status = site.operationalStatus === 'active' ? 'operational'
+        : site.operationalStatus === 'construction' ? 'degraded' : 'offline';
+      this.groundStations.set(site.id, this.createGroundStation(
+        site.id, { latitude: site.latitude, longitude: site.longitude }, { ...site.elevationConstraints }, status
+      ));
+    });
+    
+    // Major regional ground stations without survey data use the default mask
     const stationLocations = [
       { id: 'gs_1', name: 'North America 1', latitude: 37.7749, longitude: -122.4194 }, // San Francisco
       { id: 'gs_2', name: 'North America 2', latitude: 40.7128, longitude: -74.0060 },  // New York
@@ -287,223 +916,532 @@ export class SatelliteNetwork extends EventEmitter {
       { id: 'gs_9', name: 'Africa', latitude: -33.9249, longitude: 18.4241 },           // Cape Town
     ];
     
-    stationLocations.forEach(({ id, name, latitude, longitude }) => {
-      // Create ground station object
-      const groundStation: GroundStation = {
-        id,
-        position: {
-          latitude,
-          longitude,
-        },
-        connections: {
-          satellites: [],
-          internet: true,
-        },
-        coverage: {
-          radius: 1000, // km
-        },
-        bandwidth: 1000, // Mbps
-        queue: [],
-        status: 'operational',
-      };
-      
-      // Add to collection
-      this.groundStations.set(id, groundStation);
+    stationLocations.forEach(({ id, latitude, longitude }) => {
+      this.groundStations.set(id, this.createGroundStation(
+        id, { latitude, longitude }, { ...DEFAULT_ELEVATION_CONSTRAINTS }, 'operational'
+      ));
     });
   }
   
-  private updateSatellitePositions(deltaTime: number): void {
-    this.satellites.forEach(satellite => {
-      this.updateSatellitePosition(satellite, deltaTime);
-    });
+  private createGroundStation(
+    id: string,
+    position: GeoPosition,
+    elevationConstraints: ElevationConstraints,
+    status: GroundStation['status']
+  ): GroundStation {
+    return {
+      id,
+      position,
+      connections: {
+        satellites: [],
+        internet: true,
+      },
+      coverage: {
+        radius: 1000, // km
+      },
+      elevationConstraints,
+      bandwidth: 1000, // Mbps
+      queue: [],
+      status,
+    };
   }
   
-  private updateSatellitePosition(satellite: Satellite, deltaTime: number): void {
-    // Simplified orbital mechanics calculation
-    const { altitude, inclination, eccentricity, argumentOfPeriapsis, longitudeOfAscendingNode, meanAnomaly } = satellite.orbitalParameters;
-    
-    // Semi-major axis
-    const semiMajorAxis = this.earthRadius + altitude;
-    
-    // Orbital period (in seconds) using Kepler's third law
-    const period = 2 * Math.PI * Math.sqrt(Math.pow(semiMajorAxis, 3) / this.mu);
-    
-    // Update mean anomaly (in radians)
-    const meanMotion = 2 * Math.PI / period; // radians per second
-    satellite.orbitalParameters.meanAnomaly = (satellite.orbitalParameters.meanAnomaly + (meanMotion * deltaTime * 1000)) % 360;
-    
-    // Convert mean anomaly to eccentric anomaly (simplified for low eccentricity)
-    const M = satellite.orbitalParameters.meanAnomaly * (Math.PI / 180);
-    const E = M + eccentricity * Math.sin(M);
-    
-    // Convert eccentric anomaly to true anomaly
-    const trueAnomaly = 2 * Math.atan2(
-      Math.sqrt(1 + eccentricity) * Math.sin(E / 2),
-      Math.sqrt(1 - eccentricity) * Math.cos(E / 2)
-    );
-    
-    // Calculate distance from focus
-    const distance = semiMajorAxis * (1 - eccentricity * Math.cos(E));
-    
-    // Convert orbital elements to position in orbital plane
-    const xOrbit = distance * Math.cos(trueAnomaly);
-    const yOrbit = distance * Math.sin(trueAnomaly);
-    
-    // Convert inclination, longitude of ascending node, and argument of periapsis to radians
-    const incRad = inclination * (Math.PI / 180);
-    const loanRad = longitudeOfAscendingNode * (Math.PI / 180);
-    const aopRad = argumentOfPeriapsis * (Math.PI / 180);
+  // Clock jumps are not continuous: they raise no eclipse events and do not charge or drain batteries
+  private updateSatellitePositions(continuous: boolean = true): void {
+    const currentTime = this.clock.getTime();
+    const previousTime = this.propagationTime;
+    const elapsed = (currentTime - previousTime) / 1000; // seconds, negative when jumping back
+    this.propagationTime = currentTime;
     
-    // Rotation matrices to transform from orbital plane to Earth-centered inertial frame
-    // First rotate by argument of periapsis around z-axis
-    const x1 = xOrbit * Math.cos(aopRad) - yOrbit * Math.sin(aopRad);
-    const y1 = xOrbit * Math.sin(aopRad) + yOrbit * Math.cos(aopRad);
-    const z1 = 0;
+    const reentered: Satellite[] = [];
     
-    // Then rotate by inclination around x-axis
-    const x2 = x1;
-    const y2 = y1 * Math.cos(incRad);
-    const z2 = y1 * Math.sin(incRad);
-    
-    // Finally rotate by longitude of ascending node around z-axis
-    const x = x2 * Math.cos(loanRad) - y2 * Math.sin(loanRad);
-    const y = x2 * Math.sin(loanRad) + y2 * Math.cos(loanRad);
-    const z = z2;
+    this.satellites.forEach(satellite => {
+      // Lifecycle and decay only run forward in time; jumping back neither un-launches
+      // satellites nor restores lost altitude
+      const record = this.lifecycle.get(satellite.id);
+      if (record && elapsed > 0 &&
+          (record.phase !== 'operational' || SatelliteLifecycle.phaseAt(record, currentTime) !== 'operational')) {
+        this.updateLifecycleSatellite(satellite, record, elapsed, currentTime);
+        this.ephemeris.invalidate(satellite.id);
+        if (record.phase === 'deorbiting' && this.getPerigeeAltitude(satellite) < this.dragConfig.reentryAltitude) {
+          reentered.push(satellite);
+        }
+        return;
+      }
+      
+      // A satellite flying an avoidance maneuver is under active control
+      const maneuver = this.maneuvers.get(satellite.id);
+      if (maneuver) {
+        this.updateManeuverState(satellite, maneuver, previousTime, currentTime);
+        return;
+      }
+      
+      if (!satellite.stationKeeping && elapsed > 0) {
+        this.applyDrag(satellite, elapsed);
+        this.ephemeris.invalidate(satellite.id);
+        if (this.getPerigeeAltitude(satellite) < this.dragConfig.reentryAltitude) {
+          reentered.push(satellite);
+        }
+        return;
+      }
+      
+      // Steady orbit: elements first, since the cache propagates from them
+      Object.assign(satellite.orbitalParameters, this.advanceOrbitalParameters(satellite.orbitalParameters, elapsed));
+      const state = this.ephemeris.getState(satellite.id, currentTime) ?? this.calculateOrbitalState(satellite.orbitalParameters);
+      satellite.position = state.position;
+      satellite.velocity = state.velocity;
+    });
     
-    // Update satellite position
-    satellite.position = { x, y: z, z: y }; // Swap y and z for Three.js coordinate system
+    reentered.forEach(satellite => this.removeReenteredSatellite(satellite));
     
-    // Calculate velocity (simplified)
-    const speed = Math.sqrt(this.mu / semiMajorAxis);
-    const vx = -speed * Math.sin(trueAnomaly + aopRad + loanRad);
-    const vy = speed * Math.cos(trueAnomaly + aopRad + loanRad) * Math.cos(incRad);
-    const vz = speed * Math.cos(trueAnomaly + aopRad + loanRad) * Math.sin(incRad);
+    this.updateEclipseStates(previousTime, currentTime, continuous && elapsed > 0);
+    if (continuous && elapsed > 0) {
+      this.updatePowerStates(currentTime, elapsed);
+    }
     
-    satellite.velocity = { x: vx, y: vz, z: vy }; // Swap y and z for Three.js coordinate system
+    this.processLaunches(currentTime);
   }
   
-  private updateSatelliteConnections(): void {
-    // Clear existing connections
-    this.satellites.forEach(satellite => {
-      satellite.connections.satellites = [];
-    });
-    
-    // Establish new connections based on realistic RF field of view
-    const satelliteArray = Array.from(this.satellites.values());
+  private updateEclipseStates(previousTime: number, currentTime: number, emitEvents: boolean): void {
+    const sun = Eclipse.sunPosition(new Date(currentTime));
     
-    for (let i = 0; i < satelliteArray.length; i++) {
-      const satelliteA = satelliteArray[i];
+    this.satellites.forEach(satellite => {
+      const wasSunlit = satellite.eclipse === 'sunlit';
+      this.updateEclipseState(satellite, sun);
       
-      for (let j = i + 1; j < satelliteArray.length; j++) {
-        const satelliteB = satelliteArray[j];
-        
-        // Check if satellites can "see" each other (RF line of sight)
-        if (this.hasRfLineOfSight(satelliteA, satelliteB)) {
-          // Calculate distance for connection feasibility
-          const distance = this.calculateDistance(satelliteA.position, satelliteB.position);
-          
-          // Realistic RF connection ranges based on satellite generation
-          const maxRfRange = this.getMaxRfRange(satelliteA, satelliteB);
-          
-          if (distance <= maxRfRange) {
-            // Bidirectional RF connection
-            satelliteA.connections.satellites.push(satelliteB.id);
-            satelliteB.connections.satellites.push(satelliteA.id);
-          }
-        }
+      // Entry and exit are the crossings of the penumbra boundary
+      if (emitEvents && wasSunlit !== (satellite.eclipse === 'sunlit')) {
+        const event: EclipseEvent = {
+          satelliteId: satellite.id,
+          type: wasSunlit ? 'entry' : 'exit',
+          time: new Date(this.findEclipseTransition(satellite, sun, previousTime, currentTime, wasSunlit)),
+          state: satellite.eclipse
+        };
+        this.emit(wasSunlit ? 'eclipseEntered' : 'eclipseExited', satellite, event);
+      }
+    });
+  }
+  
+  private updatePowerStates(currentTime: number, elapsed: number): void {
+    const sun = Eclipse.sunPosition(new Date(currentTime));
+    
+    this.satellites.forEach(satellite => {
+      const config = this.powerConfigs[satellite.type];
+      const generation = PowerModel.generation(
+        config,
+        Coordinates.fromSceneAxes(satellite.position),
+        Coordinates.fromSceneAxes(satellite.velocity),
+        sun,
+        satellite.sunlitFraction
+      );
+      
+      const previousMode = satellite.power.mode;
+      satellite.power = PowerModel.step(
+        satellite.power, config, generation, satellite.beams, satellite.connections.satellites.length, elapsed
+      );
+      if (satellite.power.mode !== previousMode) {
+        this.emit('powerModeChanged', satellite, previousMode);
+      }
+    });
+  }
+  
+  private updateEclipseState(satellite: Satellite, sun: Position): void {
+    satellite.sunlitFraction = Eclipse.sunlitFraction(Coordinates.fromSceneAxes(satellite.position), sun, this.shadowModel);
+    satellite.eclipse = Eclipse.stateOf(satellite.sunlitFraction);
+  }
+  
+  // Bisect the step for the time the satellite crossed the penumbra boundary, to 0.1 s;
+  // the Sun moves about 1° a day, so it is held at its end-of-step position
+  private findEclipseTransition(satellite: Satellite, sun: Position, fromTime: number, toTime: number, wasSunlit: boolean): number {
+    let low = fromTime;
+    let high = toTime;
+    
+    while (high - low > 100) {
+      const middle = Math.round((low + high) / 2);
+      const { position } = this.propagateSatellite(satellite, new Date(middle));
+      const sunlit = Eclipse.sunlitFraction(Coordinates.fromSceneAxes(position), sun, this.shadowModel) >= 1;
+      if (sunlit === wasSunlit) {
+        low = middle;
+      } else {
+        high = middle;
       }
     }
+    
+    return high;
   }
   
-  // Check if two satellites have RF line of sight (not blocked by Earth)
-  private hasRfLineOfSight(satA: Satellite, satB: Satellite): boolean {
-    const posA = satA.position;
-    const posB = satB.position;
+  private processLaunches(currentTime: number): void {
+    const due = this.pendingLaunches.filter(({ batch }) => batch.launchDate.getTime() <= currentTime);
+    if (due.length === 0) return;
     
-    // Vector from satA to satB
-    const direction = {
-      x: posB.x - posA.x,
-      y: posB.y - posA.y,
-      z: posB.z - posA.z
-    };
+    this.pendingLaunches = this.pendingLaunches.filter(launch => !due.includes(launch));
+    due.forEach(({ batch, slotIds }) => this.deployLaunch(batch, slotIds, currentTime));
+  }
+  
+  // Release the batch as a tight train in the lead slot's plane, then bring it up to the current time
+  private deployLaunch(batch: LaunchBatch, slotIds: string[], currentTime: number): void {
+    const shell = this.constellation.shells[batch.shellIndex];
+    const launchTime = batch.launchDate.getTime();
+    const spacing = batch.trainSpacing ?? SatelliteLifecycle.DEFAULTS.trainSpacing;
+    const lead = this.getSlotElements(slotIds[0], launchTime);
+    
+    slotIds.forEach((slotId, index) => {
+      const record = SatelliteLifecycle.createRecord(slotId, slotId, batch, shell.altitude);
+      const meanAnomaly = (lead.meanAnomaly - index * spacing) % 360;
+      const satellite = this.createSatellite(this.slots.get(slotId)!, {
+        ...lead,
+        altitude: record.insertionAltitude,
+        meanAnomaly: meanAnomaly < 0 ? meanAnomaly + 360 : meanAnomaly
+      }, 'launched');
+      
+      this.satellites.set(slotId, satellite);
+      this.lifecycle.set(slotId, record);
+      this.ephemeris.invalidate(slotId);
+      this.updateLifecycleSatellite(satellite, record, (currentTime - launchTime) / 1000, currentTime);
+      this.updateEclipseState(satellite, Eclipse.sunPosition(new Date(currentTime)));
+      
+      this.emit('satelliteLaunched', satellite, batch.id);
+    });
+  }
+  
+  // Elements of a Walker slot at a given time, drifting with J2 like an occupant would
+  private getSlotElements(slotId: string, time: number): OrbitalParameters {
+    return this.advanceOrbitalParameters(this.slots.get(slotId)!.orbitalParameters, (time - this.slotEpoch) / 1000);
+  }
+  
+  private updateLifecycleSatellite(satellite: Satellite, record: LifecycleRecord, deltaTime: number, currentTime: number): void {
+    const phase = SatelliteLifecycle.phaseAt(record, currentTime);
+    const parameters = satellite.orbitalParameters;
     
-    const distance = Math.sqrt(direction.x * direction.x + direction.y * direction.y + direction.z * direction.z);
+    if (phase === 'launched' || phase === 'raising') {
+      Object.assign(parameters, this.advanceOrbitalParameters(parameters, deltaTime));
+      parameters.altitude = SatelliteLifecycle.raisingAltitudeAt(record, currentTime);
+      
+      // Steer onto the target slot so the remaining offset closes exactly on arrival:
+      // the plane from deployment, the along-track phase only once the train breaks up
+      const target = this.getSlotElements(record.slotId, currentTime);
+      const remaining = (record.onStationTime - currentTime) / 1000;
+      const fraction = remaining > 0 ? deltaTime / (remaining + deltaTime) : 1;
+      const steer = (angle: number, goal: number): number => {
+        const offset = ((goal - angle) % 360 + 540) % 360 - 180;
+        const steered = (angle + offset * fraction) % 360;
+        return steered < 0 ? steered + 360 : steered;
+      };
+      
+      parameters.longitudeOfAscendingNode = steer(parameters.longitudeOfAscendingNode, target.longitudeOfAscendingNode);
+      if (phase === 'raising') {
+        parameters.argumentOfPeriapsis = steer(parameters.argumentOfPeriapsis, target.argumentOfPeriapsis);
+        parameters.meanAnomaly = steer(parameters.meanAnomaly, target.meanAnomaly);
+      }
+    } else if (phase === 'operational') {
+      // Arrival: take over the slot's elements
+      Object.assign(parameters, this.getSlotElements(record.slotId, currentTime));
+    } else {
+      Object.assign(parameters, this.advanceOrbitalParameters(parameters, deltaTime));
+      parameters.altitude -= record.deorbitRate * deltaTime / 86400;
+    }
     
-    // Normalize direction vector
-    const unitDir = {
-      x: direction.x / distance,
-      y: direction.y / distance,
-      z: direction.z / distance
-    };
+    const { position, velocity } = this.calculateOrbitalState(parameters);
+    satellite.position = position;
+    satellite.velocity = velocity;
     
-    // Check for Earth occlusion by finding closest point on line to Earth center
-    // Using parametric line equation: P = posA + t * unitDir
-    // Find t where line is closest to origin (Earth center)
-    const t = -(posA.x * unitDir.x + posA.y * unitDir.y + posA.z * unitDir.z);
+    if (phase !== record.phase) {
+      const previous = record.phase;
+      record.phase = phase;
+      satellite.status = phase;
+      this.contactPlanStale = true;
+      this.emit('satelliteLifecycleChanged', satellite, phase, previous);
+    }
+  }
+  
+  // Propagate a maneuvering satellite and report when its maneuver starts or ends
+  private updateManeuverState(satellite: Satellite, maneuver: AvoidanceManeuver, fromTime: number, toTime: number): void {
+    Object.assign(satellite.orbitalParameters, this.advanceThroughManeuver(satellite.orbitalParameters, maneuver, fromTime, toTime));
+    
+    const { position, velocity } = this.calculateOrbitalState(satellite.orbitalParameters);
+    satellite.position = position;
+    satellite.velocity = velocity;
+    
+    const active = toTime >= maneuver.startTime && toTime < maneuver.endTime;
+    if (active && !maneuver.active) {
+      maneuver.active = true;
+      this.emit('maneuverStarted', satellite, { ...maneuver });
+    } else if (!active && maneuver.active) {
+      maneuver.active = false;
+      this.emit('maneuverCompleted', satellite, { ...maneuver });
+    }
     
-    // Clamp t to line segment
-    const tClamped = Math.max(0, Math.min(distance, t));
+    if (toTime >= maneuver.endTime) {
+      this.maneuvers.delete(satellite.id);
+    }
+  }
+  
+  /**
+   * Elements after propagating from fromTime to toTime (either direction), changing
+   * altitude at the maneuver boundaries crossed on the way. The elements at fromTime
+   * must already include the offset if the maneuver is in progress then.
+   */
+  private advanceThroughManeuver(
+    orbitalParameters: OrbitalParameters,
+    maneuver: AvoidanceManeuver,
+    fromTime: number,
+    toTime: number
+  ): OrbitalParameters {
+    const forward = toTime >= fromTime;
+    const boundaries = [
+      { time: maneuver.startTime, delta: maneuver.deltaAltitude },
+      { time: maneuver.endTime, delta: -maneuver.deltaAltitude }
+    ];
+    if (!forward) boundaries.reverse();
+    
+    let parameters = orbitalParameters;
+    let time = fromTime;
+    boundaries.forEach(boundary => {
+      const crossed = forward
+        ? boundary.time > fromTime && boundary.time <= toTime
+        : boundary.time <= fromTime && boundary.time > toTime;
+      if (!crossed) return;
+      
+      parameters = this.advanceOrbitalParameters(parameters, (boundary.time - time) / 1000);
+      parameters.altitude += forward ? boundary.delta : -boundary.delta;
+      time = boundary.time;
+    });
     
-    // Calculate closest point on line segment to Earth center
-    const closestPoint = {
-      x: posA.x + tClamped * unitDir.x,
-      y: posA.y + tClamped * unitDir.y,
-      z: posA.z + tClamped * unitDir.z
-    };
+    return this.advanceOrbitalParameters(parameters, (toTime - time) / 1000);
+  }
+  
+  // Only satellites on station carry traffic; trains and deorbiting satellites are ignored
+  private isOnStation(satellite: Satellite): boolean {
+    return satellite.status === 'operational' || satellite.status === 'degraded';
+  }
+  
+  // Propagate while integrating altitude decay, in steps short enough for low shells
+  private applyDrag(satellite: Satellite, deltaTime: number): void {
+    const steps = Math.ceil(deltaTime / this.maxDragStep);
+    const step = deltaTime / steps;
+    
+    for (let i = 0; i < steps; i++) {
+      const parameters = satellite.orbitalParameters;
+      const semiMajorAxis = this.earthRadius + parameters.altitude;
+      const rate = AtmosphericDrag.semiMajorAxisRate(
+        parameters.altitude, semiMajorAxis, satellite.ballisticCoefficient, this.dragConfig
+      );
+      
+      Object.assign(parameters, this.advanceOrbitalParameters(parameters, step));
+      parameters.altitude += rate * step;
+      
+      if (this.getPerigeeAltitude(satellite) < this.dragConfig.reentryAltitude) {
+        return;
+      }
+    }
     
-    // Calculate distance from closest point to Earth center
-    const distanceToEarth = Math.sqrt(
-      closestPoint.x * closestPoint.x + 
-      closestPoint.y * closestPoint.y + 
-      closestPoint.z * closestPoint.z
-    );
+    const { position, velocity } = this.calculateOrbitalState(satellite.orbitalParameters);
+    satellite.position = position;
+    satellite.velocity = velocity;
+  }
+  
+  private getPerigeeAltitude(satellite: Satellite): number {
+    const { altitude, eccentricity } = satellite.orbitalParameters;
+    return (this.earthRadius + altitude) * (1 - eccentricity) - this.earthRadius;
+  }
+  
+  private removeReenteredSatellite(satellite: Satellite): void {
+    this.satellites.delete(satellite.id);
+    this.lifecycle.delete(satellite.id);
+    this.maneuvers.delete(satellite.id);
+    this.ephemeris.invalidate(satellite.id);
+    
+    // Traffic on board is lost with the satellite
+    satellite.queue.slice().forEach(packet => this.dropPacket(packet, 'node-lost'));
+    this.contactPlanStale = true;
     
-    // If line passes within Earth radius + atmosphere buffer, it's blocked
-    const earthRadiusWithBuffer = this.earthRadius + 100; // 100km atmosphere buffer
+    this.applyIslChanges([], this.laserTerminals.remove(satellite.id));
+    this.groundStations.forEach(groundStation => {
+      groundStation.connections.satellites = groundStation.connections.satellites.filter(id => id !== satellite.id);
+    });
+    this.userTerminals.disconnectSatellite(satellite.id);
     
-    return distanceToEarth > earthRadiusWithBuffer;
+    this.emit('satelliteReentered', satellite, this.clock.getDate());
   }
   
-  // Get maximum RF range between two satellites based on their capabilities
-  private getMaxRfRange(satA: Satellite, satB: Satellite): number {
-    // Base RF range for different satellite generations
-    const baseRanges = {
-      'v0.9': 1200, // km - early generation, limited RF
-      'v1.0': 1400, // km - improved RF capabilities  
-      'v1.5': 1600, // km - enhanced ISL capabilities
-      'v2.0': 1800  // km - latest generation with best RF
-    };
+  // Jumps skip packet processing; positions and links are brought to the new time at once.
+  // Traffic under way was timed on links at the old time, so it is dropped
+  private handleClockJump = (): void => {
+    this.contactPlanStale = true;
+    this.packets.forEach(packet => {
+      if (packet.status !== 'delivered' && packet.status !== 'dropped') this.dropPacket(packet, 'clock-jump');
+    });
+    this.linkLayer.clear();
+    this.updateSatellitePositions(false);
+    this.updateSatelliteConnections(false);
+    this.updateGroundStationConnections();
+    this.emit('update');
+  };
+  
+  private updateSatellitePosition(satellite: Satellite, deltaTime: number): void {
+    // Updated in place: renderers hold references to these elements
+    Object.assign(satellite.orbitalParameters, this.advanceOrbitalParameters(satellite.orbitalParameters, deltaTime));
     
-    // Take the minimum range of the two satellites (limiting factor)
-    const rangeA = baseRanges[satA.type] || baseRanges['v1.0'];
-    const rangeB = baseRanges[satB.type] || baseRanges['v1.0'];
+    const { position, velocity } = this.calculateOrbitalState(satellite.orbitalParameters);
+    satellite.position = position;
+    satellite.velocity = velocity;
+  }
+  
+  /**
+   * State of a satellite at an arbitrary time without advancing the simulation,
+   * using the same propagator as the live constellation.
+   */
+  public propagateSatellite(satellite: Satellite, date: Date): OrbitalState {
+    const elapsed = (date.getTime() - this.propagationTime) / 1000;
+    const maneuver = this.maneuvers.get(satellite.id);
+    
+    return this.calculateOrbitalState(maneuver
+      ? this.advanceThroughManeuver(satellite.orbitalParameters, maneuver, this.propagationTime, date.getTime())
+      : this.advanceOrbitalParameters(satellite.orbitalParameters, elapsed));
+  }
+  
+  // Secular element rates (rad/s) under J2
+  private secularRates(orbitalParameters: OrbitalParameters) {
+    const { altitude, inclination, eccentricity } = orbitalParameters;
+    const semiMajorAxis = this.earthRadius + altitude;
+    
+    // Keplerian mean motion (rad/s), equivalent to 2π over the Kepler's-third-law period
+    const meanMotion = Math.sqrt(this.mu / Math.pow(semiMajorAxis, 3));
+    
+    const semiLatusRectum = semiMajorAxis * (1 - eccentricity * eccentricity);
+    const j2Factor = 1.5 * this.j2 * Math.pow(Coordinates.WGS84_A / semiLatusRectum, 2) * meanMotion;
+    const cosInc = Math.cos(inclination * (Math.PI / 180));
+    
+    // Nodal regression (westward for prograde orbits), apsidal rotation and the mean motion correction
+    return {
+      meanMotion,
+      raanRate: -j2Factor * cosInc,
+      periapsisRate: 0.5 * j2Factor * (5 * cosInc * cosInc - 1),
+      meanAnomalyRate: meanMotion + 0.5 * j2Factor * Math.sqrt(1 - eccentricity * eccentricity) * (3 * cosInc * cosInc - 1)
+    };
+  }
+  
+  /**
+   * Orbital elements after deltaTime seconds, with the secular J2 drift of the
+   * ascending node, argument of periapsis and mean anomaly (angles in degrees, [0, 360)).
+   */
+  private advanceOrbitalParameters(orbitalParameters: OrbitalParameters, deltaTime: number): OrbitalParameters {
+    const { raanRate, periapsisRate, meanAnomalyRate } = this.secularRates(orbitalParameters);
+    
+    const advance = (angle: number, rate: number): number => {
+      const advanced = (angle + rate * deltaTime * (180 / Math.PI)) % 360;
+      return advanced < 0 ? advanced + 360 : advanced;
+    };
     
-    return Math.min(rangeA, rangeB);
+    return {
+      ...orbitalParameters,
+      longitudeOfAscendingNode: advance(orbitalParameters.longitudeOfAscendingNode, raanRate),
+      argumentOfPeriapsis: advance(orbitalParameters.argumentOfPeriapsis, periapsisRate),
+      meanAnomaly: advance(orbitalParameters.meanAnomaly, meanAnomalyRate)
+    };
   }
   
-  // Get ISL bandwidth based on satellite generation (RF, not laser)
-  private getIsLinkBandwidth(type: string): number {
-    // RF ISL throughput is much lower than laser would be
-    // These are realistic RF data rates for satellite ISL
-    const rfBandwidths = {
-      'v0.9': 25,  // Mbps - basic RF ISL
-      'v1.0': 40,  // Mbps - improved RF modulation  
-      'v1.5': 60,  // Mbps - better RF transceivers
-      'v2.0': 80   // Mbps - latest RF technology
+  private calculateOrbitalState(orbitalParameters: OrbitalParameters): OrbitalState {
+    // Simplified orbital mechanics calculation
+    const { altitude, inclination, eccentricity, argumentOfPeriapsis, longitudeOfAscendingNode, meanAnomaly } = orbitalParameters;
+    
+    // Semi-major axis
+    const semiMajorAxis = this.earthRadius + altitude;
+    
+    // Convert mean anomaly to eccentric anomaly (simplified for low eccentricity)
+    const M = meanAnomaly * (Math.PI / 180);
+    const E = M + eccentricity * Math.sin(M);
+    
+    // Convert eccentric anomaly to true anomaly
+    const trueAnomaly = 2 * Math.atan2(
+      Math.sqrt(1 + eccentricity) * Math.sin(E / 2),
+      Math.sqrt(1 - eccentricity) * Math.cos(E / 2)
+    );
+    
+    // Calculate distance from focus
+    const distance = semiMajorAxis * (1 - eccentricity * Math.cos(E));
+    
+    // Convert orbital elements to position in orbital plane
+    const xOrbit = distance * Math.cos(trueAnomaly);
+    const yOrbit = distance * Math.sin(trueAnomaly);
+    
+    // Convert inclination, longitude of ascending node, and argument of periapsis to radians
+    const incRad = inclination * (Math.PI / 180);
+    const loanRad = longitudeOfAscendingNode * (Math.PI / 180);
+    const aopRad = argumentOfPeriapsis * (Math.PI / 180);
+    
+    // Rotation matrices to transform from orbital plane to Earth-centered inertial frame:
+    // argument of periapsis around z, inclination around x, then longitude of ascending node around z
+    const toInertial = (xPlane: number, yPlane: number): Position => {
+      const x1 = xPlane * Math.cos(aopRad) - yPlane * Math.sin(aopRad);
+      const y1 = xPlane * Math.sin(aopRad) + yPlane * Math.cos(aopRad);
+      
+      const y2 = y1 * Math.cos(incRad);
+      const z2 = y1 * Math.sin(incRad);
+      
+      return {
+        x: x1 * Math.cos(loanRad) - y2 * Math.sin(loanRad),
+        y: x1 * Math.sin(loanRad) + y2 * Math.cos(loanRad),
+        z: z2
+      };
+    };
+    
+    // Time derivative of the position: Keplerian motion at the J2-corrected mean anomaly
+    // rate, plus apsidal rotation within the plane and nodal regression of the plane
+    const { meanMotion, raanRate, periapsisRate, meanAnomalyRate } = this.secularRates(orbitalParameters);
+    const velocityScale = Math.sqrt(this.mu / (semiMajorAxis * (1 - eccentricity * eccentricity))) * meanAnomalyRate / meanMotion;
+    const position = toInertial(xOrbit, yOrbit);
+    const orbitalVelocity = toInertial(
+      -velocityScale * Math.sin(trueAnomaly) - periapsisRate * yOrbit,
+      velocityScale * (eccentricity + Math.cos(trueAnomaly)) + periapsisRate * xOrbit
+    );
+    const velocity = {
+      x: orbitalVelocity.x - raanRate * position.y,
+      y: orbitalVelocity.y + raanRate * position.x,
+      z: orbitalVelocity.z
     };
     
-    return rfBandwidths[type as keyof typeof rfBandwidths] || rfBandwidths['v1.0'];
+    return {
+      position: Coordinates.toSceneAxes(position),
+      velocity: Coordinates.toSceneAxes(velocity)
+    };
+  }
+  
+  /**
+   * Reassign laser terminals at the current time and apply the links that came up or
+   * went down. After a discontinuity new links are taken as acquired already.
+   */
+  private updateSatelliteConnections(continuous: boolean = true): void {
+    // Terminals on maneuvering satellites lose their partners and power-shedding
+    // satellites have theirs switched off, so those satellites are left out and routed around
+    const nodes = Array.from(this.satellites.values())
+      .filter(satellite => this.isOnStation(satellite) && !this.isManeuvering(satellite.id) && satellite.power.islEnabled)
+      .map(satellite => ({ id: satellite.id, position: satellite.position, velocity: satellite.velocity, generation: satellite.type }));
+    
+    const { added, removed } = this.laserTerminals.update(nodes, this.propagationTime, !continuous);
+    this.applyIslChanges(added, removed);
   }
   
-  // Get realistic satellite type distribution
-  private getSatelliteType(): 'v0.9' | 'v1.0' | 'v1.5' | 'v2.0' {
-    const random = Math.random();
+  private applyIslChanges(added: [string, string][], removed: [string, string][]): void {
+    removed.forEach(([idA, idB]) => {
+      const satelliteA = this.satellites.get(idA);
+      const satelliteB = this.satellites.get(idB);
+      if (satelliteA) {
+        satelliteA.connections.satellites = satelliteA.connections.satellites.filter(id => id !== idB);
+      }
+      if (satelliteB) {
+        satelliteB.connections.satellites = satelliteB.connections.satellites.filter(id => id !== idA);
+      }
+    });
+    added.forEach(([idA, idB]) => {
+      this.satellites.get(idA)!.connections.satellites.push(idB);
+      this.satellites.get(idB)!.connections.satellites.push(idA);
+    });
     
-    // Realistic distribution based on actual constellation deployment
-    if (random < 0.05) return 'v0.9';     // 5% - early prototypes
-    if (random < 0.30) return 'v1.0';     // 25% - initial production
-    if (random < 0.85) return 'v1.5';     // 55% - current generation
-    return 'v2.0';                        // 15% - latest generation
+    if (added.length > 0 || removed.length > 0) {
+      this.routingDirty = true;
+      this.emit('islLinksChanged', added, removed);
+    }
   }
   
   // Add customer laser terminal (special case for backhaul customers)
@@ -528,8 +1466,10 @@ export class SatelliteNetwork extends EventEmitter {
   }
   
   private updateGroundStationConnections(): void {
-    // Clear existing connections
+    // Clear existing connections, keeping the old ones to tell whether routes need rebuilding
+    const previous = new Map<string, string[]>();
     this.groundStations.forEach(groundStation => {
+      previous.set(groundStation.id, groundStation.connections.satellites);
       groundStation.connections.satellites = [];
     });
     
@@ -537,458 +1477,503 @@ export class SatelliteNetwork extends EventEmitter {
       satellite.connections.groundStations = [];
     });
     
-    // Establish new connections
+    // Establish new connections where the satellite is inside the station's pointing mask
+    const gmst = this.getEarthRotationAngle();
+    
     this.groundStations.forEach(groundStation => {
-      const groundStationPosition = this.geoToCartesian(groundStation.position);
+      if (groundStation.status === 'offline') return;
+      const observer = { ...groundStation.position, altitude: 0 };
       
       this.satellites.forEach(satellite => {
-        // Calculate distance
-        const distance = this.calculateDistance(
-          { x: groundStationPosition.x, y: groundStationPosition.y, z: groundStationPosition.z },
-          satellite.position
-        );
+        // Each ground link takes one of the satellite's powered beams
+        if (!this.isOnStation(satellite) || satellite.connections.groundStations.length >= satellite.power.activeBeams) return;
         
-        // Check if satellite is visible from ground station
-        // This is a simplification - in reality, visibility depends on elevation angle
-        const maxGroundDistance = 2000; // km
+        const look = Coordinates.lookAnglesEci(observer, Coordinates.fromSceneAxes(satellite.position), gmst);
         
-        if (distance < maxGroundDistance) {
+        if (isGatewayLinkVisible(look.azimuth, look.elevation, groundStation.elevationConstraints)) {
           groundStation.connections.satellites.push(satellite.id);
           satellite.connections.groundStations.push(groundStation.id);
         }
       });
     });
+    
+    this.groundStations.forEach(groundStation => {
+      const before = previous.get(groundStation.id)!;
+      const after = groundStation.connections.satellites;
+      if (before.length !== after.length || before.some((id, index) => id !== after[index])) {
+        this.routingDirty = true;
+      }
+    });
+    
+    this.updateUserTerminalConnections();
+  }
+  
+  // User beams get what the gateway links leave of each satellite's powered beams
+  private updateUserTerminalConnections(): void {
+    this.satellites.forEach(satellite => {
+      satellite.connections.userTerminals = [];
+    });
+    if (this.userTerminals.size === 0) return;
+    
+    const nodes = Array.from(this.satellites.values())
+      .filter(satellite => this.isOnStation(satellite))
+      .map(satellite => ({
+        id: satellite.id,
+        position: satellite.position,
+        beams: Math.max(0, satellite.power.activeBeams - satellite.connections.groundStations.length)
+      }));
+    if (this.userTerminals.update(nodes, this.getEarthRotationAngle(), this.clock.getTime())) {
+      this.routingDirty = true;
+    }
+    
+    this.userTerminals.getAll().forEach(terminal => {
+      const satellite = terminal.connections.satellite ? this.satellites.get(terminal.connections.satellite) : undefined;
+      satellite?.connections.userTerminals.push(terminal.id);
+    });
   }
   
   private processPackets(deltaTime: number): void {
-    // Process each packet
+    const now = this.clock.getTime();
+    
+    // Packets waiting on links that went down are routed again from their node
+    this.linkLayer.getLinkStatuses().forEach(link => {
+      if (link.queued > 0 && !this.isLinkUp(link.from, link.to)) {
+        this.linkLayer.flush(link.from, link.to).forEach(packet => this.forwardPacket(packet, link.from, now));
+      }
+    });
+    
+    // Transmissions and arrivals up to the current time
+    this.linkLayer.advance(now);
+    
     this.packets.forEach(packet => {
       // Skip delivered or dropped packets
       if (packet.status === 'delivered' || packet.status === 'dropped') {
         return;
       }
       
-      // Update packet latency
-      packet.latency += deltaTime;
+      packet.latency = (now - packet.timestamp) / 1000;
       
-      // Check if packet has timed out
-      if (packet.latency > 30) { // 30 seconds timeout
-        packet.status = 'dropped';
-        this.emit('packetDropped', packet);
+      // Check if packet has timed out; stored packets may wait out the contact plan's horizon
+      const lifetime = this.routingMode === 'contact-graph' ? this.contactPlanOptions.horizonSeconds : this.packetTimeout;
+      if (packet.latency > lifetime) {
+        this.dropPacket(packet, 'timeout');
         return;
       }
       
-      // Process packet based on current location
-      const currentNodeId = packet.path[packet.path.length - 1];
-      const currentNodeType = this.getNodeType(currentNodeId);
-      
-      if (currentNodeType === 'satellite') {
-        const satellite = this.satellites.get(currentNodeId);
-        if (!satellite) return;
-        
-        // Check if packet is at front of queue
-        if (satellite.queue.length > 0 && satellite.queue[0].id === packet.id) {
-          // Process packet
-          this.processPacketAtSatellite(packet, satellite, deltaTime);
-        }
-      } else if (currentNodeType === 'groundStation') {
-        const groundStation = this.groundStations.get(currentNodeId);
-        if (!groundStation) return;
-        
-        // Check if packet is at front of queue
-        if (groundStation.queue.length > 0 && groundStation.queue[0].id === packet.id) {
-          // Process packet
-          this.processPacketAtGroundStation(packet, groundStation, deltaTime);
-        }
+      // A stored packet is sent once its contact is up
+      if (packet.status === 'stored') {
+        this.forwardPacket(packet, packet.path[packet.path.length - 1], now);
       }
     });
   }
   
-  private processPacketAtSatellite(packet: DataPacket, satellite: Satellite, deltaTime: number): void {
-    // Check if packet has reached destination
-    if (packet.destination.type === 'satellite' && packet.destination.id === satellite.id) {
-      // Packet delivered
+  // A packet reached a node at a time (ms): deliver it there or pass it on
+  private receivePacket(packet: DataPacket, nodeId: string, time: number): void {
+    const node = this.getQueueNode(nodeId);
+    if (!node) {
+      // The node is gone, e.g. a satellite that reentered
+      this.dropPacket(packet, 'node-lost');
+      return;
+    }
+    
+    const groundStation = this.groundStations.get(nodeId);
+    const delivered = packet.destination.type === 'internet'
+      ? !!groundStation?.connections.internet
+      : packet.destination.id === nodeId;
+    if (delivered) {
       packet.status = 'delivered';
+      packet.latency = (time - packet.timestamp) / 1000;
+      this.bundles.delete(packet.id);
       
-      // Remove from queue
-      satellite.queue.shift();
-      
-      // Emit packet delivered event
+      const stats = this.getPacketClassStats(packet);
+      stats.meanLatency += (packet.latency - stats.meanLatency) / ++stats.delivered;
+      stats.maxLatency = Math.max(stats.maxLatency, packet.latency);
       this.emit('packetDelivered', packet);
+      this.releaseSegment(packet);
       return;
     }
     
-    // Calculate transmission time based on packet size and bandwidth
-    const transmissionTime = packet.size / (satellite.bandwidth.interSatellite * 1024 / 8); // seconds
+    node.queue.push(packet);
+    this.readyAt.set(packet.id, time);
+    this.forwardPacket(packet, nodeId, time);
+  }
+  
+  // Next hop from the forwarding table towards the packet's destination
+  private findNextHop(packet: DataPacket, currentNodeId: string): string | null {
+    this.ensureRoutingTopology();
+    const destinationId = packet.destination.type === 'internet' ? 'internet' : packet.destination.id;
+    return this.routing.getNextHop(currentNodeId, destinationId);
+  }
+  
+  private ensureRoutingTopology(): void {
+    const now = this.clock.getTime();
+    if (!this.routingDirty && now >= this.routingBuiltAt && now - this.routingBuiltAt < this.routeRefreshInterval * 1000) {
+      return;
+    }
+    
+    const links = new Map<string, RoutingLink[]>();
+    const positions = new Map<string, Position>();
+    this.groundStations.forEach(groundStation => {
+      positions.set(groundStation.id, this.geoToInertial(groundStation.position));
+    });
+    this.userTerminals.getAll().forEach(terminal => {
+      positions.set(terminal.id, this.geoToInertial(terminal.position));
+    });
+    
+    // Links carry their rates and the depth of their transmit queues
+    this.satellites.forEach(satellite => {
+      const outgoing: RoutingLink[] = [];
+      satellite.connections.satellites.forEach(id => {
+        const neighbor = this.satellites.get(id);
+        if (!neighbor) return;
+        outgoing.push({
+          to: id,
+          distance: this.calculateDistance(satellite.position, neighbor.position),
+          capacity: this.getLinkRate(satellite.id, id),
+          queueDepth: this.linkLayer.getQueueDepth(satellite.id, id)
+        });
+      });
+      satellite.connections.groundStations.forEach(id => {
+        const groundStation = this.groundStations.get(id);
+        if (!groundStation) return;
+        outgoing.push({
+          to: id,
+          distance: this.calculateDistance(satellite.position, positions.get(id)!),
+          capacity: this.getLinkRate(satellite.id, id),
+          queueDepth: this.linkLayer.getQueueDepth(satellite.id, id)
+        });
+      });
+      satellite.connections.userTerminals.forEach(id => {
+        const terminal = this.userTerminals.get(id);
+        if (!terminal) return;
+        outgoing.push({
+          to: id,
+          distance: this.calculateDistance(satellite.position, positions.get(id)!),
+          capacity: this.getLinkRate(satellite.id, id),
+          queueDepth: this.linkLayer.getQueueDepth(satellite.id, id)
+        });
+      });
+      links.set(satellite.id, outgoing);
+      positions.set(satellite.id, satellite.position);
+    });
+    
+    this.userTerminals.getAll().forEach(terminal => {
+      const satellite = terminal.connections.satellite ? this.satellites.get(terminal.connections.satellite) : undefined;
+      links.set(terminal.id, satellite ? [{
+        to: satellite.id,
+        distance: this.calculateDistance(positions.get(terminal.id)!, satellite.position),
+        capacity: this.getLinkRate(terminal.id, satellite.id),
+        queueDepth: this.linkLayer.getQueueDepth(terminal.id, satellite.id)
+      }] : []);
+    });
     
-    // Check if enough time has passed to transmit packet
-    if (packet.latency >= transmissionTime) {
-      // Find next hop
-      const nextHop = this.findNextHop(packet, satellite.id);
+    this.groundStations.forEach(groundStation => {
+      if (groundStation.status === 'offline') return;
       
-      if (nextHop) {
-        // Add to path
-        packet.path.push(nextHop);
-        
-        // Remove from current queue
-        satellite.queue.shift();
-        
-        // Add to next hop queue
-        const nextNodeType = this.getNodeType(nextHop);
-        if (nextNodeType === 'satellite') {
-          const nextSatellite = this.satellites.get(nextHop);
-          if (nextSatellite) {
-            nextSatellite.queue.push(packet);
-          }
-        } else if (nextNodeType === 'groundStation') {
-          const nextGroundStation = this.groundStations.get(nextHop);
-          if (nextGroundStation) {
-            nextGroundStation.queue.push(packet);
-          }
-        }
-        
-        // Emit packet routed event
-        this.emit('packetRouted', packet, satellite.id, nextHop);
-      } else {
-        // No route found
-        packet.status = 'dropped';
-        
-        // Remove from queue
-        satellite.queue.shift();
-        
-        // Emit packet dropped event
-        this.emit('packetDropped', packet);
+      const position = positions.get(groundStation.id)!;
+      const outgoing: RoutingLink[] = [];
+      groundStation.connections.satellites.forEach(id => {
+        const satellite = this.satellites.get(id);
+        if (!satellite) return;
+        outgoing.push({
+          to: id,
+          distance: this.calculateDistance(position, satellite.position),
+          capacity: this.getLinkRate(groundStation.id, id),
+          queueDepth: this.linkLayer.getQueueDepth(groundStation.id, id)
+        });
+      });
+      if (groundStation.connections.internet) {
+        outgoing.push({ to: 'internet', distance: 0, capacity: groundStation.bandwidth, queueDepth: 0 });
       }
-    }
+      links.set(groundStation.id, outgoing);
+    });
+    
+    this.routing.setTopology(links, positions);
+    this.routingDirty = false;
+    this.routingBuiltAt = now;
   }
   
-  private processPacketAtGroundStation(packet: DataPacket, groundStation: GroundStation, deltaTime: number): void {
-    // Check if packet has reached destination
-    if (packet.destination.type === 'groundStation' && packet.destination.id === groundStation.id) {
-      // Packet delivered
-      packet.status = 'delivered';
-      
-      // Remove from queue
-      groundStation.queue.shift();
-      
-      // Emit packet delivered event
-      this.emit('packetDelivered', packet);
-      return;
+  // Hand a packet at a node to the link towards its next hop, store it until its contact opens, or drop it
+  private forwardPacket(packet: DataPacket, currentNodeId: string, time: number): void {
+    let nextHop: string | null;
+    const access = this.routingMode === 'contact-graph' ? this.getAccessHop(packet, currentNodeId) : undefined;
+    if (access !== undefined) {
+      nextHop = access;
+    } else if (this.routingMode === 'contact-graph') {
+      const hop = this.nextContactHop(packet, currentNodeId, time);
+      if (hop && !this.isContactUp(hop.contact)) {
+        packet.status = 'stored';
+        return;
+      }
+      nextHop = hop ? hop.contact.to : null;
+    } else {
+      nextHop = this.findNextHop(packet, currentNodeId);
     }
     
-    // Check if packet destination is internet and ground station has internet
-    if (packet.destination.type === 'internet' && groundStation.connections.internet) {
-      // Packet delivered to internet
-      packet.status = 'delivered';
-      
-      // Remove from queue
-      groundStation.queue.shift();
-      
-      // Emit packet delivered event
-      this.emit('packetDelivered', packet);
+    const parameters = nextHop ? this.getLinkParameters(currentNodeId, nextHop) : null;
+    if (!nextHop || !parameters) {
+      // No route found
+      this.dropPacket(packet, 'no-route');
       return;
     }
     
-    // Calculate transmission time based on packet size and bandwidth
-    const transmissionTime = packet.size / (groundStation.bandwidth * 1024 / 8); // seconds
-    
-    // Check if enough time has passed to transmit packet
-    if (packet.latency >= transmissionTime) {
-      // Find next hop
-      const nextHop = this.findNextHop(packet, groundStation.id);
-      
-      if (nextHop) {
-        // Add to path
-        packet.path.push(nextHop);
-        
-        // Remove from current queue
-        groundStation.queue.shift();
-        
-        // Add to next hop queue
-        const nextNodeType = this.getNodeType(nextHop);
-        if (nextNodeType === 'satellite') {
-          const nextSatellite = this.satellites.get(nextHop);
-          if (nextSatellite) {
-            nextSatellite.queue.push(packet);
-          }
-        } else if (nextNodeType === 'groundStation') {
-          const nextGroundStation = this.groundStations.get(nextHop);
-          if (nextGroundStation) {
-            nextGroundStation.queue.push(packet);
-          }
-        }
-        
-        // Emit packet routed event
-        this.emit('packetRouted', packet, groundStation.id, nextHop);
-      } else {
-        // No route found
-        packet.status = 'dropped';
-        
-        // Remove from queue
-        groundStation.queue.shift();
-        
-        // Emit packet dropped event
-        this.emit('packetDropped', packet);
-      }
+    packet.status = 'queued';
+    const dropped = this.linkLayer.send(packet, currentNodeId, nextHop, parameters, time, this.readyAt.get(packet.id));
+    if (dropped) {
+      this.dropPacket(packet, dropped);
     }
   }
   
-  private findNextHop(packet: DataPacket, currentNodeId: string): string | null {
-    const currentNodeType = this.getNodeType(currentNodeId);
+  // The packet starts transmitting: it leaves its node's queue for the link
+  private handleDeparture(packet: DataPacket, from: string, to: string, time: number): void {
+    this.removeFromQueue(from, packet);
+    this.readyAt.delete(packet.id);
+    packet.status = 'in-transit';
+    packet.path.push(to);
+    this.emit('packetRouted', packet, from, to);
+  }
+  
+  private dropPacket(packet: DataPacket, reason: PacketDropReason): void {
+    packet.status = 'dropped';
+    packet.dropReason = reason;
+    
+    const stats = this.getPacketClassStats(packet);
+    stats.dropped++;
+    stats.drops[reason] = (stats.drops[reason] ?? 0) + 1;
+    this.removeFromQueue(packet.path[packet.path.length - 1], packet);
+    this.linkLayer.remove(packet);
+    this.readyAt.delete(packet.id);
+    this.bundles.delete(packet.id);
+    this.emit('packetDropped', packet);
+    this.releaseSegment(packet);
+  }
+  
+  // Flow segments and acknowledgments are not kept once finished, or flows would hold on to all their traffic
+  private releaseSegment(packet: DataPacket): void {
+    if (packet.segment) this.packets.delete(packet.id);
+  }
+  
+  /**
+   * The packet's next contact from a node under contact-graph routing. A packet off its
+   * route is re-routed from where it is; a contact that has closed, or that is a plan
+   * step overdue without its link coming up, is excluded and the packet re-routed.
+   */
+  private nextContactHop(packet: DataPacket, nodeId: string, now: number): ContactHop | null {
+    const router = this.getContactRouter();
+    const bundle = this.bundles.get(packet.id);
+    const excluded = bundle?.excluded ?? new Set<Contact>();
+    
+    let hop = bundle?.route.hops.find(({ contact }) => contact.from === nodeId);
+    if (hop && (now >= hop.contact.end ||
+        (now >= hop.contact.start + router.getPlan()!.stepSeconds * 1000 && !this.isContactUp(hop.contact)))) {
+      excluded.add(hop.contact);
+      hop = undefined;
+    }
+    if (hop) return hop;
+    
+    const destinationId = this.getContactDestination(packet);
+    if (!destinationId) return null;
+    const route = router.findRoute(nodeId, destinationId, now, packet.size, excluded);
+    if (!route || route.hops.length === 0) {
+      this.bundles.delete(packet.id);
+      return null;
+    }
     
-    if (currentNodeType === 'satellite') {
-      const satellite = this.satellites.get(currentNodeId);
-      if (!satellite) return null;
-      
-      // PRIORITY 1: Always prefer ground stations when available (Starlink behavior)
-      // Check if any connected ground station can reach the destination
-      if (packet.destination.type === 'groundStation' || packet.destination.type === 'internet') {
-        // Direct connection to destination ground station
-        if (packet.destination.type === 'groundStation' && 
-            satellite.connections.groundStations.includes(packet.destination.id)) {
-          return packet.destination.id;
-        }
-        
-        // For internet destinations or when no direct ground station connection,
-        // prefer any ground station with internet connectivity
-        for (const groundStationId of satellite.connections.groundStations) {
-          if (packet.path.includes(groundStationId)) continue; // Avoid loops
-          
-          const groundStation = this.groundStations.get(groundStationId);
-          if (groundStation && groundStation.connections.internet) {
-            return groundStationId;
-          }
-        }
-      }
-        
-      // PRIORITY 2: If no ground station available, use satellite mesh backhaul
-      // This implements realistic Starlink routing behavior
-      if (packet.destination.type === 'groundStation') {
-        if (packet.destination.position) {
-          // First, try to find a satellite that has direct ground station access
-          // closer to the destination
-          let bestSatelliteWithGroundAccess: string | null = null;
-          let bestGroundStationDistance = Infinity;
-          
-          for (const connectedSatelliteId of satellite.connections.satellites) {
-            if (packet.path.includes(connectedSatelliteId)) continue; // Avoid loops
-            
-            const connectedSatellite = this.satellites.get(connectedSatelliteId);
-            if (!connectedSatellite) continue;
-            
-            // Check if this satellite has any ground station connections
-            if (connectedSatellite.connections.groundStations.length > 0) {
-              // Find the closest ground station to our destination from this satellite
-              for (const gsId of connectedSatellite.connections.groundStations) {
-                const gs = this.groundStations.get(gsId);
-                if (!gs) continue;
-                
-                const distance = this.calculateGeoDistance(gs.position, packet.destination.position);
-                if (distance < bestGroundStationDistance) {
-                  bestGroundStationDistance = distance;
-                  bestSatelliteWithGroundAccess = connectedSatelliteId;
-                }
-              }
-            }
-          }
-          
-          // If we found a satellite with better ground access, route through it
-          if (bestSatelliteWithGroundAccess) {
-            return bestSatelliteWithGroundAccess;
-          }
-          
-          // Otherwise, use geographic routing through satellite mesh
-          let bestMeshHop: string | null = null;
-          let shortestDistance = Infinity;
-          
-          for (const connectedSatelliteId of satellite.connections.satellites) {
-            if (packet.path.includes(connectedSatelliteId)) continue; // Avoid loops
-            
-            const connectedSatellite = this.satellites.get(connectedSatelliteId);
-            if (!connectedSatellite) continue;
-            
-            // Calculate distance to destination
-            const destPosition = this.geoToCartesian(packet.destination.position);
-            const distance = this.calculateDistance(
-              connectedSatellite.position,
-              { x: destPosition.x, y: destPosition.y, z: destPosition.z }
-            );
-            
-            if (distance < shortestDistance) {
-              shortestDistance = distance;
-              bestMeshHop = connectedSatelliteId;
-            }
-          }
-          
-          return bestMeshHop;
-        }
-      } else if (packet.destination.type === 'internet') {
-        // Find ground station with internet
-        for (const groundStationId of satellite.connections.groundStations) {
-          const groundStation = this.groundStations.get(groundStationId);
-          if (groundStation && groundStation.connections.internet) {
-            return groundStationId;
-          }
-        }
-        
-        // If no direct connection to internet ground station, route through satellite network
-        let bestNextHop: string | null = null;
-        let shortestPathLength = Infinity;
-        
-        for (const connectedSatelliteId of satellite.connections.satellites) {
-          // Skip if already in path (avoid loops)
-          if (packet.path.includes(connectedSatelliteId)) continue;
-          
-          const connectedSatellite = this.satellites.get(connectedSatelliteId);
-          if (!connectedSatellite) continue;
-          
-          // Check if this satellite has a ground station with internet
-          let hasInternetGroundStation = false;
-          let pathLength = 1; // Start with 1 for the hop to this satellite
-          
-          for (const gsId of connectedSatellite.connections.groundStations) {
-            const gs = this.groundStations.get(gsId);
-            if (gs && gs.connections.internet) {
-              hasInternetGroundStation = true;
-              pathLength += 1; // Add 1 for the hop to the ground station
-              break;
-            }
-          }
-          
-          if (hasInternetGroundStation && pathLength < shortestPathLength) {
-            shortestPathLength = pathLength;
-            bestNextHop = connectedSatelliteId;
-          }
-        }
-        
-        return bestNextHop;
-      }
-    } else if (currentNodeType === 'groundStation') {
-      const groundStation = this.groundStations.get(currentNodeId);
-      if (!groundStation) return null;
-      
-      // If destination is internet and ground station has internet
-      if (packet.destination.type === 'internet' && groundStation.connections.internet) {
-        return 'internet';
-      }
-      
-      // If destination is another ground station
-      if (packet.destination.type === 'groundStation') {
-        // If destination is this ground station
-        if (packet.destination.id === groundStation.id) {
-          return null; // Already at destination
-        }
-        
-        // Route through satellite network
-        // Find satellite closest to destination
-        let bestNextHop: string | null = null;
-        let shortestDistance = Infinity;
-        
-        for (const connectedSatelliteId of groundStation.connections.satellites) {
-          // Skip if already in path (avoid loops)
-          if (packet.path.includes(connectedSatelliteId)) continue;
-          
-          const connectedSatellite = this.satellites.get(connectedSatelliteId);
-          if (!connectedSatellite) continue;
-          
-          // If destination has position, calculate distance
-          if (packet.destination.position) {
-            const destPosition = this.geoToCartesian(packet.destination.position);
-            const distance = this.calculateDistance(
-              connectedSatellite.position,
-              { x: destPosition.x, y: destPosition.y, z: destPosition.z }
-            );
-            
-            if (distance < shortestDistance) {
-              shortestDistance = distance;
-              bestNextHop = connectedSatelliteId;
-            }
-          } else {
-            // If no position, just pick first satellite
-            return connectedSatelliteId;
-          }
-        }
-        
-        return bestNextHop;
+    this.bundles.set(packet.id, { route, excluded });
+    if (packet.predictedLatency === undefined) {
+      packet.predictedLatency = route.latency;
+    }
+    return route.hops[0];
+  }
+  
+  /**
+   * User terminal links are outside the contact plan: a terminal sends through its
+   * serving satellite, and the satellite serving a destination terminal delivers to
+   * it. Undefined when the packet is not at either end of such a link.
+   */
+  private getAccessHop(packet: DataPacket, nodeId: string): string | null | undefined {
+    const terminal = this.userTerminals.get(nodeId);
+    if (terminal) return terminal.connections.satellite;
+    
+    const destination = packet.destination.type === 'userTerminal' ? this.userTerminals.get(packet.destination.id) : undefined;
+    return destination && destination.connections.satellite === nodeId ? destination.id : undefined;
+  }
+  
+  // Hop over a terminal's access link as it stands now, as if it were a contact lasting until
+  // the plan ends; null when the data cannot be sent over it before then, as for planned contacts
+  private getAccessContactHop(from: string, to: string, departure: number, size: number): ContactHop | null {
+    const parameters = this.getLinkParameters(from, to);
+    const plan = this.contactRouter.getPlan();
+    if (!parameters || !(parameters.rate > 0) || !plan) return null;
+    
+    const transmission = size / (parameters.rate * 1024 / 8) * 1000;
+    if (departure + transmission > plan.end) return null;
+    
+    const contact: Contact = {
+      from, to, type: 'access', start: departure, end: plan.end,
+      rate: parameters.rate, range: parameters.delay * this.lightSpeed, owlt: parameters.delay
+    };
+    return { contact, departure, arrival: departure + transmission + parameters.delay * 1000 };
+  }
+  
+  // Node a packet is routed to over the contact plan; a destination terminal's serving satellite
+  private getContactDestination(packet: DataPacket): string | null {
+    if (packet.destination.type === 'internet') return 'internet';
+    if (packet.destination.type === 'userTerminal') {
+      return this.userTerminals.get(packet.destination.id)?.connections.satellite ?? null;
+    }
+    return packet.destination.id;
+  }
+  
+  // Whether the link a contact predicts is up right now
+  private isContactUp(contact: Contact): boolean {
+    return contact.type === 'internet'
+      ? !!this.groundStations.get(contact.from)?.connections.internet
+      : this.isLinkUp(contact.from, contact.to);
+  }
+  
+  private isLinkUp(from: string, to: string): boolean {
+    const satellite = this.satellites.get(from);
+    if (satellite) {
+      return satellite.connections.satellites.includes(to) || satellite.connections.groundStations.includes(to) ||
+        satellite.connections.userTerminals.includes(to);
+    }
+    const terminal = this.userTerminals.get(from);
+    if (terminal) return terminal.connections.satellite === to;
+    return !!this.groundStations.get(from)?.connections.satellites.includes(to);
+  }
+  
+  // Laser links run at their terminals' capacity, ground links at the beam or station rate,
+  // user links at the terminal's share of its beam
+  private getLinkRate(from: string, to: string): number {
+    const satellite = this.satellites.get(from);
+    if (satellite) {
+      if (this.satellites.has(to)) {
+        return this.laserTerminals.getLink(from, to)?.capacity ?? satellite.bandwidth.interSatellite;
       }
+      return this.userTerminals.has(to)
+        ? this.userTerminals.getRates(to, satellite.bandwidth.downlink, satellite.bandwidth.uplink).downlink
+        : satellite.bandwidth.downlink;
+    }
+    const serving = this.userTerminals.has(from) ? this.satellites.get(to) : undefined;
+    if (serving) {
+      return this.userTerminals.getRates(from, serving.bandwidth.downlink, serving.bandwidth.uplink).uplink;
+    }
+    return this.groundStations.get(from)?.bandwidth ?? 0;
+  }
+  
+  // Rate and light-time delay of the link between two nodes as they are now; null if either is unknown
+  private getLinkParameters(from: string, to: string): LinkParameters | null {
+    const fromPosition = this.getNodePosition(from);
+    const toPosition = this.getNodePosition(to);
+    if (!fromPosition || !toPosition) return null;
+    
+    return {
+      rate: this.getLinkRate(from, to),
+      delay: this.calculateDistance(fromPosition, toPosition) / this.lightSpeed
+    };
+  }
+  
+  private getNodePosition(nodeId: string): Position | undefined {
+    const satellite = this.satellites.get(nodeId);
+    if (satellite) return satellite.position;
+    const site = this.groundStations.get(nodeId) ?? this.userTerminals.get(nodeId);
+    return site ? this.geoToInertial(site.position) : undefined;
+  }
+  
+  private ensureContactPlan(): void {
+    const now = this.clock.getTime();
+    const plan = this.contactRouter.getPlan();
+    const horizon = this.contactPlanOptions.horizonSeconds * 1000;
+    if (!this.contactPlanStale && plan && now >= plan.start && now - plan.start < horizon / 2) {
+      return;
     }
     
-    return null;
+    this.contactRouter.setPlan(this.contactPlanner.generate(now, this.contactPlanOptions));
+    this.contactPlanStale = false;
   }
   
-  private routePacket(packet: DataPacket): void {
-    // Mark as in-transit
-    packet.status = 'in-transit';
+  // Statistics of the QoS class a packet is counted under, created on first use
+  private getPacketClassStats(packet: DataPacket): QosClassStats {
+    return this.getClassStats(QosScheduler.classify(this.getQosPolicy(), packet.priority).name);
+  }
+  
+  private getClassStats(name: string): QosClassStats {
+    let stats = this.qosStats.get(name);
+    if (!stats) {
+      stats = { name, offered: 0, delivered: 0, dropped: 0, drops: {}, meanLatency: 0, maxLatency: 0 };
+      this.qosStats.set(name, stats);
+    }
+    return stats;
+  }
+  
+  // Node whose queue holds packets waiting to be sent from it
+  private getQueueNode(nodeId: string): Satellite | GroundStation | UserTerminal | undefined {
+    return this.satellites.get(nodeId) ?? this.groundStations.get(nodeId) ?? this.userTerminals.get(nodeId);
+  }
+  
+  private removeFromQueue(nodeId: string, packet: DataPacket): void {
+    const node = this.getQueueNode(nodeId);
+    if (node) {
+      node.queue = node.queue.filter(queued => queued !== packet);
+    }
+  }
+  
+  private generateRandomPackets(deltaTime: number): void {
+    // Packets are drawn from the offered load, more often when it is above its daily mean
+    const packetGenerationRate = 0.1; // packets per second at the daily mean
+    const matrix = this.getTrafficMatrix();
+    if (matrix.baseline <= 0 || Math.random() >= packetGenerationRate * deltaTime * matrix.total / matrix.baseline) {
+      return;
+    }
     
-    // Find next hop
-    const currentNodeId = packet.path[packet.path.length - 1];
-    const nextHop = this.findNextHop(packet, currentNodeId);
+    const entry = TrafficDemand.sampleEntry(matrix);
+    if (!entry) return;
     
-    if (nextHop) {
-      // Add to path
-      packet.path.push(nextHop);
-      
-      // Add to next hop queue
-      const nextNodeType = this.getNodeType(nextHop);
-      if (nextNodeType === 'satellite') {
-        const nextSatellite = this.satellites.get(nextHop);
-        if (nextSatellite) {
-          nextSatellite.queue.push(packet);
-        }
-      } else if (nextNodeType === 'groundStation') {
-        const nextGroundStation = this.groundStations.get(nextHop);
-        if (nextGroundStation) {
-          nextGroundStation.queue.push(packet);
-        }
+    const size = Math.floor(Math.random() * 1000) + 100; // 100-1100 KB
+    const priority = Math.floor(Math.random() * 3); // 0-2 priority
+    
+    if (entry.source === 'internet') {
+      // Downloads enter at the gateway nearest the subscriber
+      const gateway = this.getInternetGateway(entry.destination);
+      const destinationType = this.getNodeType(entry.destination);
+      if (gateway && destinationType) {
+        this.createPacket('groundStation', gateway.id, destinationType, entry.destination, size, priority);
       }
-      
-      // Emit packet routed event
-      this.emit('packetRouted', packet, currentNodeId, nextHop);
-    } else {
-      // No route found
-      packet.status = 'dropped';
-      
-      // Emit packet dropped event
-      this.emit('packetDropped', packet);
+      return;
+    }
+    
+    const sourceType = this.getNodeType(entry.source);
+    const destinationType = this.getNodeType(entry.destination);
+    if (sourceType && destinationType) {
+      this.createPacket(sourceType, entry.source, destinationType, entry.destination, size, priority);
     }
   }
   
-  private generateRandomPackets(deltaTime: number): void {
-    // Generate random packets
-    // This is a placeholder - in a real implementation, this would be based on traffic models
-    const packetGenerationRate = 0.1; // packets per second
-    
-    if (Math.random() < packetGenerationRate * deltaTime) {
-      // Generate a random packet
-      const groundStations = Array.from(this.groundStations.values());
-      if (groundStations.length < 2) return;
-      
-      // Randomly select source and destination ground stations
-      let sourceIndex = Math.floor(Math.random() * groundStations.length);
-      let destIndex;
-      do {
-        destIndex = Math.floor(Math.random() * groundStations.length);
-      } while (destIndex === sourceIndex);
-      
-      const source = groundStations[sourceIndex];
-      const destination = groundStations[destIndex];
-      
-      // Create packet
-      this.createPacket(
-        'groundStation',
-        source.id,
-        'groundStation',
-        destination.id,
-        Math.floor(Math.random() * 1000) + 100, // 100-1100 KB
-        Math.floor(Math.random() * 3) // 0-2 priority
-      );
-    }
+  /** Internet-connected ground station nearest a node, e.g. where its downloads enter the network */
+  public getInternetGateway(nodeId: string): GroundStation | null {
+    const position = this.getNodePosition(nodeId);
+    if (!position) return null;
+    
+    let nearest: GroundStation | null = null;
+    let nearestDistance = Infinity;
+    this.groundStations.forEach(groundStation => {
+      if (!groundStation.connections.internet) return;
+      const distance = this.calculateDistance(position, this.geoToInertial(groundStation.position));
+      if (distance < nearestDistance) {
+        nearest = groundStation;
+        nearestDistance = distance;
+      }
+    });
+    return nearest;
   }
   
-  private getNodeType(id: string): 'satellite' | 'groundStation' | 'internet' | null {
+  /** Kind of node an ID names, whether or not the node exists */
+  public getNodeType(id: string): NodeType | null {
     if (id === 'internet') return 'internet';
     if (id.startsWith('sat_')) return 'satellite';
     if (id.startsWith('gs_')) return 'groundStation';
+    if (id.startsWith('ut_')) return 'userTerminal';
     return null;
   }
   
@@ -999,32 +1984,33 @@ export class SatelliteNetwork extends EventEmitter {
     return Math.sqrt(dx * dx + dy * dy + dz * dz);
   }
   
-  private calculateGeoDistance(posA: GeoPosition, posB: GeoPosition): number {
-    // Haversine formula
-    const lat1 = posA.latitude * (Math.PI / 180);
-    const lon1 = posA.longitude * (Math.PI / 180);
-    const lat2 = posB.latitude * (Math.PI / 180);
-    const lon2 = posB.longitude * (Math.PI / 180);
-    
-    const dLat = lat2 - lat1;
-    const dLon = lon2 - lon1;
-    
-    const a = Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-              Math.cos(lat1) * Math.cos(lat2) *
-              Math.sin(dLon / 2) * Math.sin(dLon / 2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-    
-    return this.earthRadius * c;
+  /**
+   * Earth rotation angle (GMST, radians) at the current simulation time.
+   * The Earth mesh is rotated by this angle about +Y to stay under the constellation.
+   */
+  public getEarthRotationAngle(): number {
+    return this.clock.getGmst();
   }
   
-  private geoToCartesian(geoPosition: GeoPosition): { x: number, y: number, z: number } {
-    const lat = geoPosition.latitude * (Math.PI / 180);
-    const lon = geoPosition.longitude * (Math.PI / 180);
-    
-    const x = this.earthRadius * Math.cos(lat) * Math.cos(lon);
-    const y = this.earthRadius * Math.sin(lat);
-    const z = this.earthRadius * Math.cos(lat) * Math.sin(lon);
-    
-    return { x, y, z }; // Proper Three.js coordinate system
+  /**
+   * Convert an Earth-fixed location to the inertial frame satellites are propagated in,
+   * using the Earth rotation at the current simulation time.
+   */
+  public geoToInertial(geoPosition: GeoPosition, altitude: number = 0): Position {
+    return Coordinates.toSceneAxes(Coordinates.geodeticToEci(
+      { latitude: geoPosition.latitude, longitude: geoPosition.longitude, altitude },
+      this.clock.getGmst()
+    ));
+  }
+  
+  /**
+   * Sub-point latitude/longitude of an inertial position at the current simulation time
+   */
+  public inertialToGeo(position: Position): GeoPosition {
+    const { latitude, longitude } = Coordinates.eciToGeodetic(
+      Coordinates.fromSceneAxes(position),
+      this.clock.getGmst()
+    );
+    return { latitude, longitude };
   }
 }
@@ -0,0 +1,148 @@
+import { EventEmitter } from 'events';
+import { Coordinates } from './Coordinates';
+
+export interface SimulationClockState {
+  epoch: Date;
+  time: Date;
+  warpFactor: number;
+  paused: boolean;
+}
+
+/**
+ * Absolute UTC simulation time shared by every model and renderer.
+ *
+ * The clock is advanced once per frame by the animation loop with the real
+ * elapsed seconds; everything else reads the current instant from it instead
+ * of keeping its own counter or calling Date.now().
+ *
+ * Events: 'tick' (simulatedDeltaSeconds, time), 'jump' (time, previousTime),
+ * 'warpChanged' (warpFactor), 'pauseChanged' (paused)
+ */
+export class SimulationClock extends EventEmitter {
+  private epoch: number; // ms since Unix epoch (UTC)
+  private currentTime: number; // ms since Unix epoch (UTC)
+  private warpFactor: number;
+  private paused: boolean = false;
+  private lastDeltaTime: number = 0; // simulated seconds advanced by the last tick
+
+  // Longest real interval accepted per tick, so a backgrounded tab doesn't
+  // fast-forward the simulation by minutes when it regains focus
+  private maxRealDeltaTime: number = 0.25; // seconds
+
+  constructor(epoch: Date = new Date(), warpFactor: number = 1) {
+    super();
+    if (isNaN(epoch.getTime())) {
+      throw new Error('Invalid simulation epoch');
+    }
+    this.epoch = epoch.getTime();
+    this.currentTime = this.epoch;
+    this.warpFactor = warpFactor;
+  }
+
+  /**
+   * Advance the clock by a real (wall-clock) interval.
+   * Returns the simulated seconds that elapsed, 0 while paused.
+   */
+  public tick(realDeltaTime: number): number {
+    if (this.paused || realDeltaTime <= 0) {
+      this.lastDeltaTime = 0;
+      return 0;
+    }
+
+    const deltaTime = Math.min(realDeltaTime, this.maxRealDeltaTime) * this.warpFactor;
+    this.currentTime += deltaTime * 1000;
+    this.lastDeltaTime = deltaTime;
+
+    this.emit('tick', deltaTime, this.getDate());
+    return deltaTime;
+  }
+
+  /** Current simulation time in ms since the Unix epoch */
+  public getTime(): number {
+    return this.currentTime;
+  }
+
+  public getDate(): Date {
+    return new Date(this.currentTime);
+  }
+
+  /** Julian date (UTC) of the current simulation time */
+  public getJulianDate(): number {
+    return Coordinates.julianDate(this.getDate());
+  }
+
+  /**
+   * Greenwich mean sidereal time in radians, the Earth rotation angle between the
+   * inertial frame satellites are propagated in and Earth-fixed coordinates.
+   */
+  public getGmst(): number {
+    return Coordinates.gmst(this.getDate());
+  }
+
+  public getEpoch(): Date {
+    return new Date(this.epoch);
+  }
+
+  /** Simulated seconds since the epoch */
+  public getElapsedTime(): number {
+    return (this.currentTime - this.epoch) / 1000;
+  }
+
+  /** Simulated seconds advanced by the most recent tick */
+  public getDeltaTime(): number {
+    return this.lastDeltaTime;
+  }
+
+  public getWarpFactor(): number {
+    return this.warpFactor;
+  }
+
+  public setWarpFactor(warpFactor: number): void {
+    if (!isFinite(warpFactor) || warpFactor < 0) {
+      throw new Error(`Invalid warp factor: ${warpFactor}`);
+    }
+    this.warpFactor = warpFactor;
+    this.emit('warpChanged', warpFactor);
+  }
+
+  public isPaused(): boolean {
+    return this.paused;
+  }
+
+  public setPaused(paused: boolean): void {
+    if (this.paused === paused) return;
+    this.paused = paused;
+    this.emit('pauseChanged', paused);
+  }
+
+  /**
+   * Move the clock to an arbitrary instant. Listeners of 'jump' are expected
+   * to re-propagate their state rather than integrate across the gap.
+   */
+  public jumpTo(date: Date): void {
+    const time = date.getTime();
+    if (isNaN(time)) {
+      throw new Error('Invalid simulation time');
+    }
+
+    const previousTime = this.getDate();
+    this.currentTime = time;
+    this.lastDeltaTime = 0;
+    this.emit('jump', this.getDate(), previousTime);
+  }
+
+  /** Set a new epoch and move the clock to it */
+  public reset(epoch: Date = new Date()): void {
+    this.jumpTo(epoch);
+    this.epoch = epoch.getTime();
+  }
+
+  public getState(): SimulationClockState {
+    return {
+      epoch: this.getEpoch(),
+      time: this.getDate(),
+      warpFactor: this.warpFactor,
+      paused: this.paused
+    };
+  }
+}
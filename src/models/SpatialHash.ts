@@ -0,0 +1,134 @@
+import { Position } from './SatelliteNetwork';
+
+/**
+ * Uniform grid over 3D positions for range-limited neighbor queries.
+ *
+ * Entries are re-bucketed only when they cross a cell boundary, so updating a
+ * slowly moving set is cheap. With a cell size equal to the query radius a query
+ * visits the 27 cells around the query point.
+ */
+export class SpatialHash {
+  private cellSize: number;
+  private cells: Map<number, Set<string>> = new Map();
+  private entries: Map<string, { position: Position; cell: number }> = new Map();
+
+  // Cell coordinates are packed into one number, 2^10 cells per axis around the origin
+  private static readonly AXIS_CELLS = 1024;
+
+  constructor(cellSize: number) {
+    if (!(cellSize > 0)) {
+      throw new Error('Spatial hash cell size must be positive');
+    }
+    this.cellSize = cellSize;
+  }
+
+  public getCellSize(): number {
+    return this.cellSize;
+  }
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  public ids(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  /** Insert an entry or move it to a new position */
+  public set(id: string, position: Position): void {
+    const cell = this.cellKey(position);
+    const entry = this.entries.get(id);
+
+    if (entry) {
+      entry.position = position;
+      if (entry.cell === cell) return;
+      this.removeFromCell(id, entry.cell);
+      entry.cell = cell;
+    } else {
+      this.entries.set(id, { position, cell });
+    }
+
+    let members = this.cells.get(cell);
+    if (!members) {
+      members = new Set();
+      this.cells.set(cell, members);
+    }
+    members.add(id);
+  }
+
+  public delete(id: string): boolean {
+    const entry = this.entries.get(id);
+    if (!entry) return false;
+
+    this.removeFromCell(id, entry.cell);
+    this.entries.delete(id);
+    return true;
+  }
+
+  public clear(): void {
+    this.cells.clear();
+    this.entries.clear();
+  }
+
+  /** IDs of entries within radius of a position, with their distances */
+  public queryRadius(position: Position, radius: number): { id: string; distance: number }[] {
+    const results: { id: string; distance: number }[] = [];
+    const reach = Math.ceil(radius / this.cellSize);
+    const [cx, cy, cz] = this.cellCoordinates(position);
+    const radius2 = radius * radius;
+
+    for (let x = cx - reach; x <= cx + reach; x++) {
+      for (let y = cy - reach; y <= cy + reach; y++) {
+        for (let z = cz - reach; z <= cz + reach; z++) {
+          const members = this.cells.get(SpatialHash.pack(x, y, z));
+          if (!members) continue;
+
+          members.forEach(id => {
+            const other = this.entries.get(id)!.position;
+            const dx = other.x - position.x;
+            const dy = other.y - position.y;
+            const dz = other.z - position.z;
+            const distance2 = dx * dx + dy * dy + dz * dz;
+            if (distance2 <= radius2) {
+              results.push({ id, distance: Math.sqrt(distance2) });
+            }
+          });
+        }
+      }
+    }
+
+    return results;
+  }
+
+  private cellCoordinates(position: Position): [number, number, number] {
+    return [
+      Math.floor(position.x / this.cellSize),
+      Math.floor(position.y / this.cellSize),
+      Math.floor(position.z / this.cellSize)
+    ];
+  }
+
+  private cellKey(position: Position): number {
+    const [x, y, z] = this.cellCoordinates(position);
+    return SpatialHash.pack(x, y, z);
+  }
+
+  private static pack(x: number, y: number, z: number): number {
+    const half = this.AXIS_CELLS / 2;
+    return ((x + half) * this.AXIS_CELLS + (y + half)) * this.AXIS_CELLS + (z + half);
+  }
+
+  private removeFromCell(id: string, cell: number): void {
+    const members = this.cells.get(cell);
+    if (!members) return;
+
+    members.delete(id);
+    if (members.size === 0) {
+      this.cells.delete(cell);
+    }
+  }
+}
@@ -0,0 +1,251 @@
+import { GeoPosition } from './SatelliteNetwork';
+import {
+  PopulationCell,
+  SubscriberRegion,
+  POPULATION_GRID,
+  POPULATION_CELL_SIZE,
+  DEFAULT_REGION_SUBSCRIBERS
+} from '../data/SubscriberGrid';
+
+export interface TrafficDemandConfig {
+  subscriberRate: number;     // Mbps per subscriber, averaged over a day
+  internetShare: number;      // fraction of traffic to or from the internet rather than other endpoints
+  downlinkShare: number;      // fraction of internet traffic flowing towards the subscribers
+  maxServiceDistance: number; // km, furthest an endpoint outside a cell carries its traffic
+}
+
+// Offered load of one grid cell at a time
+export interface CellDemand {
+  latitude: number;
+  longitude: number;
+  region: SubscriberRegion;
+  subscribers: number;
+  rate: number; // Mbps
+}
+
+// Somewhere traffic enters or leaves the network: a ground station, user terminal or similar
+export interface DemandEndpoint {
+  id: string;
+  position: GeoPosition;
+}
+
+// Offered load between two endpoints; 'internet' stands for the internet at either end
+export interface TrafficDemandEntry {
+  source: string;
+  destination: string;
+  rate: number; // Mbps
+}
+
+export interface TrafficMatrix {
+  time: number;     // ms since the Unix epoch (UTC)
+  entries: TrafficDemandEntry[];
+  total: number;    // Mbps
+  baseline: number; // Mbps the same cells offer averaged over a day
+}
+
+/**
+ * Where and when subscribers offer traffic.
+ *
+ * Each region's subscribers are spread over its cells of a coarse population grid in
+ * proportion to population. A cell's load follows a diurnal profile by local mean
+ * solar time, peaking in the evening. Traffic matrices hand every cell's load to the
+ * endpoints inside it, shared equally, or else to the nearest endpoint within the
+ * service distance; cells with neither are not served. Most of an endpoint's traffic
+ * goes to and from the internet and the rest to other endpoints in proportion to
+ * their own load (a gravity model).
+ */
+export class TrafficDemand {
+  public static readonly DEFAULT_CONFIG: TrafficDemandConfig = {
+    subscriberRate: 0.5,
+    internetShare: 0.9,
+    downlinkShare: 0.85,
+    maxServiceDistance: 3000
+  };
+
+  // Relative load by local solar hour from midnight; scaled to a mean of 1 below
+  private static readonly DIURNAL_PROFILE = [
+    0.55, 0.4, 0.3, 0.25, 0.22, 0.25, 0.35, 0.5, 0.65, 0.75, 0.8, 0.85,
+    0.9, 0.9, 0.9, 0.95, 1.05, 1.2, 1.4, 1.6, 1.75, 1.7, 1.4, 0.95
+  ];
+  private static readonly DIURNAL_MEAN =
+    TrafficDemand.DIURNAL_PROFILE.reduce((sum, value) => sum + value, 0) / TrafficDemand.DIURNAL_PROFILE.length;
+
+  private static readonly EARTH_RADIUS = 6371; // km
+  private static readonly DEG = Math.PI / 180;
+
+  private config: TrafficDemandConfig;
+  private grid: PopulationCell[];
+  private cellSize: number;
+  private subscribers: Record<SubscriberRegion, number> = { ...DEFAULT_REGION_SUBSCRIBERS };
+  private regionPopulation: Map<SubscriberRegion, number> = new Map();
+
+  constructor(
+    config: Partial<TrafficDemandConfig> = {},
+    grid: PopulationCell[] = POPULATION_GRID,
+    cellSize: number = POPULATION_CELL_SIZE
+  ) {
+    this.config = { ...TrafficDemand.DEFAULT_CONFIG };
+    this.setConfig(config);
+    this.grid = grid;
+    this.cellSize = cellSize;
+    grid.forEach(cell => {
+      this.regionPopulation.set(cell.region, (this.regionPopulation.get(cell.region) ?? 0) + cell.population);
+    });
+  }
+
+  public getConfig(): TrafficDemandConfig {
+    return { ...this.config };
+  }
+
+  public setConfig(config: Partial<TrafficDemandConfig>): void {
+    const next = { ...this.config, ...config };
+    if (!(next.subscriberRate >= 0) || !(next.maxServiceDistance >= 0) ||
+        !(next.internetShare >= 0 && next.internetShare <= 1) || !(next.downlinkShare >= 0 && next.downlinkShare <= 1)) {
+      throw new Error('Traffic demand rates and distances must be non-negative and shares between 0 and 1');
+    }
+    this.config = next;
+  }
+
+  public getRegionSubscribers(): Record<SubscriberRegion, number> {
+    return { ...this.subscribers };
+  }
+
+  public setRegionSubscribers(subscribers: Partial<Record<SubscriberRegion, number>>): void {
+    Object.entries(subscribers).forEach(([region, count]) => {
+      if (!(count! >= 0)) {
+        throw new Error(`Subscriber count for ${region} must be non-negative`);
+      }
+    });
+    this.subscribers = { ...this.subscribers, ...subscribers };
+  }
+
+  /** Load relative to the daily mean at a longitude and time (ms since the Unix epoch), by local solar time */
+  public static diurnalFactor(longitude: number, time: number): number {
+    const utcHours = (time / 3600000) % 24;
+    const localHours = ((utcHours + longitude / 15) % 24 + 24) % 24;
+
+    // Linear between hourly values, taken at the middle of each hour
+    const profile = TrafficDemand.DIURNAL_PROFILE;
+    const position = (localHours - 0.5 + 24) % 24;
+    const hour = Math.floor(position);
+    const fraction = position - hour;
+    const value = profile[hour] * (1 - fraction) + profile[(hour + 1) % 24] * fraction;
+    return value / TrafficDemand.DIURNAL_MEAN;
+  }
+
+  /** Offered load of every populated cell at a time (ms since the Unix epoch) */
+  public getCellDemand(time: number): CellDemand[] {
+    return this.grid.map(cell => {
+      const regionPopulation = this.regionPopulation.get(cell.region)!;
+      const subscribers = regionPopulation > 0 ? this.subscribers[cell.region] * cell.population / regionPopulation : 0;
+      return {
+        latitude: cell.latitude,
+        longitude: cell.longitude,
+        region: cell.region,
+        subscribers,
+        rate: subscribers * this.config.subscriberRate * TrafficDemand.diurnalFactor(cell.longitude, time)
+      };
+    });
+  }
+
+  /**
+   * Offered load between endpoints at a time (ms since the Unix epoch). The internet
+   * share defaults to the configured one; 0 keeps all traffic between endpoints.
+   */
+  public getTrafficMatrix(
+    time: number,
+    endpoints: DemandEndpoint[],
+    internetShare: number = this.config.internetShare
+  ): TrafficMatrix {
+    const matrix: TrafficMatrix = { time, entries: [], total: 0, baseline: 0 };
+    if (endpoints.length === 0) return matrix;
+
+    // Endpoints by the grid cell they sit in
+    const inCell = new Map<string, DemandEndpoint[]>();
+    endpoints.forEach(endpoint => {
+      const key = this.cellKey(endpoint.position);
+      let members = inCell.get(key);
+      if (!members) {
+        members = [];
+        inCell.set(key, members);
+      }
+      members.push(endpoint);
+    });
+
+    const load = new Map<string, number>();
+    this.getCellDemand(time).forEach(cell => {
+      if (cell.rate <= 0) return;
+
+      let serving = inCell.get(this.cellKey(cell));
+      if (!serving) {
+        const nearest = this.nearestEndpoint(cell, endpoints);
+        serving = nearest ? [nearest] : [];
+      }
+      if (serving.length === 0) return;
+
+      serving.forEach(endpoint => {
+        load.set(endpoint.id, (load.get(endpoint.id) ?? 0) + cell.rate / serving!.length);
+      });
+      matrix.baseline += cell.subscribers * this.config.subscriberRate;
+    });
+
+    const totalLoad = Array.from(load.values()).reduce((sum, rate) => sum + rate, 0);
+    const { downlinkShare } = this.config;
+    load.forEach((rate, id) => {
+      const internet = rate * internetShare;
+      if (internet > 0) {
+        matrix.entries.push({ source: 'internet', destination: id, rate: internet * downlinkShare });
+        matrix.entries.push({ source: id, destination: 'internet', rate: internet * (1 - downlinkShare) });
+      }
+
+      // The rest goes to the other endpoints in proportion to their own load
+      const others = totalLoad - rate;
+      if (internetShare >= 1 || others <= 0) return;
+      load.forEach((otherRate, otherId) => {
+        if (otherId === id) return;
+        matrix.entries.push({ source: id, destination: otherId, rate: rate * (1 - internetShare) * otherRate / others });
+      });
+    });
+
+    matrix.entries = matrix.entries.filter(entry => entry.rate > 0);
+    matrix.total = matrix.entries.reduce((sum, entry) => sum + entry.rate, 0);
+    return matrix;
+  }
+
+  /** An entry at random, weighted by its rate; null for an empty matrix */
+  public static sampleEntry(matrix: TrafficMatrix): TrafficDemandEntry | null {
+    let remaining = Math.random() * matrix.total;
+    for (const entry of matrix.entries) {
+      remaining -= entry.rate;
+      if (remaining < 0) return entry;
+    }
+    return matrix.entries.length > 0 ? matrix.entries[matrix.entries.length - 1] : null;
+  }
+
+  private cellKey(position: GeoPosition): string {
+    const row = Math.floor(position.latitude / this.cellSize);
+    const column = Math.floor((((position.longitude + 180) % 360 + 360) % 360 - 180) / this.cellSize);
+    return `${row}_${column}`;
+  }
+
+  private nearestEndpoint(position: GeoPosition, endpoints: DemandEndpoint[]): DemandEndpoint | null {
+    let nearest: DemandEndpoint | null = null;
+    let nearestDistance = this.config.maxServiceDistance;
+    for (const endpoint of endpoints) {
+      const distance = TrafficDemand.greatCircleDistance(position, endpoint.position);
+      if (distance <= nearestDistance) {
+        nearest = endpoint;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+
+  private static greatCircleDistance(a: GeoPosition, b: GeoPosition): number {
+    const deg = TrafficDemand.DEG;
+    const dLat = (b.latitude - a.latitude) * deg;
+    const dLon = (b.longitude - a.longitude) * deg;
+    const h = Math.sin(dLat / 2) ** 2 + Math.cos(a.latitude * deg) * Math.cos(b.latitude * deg) * Math.sin(dLon / 2) ** 2;
+    return 2 * TrafficDemand.EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(h)));
+  }
+}
@@ -0,0 +1,302 @@
+import { DataPacket, GeoPosition, Position } from './SatelliteNetwork';
+import { Coordinates } from './Coordinates';
+import { SpatialHash } from './SpatialHash';
+import { DishType, ServicePlan, DISH_TYPES, SERVICE_PLANS } from '../data/UserTerminalDefinitions';
+
+export interface UserTerminal {
+  id: string;
+  position: GeoPosition;
+  dish: DishType;
+  plan: ServicePlan;
+  cell: string; // beam cell the terminal sits in
+  connections: {
+    satellite: string | null; // serving satellite
+  };
+  queue: DataPacket[];
+  status: 'online' | 'offline';
+}
+
+export interface UserTerminalOptions {
+  dish?: DishType;
+  plan?: ServicePlan;
+}
+
+// Terminals per 1,000 km² over a latitude/longitude cell given by its centre
+export interface DensityCell {
+  latitude: number;
+  longitude: number;
+  density: number;
+}
+
+export interface DensityGrid {
+  cellSize: number; // degrees
+  cells: DensityCell[];
+}
+
+export interface DensityGridOptions extends UserTerminalOptions {
+  scale?: number;        // fraction of the grid's terminals to place
+  maxTerminals?: number;
+}
+
+// A satellite as the access scheduler sees it: scene position (km) and beams it can still give to users
+export interface AccessNode {
+  id: string;
+  position: Position;
+  beams: number;
+}
+
+interface BeamCell {
+  latitude: number;
+  longitude: number;
+  terminals: Set<string>;
+  satellite: string | null;
+  users: number;     // terminals connected through the cell's beam
+  pending: boolean;  // added since the cell last looked for a satellite
+}
+
+/**
+ * Customer terminals and the satellites serving them.
+ *
+ * Terminals are grouped into fixed beam cells. Every scheduling interval each cell is
+ * given the highest satellite above its terminals' dish limits that still has a free
+ * beam, so a satellite serves at most as many cells as it has beams left after its
+ * gateway links. Between intervals a cell keeps its satellite while it stays usable.
+ * Each terminal connects through its cell's satellite when that is inside its own
+ * dish's field of view, and the terminals on a beam share its capacity.
+ */
+export class UserTerminals {
+  private terminals: Map<string, UserTerminal> = new Map();
+  private cells: Map<string, BeamCell> = new Map();
+  private index = new SpatialHash(UserTerminals.INDEX_CELL_SIZE);
+  private terminalCount: number = 0;
+  private slot: number = -1;
+
+  // Starlink re-plans user beams every 15 seconds
+  private static readonly SCHEDULING_INTERVAL = 15; // seconds
+  private static readonly BEAM_CELL_SIZE = 0.25; // degrees, about the width of a user beam
+  // km; about half a dish's slant range, so a query visits a tight block of index cells
+  private static readonly INDEX_CELL_SIZE = 650;
+  private static readonly EARTH_RADIUS = 6371; // km
+  private static readonly DEG = Math.PI / 180;
+
+  public get size(): number {
+    return this.terminals.size;
+  }
+
+  public has(id: string): boolean {
+    return this.terminals.has(id);
+  }
+
+  public get(id: string): UserTerminal | undefined {
+    return this.terminals.get(id);
+  }
+
+  public getAll(): UserTerminal[] {
+    return Array.from(this.terminals.values());
+  }
+
+  public add(position: GeoPosition, options: UserTerminalOptions = {}): UserTerminal {
+    if (!(Math.abs(position.latitude) <= 90) || !isFinite(position.longitude)) {
+      throw new Error(`Invalid user terminal position: ${position.latitude}, ${position.longitude}`);
+    }
+
+    const longitude = ((position.longitude + 540) % 360) - 180;
+    const size = UserTerminals.BEAM_CELL_SIZE;
+    const row = Math.min(Math.floor((position.latitude + 90) / size), Math.round(180 / size) - 1);
+    const column = Math.floor((longitude + 180) / size) % Math.round(360 / size);
+    const key = `${row}_${column}`;
+
+    const terminal: UserTerminal = {
+      id: `ut_${this.terminalCount++}`,
+      position: { latitude: position.latitude, longitude },
+      dish: options.dish ?? 'standard',
+      plan: options.plan ?? 'residential',
+      cell: key,
+      connections: { satellite: null },
+      queue: [],
+      status: 'online'
+    };
+
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = {
+        latitude: -90 + (row + 0.5) * size,
+        longitude: -180 + (column + 0.5) * size,
+        terminals: new Set(), satellite: null, users: 0, pending: true
+      };
+      this.cells.set(key, cell);
+    }
+    cell.terminals.add(terminal.id);
+    this.terminals.set(terminal.id, terminal);
+    return terminal;
+  }
+
+  public remove(id: string): UserTerminal | undefined {
+    const terminal = this.terminals.get(id);
+    if (!terminal) return undefined;
+
+    this.terminals.delete(id);
+    const cell = this.cells.get(terminal.cell)!;
+    cell.terminals.delete(id);
+    if (terminal.connections.satellite) cell.users--;
+    if (cell.terminals.size === 0) this.cells.delete(terminal.cell);
+    return terminal;
+  }
+
+  /**
+   * Place terminals at random within each cell of a density grid. A cell's expected
+   * count is its density times its area times the scale, rounded at random so
+   * sparse cells still get terminals in proportion.
+   */
+  public generateFromGrid(grid: DensityGrid, options: DensityGridOptions = {}): UserTerminal[] {
+    const { scale = 1, maxTerminals = Infinity } = options;
+    if (!(grid.cellSize > 0) || !(scale >= 0)) {
+      throw new Error('Density grid cell size must be positive and scale non-negative');
+    }
+
+    const half = grid.cellSize / 2;
+    const placed: UserTerminal[] = [];
+    for (const cell of grid.cells) {
+      const south = Math.max(-90, cell.latitude - half) * UserTerminals.DEG;
+      const north = Math.min(90, cell.latitude + half) * UserTerminals.DEG;
+      const area = UserTerminals.EARTH_RADIUS ** 2 * grid.cellSize * UserTerminals.DEG * (Math.sin(north) - Math.sin(south));
+      const expected = Math.max(0, cell.density) * area / 1000 * scale;
+      const count = Math.floor(expected) + (Math.random() < expected % 1 ? 1 : 0);
+
+      for (let i = 0; i < count; i++) {
+        if (placed.length >= maxTerminals) return placed;
+        // Uniform over the cell's area: sine of latitude is uniform on a sphere
+        const sinLatitude = Math.sin(south) + Math.random() * (Math.sin(north) - Math.sin(south));
+        placed.push(this.add({
+          latitude: Math.asin(sinLatitude) / UserTerminals.DEG,
+          longitude: cell.longitude - half + Math.random() * grid.cellSize
+        }, options));
+      }
+    }
+    return placed;
+  }
+
+  /** Terminals sharing a terminal's beam, including itself; 0 when it is not connected */
+  public getBeamUsers(id: string): number {
+    const terminal = this.terminals.get(id);
+    return terminal?.connections.satellite ? this.cells.get(terminal.cell)!.users : 0;
+  }
+
+  /** Downlink and uplink rates (Mbps) of a terminal's share of its beam, capped by its dish and plan */
+  public getRates(id: string, beamDownlink: number, beamUplink: number): { downlink: number; uplink: number } {
+    const terminal = this.terminals.get(id);
+    if (!terminal) return { downlink: 0, uplink: 0 };
+
+    const users = Math.max(1, this.getBeamUsers(id));
+    const dish = DISH_TYPES[terminal.dish];
+    const plan = SERVICE_PLANS[terminal.plan];
+    return {
+      downlink: Math.min(dish.downlink, plan.downlink, beamDownlink / users),
+      uplink: Math.min(dish.uplink, plan.uplink, beamUplink / users)
+    };
+  }
+
+  /** Disconnect the cells and terminals a satellite was serving, e.g. when it is lost */
+  public disconnectSatellite(satelliteId: string): void {
+    this.cells.forEach(cell => {
+      if (cell.satellite !== satelliteId) return;
+      cell.satellite = null;
+      cell.users = 0;
+      cell.terminals.forEach(id => {
+        this.terminals.get(id)!.connections.satellite = null;
+      });
+    });
+    this.index.delete(satelliteId);
+  }
+
+  /**
+   * Assign cells and terminals to satellites at a time (ms since the Unix epoch) with
+   * Earth at a rotation angle; returns whether any terminal changed satellite.
+   */
+  public update(nodes: AccessNode[], gmst: number, time: number): boolean {
+    const slot = Math.floor(time / (UserTerminals.SCHEDULING_INTERVAL * 1000));
+    const reschedule = slot !== this.slot;
+    this.slot = slot;
+
+    const present = new Set(nodes.map(node => node.id));
+    this.index.ids().forEach(id => {
+      if (!present.has(id)) this.index.delete(id);
+    });
+    nodes.forEach(node => this.index.set(node.id, node.position));
+    const byId = new Map(nodes.map(node => [node.id, node]));
+    const freeBeams = new Map(nodes.map(node => [node.id, node.beams]));
+
+    // Slant range to the lowest elevation any dish tracks, from the highest satellite
+    const lowest = Math.min(...Object.values(DISH_TYPES).map(dish => dish.minElevation)) * UserTerminals.DEG;
+    const orbit = nodes.reduce((highest, node) => Math.max(highest, Math.hypot(node.position.x, node.position.y, node.position.z)), 0);
+    const R = UserTerminals.EARTH_RADIUS;
+    const reach = Math.sqrt(orbit * orbit - (R * Math.cos(lowest)) ** 2) - R * Math.sin(lowest);
+
+    const elevation = (observer: { latitude: number; longitude: number; altitude: number }, node: AccessNode): number =>
+      Coordinates.lookAnglesEci(observer, Coordinates.fromSceneAxes(node.position), gmst).elevation;
+
+    // Between intervals a cell keeps a satellite that is still usable and looks for another
+    // at once when it is not; a cell left without service waits for the next interval
+    const searching: { cell: BeamCell; observer: { latitude: number; longitude: number; altitude: number }; minElevation: number }[] = [];
+    this.cells.forEach(cell => {
+      const online = Array.from(cell.terminals).map(id => this.terminals.get(id)!).filter(terminal => terminal.status === 'online');
+      if (online.length === 0) {
+        cell.satellite = null;
+        return;
+      }
+      const minElevation = Math.min(...online.map(terminal => DISH_TYPES[terminal.dish].minElevation));
+      const observer = { latitude: cell.latitude, longitude: cell.longitude, altitude: 0 };
+
+      if (!reschedule && !cell.pending) {
+        if (!cell.satellite) return;
+        const current = byId.get(cell.satellite);
+        if (current && freeBeams.get(current.id)! > 0 && elevation(observer, current) >= minElevation) {
+          freeBeams.set(current.id, freeBeams.get(current.id)! - 1);
+          return;
+        }
+      }
+      searching.push({ cell, observer, minElevation });
+    });
+
+    searching.forEach(({ cell, observer, minElevation }) => {
+      const site = Coordinates.toSceneAxes(Coordinates.geodeticToEci(observer, gmst));
+      let best: string | null = null;
+      let bestElevation = minElevation;
+      for (const { id } of this.index.queryRadius(site, reach)) {
+        if (freeBeams.get(id)! <= 0) continue;
+        const candidate = elevation(observer, byId.get(id)!);
+        if (candidate >= bestElevation) {
+          best = id;
+          bestElevation = candidate;
+        }
+      }
+
+      if (best) freeBeams.set(best, freeBeams.get(best)! - 1);
+      cell.satellite = best;
+      cell.pending = false;
+    });
+
+    let changed = false;
+    this.cells.forEach(cell => {
+      // Each terminal uses the cell's satellite only inside its own dish's field of view
+      const serving = cell.satellite ? byId.get(cell.satellite)! : null;
+      cell.users = 0;
+      cell.terminals.forEach(id => {
+        const terminal = this.terminals.get(id)!;
+        let satellite: string | null = null;
+        if (serving && terminal.status === 'online') {
+          const observer = { ...terminal.position, altitude: 0 };
+          const look = Coordinates.lookAnglesEci(observer, Coordinates.fromSceneAxes(serving.position), gmst);
+          if (look.elevation >= DISH_TYPES[terminal.dish].minElevation) satellite = serving.id;
+        }
+        if (satellite) cell.users++;
+        if (terminal.connections.satellite !== satellite) {
+          terminal.connections.satellite = satellite;
+          changed = true;
+        }
+      });
+    });
+
+    return changed;
+  }
+}
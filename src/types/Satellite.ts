@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { EclipseState } from '../models/Eclipse';
 
 export interface Satellite {
   id: string;
@@ -20,4 +21,6 @@ export interface Satellite {
   timeSlots: { duration: number, allocation: string }[]; // Time slots for beam allocation
   status: string;
   type: string;
+  eclipse?: EclipseState;
+  sunlitFraction?: number; // 0-1, visible fraction of the solar disk
 }
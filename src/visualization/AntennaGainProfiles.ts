@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { Coordinates } from '../models/Coordinates';
 
 export interface AntennaGainPattern {
   antennaId: string;
@@ -389,13 +390,8 @@ export class AntennaGainProfiles {
       temperature: number; // °C
     }
   ): LinkBudgetCalculation {
-    // Calculate distance
-    const distance = antennaPosition.distanceTo(satellitePosition) / 1000; // Convert to km
-    
-    // Calculate pointing angles
-    const direction = satellitePosition.clone().sub(antennaPosition).normalize();
-    const azimuth = Math.atan2(direction.x, direction.z) * 180 / Math.PI;
-    const elevation = Math.asin(direction.y) * 180 / Math.PI;
+    // Slant range and pointing angles (positions are Earth-fixed scene coordinates in metres)
+    const { azimuth, elevation, range: distance } = Coordinates.sceneLookAngles(antennaPosition, satellitePosition, 1000);
     
     // Get antenna gain
     const antennaGain = this.getAntennaGain(antennaId, azimuth, elevation, frequency);
@@ -0,0 +1,362 @@
+import { TleParser, OrbitalElements } from './TleParser';
+
+export type ElementSetFormat = 'tle' | 'omm-xml' | 'omm-kvn' | 'json' | 'csv';
+
+export interface ElementSetRecord {
+  name: string;
+  source: string; // file the element set was read from
+  format: ElementSetFormat;
+  elements: OrbitalElements;
+}
+
+export interface IngestionError {
+  source: string;
+  format: ElementSetFormat;
+  record: number;      // 1-based element set index within the file
+  line?: number;       // first line of the element set, for line-oriented formats
+  name: string;
+  message: string;
+}
+
+export interface IngestionResult {
+  records: ElementSetRecord[]; // unique by NORAD ID, newest epoch kept
+  errors: IngestionError[];
+  duplicates: number;          // older element sets dropped in favour of a newer one
+}
+
+export interface CatalogFile {
+  name: string;
+  text: string;
+}
+
+// Raw OMM keyword/value pairs of one element set
+type OmmFields = Record<string, string>;
+
+/**
+ * Offline element set ingestion: 2-line and 3-line TLEs, CCSDS OMM in XML and KVN,
+ * and the JSON and CSV flavours of OMM served by CelesTrak.
+ *
+ * Every element set is validated on its own (TLE columns and checksums, OMM
+ * keywords and value ranges, SGP4 initialisation), so one bad record is reported
+ * without rejecting the file. The catalog is de-duplicated by NORAD ID, keeping
+ * the element set with the newest epoch.
+ */
+export class CatalogIngestion {
+  private static readonly REQUIRED_OMM_FIELDS = [
+    'EPOCH', 'MEAN_MOTION', 'ECCENTRICITY', 'INCLINATION', 'RA_OF_ASC_NODE',
+    'ARG_OF_PERICENTER', 'MEAN_ANOMALY', 'NORAD_CAT_ID'
+  ];
+
+  /** Read several files into one de-duplicated catalog */
+  public static ingest(files: CatalogFile[]): IngestionResult {
+    const records: ElementSetRecord[] = [];
+    const errors: IngestionError[] = [];
+    let duplicates = 0;
+
+    files.forEach(file => {
+      const result = this.parse(file.text, file.name);
+      records.push(...result.records);
+      errors.push(...result.errors);
+      duplicates += result.duplicates;
+    });
+
+    const unique = this.deduplicate(records);
+    return { records: unique.records, errors, duplicates: duplicates + unique.duplicates };
+  }
+
+  /** Read one file, detecting its format from the content */
+  public static parse(text: string, source: string = 'catalog'): IngestionResult {
+    const format = this.detectFormat(text);
+    const records: ElementSetRecord[] = [];
+    const errors: IngestionError[] = [];
+
+    const accept = (name: string, record: number, line: number | undefined, build: () => OrbitalElements) => {
+      try {
+        const elements = build();
+        const problems = this.validateElements(elements);
+        if (problems.length > 0) {
+          throw new Error(problems.join('; '));
+        }
+        records.push({ name, source, format, elements });
+      } catch (error) {
+        errors.push({ source, format, record, line, name, message: error instanceof Error ? error.message : String(error) });
+      }
+    };
+
+    if (format === 'tle') {
+      TleParser.splitTleRecords(text).forEach((tle, index) => {
+        accept(tle.name, index + 1, tle.lineNumber, () => {
+          const problems = TleParser.validateTle(tle.line1, tle.line2);
+          if (problems.length > 0) {
+            throw new Error(problems.join('; '));
+          }
+          return TleParser.parseOrbitalElements(tle.line1, tle.line2);
+        });
+      });
+    } else {
+      let sets: OmmFields[];
+      try {
+        sets = this.readOmmSets(text, format);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        return { records, errors: [{ source, format, record: 0, name: source, message }], duplicates: 0 };
+      }
+
+      sets.forEach((fields, index) => {
+        accept(fields.OBJECT_NAME ?? fields.NORAD_CAT_ID ?? `#${index + 1}`, index + 1, undefined, () => this.elementsFromOmm(fields));
+      });
+    }
+
+    if (errors.length > 0) {
+      console.warn(`${source}: ${errors.length} of ${records.length + errors.length} element sets rejected`);
+    }
+
+    return { ...this.deduplicate(records), errors };
+  }
+
+  public static detectFormat(text: string): ElementSetFormat {
+    const head = text.trimStart();
+
+    if (head.startsWith('<')) return 'omm-xml';
+    if (head.startsWith('[') || head.startsWith('{')) return 'json';
+    if (/^CCSDS_OMM_VERS\s*=/m.test(head)) return 'omm-kvn';
+
+    const firstLine = head.split(/\r?\n/, 1)[0].toUpperCase();
+    if (firstLine.includes(',') && firstLine.includes('NORAD_CAT_ID')) return 'csv';
+
+    return 'tle';
+  }
+
+  /** Keep one element set per NORAD ID, the one with the newest epoch */
+  public static deduplicate(records: ElementSetRecord[]): { records: ElementSetRecord[]; duplicates: number } {
+    const newest = new Map<number, ElementSetRecord>();
+    const epoch = (record: ElementSetRecord) => record.elements.epochYear * 1000 + record.elements.epochDay;
+
+    records.forEach(record => {
+      const existing = newest.get(record.elements.noradId);
+      if (!existing || epoch(record) > epoch(existing)) {
+        newest.set(record.elements.noradId, record);
+      }
+    });
+
+    return { records: Array.from(newest.values()), duplicates: records.length - newest.size };
+  }
+
+  /** Range checks shared by every format, followed by SGP4 initialisation */
+  public static validateElements(elements: OrbitalElements): string[] {
+    const problems: string[] = [];
+    const angle = (value: number) => value >= 0 && value <= 360;
+
+    if (!Number.isInteger(elements.noradId) || elements.noradId <= 0) problems.push('NORAD ID must be a positive integer');
+    if (!(elements.inclination >= 0 && elements.inclination <= 180)) problems.push('inclination must be within [0, 180] degrees');
+    if (!(elements.eccentricity >= 0 && elements.eccentricity < 1)) problems.push('eccentricity must be within [0, 1)');
+    if (!(elements.meanMotion > 0)) problems.push('mean motion must be positive');
+    if (!angle(elements.raan) || !angle(elements.argumentOfPeriapsis) || !angle(elements.meanAnomaly)) {
+      problems.push('angles must be within [0, 360] degrees');
+    }
+    if (!(elements.epochDay >= 1 && elements.epochDay < 367)) problems.push('epoch day of year is out of range');
+    if (isNaN(elements.bstar)) problems.push('B* is not a number');
+
+    if (problems.length === 0) {
+      const message = TleParser.getPropagator(elements).getErrorMessage();
+      if (message) problems.push(`SGP4: ${message}`);
+    }
+
+    return problems;
+  }
+
+  private static readOmmSets(text: string, format: ElementSetFormat): OmmFields[] {
+    switch (format) {
+      case 'omm-xml':
+        return this.readOmmXml(text);
+      case 'omm-kvn':
+        return this.readOmmKvn(text);
+      case 'json':
+        return this.readOmmJson(text);
+      case 'csv':
+        return this.readOmmCsv(text);
+      default:
+        throw new Error(`Not an OMM format: ${format}`);
+    }
+  }
+
+  // Every leaf element of each <omm> (or bare <segment>) becomes a keyword
+  private static readOmmXml(text: string): OmmFields[] {
+    const blocks = text.match(/<omm[\s>][\s\S]*?<\/omm>/g) ?? text.match(/<segment[\s>][\s\S]*?<\/segment>/g);
+    if (!blocks) {
+      throw new Error('No <omm> or <segment> elements found');
+    }
+
+    return blocks.map(block => {
+      const fields: OmmFields = {};
+      const leaf = /<([A-Za-z_]+)(?:\s[^>]*)?>([^<]*)<\/\1>/g;
+      let match: RegExpExecArray | null;
+      while ((match = leaf.exec(block)) !== null) {
+        if (match[1] !== 'COMMENT') {
+          fields[match[1].toUpperCase()] = match[2].trim();
+        }
+      }
+      return fields;
+    });
+  }
+
+  // KEY = value [units] lines; each CCSDS_OMM_VERS header starts a new element set
+  private static readOmmKvn(text: string): OmmFields[] {
+    const sets: OmmFields[] = [];
+    let fields: OmmFields | null = null;
+
+    text.split(/\r?\n/).forEach(line => {
+      const match = /^\s*([A-Z0-9_]+)\s*=\s*(.*?)\s*(\[[^\]]*\])?\s*$/.exec(line);
+      if (!match || match[1] === 'COMMENT') return;
+
+      if (match[1] === 'CCSDS_OMM_VERS') {
+        fields = {};
+        sets.push(fields);
+      }
+      if (fields) {
+        fields[match[1]] = match[2];
+      }
+    });
+
+    return sets;
+  }
+
+  private static readOmmJson(text: string): OmmFields[] {
+    const parsed: unknown = JSON.parse(text);
+    const items = Array.isArray(parsed) ? parsed : [parsed];
+
+    return items.map(item => {
+      const fields: OmmFields = {};
+      if (item && typeof item === 'object') {
+        Object.entries(item as Record<string, unknown>).forEach(([key, value]) => {
+          if (value !== null && value !== undefined) {
+            fields[key.toUpperCase()] = String(value);
+          }
+        });
+      }
+      return fields;
+    });
+  }
+
+  private static readOmmCsv(text: string): OmmFields[] {
+    const rows = text.split(/\r?\n/).filter(line => line.trim().length > 0).map(line => this.splitCsvLine(line));
+    const header = rows[0].map(column => column.trim().toUpperCase());
+
+    return rows.slice(1).map(row => {
+      const fields: OmmFields = {};
+      header.forEach((column, index) => {
+        if (row[index] !== undefined && row[index].trim().length > 0) {
+          fields[column] = row[index].trim();
+        }
+      });
+      return fields;
+    });
+  }
+
+  // Comma-separated values with optional double quotes ("" escapes a quote)
+  private static splitCsvLine(line: string): string[] {
+    const values: string[] = [];
+    let current = '';
+    let quoted = false;
+
+    for (let i = 0; i < line.length; i++) {
+      const char = line.charAt(i);
+      if (quoted) {
+        if (char === '"' && line.charAt(i + 1) === '"') {
+          current += '"';
+          i++;
+        } else if (char === '"') {
+          quoted = false;
+        } else {
+          current += char;
+        }
+      } else if (char === '"') {
+        quoted = true;
+      } else if (char === ',') {
+        values.push(current);
+        current = '';
+      } else {
+        current += char;
+      }
+    }
+    values.push(current);
+
+    return values;
+  }
+
+  private static elementsFromOmm(fields: OmmFields): OrbitalElements {
+    const missing = this.REQUIRED_OMM_FIELDS.filter(key => fields[key] === undefined);
+    if (missing.length > 0) {
+      throw new Error(`missing ${missing.join(', ')}`);
+    }
+
+    const theory = fields.MEAN_ELEMENT_THEORY;
+    if (theory !== undefined && !/^SGP4$|^SGP\/SGP4$/i.test(theory)) {
+      throw new Error(`mean element theory ${theory} is not SGP4`);
+    }
+
+    const number = (key: string, fallback?: number): number => {
+      const value = fields[key];
+      if (value === undefined && fallback !== undefined) return fallback;
+      const parsed = Number(value);
+      if (value === undefined || value.trim().length === 0 || isNaN(parsed)) {
+        throw new Error(`${key} is not a number: "${value}"`);
+      }
+      return parsed;
+    };
+
+    const noradId = TleParser.parseCatalogNumber(fields.NORAD_CAT_ID);
+    if (isNaN(noradId)) {
+      throw new Error(`NORAD_CAT_ID is malformed: "${fields.NORAD_CAT_ID}"`);
+    }
+    const { year, dayOfYear } = this.parseEpoch(fields.EPOCH);
+
+    // OMM carries the TLE field values, i.e. ṅ/2 and n̈/6, as TleParser does
+    return {
+      inclination: number('INCLINATION'),
+      raan: number('RA_OF_ASC_NODE'),
+      eccentricity: number('ECCENTRICITY'),
+      argumentOfPeriapsis: number('ARG_OF_PERICENTER'),
+      meanAnomaly: number('MEAN_ANOMALY'),
+      meanMotion: number('MEAN_MOTION'),
+      epochYear: year,
+      epochDay: dayOfYear,
+      noradId,
+      classification: fields.CLASSIFICATION_TYPE ?? 'U',
+      internationalDesignator: fields.OBJECT_ID ?? '',
+      firstDerivativeMeanMotion: number('MEAN_MOTION_DOT', 0) * 2,
+      secondDerivativeMeanMotion: number('MEAN_MOTION_DDOT', 0) * 6,
+      bstar: number('BSTAR', 0),
+      ephemerisType: number('EPHEMERIS_TYPE', 0),
+      elementSetNumber: number('ELEMENT_SET_NO', 0),
+      revolutionNumber: number('REV_AT_EPOCH', 0)
+    };
+  }
+
+  /**
+   * CCSDS epoch, calendar (YYYY-MM-DDThh:mm:ss.ffffff) or day-of-year (YYYY-DDDThh:mm:ss),
+   * as a year and fractional day of year without losing sub-millisecond digits
+   */
+  private static parseEpoch(epoch: string): { year: number; dayOfYear: number } {
+    const match = /^(\d{4})-(?:(\d{2})-(\d{2})|(\d{3}))T(\d{2}):(\d{2}):(\d{2}(?:\.\d+)?)Z?$/.exec(epoch.trim());
+    if (!match) {
+      throw new Error(`EPOCH is malformed: "${epoch}"`);
+    }
+
+    const year = parseInt(match[1], 10);
+    let day: number;
+    if (match[4] !== undefined) {
+      day = parseInt(match[4], 10);
+    } else {
+      const month = parseInt(match[2], 10) - 1;
+      const date = new Date(Date.UTC(year, month, parseInt(match[3], 10)));
+      if (date.getUTCMonth() !== month) {
+        throw new Error(`EPOCH is not a calendar date: "${epoch}"`);
+      }
+      day = (date.getTime() - Date.UTC(year, 0, 1)) / 86400000 + 1;
+    }
+    const seconds = parseInt(match[5], 10) * 3600 + parseInt(match[6], 10) * 60 + parseFloat(match[7]);
+
+    return { year, dayOfYear: day + seconds / 86400 };
+  }
+}
@@ -1,6 +1,10 @@
 import * as THREE from 'three';
 import { SatelliteManager } from './SatelliteManager';
 import { GroundStationManager } from './GroundStationManager';
+import { Earth } from './Earth';
+import { Coordinates } from '../models/Coordinates';
+import { TrafficDemand } from '../models/TrafficDemand';
+import { SimulationClock } from '../models/SimulationClock';
 
 interface DataPacket {
   id: string;
@@ -33,8 +37,12 @@ export class DataFlowManager {
   private packetCount: number = 0;
   private packetSpeed: number = 500; // km/s
   private packetLifetime: number = 30; // seconds
-  private packetGenerationRate: number = 0.5; // packets per second
+  private packetGenerationRate: number = 0.5; // packets per second at the daily mean load
   private timeSinceLastPacket: number = 0;
+  private earth: Earth | null = null;
+  private trafficDemand = new TrafficDemand();
+  private clock: SimulationClock | null = null; // wall time without one
+  private loadFactor: number = 1; // offered load relative to its daily mean when last sampled
   
   constructor(
     satelliteManager: SatelliteManager,
@@ -52,14 +60,24 @@ export class DataFlowManager {
     return this.object;
   }
   
+  public setEarth(earth: Earth): void {
+    this.earth = earth;
+  }
+  
   public setVisible(visible: boolean): void {
     this.object.visible = visible;
   }
   
+  /** Generate packets from a network's demand model at its simulated time */
+  public setTrafficDemand(demand: TrafficDemand, clock: SimulationClock | null = null): void {
+    this.trafficDemand = demand;
+    this.clock = clock;
+  }
+  
   public update(deltaTime: number): void {
     // Generate new packets
     this.timeSinceLastPacket += deltaTime;
-    if (this.timeSinceLastPacket > 1 / this.packetGenerationRate) {
+    if (this.timeSinceLastPacket > 1 / (this.packetGenerationRate * this.loadFactor)) {
       this.generateRandomPacket();
       this.timeSinceLastPacket = 0;
     }
@@ -105,33 +123,46 @@ export class DataFlowManager {
     
     if (groundStations.length === 0 || satellites.size === 0) return;
     
-    // Randomly decide if this is ground-to-satellite or satellite-to-ground
-    const isUplink = Math.random() > 0.5;
+    // Pick source and destination by the offered load between ground stations and the internet
+    const time = this.clock ? this.clock.getTime() : Date.now();
+    const matrix = this.trafficDemand.getTrafficMatrix(time, groundStations);
+    this.loadFactor = matrix.total > 0 ? matrix.total / matrix.baseline : 1;
+    const entry = TrafficDemand.sampleEntry(matrix);
+    if (!entry) return;
     
     let source, destination;
     
-    if (isUplink) {
-      // Ground to satellite (uplink)
+    if (entry.source === 'internet') {
+      // Internet to ground, delivered by a satellite (downlink)
+      const satelliteArray = Array.from(satellites.values());
+      const destGroundStation = groundStations.find(groundStation => groundStation.id === entry.destination)!;
       source = {
-        type: 'groundStation' as const,
-        id: groundStations[Math.floor(Math.random() * groundStations.length)].id,
+        type: 'satellite' as const,
+        id: satelliteArray[Math.floor(Math.random() * satelliteArray.length)].id,
       };
       
-      // Destination is either another ground station or the internet
-      const isInternet = Math.random() > 0.3;
+      destination = {
+        type: 'groundStation' as const,
+        id: destGroundStation.id,
+        position: {
+          latitude: destGroundStation.position.latitude,
+          longitude: destGroundStation.position.longitude,
+        },
+      };
+    } else {
+      // Ground to satellite (uplink), bound for the internet or another ground station
+      source = {
+        type: 'groundStation' as const,
+        id: entry.source,
+      };
       
-      if (isInternet) {
+      if (entry.destination === 'internet') {
         destination = {
           type: 'internet' as const,
           id: 'internet',
         };
       } else {
-        // Choose a different ground station
-        let destGroundStation;
-        do {
-          destGroundStation = groundStations[Math.floor(Math.random() * groundStations.length)];
-        } while (destGroundStation.id === source.id);
-        
+        const destGroundStation = groundStations.find(groundStation => groundStation.id === entry.destination)!;
         destination = {
           type: 'groundStation' as const,
           id: destGroundStation.id,
@@ -141,22 +172,6 @@ export class DataFlowManager {
           },
         };
       }
-    } else {
-      // Satellite to ground (downlink)
-      const satelliteArray = Array.from(satellites.values());
-      source = {
-        type: 'satellite' as const,
-        id: satelliteArray[Math.floor(Math.random() * satelliteArray.length)].id,
-      };
-      
-      destination = {
-        type: 'groundStation' as const,
-        id: groundStations[Math.floor(Math.random() * groundStations.length)].id,
-        position: {
-          latitude: groundStations[Math.floor(Math.random() * groundStations.length)].position.latitude,
-          longitude: groundStations[Math.floor(Math.random() * groundStations.length)].position.longitude,
-        },
-      };
     }
     
     // Create packet
@@ -392,17 +407,10 @@ export class DataFlowManager {
       currentSatellite.connections.satellites.forEach(connectedSatelliteId => {
         const connectedSatellite = this.satelliteManager.getSatellite(connectedSatelliteId);
         if (connectedSatellite) {
-          // Calculate distance to destination (simplified)
-          const destLat = destination.position!.latitude * (Math.PI / 180);
-          const destLon = destination.position!.longitude * (Math.PI / 180);
-          
-          // Convert destination lat/lon to 3D position (simplified)
-          const earthRadius = 6371; // km
-          const x = earthRadius * Math.cos(destLat) * Math.cos(destLon);
-          const y = earthRadius * Math.cos(destLat) * Math.sin(destLon);
-          const z = earthRadius * Math.sin(destLat);
-          
-          const destPosition = new THREE.Vector3(x, z, y); // Swap y and z for Three.js
+          // Destination on the rotating Earth, in the inertial scene frame
+          const destEcef = Coordinates.geodeticToEcef({ ...destination.position!, altitude: 0 });
+          const dest = Coordinates.ecefToScene(destEcef, this.earth ? this.earth.getRotation() : 0);
+          const destPosition = new THREE.Vector3(dest.x, dest.y, dest.z);
           
           const distance = connectedSatellite.position.distanceTo(destPosition);
           if (distance < shortestDistance) {
@@ -3,6 +3,8 @@ import { DeniedRegion } from './DeniedRegion';
 import { NetworkRoutingPathfinding } from './NetworkRoutingPathfinding';
 import { NetworkRoutingVisualizer } from './NetworkRoutingVisualizer';
 import { Satellite } from '../types/Satellite';
+import { SatelliteNetwork } from '../models/SatelliteNetwork';
+import { TrafficDemand } from '../models/TrafficDemand';
 
 // Node types for the network
 interface NetworkNode {
@@ -30,11 +32,6 @@ interface NetworkEdge {
     regionName?: string;
   };
   active: boolean;
-  predictiveData?: {
-    availableAt: number; // timestamp
-    unavailableAt: number; // timestamp
-    reason?: string;
-  };
 }
 
 // Network path
@@ -86,6 +83,11 @@ export class DynamicRoutingController {
   // Clock for time-based updates
   private clock: THREE.Clock;
   
+  // Source of the contact plan that predicted paths are routed over
+  private satelliteNetwork: SatelliteNetwork | null = null;
+  // Used until a network supplies its own demand model
+  private trafficDemand = new TrafficDemand();
+  
   constructor(earthRadius: number) {
     this.object = new THREE.Group();
     this.deniedRegions = new DeniedRegion(earthRadius);
@@ -120,6 +122,11 @@ export class DynamicRoutingController {
     return this.object;
   }
   
+  // Predicted paths follow the network's contact plan while it routes over contacts
+  public setSatelliteNetwork(network: SatelliteNetwork | null): void {
+    this.satelliteNetwork = network;
+  }
+  
   // Initialize the simulation with denied regions
   public initialize(deniedRegionNames: string[]): void {
     // Add specified denied regions
@@ -565,8 +572,9 @@ export class DynamicRoutingController {
   
   // Calculate and update predicted paths - significantly optimized
   private updatePredictedPaths(): void {
-    // Skip if predictive routing is disabled
+    // Skip if predictive routing is disabled or there is no contact plan to predict from
     if (!this.trafficParams.enablePredictiveRouting) return;
+    if (!this.satelliteNetwork || this.satelliteNetwork.getRoutingMode() !== 'contact-graph') return;
     
     // Skip most updates to dramatically improve performance
     if (Math.random() < 0.8) return;
@@ -593,7 +601,9 @@ export class DynamicRoutingController {
     
     // Calculate predicted paths at different time offsets (reduced for performance)
     const predictedPaths = NetworkRoutingPathfinding.calculatePredictivePaths(
-      sourceId, destId, this.nodes, this.edges, [60] // Only predict 60 seconds ahead for performance
+      sourceId, destId, this.nodes, this.edges,
+      this.satelliteNetwork.getContactRouter(), this.satelliteNetwork.getClock().getTime(),
+      [60] // Only predict 60 seconds ahead for performance
     );
     
     // Only store and visualize the first predicted path
@@ -622,7 +632,7 @@ export class DynamicRoutingController {
     return true;
   }
   
-  // Simulate traffic between ground stations
+  // Simulate traffic between ground stations, picking pairs by the offered load between them
   public simulateTraffic(): void {
     // Get active ground stations (not in denied regions)
     const activeGroundStations = Array.from(this.nodes.values())
@@ -630,15 +640,18 @@ export class DynamicRoutingController {
     
     if (activeGroundStations.length < 2) return;
     
-    // Generate random source and destination ground stations
-    const sourceIndex = Math.floor(Math.random() * activeGroundStations.length);
-    let destIndex;
-    do {
-      destIndex = Math.floor(Math.random() * activeGroundStations.length);
-    } while (destIndex === sourceIndex);
+    const demand = this.satelliteNetwork?.getTrafficDemand() ?? this.trafficDemand;
+    const time = this.satelliteNetwork?.getClock().getTime() ?? Date.now();
+    const matrix = demand.getTrafficMatrix(time, activeGroundStations.map(node => ({
+      id: node.id,
+      position: { latitude: node.lat ?? 0, longitude: node.lon ?? 0 }
+    })), 0);
+    
+    const entry = TrafficDemand.sampleEntry(matrix);
+    if (!entry) return;
     
-    const sourceGs = activeGroundStations[sourceIndex];
-    const destGs = activeGroundStations[destIndex];
+    const sourceGs = this.nodes.get(entry.source)!;
+    const destGs = this.nodes.get(entry.destination)!;
     
     // Find or create path between these ground stations
     const pathId = `${sourceGs.id}-to-${destGs.id}`;
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { SimulationClock } from '../models/SimulationClock';
+import { Coordinates, Geodetic } from '../models/Coordinates';
 
 export class Earth {
   private earthMesh: THREE.Mesh;
@@ -7,6 +9,9 @@ export class Earth {
   private earthRotationSpeed: number = 0.0002; // Reduced to avoid glitchiness
   private cloudsRotationSpeed: number = 0.0007; // Reduced to avoid glitchiness
   private lastTime: number = 0; // Keep track of last update time
+  private simulationClock: SimulationClock | null = null;
+  private cloudsDriftRate: number = 2e-5; // rad per simulated second, clouds relative to the surface
+  private cloudsDrift: number = 0;
   private satelliteDataLoaded: boolean = false;
   private actualSatellitePositions: Array<{id: string, position: THREE.Vector3}> = [];
 
@@ -130,7 +135,24 @@ export class Earth {
     return group;
   }
   
+  /**
+   * Rotate the Earth by GMST from the shared simulation clock so the surface stays
+   * aligned with the inertial frame satellites are propagated in.
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (clock) {
+      this.applyRotation(clock.getGmst());
+    }
+  }
+
   public update(deltaTime: number): void {
+    if (this.simulationClock) {
+      this.cloudsDrift = (this.cloudsDrift + this.cloudsDriftRate * deltaTime) % (2 * Math.PI);
+      this.applyRotation(this.simulationClock.getGmst());
+      return;
+    }
+    
     const currentTime = Date.now();
     if (this.lastTime === 0) {
       this.lastTime = currentTime;
@@ -162,7 +184,17 @@ export class Earth {
     }
   }
 
-  // Convert latitude and longitude to 3D position
+  private applyRotation(angle: number): void {
+    this.earthMesh.rotation.y = angle;
+    this.cloudsMesh.rotation.y = angle + this.cloudsDrift;
+  }
+  
+  // Current Earth rotation angle about +Y (GMST when driven by the simulation clock)
+  public getRotation(): number {
+    return this.earthMesh.rotation.y;
+  }
+  
+  // Convert latitude and longitude to 3D position in the Earth-fixed frame (mesh local space)
   public latLongToVector3(latitude: number, longitude: number, altitude: number = 0): THREE.Vector3 {
     // Convert latitude and longitude from degrees to radians
     const phi = (90 - latitude) * (Math.PI / 180);
@@ -176,6 +208,17 @@ export class Earth {
     return new THREE.Vector3(x, y, z);
   }
   
+  // Convert latitude and longitude to a scene position on the rotated Earth
+  public latLongToWorld(latitude: number, longitude: number, altitude: number = 0): THREE.Vector3 {
+    return this.latLongToVector3(latitude, longitude, altitude)
+      .applyAxisAngle(new THREE.Vector3(0, 1, 0), this.getRotation());
+  }
+  
+  // Geodetic (WGS84) sub-point and altitude of an inertial scene position
+  public worldToLatLong(position: THREE.Vector3): Geodetic {
+    return Coordinates.ecefToGeodetic(Coordinates.sceneToEcef(position, this.getRotation()));
+  }
+  
   // Load actual satellite positions from NOAA light obstruction mask data
   private loadActualSatellitePositions(): void {
     // In a real implementation, this would fetch data from NOAA's API
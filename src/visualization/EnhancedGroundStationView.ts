@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { SimulationClock } from '../models/SimulationClock';
 import { TerrainSystem, TerrainConfig } from './TerrainSystem';
 import { FirstPersonControls, FirstPersonConfig } from './FirstPersonControls';
 import { GroundStationInfrastructure, InfrastructureConfig, AntennaConfig } from './GroundStationInfrastructure';
@@ -25,6 +26,7 @@ export class EnhancedGroundStationView {
   private firstPersonControls: FirstPersonControls | null = null;
   private infrastructure: GroundStationInfrastructure | null = null;
   private lighting: TimeOfDayLighting | null = null;
+  private simulationClock: SimulationClock | null = null;
   
   // Environment
   private environmentGroup: THREE.Group;
@@ -172,7 +174,7 @@ export class EnhancedGroundStationView {
       longitude: this.groundStation.position.longitude,
       elevation: 0,
       timeZone: this.getTimezoneFromCoordinates(this.groundStation.position),
-      date: new Date(),
+      date: this.simulationClock ? this.simulationClock.getDate() : new Date(),
       timeScale: this.config.timeScale,
       atmospheric: {
         turbidity: 2.0,
@@ -184,6 +186,7 @@ export class EnhancedGroundStationView {
     };
     
     this.lighting = new TimeOfDayLighting(this.scene, lightingConfig, this.renderer);
+    this.lighting.setSimulationClock(this.simulationClock);
     
     console.log('✅ Lighting system configured');
   }
@@ -483,6 +486,13 @@ export class EnhancedGroundStationView {
   }
 
   // Control methods for external integration
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (this.lighting) {
+      this.lighting.setSimulationClock(clock);
+    }
+  }
+
   public setTimeScale(scale: number): void {
     this.config.timeScale = scale;
     if (this.lighting) {
@@ -18,6 +18,7 @@ export interface SatelliteData {
   albedo: number;
   solarPanelArea: number;
   visible?: boolean;
+  sunlitFraction?: number; // 0-1, visible fraction of the solar disk (Earth shadow)
 }
 
 export interface SatelliteMagnitude {
@@ -199,7 +200,9 @@ export class EnhancedSatelliteSystem {
     const phaseAngle = Math.acos(Math.max(-1, Math.min(1, sunVector.dot(observerVector))));
     
     // Phase function (simplified)
-    const phaseFunction = (1 + Math.cos(phaseAngle)) / 2;
+    // Earth's shadow dims the satellite by the fraction of the solar disk it cannot see
+    const sunlitFraction = satellite.sunlitFraction ?? 1;
+    const phaseFunction = (1 + Math.cos(phaseAngle)) / 2 * sunlitFraction;
     const illuminatedFraction = phaseFunction;
     
     // Standard magnitude calculation
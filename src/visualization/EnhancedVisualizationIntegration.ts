@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { SimulationClock } from '../models/SimulationClock';
 import { PBRMaterialSystem } from './PBRMaterialSystem';
 import { AtmosphericEffectsSystem } from './AtmosphericEffectsSystem';
 import { DynamicLightingSystem } from './DynamicLightingSystem';
@@ -718,6 +719,10 @@ export class EnhancedVisualizationIntegration {
     return this.isActive;
   }
 
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.satelliteOverlaySystem.setSimulationClock(clock);
+  }
+
   public setConfiguration(config: Partial<EnhancedWalkableConfig>): void {
     Object.assign(this.config, config);
     
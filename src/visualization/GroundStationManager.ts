@@ -1,6 +1,7 @@
 import * as THREE from 'three';
 import { Earth } from './Earth';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { STARLINK_GROUND_STATIONS } from '../data/StarlinkGroundStations';
 
 interface GroundStation {
   id: string;
@@ -119,7 +120,17 @@ export class GroundStationManager {
       { id: 'gs_9', name: 'Africa', latitude: -33.9249, longitude: 18.4241 },           // Cape Town
     ];
     
-    stationLocations.forEach(({ id, name, latitude, longitude }) => {
+    // Surveyed gateways the network also runs, alongside the regional stations
+    const surveyedLocations = STARLINK_GROUND_STATIONS.map(site => ({
+      id: site.id,
+      name: site.name,
+      latitude: site.latitude,
+      longitude: site.longitude,
+      status: site.operationalStatus === 'active' ? 'operational'
+        : site.operationalStatus === 'construction' ? 'degraded' : 'offline',
+    }));
+    
+    [...surveyedLocations, ...stationLocations.map(location => ({ ...location, status: 'operational' }))].forEach(({ id, latitude, longitude, status }) => {
       // Create ground station object
       const groundStation: GroundStation = {
         id,
@@ -133,7 +144,7 @@ export class GroundStationManager {
         coverage: {
           radius: 1000, // km
         },
-        status: 'operational',
+        status,
       };
       
       // Create ground station mesh
@@ -187,7 +198,7 @@ export class GroundStationManager {
       const mesh = this.groundStationMeshes.get(id);
       if (mesh) {
         // Calculate position on Earth's surface
-        const position = this.earth!.latLongToVector3(
+        const position = this.earth!.latLongToWorld(
           groundStation.position.latitude,
           groundStation.position.longitude,
           10 // Slight elevation above surface
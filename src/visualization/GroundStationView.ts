@@ -2,6 +2,7 @@ import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
 import { Earth } from './Earth';
 import { GroundStationData } from '../models/GroundStationNetwork';
+import { Coordinates, Geodetic } from '../models/Coordinates';
 
 // Constants for coordinate system calculations
 const J2000_EPOCH = new Date('2000-01-01T12:00:00Z');
@@ -72,8 +73,8 @@ export class GroundStationView {
       const material = new THREE.MeshBasicMaterial({ color: dir.color });
       const marker = new THREE.Mesh(geometry, material);
       
-      // Position at edge of horizon
-      marker.position.x = Math.sin(dir.angle) * radius;
+      // Position at edge of horizon (east is local -x)
+      marker.position.x = -Math.sin(dir.angle) * radius;
       marker.position.z = Math.cos(dir.angle) * radius;
       marker.position.y = height / 2;
       
@@ -99,7 +100,7 @@ export class GroundStationView {
       const sprite = new THREE.Sprite(spriteMaterial);
       sprite.scale.set(500, 500, 1);
       sprite.position.set(
-        Math.sin(dir.angle) * (radius - 100),
+        -Math.sin(dir.angle) * (radius - 100),
         height + 400,
         Math.cos(dir.angle) * (radius - 100)
       );
@@ -156,20 +157,15 @@ export class GroundStationView {
     // Position camera at eye level above ground station (2m height)
     const stationPosition = this.earth.latLongToVector3(latitude, longitude, 2);
     
+    // Local east/north/up axes in the Earth-fixed scene frame
+    const { east, north, up } = this.getLocalAxes();
+    
     if (camera && controls) {
-      // Calculate up vector (radial from center of Earth)
-      const up = stationPosition.clone().normalize();
-      
       // Position camera at the ground station eye level
       camera.position.copy(stationPosition);
       
-      // Calculate proper local coordinate system
-      const northPole = new THREE.Vector3(0, 1, 0);
-      const east = new THREE.Vector3().crossVectors(up, northPole).normalize();
-      const north = new THREE.Vector3().crossVectors(east, up).normalize();
-      
       // Set camera to look toward the horizon at 0 degrees elevation (straight ahead)
-      const lookAtPoint = stationPosition.clone().add(north.multiplyScalar(10000));
+      const lookAtPoint = stationPosition.clone().add(north.clone().multiplyScalar(10000));
       
       // Set proper camera orientation
       camera.up.copy(up);
@@ -191,22 +187,20 @@ export class GroundStationView {
     this.skyDome.position.copy(stationPosition);
     this.compass.position.copy(stationPosition);
     
-    // Orient horizon plane perpendicular to the radial vector
-    const up = stationPosition.clone().normalize();
-    const northPole = new THREE.Vector3(0, 1, 0);
-    const east = new THREE.Vector3().crossVectors(up, northPole).normalize();
-    const north = new THREE.Vector3().crossVectors(east, up).normalize();
+    // Orient horizon plane perpendicular to the local vertical. Local +x points west so the
+    // basis stays right-handed with +y up and +z north
+    const west = east.clone().negate();
     
     this.horizonMesh.quaternion.setFromRotationMatrix(
-      new THREE.Matrix4().makeBasis(east, up, north)
+      new THREE.Matrix4().makeBasis(west, up, north)
     );
     
     this.skyDome.quaternion.setFromRotationMatrix(
-      new THREE.Matrix4().makeBasis(east, up, north)
+      new THREE.Matrix4().makeBasis(west, up, north)
     );
     
     this.compass.quaternion.setFromRotationMatrix(
-      new THREE.Matrix4().makeBasis(east, up, north)
+      new THREE.Matrix4().makeBasis(west, up, north)
     );
   }
   
@@ -219,19 +213,22 @@ export class GroundStationView {
     // Get ground station position at eye level
     const { latitude, longitude } = this.groundStation.position;
     const stationPosition = this.earth.latLongToVector3(latitude, longitude, 2);
+    const observer = this.getObserver();
+    const { east, north, up } = this.getLocalAxes();
+    const earthRotation = this.earth.getRotation();
     
     // Update or create labels for satellites
     satellitePositions.forEach(sat => {
-      // Convert from ECI to station-relative position for visualization
-      const relativePos = this.eciToLocalHorizon(sat.position, stationPosition);
+      // Satellites are in the inertial scene frame; the view is Earth-fixed
+      const look = Coordinates.lookAngles(observer, Coordinates.sceneToEcef(sat.position, earthRotation));
       
       // Check if satellite is above horizon (elevation > 5 degrees for realistic view)
-      const elevation = this.calculateElevation(relativePos);
-      const azimuth = this.calculateAzimuth(relativePos);
+      const elevation = look.elevation * (Math.PI / 180);
+      const azimuth = look.azimuth * (Math.PI / 180);
       
       // Enhanced visibility check accounting for RF obstructions and antenna constraints
       const minElevation = 5 * (Math.PI / 180); // 5 degrees minimum for most dishes
-      const isVisible = this.checkSatelliteVisibility(elevation, azimuth, relativePos);
+      const isVisible = this.checkSatelliteVisibility(elevation, azimuth);
       
       if (elevation > minElevation && isVisible) {
         let sprite = this.satLabels.get(sat.id);
@@ -244,20 +241,20 @@ export class GroundStationView {
         
         // Position satellite realistically in the atmosphere/space
         // Use actual distance for very close satellites, but clamp for visual purposes
-        const actualDistance = relativePos.length();
+        const actualDistance = look.range;
         const visualDistance = Math.min(actualDistance, 42000); // Clamp to sky dome size
         
         // Calculate position on sky dome or at actual distance if closer
-        const satPosInSky = new THREE.Vector3(
-          Math.sin(azimuth) * Math.cos(elevation) * visualDistance,
-          Math.sin(elevation) * visualDistance,
-          Math.cos(azimuth) * Math.cos(elevation) * visualDistance
-        );
+        const satPosInSky = new THREE.Vector3()
+          .addScaledVector(east, Math.sin(azimuth) * Math.cos(elevation))
+          .addScaledVector(north, Math.cos(azimuth) * Math.cos(elevation))
+          .addScaledVector(up, Math.sin(elevation))
+          .multiplyScalar(visualDistance);
         
         sprite.position.copy(stationPosition.clone().add(satPosInSky));
         
         // Scale satellite based on distance and elevation for realism
-        const distance = relativePos.length();
+        const distance = look.range;
         const scaleFactor = Math.max(0.5, Math.min(2.0, 1000000 / distance));
         sprite.scale.set(scaleFactor * 500, scaleFactor * 500, 1);
         
@@ -276,7 +273,7 @@ export class GroundStationView {
   }
   
   // Check satellite visibility accounting for RF obstructions and antenna constraints
-  private checkSatelliteVisibility(elevation: number, azimuth: number, relativePos: THREE.Vector3): boolean {
+  private checkSatelliteVisibility(elevation: number, azimuth: number): boolean {
     // Simulate RF view mask obstructions (trees, buildings, fences, etc.)
     // In reality this would come from site survey data and FCC compliance database
     
@@ -429,36 +426,25 @@ export class GroundStationView {
     return sprite;
   }
   
-  // Convert ECI (Earth-Centered Inertial) coordinates to local horizon coordinates
-  private eciToLocalHorizon(eciPos: THREE.Vector3, stationPos: THREE.Vector3): THREE.Vector3 {
-    // Calculate relative vector from station to satellite
-    const relativeVector = new THREE.Vector3().subVectors(eciPos, stationPos);
-    
-    // Get station position unit vector (up direction)
-    const up = stationPos.clone().normalize();
-    
-    // Calculate east and north directions for the station
-    const northPole = new THREE.Vector3(0, 1, 0);
-    const east = new THREE.Vector3().crossVectors(up, northPole).normalize();
-    const north = new THREE.Vector3().crossVectors(east, up).normalize();
-    
-    // Project the relative vector onto the local coordinate system
-    const localX = relativeVector.dot(east);    // East component
-    const localY = relativeVector.dot(up);      // Up component
-    const localZ = relativeVector.dot(north);   // North component
-    
-    return new THREE.Vector3(localX, localY, localZ);
-  }
-  
-  // Calculate elevation angle from local horizon coordinates
-  private calculateElevation(localPos: THREE.Vector3): number {
-    const horizontalDist = Math.sqrt(localPos.x * localPos.x + localPos.z * localPos.z);
-    return Math.atan2(localPos.y, horizontalDist);
+  // Observer location for look-angle calculations
+  private getObserver(): Geodetic {
+    const { latitude, longitude } = this.groundStation!.position;
+    return { latitude, longitude, altitude: 0.002 }; // 2 m eye level
   }
   
-  // Calculate azimuth angle from local horizon coordinates (0=North, PI/2=East)
-  private calculateAzimuth(localPos: THREE.Vector3): number {
-    return Math.atan2(localPos.x, localPos.z);
+  // WGS84 east/north/up unit vectors at the station, in Earth-fixed scene axes
+  private getLocalAxes(): { east: THREE.Vector3; north: THREE.Vector3; up: THREE.Vector3 } {
+    const observer = this.getObserver();
+    const toScene = (east: number, north: number, up: number): THREE.Vector3 => {
+      const axis = Coordinates.toSceneAxes(Coordinates.enuToEcefVector({ east, north, up }, observer));
+      return new THREE.Vector3(axis.x, axis.y, axis.z);
+    };
+    
+    return {
+      east: toScene(1, 0, 0),
+      north: toScene(0, 1, 0),
+      up: toScene(0, 0, 1)
+    };
   }
   
   private showFirstPersonView(): void {
@@ -28,11 +28,6 @@ interface NetworkEdge {
     regionName?: string;
   };
   active: boolean;
-  predictiveData?: {
-    availableAt: number; // timestamp
-    unavailableAt: number; // timestamp
-    reason?: string;
-  };
 }
 
 // Data packet for visualization
@@ -248,8 +243,7 @@ export class NetworkRouting {
       delay: delayMs,
       bandwidth: bandwidth || 100, // Default bandwidth
       crossing,
-      active,
-      predictiveData: this.calculatePredictiveData(fromNode, toNode)
+      active
     };
     
     // Update the edge or add a new one
@@ -267,18 +261,6 @@ export class NetworkRouting {
     // this.invalidateRouteCacheForNodes([fromId, toId]);
   }
   
-  // Calculate predictive data for when an edge will be available/unavailable
-  private calculatePredictiveData(fromNode: NetworkNode, toNode: NetworkNode): {
-    availableAt: number;
-    unavailableAt: number;
-    reason?: string;
-  } | undefined {
-    // For now, just return undefined (no prediction)
-    // In a full implementation, this would use orbital mechanics to predict
-    // when satellites will move in/out of denied regions or line of sight
-    return undefined;
-  }
-  
   // Update all edges connected to a node (after node position change)
   private updateEdgesForNode(nodeId: string): void {
     const node = this.nodes.get(nodeId);
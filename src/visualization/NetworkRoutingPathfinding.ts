@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { ContactGraphRouter } from '../models/ContactGraphRouter';
 
 // Interface imports (these would normally be in a shared types file)
 interface NetworkNode {
@@ -25,11 +26,6 @@ interface NetworkEdge {
     regionName?: string;
   };
   active: boolean;
-  predictiveData?: {
-    availableAt: number; // timestamp
-    unavailableAt: number; // timestamp
-    reason?: string;
-  };
 }
 
 interface NetworkPath {
@@ -52,8 +48,7 @@ export class NetworkRoutingPathfinding {
     nodes: Map<string, NetworkNode>,
     edges: Map<string, NetworkEdge>,
     optimizeFor: 'delay' | 'distance' = 'delay',
-    avoidDeniedRegions: boolean = true,
-    timeOffset: number = 0 // seconds in the future for prediction
+    avoidDeniedRegions: boolean = true
   ): NetworkPath | null {
     // Priority queue for Dijkstra's algorithm
     const queue: { nodeId: string, priority: number }[] = [];
@@ -101,18 +96,6 @@ export class NetworkRoutingPathfinding {
         // If the edge crosses a denied region and we want to avoid them, skip
         if (avoidDeniedRegions && edge.crossing?.isDeniedRegion) continue;
         
-        // Check if the edge will be available at the future time
-        if (timeOffset > 0 && edge.predictiveData) {
-          const currentTime = Date.now();
-          const futureTime = currentTime + (timeOffset * 1000);
-          
-          // Skip if edge will be unavailable at future time
-          if (edge.predictiveData.unavailableAt < futureTime && 
-              edge.predictiveData.availableAt > futureTime) {
-            continue;
-          }
-        }
-        
         // Determine weight based on optimization preference
         const weight = optimizeFor === 'delay' ? edge.delay : edge.distance;
         
@@ -205,7 +188,7 @@ export class NetworkRoutingPathfinding {
   ): NetworkPath[] {
     // Find shortest path first
     const shortestPath = this.findShortestPath(
-      sourceId, destinationId, nodes, edges, 'delay', true, 0
+      sourceId, destinationId, nodes, edges, 'delay', true
     );
     
     if (!shortestPath) return [];
@@ -215,7 +198,7 @@ export class NetworkRoutingPathfinding {
     // Find alternative path that avoids denied regions
     if (shortestPath.crossesDeniedRegion) {
       const safePath = this.findShortestPath(
-        sourceId, destinationId, nodes, edges, 'delay', true, 0
+        sourceId, destinationId, nodes, edges, 'delay', true
       );
       
       if (safePath && safePath.id !== shortestPath.id) {
@@ -225,46 +208,59 @@ export class NetworkRoutingPathfinding {
     
     // Find path optimized for distance instead of delay
     const distancePath = this.findShortestPath(
-      sourceId, destinationId, nodes, edges, 'distance', false, 0
+      sourceId, destinationId, nodes, edges, 'distance', false
     );
     
     if (distancePath && !paths.some(p => p.id === distancePath.id)) {
       paths.push(distancePath);
     }
     
-    // Find future path (prediction)
-    const futurePath = this.findShortestPath(
-      sourceId, destinationId, nodes, edges, 'delay', true, 300 // 5 min in future
-    );
-    
-    if (futurePath && !paths.some(p => p.id === futurePath.id)) {
-      futurePath.id = `future-${futurePath.id}`;
-      paths.push(futurePath);
-    }
-    
     // Return paths, limited to max number
     return paths.slice(0, maxPaths);
   }
   
-  // Calculate predicted paths based on future satellite positions
+  // Earliest-arrival paths over the predicted contact plan for data sent at each offset
+  // (seconds) from startTime (ms); total delay includes waiting for contacts to open
   public static calculatePredictivePaths(
     sourceId: string,
     destinationId: string,
     nodes: Map<string, NetworkNode>,
     edges: Map<string, NetworkEdge>,
+    router: ContactGraphRouter,
+    startTime: number,
     timeOffsets: number[] = [60, 120, 180, 240, 300] // 1-5 minutes ahead
   ): NetworkPath[] {
     const predictivePaths: NetworkPath[] = [];
     
     for (const timeOffset of timeOffsets) {
-      const path = this.findShortestPath(
-        sourceId, destinationId, nodes, edges, 'delay', true, timeOffset
-      );
+      const route = router.findRoute(sourceId, destinationId, startTime + timeOffset * 1000);
+      if (!route) continue;
       
-      if (path) {
-        path.id = `predict-${timeOffset}-${path.id}`;
-        predictivePaths.push(path);
-      }
+      // Links that do not exist yet are described by their contact
+      const pathEdges: NetworkEdge[] = route.hops.map(({ contact }) => edges.get(`${contact.from}-${contact.to}`) ?? {
+        from: contact.from,
+        to: contact.to,
+        type: contact.type === 'isl' ? 'satellite-to-satellite' : 'satellite-to-ground',
+        distance: contact.range,
+        delay: contact.owlt * 1000,
+        bandwidth: contact.rate,
+        active: false
+      });
+      const deniedRegions = Array.from(new Set(pathEdges
+        .filter(edge => edge.crossing?.isDeniedRegion && edge.crossing.regionName)
+        .map(edge => edge.crossing!.regionName!)));
+      const pathNodes = [sourceId, ...route.hops.map(({ contact }) => contact.to)];
+      
+      predictivePaths.push({
+        id: `predict-${timeOffset}-${sourceId}-to-${destinationId}`,
+        nodes: pathNodes,
+        edges: pathEdges,
+        totalDelay: route.latency * 1000,
+        totalDistance: pathEdges.reduce((sum, edge) => sum + edge.distance, 0),
+        crossesDeniedRegion: deniedRegions.length > 0 || pathNodes.some(id => nodes.get(id)?.isInDeniedRegion),
+        deniedRegions,
+        isActive: pathEdges.every(edge => edge.active)
+      });
     }
     
     return predictivePaths;
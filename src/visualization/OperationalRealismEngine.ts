@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { Coordinates } from '../models/Coordinates';
+import { SimulationClock } from '../models/SimulationClock';
 import { RFOcclusionEngine, AntennaViewMask } from './RFOcclusionEngine';
 import { RegulationEngine, RegulationCompliance } from './RegulationEngine';
 import { AntennaGainProfiles, AntennaConfiguration, LinkBudgetCalculation } from './AntennaGainProfiles';
@@ -76,8 +78,9 @@ export class OperationalRealismEngine {
   private activeScenario: OperationalScenario | null = null;
   private systemMetrics: SystemPerformanceMetrics;
   private isRunning: boolean = false;
-  private lastUpdateTime: number = 0;
+  private lastUpdateTime: number = 0; // wall-clock ms, throttles the update rate only
   private updateFrequency: number = 10; // Hz
+  private simulationClock: SimulationClock | null = null;
   
   // Performance monitoring
   private performanceHistory: SystemPerformanceMetrics[] = [];
@@ -112,9 +115,21 @@ export class OperationalRealismEngine {
     console.log('OperationalRealismEngine initialized with all subsystems');
   }
 
+  /**
+   * Timestamp metrics and compliance checks with the shared simulation clock
+   * instead of wall-clock time.
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+  }
+
+  private getSimulationTime(): number {
+    return this.simulationClock ? this.simulationClock.getTime() : Date.now();
+  }
+
   private initializeMetrics(): SystemPerformanceMetrics {
     return {
-      timestamp: Date.now(),
+      timestamp: this.getSimulationTime(),
       totalActiveLinks: 0,
       averageLinkMargin: 0,
       averageDataRate: 0,
@@ -329,9 +344,7 @@ export class OperationalRealismEngine {
     }
     
     // Calculate required pointing angles
-    const direction = satellite.position.clone().sub(antennaPosition).normalize();
-    const azimuth = Math.atan2(direction.x, direction.z) * 180 / Math.PI;
-    const elevation = Math.asin(direction.y) * 180 / Math.PI;
+    const { azimuth, elevation } = Coordinates.sceneLookAngles(antennaPosition, satellite.position, 1000);
     
     // Check regulatory compliance
     const compliance = this.regulation.checkCompliance(
@@ -341,7 +354,8 @@ export class OperationalRealismEngine {
       frequencyBand,
       elevation,
       azimuth,
-      satellite.linkBudget.receivedPower + 30 // Convert to EIRP estimate
+      satellite.linkBudget.receivedPower + 30, // Convert to EIRP estimate
+      new Date(this.getSimulationTime())
     );
     
     if (!compliance.isCompliant) {
@@ -386,9 +400,7 @@ export class OperationalRealismEngine {
     const antennaPosition = this.getAntennaPosition(antennaId);
     if (!antennaPosition) return;
     
-    const direction = toSatellite.position.clone().sub(antennaPosition).normalize();
-    const azimuth = Math.atan2(direction.x, direction.z) * 180 / Math.PI;
-    const elevation = Math.asin(direction.y) * 180 / Math.PI;
+    const { azimuth, elevation } = Coordinates.sceneLookAngles(antennaPosition, toSatellite.position, 1000);
     
     const handoffId = this.antennaSlewing.initiateHandoff(
       antennaId,
@@ -491,7 +503,7 @@ export class OperationalRealismEngine {
   }
 
   private updateSystemMetrics(): void {
-    const currentTime = Date.now();
+    const currentTime = this.getSimulationTime();
     const activeLinks = this.activeLinkBudgets.size;
     
     let totalLinkMargin = 0;
@@ -583,16 +595,11 @@ export class OperationalRealismEngine {
   }
 
   private calculateAntennaPosition(gsPosition: { latitude: number; longitude: number }): THREE.Vector3 {
-    // Convert lat/lon to 3D position
-    const earthRadius = 6371000; // meters
-    const lat = gsPosition.latitude * Math.PI / 180;
-    const lon = gsPosition.longitude * Math.PI / 180;
-    
-    return new THREE.Vector3(
-      earthRadius * Math.cos(lat) * Math.sin(lon),
-      earthRadius * Math.sin(lat),
-      earthRadius * Math.cos(lat) * Math.cos(lon)
-    );
+    // WGS84 position in Earth-fixed scene axes, metres
+    const ecef = Coordinates.geodeticToEcef({ ...gsPosition, altitude: 0 });
+    const scene = Coordinates.toSceneAxes(ecef);
+    
+    return new THREE.Vector3(scene.x, scene.y, scene.z).multiplyScalar(1000);
   }
 
   private getSatellitePosition(satelliteId: string): THREE.Vector3 | null {
@@ -625,7 +632,7 @@ export class OperationalRealismEngine {
   public exportScenarioReport(): string {
     const report = {
       scenario: this.activeScenario?.name,
-      duration: Date.now() - (this.performanceHistory[0]?.timestamp || Date.now()),
+      duration: this.getSimulationTime() - (this.performanceHistory[0]?.timestamp || this.getSimulationTime()),
       metrics: this.systemMetrics,
       history: this.performanceHistory,
       handoffEvents: this.antennaSlewing.getHandoffHistory(),
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { SimulationClock } from '../models/SimulationClock';
 
 // Hosek-Wilkie sky model coefficients
 interface HosekWilkieCoeffs {
@@ -62,6 +63,7 @@ export class PhysicalSkySystem {
   private latitude: number = 0;
   private longitude: number = 0;
   private utcTime: Date = new Date();
+  private simulationClock: SimulationClock | null = null;
   
   // Hosek-Wilkie model coefficients
   private readonly hosekWilkieX: HosekWilkieCoeffs = {
@@ -389,7 +391,22 @@ export class PhysicalSkySystem {
     this.updateSky();
   }
 
+  /**
+   * Follow the shared simulation clock. While attached, setTime jumps the clock
+   * instead of diverging from it.
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (clock) {
+      this.utcTime = clock.getDate();
+      this.updateSky();
+    }
+  }
+
   public setTime(utcTime: Date): void {
+    if (this.simulationClock) {
+      this.simulationClock.jumpTo(utcTime);
+    }
     this.utcTime = utcTime;
     this.updateSky();
   }
@@ -472,6 +489,10 @@ export class PhysicalSkySystem {
     // Update star twinkling animation
     this.starMaterial.uniforms.time.value += deltaTime;
     
+    if (this.simulationClock) {
+      this.utcTime = this.simulationClock.getDate();
+    }
+    
     // Auto-update sky if time is progressing
     this.updateSky();
   }
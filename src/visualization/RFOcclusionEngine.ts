@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { Coordinates } from '../models/Coordinates';
 
 export interface OcclusionCheckResult {
   satelliteId: string;
@@ -130,9 +131,8 @@ export class RFOcclusionEngine {
     const direction = satellite.position.clone().sub(antennaPosition).normalize();
     const range = antennaPosition.distanceTo(satellite.position);
     
-    // Calculate spherical coordinates
-    const azimuth = Math.atan2(direction.x, direction.z) * 180 / Math.PI;
-    const elevation = Math.asin(direction.y) * 180 / Math.PI;
+    // Look angles from the antenna (Earth-fixed scene coordinates in metres)
+    const { azimuth, elevation } = Coordinates.sceneLookAngles(antennaPosition, satellite.position, 1000);
     
     // Get raycaster from pool
     const raycaster = this.getRaycaster();
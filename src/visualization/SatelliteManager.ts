@@ -1,10 +1,17 @@
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import { Satellite } from '../types/Satellite';
+import { SimulationClock } from '../models/SimulationClock';
+import { Coordinates } from '../models/Coordinates';
+import { Eclipse } from '../models/Eclipse';
+import { LaserTerminals } from '../models/LaserTerminals';
+import { ConstellationDefinition, ConstellationDesigner, ConstellationSlot, SatelliteGeneration } from '../models/Constellation';
+import { STARLINK_SHELL_1 } from '../data/ConstellationDefinitions';
 import { Earth } from './Earth';
 import { DeniedRegion } from './DeniedRegion';
 import { DynamicRoutingController } from './DynamicRoutingController';
-import { TleParser, TleData } from './TleParser';
+import { TleParser, TleData, OrbitalElements } from './TleParser';
+import { ElementSetRecord } from './CatalogIngestion';
 
 export class SatelliteManager {
   private object: THREE.Group;
@@ -33,6 +40,27 @@ export class SatelliteManager {
   private modelLoaded: boolean = false;
   private pendingSatellites: Array<{id: string, position: THREE.Vector3, shellIndex: number}> = [];
   
+  // TLE-driven satellites are re-propagated with SGP4 instead of extrapolated linearly
+  private tleElements: Map<string, OrbitalElements> = new Map();
+  private tleSimulationTime: Date = new Date();
+  private simulationClock: SimulationClock | null = null;
+  
+  // Walker slot (shell/plane/index) of every satellite built from a constellation definition
+  private constellationSlots: Map<string, ConstellationSlot> = new Map();
+  private constellation: ConstellationDefinition | null = null;
+  
+  // Laser links of satellites built here rather than by a SatelliteNetwork, assigned the same way
+  private laserTerminals: LaserTerminals | null = null;
+  
+  // Freshly launched batches drawn as a "string of pearls" until they reach their shell
+  private launchTrains: Map<string, THREE.Group> = new Map();
+  
+  // Brightness last applied to each satellite for its eclipse state, in 5% steps
+  private eclipseShading: Map<string, number> = new Map();
+  private static readonly UMBRA_BRIGHTNESS = 0.25;
+  private trainPointMaterial: THREE.PointsMaterial;
+  private trainLineMaterial: THREE.LineBasicMaterial;
+  
   constructor(initialSatellites?: Map<string, Satellite>) {
     this.object = new THREE.Group();
     this.satellites = new Map();
@@ -57,6 +85,18 @@ export class SatelliteManager {
       depthWrite: false
     });
     
+    this.trainPointMaterial = new THREE.PointsMaterial({
+      color: 0xffffff,
+      size: 4,
+      sizeAttenuation: false
+    });
+    
+    this.trainLineMaterial = new THREE.LineBasicMaterial({
+      color: 0xffffee,
+      transparent: true,
+      opacity: 0.35
+    });
+    
     // Initialize GLTF loader
     this.gltfLoader = new GLTFLoader();
     this.loadSatelliteModel();
@@ -125,6 +165,9 @@ export class SatelliteManager {
 
   public removeSatellite(id: string): void {
     this.satellites.delete(id);
+    this.tleElements.delete(id);
+    this.constellationSlots.delete(id);
+    this.eclipseShading.delete(id);
     const mesh = this.satelliteMeshes.get(id);
     if (mesh) {
       this.object.remove(mesh);
@@ -178,7 +221,7 @@ export class SatelliteManager {
     const keysToRemove: string[] = [];
     
     this.connectionLines.forEach((line, key) => {
-      if (key.includes(satelliteId)) {
+      if (key.split('|').includes(satelliteId)) {
         this.object.remove(line);
         keysToRemove.push(key);
       }
@@ -197,6 +240,55 @@ export class SatelliteManager {
     }
   }
 
+  public removeConnection(fromId: string, toId: string): void {
+    const connectionId = SatelliteManager.connectionKey(fromId, toId);
+    const line = this.connectionLines.get(connectionId);
+    if (!line) return;
+    
+    this.object.remove(line);
+    line.geometry.dispose();
+    this.connectionLines.delete(connectionId);
+  }
+
+  /**
+   * Redraw launch trains from the current positions of their satellites, ordered along
+   * the train. Trains missing from the list have dispersed and are removed.
+   */
+  public updateLaunchTrains(trains: { batchId: string; positions: THREE.Vector3[] }[]): void {
+    const active = new Set(trains.map(train => train.batchId));
+    
+    this.launchTrains.forEach((group, batchId) => {
+      if (!active.has(batchId)) {
+        this.disposeLaunchTrain(group);
+        this.launchTrains.delete(batchId);
+      }
+    });
+    
+    trains.forEach(({ batchId, positions }) => {
+      if (positions.length === 0) return;
+      
+      let group = this.launchTrains.get(batchId);
+      if (!group) {
+        group = new THREE.Group();
+        group.add(new THREE.Points(new THREE.BufferGeometry(), this.trainPointMaterial));
+        group.add(new THREE.Line(new THREE.BufferGeometry(), this.trainLineMaterial));
+        this.object.add(group);
+        this.launchTrains.set(batchId, group);
+      }
+      
+      group.children.forEach(child => {
+        (child as THREE.Points | THREE.Line).geometry.setFromPoints(positions);
+      });
+    });
+  }
+  
+  private disposeLaunchTrain(group: THREE.Group): void {
+    this.object.remove(group);
+    group.children.forEach(child => {
+      (child as THREE.Points | THREE.Line).geometry.dispose();
+    });
+  }
+  
   public setEarth(earth: Earth): void {
     this.earth = earth;
     
@@ -239,8 +331,7 @@ export class SatelliteManager {
       const position = satellite.position;
       const earthRadius = this.earth!.getRadius();
       
-      const latitude = Math.asin(position.y / position.length()) * (180 / Math.PI);
-      const longitude = Math.atan2(position.z, position.x) * (180 / Math.PI);
+      const { latitude, longitude } = this.earth!.worldToLatLong(position);
       const altitude = (position.length() - earthRadius) / 1000;
       
       this.routingController!.addSatellite(satellite, satellite.position, latitude, longitude, altitude);
@@ -249,38 +340,69 @@ export class SatelliteManager {
     this.groundStationPositions.forEach((position, id) => {
       if (!this.earth || !this.routingController) return;
       
-      const earthRadius = this.earth.getRadius();
-      const surfacePoint = position.clone().normalize().multiplyScalar(earthRadius);
-      
-      const latitude = Math.asin(surfacePoint.y / earthRadius) * (180 / Math.PI);
-      const longitude = Math.atan2(surfacePoint.z, surfacePoint.x) * (180 / Math.PI);
+      const { latitude, longitude } = this.earth.worldToLatLong(position);
       
       this.routingController.addGroundStation(id, position, latitude, longitude);
     });
   }
 
+  /**
+   * Propagate TLE satellites to the shared clock's time when one is attached
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (clock) {
+      this.tleSimulationTime = clock.getDate();
+    }
+  }
+
   public update(deltaTime: number): void {
+    if (this.simulationClock) {
+      this.tleSimulationTime = this.simulationClock.getDate();
+    } else if (this.tleElements.size > 0) {
+      this.tleSimulationTime = new Date(this.tleSimulationTime.getTime() + deltaTime * 1000);
+    }
+    
+    // Denied regions are drawn in Earth-fixed coordinates and turn with the Earth
+    if (this.deniedRegion && this.earth) {
+      this.deniedRegion.getObject().rotation.y = this.earth.getRotation();
+    }
+    
+    const sun = Eclipse.sunPosition(this.tleSimulationTime);
+    
     this.satellites.forEach((satellite, id) => {
-      satellite.position.add(satellite.velocity.clone().multiplyScalar(deltaTime));
+      const elements = this.tleElements.get(id);
+      if (elements) {
+        this.propagateTleSatellite(satellite, elements);
+      } else {
+        satellite.position.add(satellite.velocity.clone().multiplyScalar(deltaTime));
+      }
+      
+      satellite.sunlitFraction = Eclipse.sunlitFraction(Coordinates.fromSceneAxes(satellite.position), sun);
+      satellite.eclipse = Eclipse.stateOf(satellite.sunlitFraction);
       
       const mesh = this.satelliteMeshes.get(id);
       if (mesh) {
         mesh.position.copy(satellite.position);
         mesh.lookAt(new THREE.Vector3(0, 0, 0));
+        this.applyEclipseShading(id, mesh, satellite.sunlitFraction);
       }
       
       if (this.showDynamicRouting && this.routingController && this.earth) {
         const earthRadius = this.earth.getRadius();
         const position = satellite.position;
         
-        const latitude = Math.asin(position.y / position.length()) * (180 / Math.PI);
-        const longitude = Math.atan2(position.z, position.x) * (180 / Math.PI);
+        const { latitude, longitude } = this.earth.worldToLatLong(position);
         const altitude = (position.length() - earthRadius) / 1000;
         
         this.routingController.updateSatellitePosition(id, satellite.position, latitude, longitude, altitude);
       }
     });
     
+    if (this.laserTerminals) {
+      this.updateInterSatelliteLinks(false);
+    }
+    
     if (!this.performanceMode || Math.floor(this.clock.getElapsedTime() * 2) % 2 === 0) {
       this.updateConnectionLines();
     }
@@ -309,6 +431,49 @@ export class SatelliteManager {
     });
   }
 
+  // Darken a satellite in Earth's shadow; its beam cones keep their own colors
+  private applyEclipseShading(id: string, mesh: THREE.Object3D, sunlitFraction: number): void {
+    const level = Math.round(sunlitFraction * 20) / 20;
+    if (this.eclipseShading.get(id) === level) return;
+    this.eclipseShading.set(id, level);
+    
+    const brightness = SatelliteManager.UMBRA_BRIGHTNESS + (1 - SatelliteManager.UMBRA_BRIGHTNESS) * level;
+    const beams = this.beamCones.get(id);
+    
+    mesh.children.filter(child => child !== beams).forEach(part => part.traverse(child => {
+      if (!(child instanceof THREE.Mesh)) return;
+      
+      // Clones of the loaded model share materials, so each satellite gets its own copies first
+      if (!child.userData.eclipseBaseColors) {
+        child.material = Array.isArray(child.material)
+          ? child.material.map((material: THREE.Material) => material.clone())
+          : (child.material as THREE.Material).clone();
+        const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+        child.userData.eclipseBaseColors = materials.map(material =>
+          'color' in material ? (material as THREE.MeshBasicMaterial).color.clone() : null);
+      }
+      
+      const materials: THREE.Material[] = Array.isArray(child.material) ? child.material : [child.material];
+      materials.forEach((material, index) => {
+        const base: THREE.Color | null = child.userData.eclipseBaseColors[index];
+        if (base) {
+          (material as THREE.MeshBasicMaterial).color.copy(base).multiplyScalar(brightness);
+        }
+      });
+    }));
+  }
+
+  private propagateTleSatellite(satellite: Satellite, elements: OrbitalElements): void {
+    try {
+      const satPosition = TleParser.calculatePosition(elements, this.tleSimulationTime);
+      satellite.position.copy(satPosition.position);
+      satellite.velocity.copy(satPosition.velocity);
+    } catch (error) {
+      console.warn(`Stopping SGP4 propagation for ${satellite.id}:`, error);
+      this.tleElements.delete(satellite.id);
+    }
+  }
+
   public addGroundStationConnection(satelliteId: string, groundStationId: string, position: THREE.Vector3): void {
     this.groundStationPositions.set(groundStationId, position);
     
@@ -320,11 +485,7 @@ export class SatelliteManager {
     }
     
     if (this.showDynamicRouting && this.routingController && this.earth) {
-      const earthRadius = this.earth.getRadius();
-      const surfacePoint = position.clone().normalize().multiplyScalar(earthRadius);
-      
-      const latitude = Math.asin(surfacePoint.y / earthRadius) * (180 / Math.PI);
-      const longitude = Math.atan2(surfacePoint.z, surfacePoint.x) * (180 / Math.PI);
+      const { latitude, longitude } = this.earth.worldToLatLong(position);
       
       this.routingController.addGroundStation(groundStationId, position, latitude, longitude);
       this.routingController.addConnection(satelliteId, groundStationId, 'satellite-to-ground');
@@ -339,7 +500,7 @@ export class SatelliteManager {
     for (const [connectionId, line] of this.connectionLines.entries()) {
       if (updateCount >= maxUpdatesPerFrame) break;
       
-      const [fromId, toId] = connectionId.split('_');
+      const [fromId, toId] = connectionId.split('|');
       const fromSat = this.satellites.get(fromId);
       const toSat = this.satellites.get(toId);
       
@@ -404,245 +565,210 @@ export class SatelliteManager {
     this.activeBeams.set(satelliteId, activeBeamIndices);
   }
 
-  public async initializeConstellation(useTleData: boolean = false): Promise<void> {
+  public async initializeConstellation(
+    useTleData: boolean = false,
+    definition: ConstellationDefinition = STARLINK_SHELL_1
+  ): Promise<void> {
     if (useTleData) {
       await this.initializeConstellationFromTle();
     } else {
-      this.initializeConstellationCalculated();
+      this.initializeConstellationCalculated(definition);
     }
   }
+  
+  public getConstellation(): ConstellationDefinition | null {
+    return this.constellation;
+  }
 
   /**
-   * Initialize constellation using real TLE data
+   * Initialize constellation using real element sets: locally ingested ones when
+   * given, otherwise the live CelesTrak Starlink group
    */
-  public async initializeConstellationFromTle(): Promise<void> {
-    console.log('🛰️ Fetching real Starlink TLE data...');
+  public async initializeConstellationFromTle(localElementSets?: ElementSetRecord[]): Promise<void> {
+    let elementSets: { name: string; elements: OrbitalElements }[];
     
-    try {
-      const tleData = await TleParser.fetchStarlinkTles();
-      const starlinkTles = TleParser.filterStarlinkSatellites(tleData);
-      
+    if (localElementSets) {
+      console.log(`🛰️ Using ${localElementSets.length} locally loaded element sets...`);
+      elementSets = localElementSets;
+    } else {
+      console.log('🛰️ Fetching real Starlink TLE data...');
+      const starlinkTles = TleParser.filterStarlinkSatellites(await TleParser.fetchStarlinkTles());
       console.log(`📡 Found ${starlinkTles.length} Starlink satellites in TLE data`);
-      
-      let satelliteCount = 0;
-      const currentTime = new Date();
-      
-      for (const tle of starlinkTles) {
-        try {
-          const orbitalElements = TleParser.parseOrbitalElements(tle.line1, tle.line2);
-          const satPosition = TleParser.calculatePosition(orbitalElements, 0);
-          
-          // Generate ID from NORAD ID
-          const id = `starlink-${orbitalElements.noradId}`;
-          
-          const satellite: Satellite = {
-            id,
-            position: satPosition.position.clone(),
-            velocity: satPosition.velocity.clone(),
-            orbitalParameters: {
-              altitude: satPosition.position.length() * 2 - 6371, // Calculate altitude from position
-              inclination: orbitalElements.inclination,
-              eccentricity: orbitalElements.eccentricity,
-              argumentOfPeriapsis: orbitalElements.argumentOfPeriapsis,
-              longitudeOfAscendingNode: orbitalElements.raan,
-              meanAnomaly: orbitalElements.meanAnomaly
-            },
-            connections: {
-              satellites: [],
-              groundStations: []
-            },
-            beams: 16,
-            timeSlots: [],
-            status: 'active',
-            type: 'v1.5'
-          };
-          
-          this.satellites.set(id, satellite);
-          this.createSatelliteMeshFromModel(id, satPosition.position, 0);
-          
-          satelliteCount++;
-          
-          if (satelliteCount % 50 === 0) {
-            console.log(`📍 Positioned ${satelliteCount}/${starlinkTles.length} satellites from TLE data...`);
-          }
-          
-        } catch (error) {
-          console.warn(`Failed to process TLE for ${tle.name}:`, error);
-        }
-      }
-      
-      console.log(`✅ Created constellation from real TLE data: ${satelliteCount} satellites`);
-      console.log(`🔗 Setting up laser inter-satellite links...`);
-      
-      // Setup laser links (this will be more sparse with real data)
-      this.setupInterSatelliteLinksFromTle();
-      
-    } catch (error) {
-      console.error('Failed to load TLE data, falling back to calculated constellation:', error);
+      elementSets = starlinkTles.map(tle => ({ name: tle.name, elements: TleParser.parseOrbitalElements(tle.line1, tle.line2) }));
+    }
+    
+    const satelliteCount = this.addElementSets(elementSets);
+    if (satelliteCount === 0) {
+      console.warn('No usable element sets, falling back to calculated constellation');
       this.initializeConstellationCalculated();
+      return;
     }
+    
+    console.log(`✅ Created constellation from real TLE data: ${satelliteCount} satellites`);
+    console.log(`🔗 Setting up laser inter-satellite links...`);
+    
+    // Setup laser links (this will be more sparse with real data)
+    this.setupInterSatelliteLinks();
   }
 
   /**
-   * Initialize constellation using calculated orbital positions (original method)
+   * Add satellites propagated with SGP4 from element sets; returns how many were added
    */
-  public initializeConstellationCalculated(): void {
-    console.log('Initializing Starlink Shell 1 constellation (calculated)...');
-    
-    // Real Starlink Shell 1 configuration
-    const shell = {
-      altitude: 550,        // km
-      inclination: 53,      // degrees
-      planes: 72,           // orbital planes
-      satellitesPerPlane: 22 // satellites per plane = 1,584 total
-    };
-    
+  public addElementSets(elementSets: { name: string; elements: OrbitalElements }[]): number {
     let satelliteCount = 0;
-    const earthRadius = 6371; // km
-    const orbitRadius = earthRadius + shell.altitude;
-    const scaleFactor = 1/2; // Scale down for visualization
+    const currentTime = this.simulationClock ? this.simulationClock.getDate() : new Date();
+    this.tleSimulationTime = currentTime;
     
-    console.log(`Creating ${shell.planes} orbital planes with ${shell.satellitesPerPlane} satellites each...`);
-    
-    for (let planeIndex = 0; planeIndex < shell.planes; planeIndex++) {
-      // Calculate RAAN (Right Ascension of Ascending Node) for this plane
-      // Planes are evenly distributed around Earth
-      const raan = (planeIndex * 360 / shell.planes) % 360; // degrees
-      const raanRad = raan * (Math.PI / 180);
-      
-      for (let satIndex = 0; satIndex < shell.satellitesPerPlane; satIndex++) {
-        // Calculate mean anomaly for satellite position in orbit
-        // Satellites in each plane are evenly spaced
-        const meanAnomaly = (satIndex * 360 / shell.satellitesPerPlane) % 360; // degrees
-        const meanAnomalyRad = meanAnomaly * (Math.PI / 180);
-        
-        // Calculate position using orbital mechanics
-        // For circular orbits, eccentric anomaly ≈ mean anomaly
-        const trueAnomalyRad = meanAnomalyRad; // Simplified for circular orbit
-        
-        // Position in orbital plane
-        const xOrbital = orbitRadius * Math.cos(trueAnomalyRad);
-        const yOrbital = orbitRadius * Math.sin(trueAnomalyRad);
-        const zOrbital = 0;
-        
-        // Transform from orbital plane to Earth-centered inertial coordinates
-        const inclinationRad = shell.inclination * (Math.PI / 180);
-        
-        // Apply inclination rotation (around x-axis)
-        const x1 = xOrbital;
-        const y1 = yOrbital * Math.cos(inclinationRad) - zOrbital * Math.sin(inclinationRad);
-        const z1 = yOrbital * Math.sin(inclinationRad) + zOrbital * Math.cos(inclinationRad);
-        
-        // Apply RAAN rotation (around z-axis)
-        const x = x1 * Math.cos(raanRad) - y1 * Math.sin(raanRad);
-        const y = x1 * Math.sin(raanRad) + y1 * Math.cos(raanRad);
-        const z = z1;
-        
-        // Create position vector (scaled for visualization)
-        const position = new THREE.Vector3(x, z, y).multiplyScalar(scaleFactor);
-        
-        // Calculate orbital velocity for circular orbit
-        const orbitalSpeed = Math.sqrt(398600.4418 / orbitRadius); // km/s
-        const velocityDirection = new THREE.Vector3(-Math.sin(trueAnomalyRad), Math.cos(trueAnomalyRad), 0);
-        
-        // Apply same rotations to velocity vector
-        const v1 = new THREE.Vector3(
-          velocityDirection.x,
-          velocityDirection.y * Math.cos(inclinationRad),
-          velocityDirection.y * Math.sin(inclinationRad)
-        );
+    for (const { name, elements } of elementSets) {
+      try {
+        const satPosition = TleParser.calculatePosition(elements, currentTime);
         
-        const velocity = new THREE.Vector3(
-          v1.x * Math.cos(raanRad) - v1.y * Math.sin(raanRad),
-          v1.z,
-          v1.x * Math.sin(raanRad) + v1.y * Math.cos(raanRad)
-        ).multiplyScalar(orbitalSpeed * scaleFactor);
-        
-        const id = `starlink-${planeIndex.toString().padStart(2, '0')}-${satIndex.toString().padStart(2, '0')}`;
+        // Generate ID from NORAD ID
+        const id = `starlink-${elements.noradId}`;
+        if (this.satellites.has(id)) {
+          this.removeSatellite(id);
+        }
         
         const satellite: Satellite = {
           id,
-          position: position.clone(),
-          velocity: velocity.clone(),
+          position: satPosition.position.clone(),
+          velocity: satPosition.velocity.clone(),
           orbitalParameters: {
-            altitude: shell.altitude,
-            inclination: shell.inclination,
-            eccentricity: 0.0001, // Nearly circular
-            argumentOfPeriapsis: 0,
-            longitudeOfAscendingNode: raan,
-            meanAnomaly: meanAnomaly
+            altitude: Coordinates.ecefToGeodetic(Coordinates.fromSceneAxes(satPosition.position)).altitude,
+            inclination: elements.inclination,
+            eccentricity: elements.eccentricity,
+            argumentOfPeriapsis: elements.argumentOfPeriapsis,
+            longitudeOfAscendingNode: elements.raan,
+            meanAnomaly: elements.meanAnomaly
           },
           connections: {
             satellites: [],
             groundStations: []
           },
-          beams: 16, // Modern Starlink satellites have ~16 beams
+          beams: 16,
           timeSlots: [],
           status: 'active',
-          type: 'v1.5' // Current generation Starlink satellites
+          type: 'v1.5'
         };
         
         this.satellites.set(id, satellite);
-        this.createSatelliteMeshFromModel(id, position, 0);
+        this.tleElements.set(id, elements);
+        this.createSatelliteMeshFromModel(id, satPosition.position, 0);
         
         satelliteCount++;
         
-        // Log progress every 100 satellites
-        if (satelliteCount % 100 === 0) {
-          console.log(`Created ${satelliteCount}/${shell.planes * shell.satellitesPerPlane} satellites...`);
+        if (satelliteCount % 50 === 0) {
+          console.log(`📍 Positioned ${satelliteCount}/${elementSets.length} satellites from TLE data...`);
         }
+        
+      } catch (error) {
+        console.warn(`Failed to process TLE for ${name}:`, error);
       }
     }
     
-    console.log(`✅ Created complete Starlink Shell 1: ${satelliteCount} satellites in ${shell.planes} planes`);
-    console.log(`📊 Configuration: ${shell.altitude}km altitude, ${shell.inclination}° inclination`);
-    
-    // Setup realistic laser inter-satellite links
-    this.setupInterSatelliteLinks();
+    return satelliteCount;
   }
 
   /**
-   * Setup laser links for satellites positioned from TLE data
-   * This uses a different algorithm since satellites may not be in perfect grid
+   * Initialize constellation from a Walker shell definition, the same one the network model uses
    */
-  private setupInterSatelliteLinksFromTle(): void {
-    console.log('Setting up laser links for TLE-based constellation...');
-    
-    const satelliteArray = Array.from(this.satellites.values());
-    let totalLinks = 0;
-    
-    // For each satellite, connect to nearest neighbors
-    for (const satellite of satelliteArray) {
-      const connections = [];
-      
-      // Find closest satellites within laser range (~2000km)
-      const distances = satelliteArray
-        .filter(other => other.id !== satellite.id)
-        .map(other => ({
-          satellite: other,
-          distance: satellite.position.distanceTo(other.position)
-        }))
-        .filter(entry => entry.distance < 2000) // Laser range limit
-        .sort((a, b) => a.distance - b.distance);
-      
-      // Connect to 4 closest satellites (typical for Starlink)
-      const maxConnections = 4;
-      for (let i = 0; i < Math.min(maxConnections, distances.length); i++) {
-        const target = distances[i].satellite;
-        
-        // Avoid duplicate connections
-        if (!satellite.connections.satellites.includes(target.id) &&
-            !target.connections.satellites.includes(satellite.id)) {
-          
-          satellite.connections.satellites.push(target.id);
-          target.connections.satellites.push(satellite.id);
-          this.createConnectionLine(satellite.id, target.id);
-          totalLinks++;
-        }
+  public initializeConstellationCalculated(definition: ConstellationDefinition = STARLINK_SHELL_1): void {
+    console.log(`Initializing ${definition.name} constellation (calculated)...`);
+    
+    const slots = ConstellationDesigner.generate(definition).filter(slot => slot.deployed);
+    this.constellation = definition;
+    
+    let satelliteCount = 0;
+    const earthRadius = 6371; // km
+    
+    definition.shells.forEach(shell => {
+      console.log(`${shell.name}: ${shell.planes} orbital planes with ${shell.satellitesPerPlane} satellites each...`);
+    });
+    
+    slots.forEach(slot => {
+      const { altitude, inclination, longitudeOfAscendingNode: raan, meanAnomaly } = slot.orbitalParameters;
+      const orbitRadius = earthRadius + altitude;
+      const raanRad = raan * (Math.PI / 180);
+      const meanAnomalyRad = meanAnomaly * (Math.PI / 180);
+      
+      // Calculate position using orbital mechanics
+      // For circular orbits, eccentric anomaly ≈ mean anomaly
+      const trueAnomalyRad = meanAnomalyRad; // Simplified for circular orbit
+      
+      // Position in orbital plane
+      const xOrbital = orbitRadius * Math.cos(trueAnomalyRad);
+      const yOrbital = orbitRadius * Math.sin(trueAnomalyRad);
+      const zOrbital = 0;
+      
+      // Transform from orbital plane to Earth-centered inertial coordinates
+      const inclinationRad = inclination * (Math.PI / 180);
+      
+      // Apply inclination rotation (around x-axis)
+      const x1 = xOrbital;
+      const y1 = yOrbital * Math.cos(inclinationRad) - zOrbital * Math.sin(inclinationRad);
+      const z1 = yOrbital * Math.sin(inclinationRad) + zOrbital * Math.cos(inclinationRad);
+      
+      // Apply RAAN rotation (around z-axis)
+      const x = x1 * Math.cos(raanRad) - y1 * Math.sin(raanRad);
+      const y = x1 * Math.sin(raanRad) + y1 * Math.cos(raanRad);
+      const z = z1;
+      
+      // Create position vector in the inertial scene frame (km)
+      const scenePosition = Coordinates.toSceneAxes({ x, y, z });
+      const position = new THREE.Vector3(scenePosition.x, scenePosition.y, scenePosition.z);
+      
+      // Calculate orbital velocity for circular orbit
+      const orbitalSpeed = Math.sqrt(398600.4418 / orbitRadius); // km/s
+      const velocityDirection = new THREE.Vector3(-Math.sin(trueAnomalyRad), Math.cos(trueAnomalyRad), 0);
+      
+      // Apply same rotations to velocity vector
+      const v1 = new THREE.Vector3(
+        velocityDirection.x,
+        velocityDirection.y * Math.cos(inclinationRad),
+        velocityDirection.y * Math.sin(inclinationRad)
+      );
+      
+      const sceneVelocity = Coordinates.toSceneAxes({
+        x: v1.x * Math.cos(raanRad) - v1.y * Math.sin(raanRad),
+        y: v1.x * Math.sin(raanRad) + v1.y * Math.cos(raanRad),
+        z: v1.z
+      });
+      const velocity = new THREE.Vector3(sceneVelocity.x, sceneVelocity.y, sceneVelocity.z).multiplyScalar(orbitalSpeed);
+      
+      const satellite: Satellite = {
+        id: slot.id,
+        position: position.clone(),
+        velocity: velocity.clone(),
+        orbitalParameters: { ...slot.orbitalParameters },
+        connections: {
+          satellites: [],
+          groundStations: []
+        },
+        beams: 16, // Modern Starlink satellites have ~16 beams
+        timeSlots: [],
+        status: 'active',
+        type: slot.generation
+      };
+      
+      this.satellites.set(slot.id, satellite);
+      this.constellationSlots.set(slot.id, slot);
+      this.createSatelliteMeshFromModel(slot.id, position, slot.shellIndex);
+      
+      satelliteCount++;
+      
+      // Log progress every 100 satellites
+      if (satelliteCount % 100 === 0) {
+        console.log(`Created ${satelliteCount}/${slots.length} satellites...`);
       }
-    }
+    });
+    
+    console.log(`✅ Created ${definition.name}: ${satelliteCount} satellites in ${definition.shells.length} shell(s)`);
+    definition.shells.forEach(shell => {
+      console.log(`📊 ${shell.name}: ${shell.altitude}km altitude, ${shell.inclination}° inclination, phasing ${shell.phasingFactor}`);
+    });
     
-    console.log(`✅ Created ${totalLinks} laser inter-satellite links from TLE data`);
+    // Setup realistic laser inter-satellite links
+    this.setupInterSatelliteLinks();
   }
 
   private createSatelliteMeshFromModel(id: string, position: THREE.Vector3, shellIndex: number): void {
@@ -818,119 +944,49 @@ export class SatelliteManager {
     this.beamCones.set(id, beamGroup);
   }
 
+  /**
+   * Assign laser links between the satellites built here, with the terminal model the
+   * network uses; they are kept up to date as the satellites move
+   */
   private setupInterSatelliteLinks(): void {
     console.log('Setting up laser inter-satellite links...');
     
-    // Starlink satellites have 4 laser terminals and can connect to:
-    // 1. Next/previous satellite in same orbital plane (2 connections)
-    // 2. Satellites in adjacent orbital planes (2 connections)
-    
-    const planes = 72;
-    const satellitesPerPlane = 22;
-    let totalLinks = 0;
-    
-    // Parse satellite IDs to get plane and position info
-    const satellitesByPlane = new Map<number, Satellite[]>();
-    
-    this.satellites.forEach((satellite) => {
-      const idParts = satellite.id.split('-');
-      if (idParts.length >= 3) {
-        const planeIndex = parseInt(idParts[1]);
-        const satIndex = parseInt(idParts[2]);
-        
-        if (!satellitesByPlane.has(planeIndex)) {
-          satellitesByPlane.set(planeIndex, []);
-        }
-        satellitesByPlane.get(planeIndex)!.push(satellite);
-      }
-    });
-    
-    // Sort satellites in each plane by their index
-    satellitesByPlane.forEach((satellites) => {
-      satellites.sort((a, b) => {
-        const aIndex = parseInt(a.id.split('-')[2]);
-        const bIndex = parseInt(b.id.split('-')[2]);
-        return aIndex - bIndex;
-      });
+    this.connectionLines.forEach(line => this.object.remove(line));
+    this.connectionLines.clear();
+    this.satellites.forEach(satellite => {
+      satellite.connections.satellites = [];
     });
     
-    console.log(`Organizing ${this.satellites.size} satellites into ${satellitesByPlane.size} planes...`);
+    this.laserTerminals = new LaserTerminals();
+    this.updateInterSatelliteLinks(true);
     
-    // Create intra-plane connections (along-track)
-    satellitesByPlane.forEach((satellites, planeIndex) => {
-      for (let i = 0; i < satellites.length; i++) {
-        const currentSat = satellites[i];
-        
-        // Connect to next satellite in same plane (circular)
-        const nextIndex = (i + 1) % satellites.length;
-        const nextSat = satellites[nextIndex];
-        
-        // Bidirectional connection
-        if (!currentSat.connections.satellites.includes(nextSat.id)) {
-          currentSat.connections.satellites.push(nextSat.id);
-          nextSat.connections.satellites.push(currentSat.id);
-          this.createConnectionLine(currentSat.id, nextSat.id);
-          totalLinks++;
-        }
-      }
-    });
-    
-    // Create inter-plane connections (cross-track)
-    // Each satellite connects to satellites in adjacent planes
-    satellitesByPlane.forEach((satellites, planeIndex) => {
-      // Calculate adjacent plane indices
-      const leftPlaneIndex = (planeIndex - 1 + planes) % planes;
-      const rightPlaneIndex = (planeIndex + 1) % planes;
-      
-      const leftPlane = satellitesByPlane.get(leftPlaneIndex);
-      const rightPlane = satellitesByPlane.get(rightPlaneIndex);
-      
-      if (!leftPlane || !rightPlane) return;
-      
-      satellites.forEach((currentSat, satIndex) => {
-        // Connect to corresponding satellite in left adjacent plane
-        if (satIndex < leftPlane.length) {
-          const leftSat = leftPlane[satIndex];
-          const distance = currentSat.position.distanceTo(leftSat.position);
-          
-          // Only connect if satellites are reasonably close (laser range ~1000km)
-          if (distance < 2000 && !currentSat.connections.satellites.includes(leftSat.id)) {
-            currentSat.connections.satellites.push(leftSat.id);
-            leftSat.connections.satellites.push(currentSat.id);
-            this.createConnectionLine(currentSat.id, leftSat.id);
-            totalLinks++;
-          }
-        }
-        
-        // Connect to corresponding satellite in right adjacent plane
-        if (satIndex < rightPlane.length) {
-          const rightSat = rightPlane[satIndex];
-          const distance = currentSat.position.distanceTo(rightSat.position);
-          
-          // Only connect if satellites are reasonably close (laser range ~1000km)
-          if (distance < 2000 && !currentSat.connections.satellites.includes(rightSat.id)) {
-            currentSat.connections.satellites.push(rightSat.id);
-            rightSat.connections.satellites.push(currentSat.id);
-            this.createConnectionLine(currentSat.id, rightSat.id);
-            totalLinks++;
-          }
+    const totalLinks = this.laserTerminals.getLinks().length;
+    console.log(`✅ Created ${totalLinks} laser inter-satellite links`);
+    console.log(`📡 Each satellite has ~${Math.round(totalLinks * 2 / Math.max(1, this.satellites.size))} connections on average`);
+  }
+
+  private updateInterSatelliteLinks(settle: boolean): void {
+    const nodes = Array.from(this.satellites.values()).map(satellite => ({
+      id: satellite.id,
+      position: satellite.position,
+      velocity: satellite.velocity,
+      generation: satellite.type as SatelliteGeneration
+    }));
+    const { added, removed } = this.laserTerminals!.update(nodes, this.tleSimulationTime.getTime(), settle);
+    
+    removed.forEach(([idA, idB]) => {
+      [[idA, idB], [idB, idA]].forEach(([from, to]) => {
+        const satellite = this.satellites.get(from);
+        if (satellite) {
+          satellite.connections.satellites = satellite.connections.satellites.filter(id => id !== to);
         }
       });
+      this.removeConnection(idA, idB);
     });
-    
-    console.log(`✅ Created ${totalLinks} laser inter-satellite links`);
-    console.log(`📡 Each satellite has ~${Math.round(totalLinks * 2 / this.satellites.size)} connections on average`);
-    
-    // Log connection statistics
-    let connectionCounts = new Map<number, number>();
-    this.satellites.forEach((satellite) => {
-      const count = satellite.connections.satellites.length;
-      connectionCounts.set(count, (connectionCounts.get(count) || 0) + 1);
-    });
-    
-    console.log('📊 Connection distribution:');
-    connectionCounts.forEach((count, connections) => {
-      console.log(`  ${connections} connections: ${count} satellites`);
+    added.forEach(([idA, idB]) => {
+      this.satellites.get(idA)!.connections.satellites.push(idB);
+      this.satellites.get(idB)!.connections.satellites.push(idA);
+      this.createConnectionLine(idA, idB);
     });
   }
 
@@ -938,7 +994,9 @@ export class SatelliteManager {
     const fromSat = this.satellites.get(fromId);
     const toSat = this.satellites.get(toId);
     
-    if (!fromSat || !toSat) return;
+    // Links are undirected, so either end may add one
+    const connectionId = SatelliteManager.connectionKey(fromId, toId);
+    if (!fromSat || !toSat || this.connectionLines.has(connectionId)) return;
     
     const geometry = new THREE.BufferGeometry().setFromPoints([
       fromSat.position,
@@ -947,11 +1005,14 @@ export class SatelliteManager {
     
     const line = new THREE.Line(geometry, this.connectionMaterial);
     this.object.add(line);
-    
-    const connectionId = `${fromId}_${toId}`;
     this.connectionLines.set(connectionId, line);
   }
 
+  // Satellite IDs contain underscores, so endpoints are joined with '|'
+  private static connectionKey(fromId: string, toId: string): string {
+    return fromId < toId ? `${fromId}|${toId}` : `${toId}|${fromId}`;
+  }
+
   public getRoutingController(): DynamicRoutingController | undefined {
     return this.routingController;
   }
@@ -1003,9 +1064,16 @@ export class SatelliteManager {
     if (this.connectionMaterial) this.connectionMaterial.dispose();
     
     this.satellites.clear();
+    this.tleElements.clear();
     this.satelliteMeshes.clear();
     this.beamCones.clear();
     this.connectionLines.clear();
+    this.laserTerminals = null;
+    this.constellationSlots.clear();
+    this.launchTrains.forEach(group => this.disposeLaunchTrain(group));
+    this.launchTrains.clear();
+    this.trainPointMaterial.dispose();
+    this.trainLineMaterial.dispose();
     this.activeBeams.clear();
     this.groundStationPositions.clear();
   }
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { SimulationClock } from '../models/SimulationClock';
+import { EphemerisCache } from '../models/EphemerisCache';
 
 export interface SatelliteVisualConfig {
   satelliteId: string;
@@ -64,7 +66,8 @@ export class SatelliteOverlaySystem {
   
   // Time management
   private simulationTime: number = Date.now();
-  private timeScale: number = 1; // Real-time multiplier
+  private timeScale: number = 1; // Real-time multiplier, used only without a shared clock
+  private simulationClock: SimulationClock | null = null;
   private lastUpdateTime: number = 0;
   private updateFrequency: number = 30; // Hz
   
@@ -347,7 +350,7 @@ export class SatelliteOverlaySystem {
       timestamps: [...timestamps],
       currentIndex: 0,
       period: timestamps[timestamps.length - 1] - timestamps[0],
-      lastUpdate: Date.now()
+      lastUpdate: this.simulationTime
     };
     
     this.trajectories.set(satelliteId, trajectory);
@@ -446,20 +449,42 @@ export class SatelliteOverlaySystem {
     return baseMagnitude + rangeFactor + elevationFactor;
   }
 
+  /**
+   * Follow the shared simulation clock. While attached, setTimeScale and
+   * setSimulationTime act on the clock itself.
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (clock) {
+      this.simulationTime = clock.getTime();
+    }
+  }
+
   public setTimeScale(scale: number): void {
-    this.timeScale = scale;
+    if (this.simulationClock) {
+      this.simulationClock.setWarpFactor(scale);
+    } else {
+      this.timeScale = scale;
+    }
     console.log(`Satellite overlay time scale set to ${scale}x`);
   }
 
   public setSimulationTime(timestamp: number): void {
+    if (this.simulationClock) {
+      this.simulationClock.jumpTo(new Date(timestamp));
+    }
     this.simulationTime = timestamp;
   }
 
   public update(deltaTime: number): void {
     const currentTime = Date.now();
     
-    // Update simulation time with time scale
-    this.simulationTime += deltaTime * 1000 * this.timeScale;
+    // Update simulation time from the shared clock, or locally with time scale
+    if (this.simulationClock) {
+      this.simulationTime = this.simulationClock.getTime();
+    } else {
+      this.simulationTime += deltaTime * 1000 * this.timeScale;
+    }
     
     // Update at specified frequency
     this.updateCounter++;
@@ -505,24 +530,9 @@ export class SatelliteOverlaySystem {
     const normalizedTime = (time - trajectory.timestamps[0]) % trajectory.period;
     const timeOffset = normalizedTime + trajectory.timestamps[0];
     
-    // Find surrounding time points
-    let index = 0;
-    for (let i = 0; i < trajectory.timestamps.length - 1; i++) {
-      if (trajectory.timestamps[i] <= timeOffset && timeOffset <= trajectory.timestamps[i + 1]) {
-        index = i;
-        break;
-      }
-    }
-    
-    // Linear interpolation between points
-    const t1 = trajectory.timestamps[index];
-    const t2 = trajectory.timestamps[index + 1] || trajectory.timestamps[index];
-    const factor = t2 > t1 ? (timeOffset - t1) / (t2 - t1) : 0;
-    
-    const p1 = trajectory.positions[index];
-    const p2 = trajectory.positions[index + 1] || trajectory.positions[index];
-    
-    return new THREE.Vector3().lerpVectors(p1, p2, factor);
+    // Cubic interpolation keeps the satellite on the orbit between samples
+    const { x, y, z } = EphemerisCache.interpolatePositions(trajectory.timestamps, trajectory.positions, timeOffset);
+    return new THREE.Vector3(x, y, z);
   }
 
   private orientSatellite(model: THREE.Group, position: THREE.Vector3): void {
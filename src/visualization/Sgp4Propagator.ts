@@ -0,0 +1,1118 @@
+import { Position, Velocity } from '../models/SatelliteNetwork';
+import { OrbitalElements } from './TleParser';
+
+export interface TemeState {
+  position: Position; // km, True Equator Mean Equinox frame
+  velocity: Velocity; // km/s, True Equator Mean Equinox frame
+  minutesSinceEpoch: number;
+}
+
+export type Sgp4ErrorCode = 0 | 1 | 2 | 3 | 4 | 6;
+
+// Propagator state ("satrec" in Vallado's reference implementation)
+interface Sgp4Record {
+  method: 'n' | 'd'; // near-Earth (SGP4) or deep-space (SDP4)
+  isimp: number;
+  init: boolean;
+  error: Sgp4ErrorCode;
+  t: number;
+  jdsatepoch: number;
+
+  // Mean elements at epoch
+  bstar: number;
+  ecco: number;
+  argpo: number;
+  inclo: number;
+  mo: number;
+  no: number;
+  nodeo: number;
+
+  // Near-Earth secular and drag terms
+  aycof: number; con41: number; cc1: number; cc4: number; cc5: number;
+  d2: number; d3: number; d4: number; delmo: number; eta: number;
+  argpdot: number; omgcof: number; sinmao: number; t2cof: number;
+  t3cof: number; t4cof: number; t5cof: number; x1mth2: number;
+  x7thm1: number; mdot: number; nodedot: number; xlcof: number;
+  xmcof: number; nodecf: number;
+
+  // Deep-space lunar/solar and resonance terms
+  irez: number; d2201: number; d2211: number; d3210: number; d3222: number;
+  d4410: number; d4422: number; d5220: number; d5232: number; d5421: number;
+  d5433: number; dedt: number; del1: number; del2: number; del3: number;
+  didt: number; dmdt: number; dnodt: number; domdt: number; e3: number;
+  ee2: number; peo: number; pgho: number; pho: number; pinco: number;
+  plo: number; se2: number; se3: number; sgh2: number; sgh3: number;
+  sgh4: number; sh2: number; sh3: number; si2: number; si3: number;
+  sl2: number; sl3: number; sl4: number; gsto: number; xfact: number;
+  xgh2: number; xgh3: number; xgh4: number; xh2: number; xh3: number;
+  xi2: number; xi3: number; xl2: number; xl3: number; xl4: number;
+  xlamo: number; zmol: number; zmos: number; atime: number; xli: number;
+  xni: number;
+}
+
+// Output of the lunar/solar common terms routine
+interface DeepSpaceCommon {
+  snodm: number; cnodm: number; sinim: number; cosim: number; sinomm: number;
+  cosomm: number; day: number; em: number; emsq: number; gam: number;
+  rtemsq: number; nm: number;
+  s1: number; s2: number; s3: number; s4: number; s5: number; s6: number; s7: number;
+  ss1: number; ss2: number; ss3: number; ss4: number; ss5: number; ss6: number; ss7: number;
+  sz1: number; sz2: number; sz3: number; sz11: number; sz12: number; sz13: number;
+  sz21: number; sz22: number; sz23: number; sz31: number; sz32: number; sz33: number;
+  z1: number; z2: number; z3: number; z11: number; z12: number; z13: number;
+  z21: number; z22: number; z23: number; z31: number; z32: number; z33: number;
+}
+
+interface PeriodicElements {
+  ep: number;
+  inclp: number;
+  nodep: number;
+  argpp: number;
+  mp: number;
+}
+
+/**
+ * SGP4/SDP4 analytic propagator for NORAD two-line element sets.
+ *
+ * Port of the Vallado et al. (2006) "Revisiting Spacetrack Report #3" reference
+ * implementation using WGS-72 constants and the improved ('i') operation mode.
+ * Orbits with periods of 225 minutes or more use the deep-space (SDP4) branch.
+ */
+export class Sgp4Propagator {
+  // WGS-72 gravity model, as required by the TLE mean element theory
+  private static readonly MU = 398600.8; // km³/s²
+  private static readonly EARTH_RADIUS = 6378.135; // km
+  private static readonly XKE = 60.0 / Math.sqrt(Math.pow(Sgp4Propagator.EARTH_RADIUS, 3) / Sgp4Propagator.MU);
+  private static readonly J2 = 0.001082616;
+  private static readonly J3 = -0.00000253881;
+  private static readonly J4 = -0.00000165597;
+  private static readonly J3OJ2 = Sgp4Propagator.J3 / Sgp4Propagator.J2;
+  private static readonly VKMPERSEC = Sgp4Propagator.EARTH_RADIUS * Sgp4Propagator.XKE / 60.0;
+
+  private static readonly TWO_PI = 2 * Math.PI;
+  private static readonly DEG_TO_RAD = Math.PI / 180;
+  private static readonly X2O3 = 2.0 / 3.0;
+  private static readonly MINUTES_PER_DAY = 1440;
+  private static readonly XPDOTP = 1440.0 / (2.0 * Math.PI); // rev/day -> rad/min
+
+  private static readonly ERROR_MESSAGES: Record<Exclude<Sgp4ErrorCode, 0>, string> = {
+    1: 'mean eccentricity is out of range',
+    2: 'mean motion is negative',
+    3: 'perturbed eccentricity is out of range',
+    4: 'semi-latus rectum is negative',
+    6: 'orbit has decayed',
+  };
+
+  private rec: Sgp4Record;
+
+  constructor(elements: OrbitalElements) {
+    this.rec = Sgp4Propagator.createRecord();
+    this.initialize(elements);
+  }
+
+  /**
+   * Julian date of the element set epoch (UTC)
+   */
+  public getEpochJulianDate(): number {
+    return this.rec.jdsatepoch;
+  }
+
+  public getEpoch(): Date {
+    return Sgp4Propagator.julianDateToDate(this.rec.jdsatepoch);
+  }
+
+  /**
+   * True when the deep-space (SDP4) branch is used for this element set
+   */
+  public isDeepSpace(): boolean {
+    return this.rec.method === 'd';
+  }
+
+  public getError(): Sgp4ErrorCode {
+    return this.rec.error;
+  }
+
+  public getErrorMessage(): string | null {
+    return this.rec.error === 0 ? null : Sgp4Propagator.ERROR_MESSAGES[this.rec.error];
+  }
+
+  /**
+   * Propagate to an absolute UTC time. Returns null if SGP4 reports an error
+   * (see getErrorMessage), e.g. after the satellite has decayed.
+   */
+  public propagate(time: Date): TemeState | null {
+    const minutesSinceEpoch = (Sgp4Propagator.dateToJulianDate(time) - this.rec.jdsatepoch) * Sgp4Propagator.MINUTES_PER_DAY;
+    return this.propagateMinutes(minutesSinceEpoch);
+  }
+
+  /**
+   * Propagate to a time expressed in minutes from the element set epoch
+   */
+  public propagateMinutes(minutesSinceEpoch: number): TemeState | null {
+    return this.sgp4(minutesSinceEpoch);
+  }
+
+  public static dateToJulianDate(date: Date): number {
+    return date.getTime() / 86400000 + 2440587.5;
+  }
+
+  public static julianDateToDate(julianDate: number): Date {
+    return new Date((julianDate - 2440587.5) * 86400000);
+  }
+
+  /**
+   * Julian date of a TLE epoch given as two-digit year and fractional day of year
+   */
+  public static epochToJulianDate(epochYear: number, epochDay: number): number {
+    const year = epochYear < 100 ? (epochYear < 57 ? 2000 + epochYear : 1900 + epochYear) : epochYear;
+    // Julian date of January 0.0 (i.e. December 31.0 of the previous year)
+    const janZero = 367 * year - Math.floor(7 * (year + Math.floor(10 / 12)) * 0.25) + Math.floor(275 / 9) + 1721013.5;
+    return janZero + epochDay;
+  }
+
+  /**
+   * Greenwich Mean Sidereal Time (IAU-82) in radians for a UT1 Julian date
+   */
+  public static gstime(julianDate: number): number {
+    const tut1 = (julianDate - 2451545.0) / 36525.0;
+    let temp = -6.2e-6 * tut1 * tut1 * tut1 +
+      0.093104 * tut1 * tut1 +
+      (876600.0 * 3600 + 8640184.812866) * tut1 +
+      67310.54841; // seconds
+    temp = ((temp * this.DEG_TO_RAD) / 240.0) % this.TWO_PI;
+    if (temp < 0.0) temp += this.TWO_PI;
+    return temp;
+  }
+
+  private static createRecord(): Sgp4Record {
+    const numericFields = [
+      't', 'jdsatepoch', 'bstar', 'ecco', 'argpo', 'inclo', 'mo', 'no', 'nodeo',
+      'aycof', 'con41', 'cc1', 'cc4', 'cc5', 'd2', 'd3', 'd4', 'delmo', 'eta',
+      'argpdot', 'omgcof', 'sinmao', 't2cof', 't3cof', 't4cof', 't5cof', 'x1mth2',
+      'x7thm1', 'mdot', 'nodedot', 'xlcof', 'xmcof', 'nodecf', 'irez', 'd2201',
+      'd2211', 'd3210', 'd3222', 'd4410', 'd4422', 'd5220', 'd5232', 'd5421',
+      'd5433', 'dedt', 'del1', 'del2', 'del3', 'didt', 'dmdt', 'dnodt', 'domdt',
+      'e3', 'ee2', 'peo', 'pgho', 'pho', 'pinco', 'plo', 'se2', 'se3', 'sgh2',
+      'sgh3', 'sgh4', 'sh2', 'sh3', 'si2', 'si3', 'sl2', 'sl3', 'sl4', 'gsto',
+      'xfact', 'xgh2', 'xgh3', 'xgh4', 'xh2', 'xh3', 'xi2', 'xi3', 'xl2', 'xl3',
+      'xl4', 'xlamo', 'zmol', 'zmos', 'atime', 'xli', 'xni', 'isimp',
+    ];
+    const record: Record<string, unknown> = { method: 'n', init: true, error: 0 };
+    numericFields.forEach(field => {
+      record[field] = 0;
+    });
+    return record as unknown as Sgp4Record;
+  }
+
+  /**
+   * Convert TLE units to SGP4 internal units and initialize the propagator (sgp4init)
+   */
+  private initialize(elements: OrbitalElements): void {
+    const rec = this.rec;
+    const { J2, J4, J3OJ2, EARTH_RADIUS, X2O3 } = Sgp4Propagator;
+
+    rec.jdsatepoch = Sgp4Propagator.epochToJulianDate(elements.epochYear, elements.epochDay);
+    rec.bstar = elements.bstar;
+    rec.ecco = elements.eccentricity;
+    rec.argpo = elements.argumentOfPeriapsis * Sgp4Propagator.DEG_TO_RAD;
+    rec.inclo = elements.inclination * Sgp4Propagator.DEG_TO_RAD;
+    rec.mo = elements.meanAnomaly * Sgp4Propagator.DEG_TO_RAD;
+    rec.no = elements.meanMotion / Sgp4Propagator.XPDOTP; // Kozai mean motion, rad/min
+    rec.nodeo = elements.raan * Sgp4Propagator.DEG_TO_RAD;
+
+    // Epoch expressed in days since 1949 December 31 00:00 UT
+    const epoch = rec.jdsatepoch - 2433281.5;
+
+    const ss = 78.0 / EARTH_RADIUS + 1.0;
+    const qzms2t = Math.pow((120.0 - 78.0) / EARTH_RADIUS, 4);
+    rec.init = true;
+    rec.t = 0.0;
+
+    // initl: un-Kozai the mean motion and compute common quantities
+    const eccsq = rec.ecco * rec.ecco;
+    const omeosq = 1.0 - eccsq;
+    const rteosq = Math.sqrt(omeosq);
+    const cosio = Math.cos(rec.inclo);
+    const cosio2 = cosio * cosio;
+
+    const ak = Math.pow(Sgp4Propagator.XKE / rec.no, X2O3);
+    const d1 = 0.75 * J2 * (3.0 * cosio2 - 1.0) / (rteosq * omeosq);
+    let delPrime = d1 / (ak * ak);
+    const adel = ak * (1.0 - delPrime * delPrime - delPrime * (1.0 / 3.0 + 134.0 * delPrime * delPrime / 81.0));
+    delPrime = d1 / (adel * adel);
+    rec.no /= (1.0 + delPrime);
+
+    const ao = Math.pow(Sgp4Propagator.XKE / rec.no, X2O3);
+    const sinio = Math.sin(rec.inclo);
+    const po = ao * omeosq;
+    const con42 = 1.0 - 5.0 * cosio2;
+    rec.con41 = -con42 - cosio2 - cosio2;
+    const posq = po * po;
+    const rp = ao * (1.0 - rec.ecco);
+    rec.gsto = Sgp4Propagator.gstime(epoch + 2433281.5);
+    rec.error = 0;
+
+    if (omeosq >= 0.0 || rec.no >= 0.0) {
+      rec.isimp = 0;
+      if (rp < 220.0 / EARTH_RADIUS + 1.0) {
+        rec.isimp = 1;
+      }
+
+      let sfour = ss;
+      let qzms24 = qzms2t;
+      const perige = (rp - 1.0) * EARTH_RADIUS;
+
+      // For perigees below 156 km, the values of s and qoms2t are altered
+      if (perige < 156.0) {
+        sfour = perige - 78.0;
+        if (perige < 98.0) {
+          sfour = 20.0;
+        }
+        qzms24 = Math.pow((120.0 - sfour) / EARTH_RADIUS, 4);
+        sfour = sfour / EARTH_RADIUS + 1.0;
+      }
+
+      const pinvsq = 1.0 / posq;
+      const tsi = 1.0 / (ao - sfour);
+      rec.eta = ao * rec.ecco * tsi;
+      const etasq = rec.eta * rec.eta;
+      const eeta = rec.ecco * rec.eta;
+      const psisq = Math.abs(1.0 - etasq);
+      const coef = qzms24 * Math.pow(tsi, 4.0);
+      const coef1 = coef / Math.pow(psisq, 3.5);
+      const cc2 = coef1 * rec.no * (ao * (1.0 + 1.5 * etasq + eeta * (4.0 + etasq)) +
+        0.375 * J2 * tsi / psisq * rec.con41 * (8.0 + 3.0 * etasq * (8.0 + etasq)));
+      rec.cc1 = rec.bstar * cc2;
+      let cc3 = 0.0;
+      if (rec.ecco > 1.0e-4) {
+        cc3 = -2.0 * coef * tsi * J3OJ2 * rec.no * sinio / rec.ecco;
+      }
+      rec.x1mth2 = 1.0 - cosio2;
+      rec.cc4 = 2.0 * rec.no * coef1 * ao * omeosq * (rec.eta * (2.0 + 0.5 * etasq) +
+        rec.ecco * (0.5 + 2.0 * etasq) -
+        J2 * tsi / (ao * psisq) * (-3.0 * rec.con41 * (1.0 - 2.0 * eeta + etasq * (1.5 - 0.5 * eeta)) +
+          0.75 * rec.x1mth2 * (2.0 * etasq - eeta * (1.0 + etasq)) * Math.cos(2.0 * rec.argpo)));
+      rec.cc5 = 2.0 * coef1 * ao * omeosq * (1.0 + 2.75 * (etasq + eeta) + eeta * etasq);
+
+      const cosio4 = cosio2 * cosio2;
+      const temp1 = 1.5 * J2 * pinvsq * rec.no;
+      const temp2 = 0.5 * temp1 * J2 * pinvsq;
+      const temp3 = -0.46875 * J4 * pinvsq * pinvsq * rec.no;
+      rec.mdot = rec.no + 0.5 * temp1 * rteosq * rec.con41 +
+        0.0625 * temp2 * rteosq * (13.0 - 78.0 * cosio2 + 137.0 * cosio4);
+      rec.argpdot = -0.5 * temp1 * con42 +
+        0.0625 * temp2 * (7.0 - 114.0 * cosio2 + 395.0 * cosio4) +
+        temp3 * (3.0 - 36.0 * cosio2 + 49.0 * cosio4);
+      const xhdot1 = -temp1 * cosio;
+      rec.nodedot = xhdot1 + (0.5 * temp2 * (4.0 - 19.0 * cosio2) + 2.0 * temp3 * (3.0 - 7.0 * cosio2)) * cosio;
+      const xpidot = rec.argpdot + rec.nodedot;
+      rec.omgcof = rec.bstar * cc3 * Math.cos(rec.argpo);
+      rec.xmcof = 0.0;
+      if (rec.ecco > 1.0e-4) {
+        rec.xmcof = -X2O3 * coef * rec.bstar / eeta;
+      }
+      rec.nodecf = 3.5 * omeosq * xhdot1 * rec.cc1;
+      rec.t2cof = 1.5 * rec.cc1;
+
+      // Avoid a divide by zero for inclinations of 180 degrees
+      const xlcofDenominator = Math.abs(cosio + 1.0) > 1.5e-12 ? 1.0 + cosio : 1.5e-12;
+      rec.xlcof = -0.25 * J3OJ2 * sinio * (3.0 + 5.0 * cosio) / xlcofDenominator;
+      rec.aycof = -0.5 * J3OJ2 * sinio;
+
+      rec.delmo = Math.pow(1.0 + rec.eta * Math.cos(rec.mo), 3);
+      rec.sinmao = Math.sin(rec.mo);
+      rec.x7thm1 = 7.0 * cosio2 - 1.0;
+
+      // Deep-space initialization for periods of 225 minutes or more
+      if (Sgp4Propagator.TWO_PI / rec.no >= 225.0) {
+        rec.method = 'd';
+        rec.isimp = 1;
+        const tc = 0.0;
+
+        const common = this.dscom(epoch, rec.ecco, rec.argpo, tc, rec.inclo, rec.nodeo, rec.no);
+
+        const periodic = this.dpper({
+          ep: rec.ecco,
+          inclp: rec.inclo,
+          nodep: rec.nodeo,
+          argpp: rec.argpo,
+          mp: rec.mo,
+        });
+        rec.ecco = periodic.ep;
+        rec.inclo = periodic.inclp;
+        rec.nodeo = periodic.nodep;
+        rec.argpo = periodic.argpp;
+        rec.mo = periodic.mp;
+
+        this.dsinit(common, tc, xpidot, eccsq);
+      }
+
+      // Higher order drag terms are only used for near-Earth orbits with perigee above 220 km
+      if (rec.isimp !== 1) {
+        const cc1sq = rec.cc1 * rec.cc1;
+        rec.d2 = 4.0 * ao * tsi * cc1sq;
+        const temp = rec.d2 * tsi * rec.cc1 / 3.0;
+        rec.d3 = (17.0 * ao + sfour) * temp;
+        rec.d4 = 0.5 * temp * ao * tsi * (221.0 * ao + 31.0 * sfour) * rec.cc1;
+        rec.t3cof = rec.d2 + 2.0 * cc1sq;
+        rec.t4cof = 0.25 * (3.0 * rec.d3 + rec.cc1 * (12.0 * rec.d2 + 10.0 * cc1sq));
+        rec.t5cof = 0.2 * (3.0 * rec.d4 + 12.0 * rec.cc1 * rec.d3 +
+          6.0 * rec.d2 * rec.d2 + 15.0 * cc1sq * (2.0 * rec.d2 + cc1sq));
+      }
+    }
+
+    this.sgp4(0.0);
+    rec.init = false;
+  }
+
+  /**
+   * Core SGP4/SDP4 propagation to tsince minutes from epoch
+   */
+  private sgp4(tsince: number): TemeState | null {
+    const rec = this.rec;
+    const { J2, J3OJ2, XKE, X2O3, TWO_PI, EARTH_RADIUS, VKMPERSEC } = Sgp4Propagator;
+    const temp4 = 1.5e-12;
+
+    rec.t = tsince;
+    rec.error = 0;
+
+    // Secular gravity and atmospheric drag
+    const xmdf = rec.mo + rec.mdot * rec.t;
+    const argpdf = rec.argpo + rec.argpdot * rec.t;
+    const nodedf = rec.nodeo + rec.nodedot * rec.t;
+    let argpm = argpdf;
+    let mm = xmdf;
+    const t2 = rec.t * rec.t;
+    let nodem = nodedf + rec.nodecf * t2;
+    let tempa = 1.0 - rec.cc1 * rec.t;
+    let tempe = rec.bstar * rec.cc4 * rec.t;
+    let templ = rec.t2cof * t2;
+
+    if (rec.isimp !== 1) {
+      const delomg = rec.omgcof * rec.t;
+      const delmtemp = 1.0 + rec.eta * Math.cos(xmdf);
+      const delm = rec.xmcof * (delmtemp * delmtemp * delmtemp - rec.delmo);
+      const temp = delomg + delm;
+      mm = xmdf + temp;
+      argpm = argpdf - temp;
+      const t3 = t2 * rec.t;
+      const t4 = t3 * rec.t;
+      tempa = tempa - rec.d2 * t2 - rec.d3 * t3 - rec.d4 * t4;
+      tempe += rec.bstar * rec.cc5 * (Math.sin(mm) - rec.sinmao);
+      templ = templ + rec.t3cof * t3 + t4 * (rec.t4cof + rec.t * rec.t5cof);
+    }
+
+    let nm = rec.no;
+    let em = rec.ecco;
+    let inclm = rec.inclo;
+
+    if (rec.method === 'd') {
+      const deepSpace = this.dspace(rec.t, { em, argpm, inclm, mm, nodem, nm });
+      em = deepSpace.em;
+      argpm = deepSpace.argpm;
+      inclm = deepSpace.inclm;
+      mm = deepSpace.mm;
+      nodem = deepSpace.nodem;
+      nm = deepSpace.nm;
+    }
+
+    if (nm <= 0.0) {
+      rec.error = 2;
+      return null;
+    }
+
+    const am = Math.pow(XKE / nm, X2O3) * tempa * tempa;
+    nm = XKE / Math.pow(am, 1.5);
+    em -= tempe;
+
+    if (em >= 1.0 || em < -0.001) {
+      rec.error = 1;
+      return null;
+    }
+
+    // Avoid a divide by zero
+    if (em < 1.0e-6) {
+      em = 1.0e-6;
+    }
+    mm += rec.no * templ;
+    let xlm = mm + argpm + nodem;
+    nodem %= TWO_PI;
+    argpm %= TWO_PI;
+    xlm %= TWO_PI;
+    mm = (xlm - argpm - nodem) % TWO_PI;
+
+    // Lunar-solar periodics
+    let ep = em;
+    let xincp = inclm;
+    let argpp = argpm;
+    let nodep = nodem;
+    let mp = mm;
+    let sinip = Math.sin(inclm);
+    let cosip = Math.cos(inclm);
+
+    if (rec.method === 'd') {
+      const periodic = this.dpper({ ep, inclp: xincp, nodep, argpp, mp });
+      ep = periodic.ep;
+      xincp = periodic.inclp;
+      nodep = periodic.nodep;
+      argpp = periodic.argpp;
+      mp = periodic.mp;
+
+      if (xincp < 0.0) {
+        xincp = -xincp;
+        nodep += Math.PI;
+        argpp -= Math.PI;
+      }
+      if (ep < 0.0 || ep > 1.0) {
+        rec.error = 3;
+        return null;
+      }
+
+      // Long period periodics depend on the perturbed inclination
+      sinip = Math.sin(xincp);
+      cosip = Math.cos(xincp);
+      rec.aycof = -0.5 * J3OJ2 * sinip;
+      const xlcofDenominator = Math.abs(cosip + 1.0) > 1.5e-12 ? 1.0 + cosip : temp4;
+      rec.xlcof = -0.25 * J3OJ2 * sinip * (3.0 + 5.0 * cosip) / xlcofDenominator;
+    }
+
+    const axnl = ep * Math.cos(argpp);
+    let temp = 1.0 / (am * (1.0 - ep * ep));
+    const aynl = ep * Math.sin(argpp) + temp * rec.aycof;
+    const xl = mp + argpp + nodep + temp * rec.xlcof * axnl;
+
+    // Solve Kepler's equation (Newton-Raphson with step limiting)
+    const u = (xl - nodep) % TWO_PI;
+    let eo1 = u;
+    let tem5 = 9999.9;
+    let ktr = 1;
+    let sineo1 = 0;
+    let coseo1 = 0;
+    while (Math.abs(tem5) >= 1.0e-12 && ktr <= 10) {
+      sineo1 = Math.sin(eo1);
+      coseo1 = Math.cos(eo1);
+      tem5 = 1.0 - coseo1 * axnl - sineo1 * aynl;
+      tem5 = (u - aynl * coseo1 + axnl * sineo1 - eo1) / tem5;
+      if (Math.abs(tem5) >= 0.95) {
+        tem5 = tem5 > 0.0 ? 0.95 : -0.95;
+      }
+      eo1 += tem5;
+      ktr += 1;
+    }
+
+    // Short period preliminary quantities
+    const ecose = axnl * coseo1 + aynl * sineo1;
+    const esine = axnl * sineo1 - aynl * coseo1;
+    const el2 = axnl * axnl + aynl * aynl;
+    const pl = am * (1.0 - el2);
+    if (pl < 0.0) {
+      rec.error = 4;
+      return null;
+    }
+
+    const rl = am * (1.0 - ecose);
+    const rdotl = Math.sqrt(am) * esine / rl;
+    const rvdotl = Math.sqrt(pl) / rl;
+    const betal = Math.sqrt(1.0 - el2);
+    temp = esine / (1.0 + betal);
+    const sinu = am / rl * (sineo1 - aynl - axnl * temp);
+    const cosu = am / rl * (coseo1 - axnl + aynl * temp);
+    let su = Math.atan2(sinu, cosu);
+    const sin2u = (cosu + cosu) * sinu;
+    const cos2u = 1.0 - 2.0 * sinu * sinu;
+    temp = 1.0 / pl;
+    const temp1 = 0.5 * J2 * temp;
+    const temp2 = temp1 * temp;
+
+    // Short period periodics
+    if (rec.method === 'd') {
+      const cosisq = cosip * cosip;
+      rec.con41 = 3.0 * cosisq - 1.0;
+      rec.x1mth2 = 1.0 - cosisq;
+      rec.x7thm1 = 7.0 * cosisq - 1.0;
+    }
+
+    const mrt = rl * (1.0 - 1.5 * temp2 * betal * rec.con41) + 0.5 * temp1 * rec.x1mth2 * cos2u;
+
+    // Satellite has decayed below the Earth's surface
+    if (mrt < 1.0) {
+      rec.error = 6;
+      return null;
+    }
+
+    su -= 0.25 * temp2 * rec.x7thm1 * sin2u;
+    const xnode = nodep + 1.5 * temp2 * cosip * sin2u;
+    const xinc = xincp + 1.5 * temp2 * cosip * sinip * cos2u;
+    const mvt = rdotl - nm * temp1 * rec.x1mth2 * sin2u / XKE;
+    const rvdot = rvdotl + nm * temp1 * (rec.x1mth2 * cos2u + 1.5 * rec.con41) / XKE;
+
+    // Orientation vectors
+    const sinsu = Math.sin(su);
+    const cossu = Math.cos(su);
+    const snod = Math.sin(xnode);
+    const cnod = Math.cos(xnode);
+    const sini = Math.sin(xinc);
+    const cosi = Math.cos(xinc);
+    const xmx = -snod * cosi;
+    const xmy = cnod * cosi;
+    const ux = xmx * sinsu + cnod * cossu;
+    const uy = xmy * sinsu + snod * cossu;
+    const uz = sini * sinsu;
+    const vx = xmx * cossu - cnod * sinsu;
+    const vy = xmy * cossu - snod * sinsu;
+    const vz = sini * cossu;
+
+    return {
+      position: {
+        x: mrt * ux * EARTH_RADIUS,
+        y: mrt * uy * EARTH_RADIUS,
+        z: mrt * uz * EARTH_RADIUS,
+      },
+      velocity: {
+        x: (mvt * ux + rvdot * vx) * VKMPERSEC,
+        y: (mvt * uy + rvdot * vy) * VKMPERSEC,
+        z: (mvt * uz + rvdot * vz) * VKMPERSEC,
+      },
+      minutesSinceEpoch: tsince,
+    };
+  }
+
+  /**
+   * Lunar-solar terms shared by the deep-space initialization and periodics (dscom)
+   */
+  private dscom(epoch: number, ep: number, argpp: number, tc: number, inclp: number, nodep: number, np: number): DeepSpaceCommon {
+    const rec = this.rec;
+    const TWO_PI = Sgp4Propagator.TWO_PI;
+    const zes = 0.01675;
+    const zel = 0.05490;
+    const c1ss = 2.9864797e-6;
+    const c1l = 4.7968065e-7;
+    const zsinis = 0.39785416;
+    const zcosis = 0.91744867;
+    const zcosgs = 0.1945905;
+    const zsings = -0.98088458;
+
+    const nm = np;
+    const em = ep;
+    const snodm = Math.sin(nodep);
+    const cnodm = Math.cos(nodep);
+    const sinomm = Math.sin(argpp);
+    const cosomm = Math.cos(argpp);
+    const sinim = Math.sin(inclp);
+    const cosim = Math.cos(inclp);
+    const emsq = em * em;
+    const betasq = 1.0 - emsq;
+    const rtemsq = Math.sqrt(betasq);
+
+    // Lunar-solar epoch terms
+    rec.peo = 0.0;
+    rec.pinco = 0.0;
+    rec.plo = 0.0;
+    rec.pgho = 0.0;
+    rec.pho = 0.0;
+    const day = epoch + 18261.5 + tc / 1440.0;
+    const xnodce = (4.5236020 - 9.2422029e-4 * day) % TWO_PI;
+    const stem = Math.sin(xnodce);
+    const ctem = Math.cos(xnodce);
+    const zcosil = 0.91375164 - 0.03568096 * ctem;
+    const zsinil = Math.sqrt(1.0 - zcosil * zcosil);
+    const zsinhl = 0.089683511 * stem / zsinil;
+    const zcoshl = Math.sqrt(1.0 - zsinhl * zsinhl);
+    const gam = 5.8351514 + 0.0019443680 * day;
+    let zx = 0.39785416 * stem / zsinil;
+    const zy = zcoshl * ctem + 0.91744867 * zsinhl * stem;
+    zx = Math.atan2(zx, zy);
+    zx += gam - xnodce;
+    const zcosgl = Math.cos(zx);
+    const zsingl = Math.sin(zx);
+
+    // First pass computes the solar terms, the second the lunar terms
+    let zcosg = zcosgs;
+    let zsing = zsings;
+    let zcosi = zcosis;
+    let zsini = zsinis;
+    let zcosh = cnodm;
+    let zsinh = snodm;
+    let cc = c1ss;
+    const xnoi = 1.0 / nm;
+
+    const solar = { s1: 0, s2: 0, s3: 0, s4: 0, s5: 0, s6: 0, s7: 0, z1: 0, z2: 0, z3: 0, z11: 0, z12: 0, z13: 0, z21: 0, z22: 0, z23: 0, z31: 0, z32: 0, z33: 0 };
+    const lunar = { ...solar };
+
+    for (let lsflg = 1; lsflg <= 2; lsflg++) {
+      const a1 = zcosg * zcosh + zsing * zcosi * zsinh;
+      const a3 = -zsing * zcosh + zcosg * zcosi * zsinh;
+      const a7 = -zcosg * zsinh + zsing * zcosi * zcosh;
+      const a8 = zsing * zsini;
+      const a9 = zsing * zsinh + zcosg * zcosi * zcosh;
+      const a10 = zcosg * zsini;
+      const a2 = cosim * a7 + sinim * a8;
+      const a4 = cosim * a9 + sinim * a10;
+      const a5 = -sinim * a7 + cosim * a8;
+      const a6 = -sinim * a9 + cosim * a10;
+
+      const x1 = a1 * cosomm + a2 * sinomm;
+      const x2 = a3 * cosomm + a4 * sinomm;
+      const x3 = -a1 * sinomm + a2 * cosomm;
+      const x4 = -a3 * sinomm + a4 * cosomm;
+      const x5 = a5 * sinomm;
+      const x6 = a6 * sinomm;
+      const x7 = a5 * cosomm;
+      const x8 = a6 * cosomm;
+
+      const target = lsflg === 1 ? solar : lunar;
+      target.z31 = 12.0 * x1 * x1 - 3.0 * x3 * x3;
+      target.z32 = 24.0 * x1 * x2 - 6.0 * x3 * x4;
+      target.z33 = 12.0 * x2 * x2 - 3.0 * x4 * x4;
+
+      target.z1 = 3.0 * (a1 * a1 + a2 * a2) + target.z31 * emsq;
+      target.z2 = 6.0 * (a1 * a3 + a2 * a4) + target.z32 * emsq;
+      target.z3 = 3.0 * (a3 * a3 + a4 * a4) + target.z33 * emsq;
+
+      target.z11 = -6.0 * a1 * a5 + emsq * (-24.0 * x1 * x7 - 6.0 * x3 * x5);
+      target.z12 = -6.0 * (a1 * a6 + a3 * a5) + emsq * (-24.0 * (x2 * x7 + x1 * x8) + -6.0 * (x3 * x6 + x4 * x5));
+      target.z13 = -6.0 * a3 * a6 + emsq * (-24.0 * x2 * x8 - 6.0 * x4 * x6);
+
+      target.z21 = 6.0 * a2 * a5 + emsq * (24.0 * x1 * x5 - 6.0 * x3 * x7);
+      target.z22 = 6.0 * (a4 * a5 + a2 * a6) + emsq * (24.0 * (x2 * x5 + x1 * x6) - 6.0 * (x4 * x7 + x3 * x8));
+      target.z23 = 6.0 * a4 * a6 + emsq * (24.0 * x2 * x6 - 6.0 * x4 * x8);
+
+      target.z1 = target.z1 + target.z1 + betasq * target.z31;
+      target.z2 = target.z2 + target.z2 + betasq * target.z32;
+      target.z3 = target.z3 + target.z3 + betasq * target.z33;
+      target.s3 = cc * xnoi;
+      target.s2 = -0.5 * target.s3 / rtemsq;
+      target.s4 = target.s3 * rtemsq;
+      target.s1 = -15.0 * em * target.s4;
+      target.s5 = x1 * x3 + x2 * x4;
+      target.s6 = x2 * x3 + x1 * x4;
+      target.s7 = x2 * x4 - x1 * x3;
+
+      if (lsflg === 1) {
+        zcosg = zcosgl;
+        zsing = zsingl;
+        zcosi = zcosil;
+        zsini = zsinil;
+        zcosh = zcoshl * cnodm + zsinhl * snodm;
+        zsinh = snodm * zcoshl - cnodm * zsinhl;
+        cc = c1l;
+      }
+    }
+
+    rec.zmol = (4.7199672 + (0.22997150 * day - gam)) % TWO_PI;
+    rec.zmos = (6.2565837 + 0.017201977 * day) % TWO_PI;
+
+    // Solar terms
+    rec.se2 = 2.0 * solar.s1 * solar.s6;
+    rec.se3 = 2.0 * solar.s1 * solar.s7;
+    rec.si2 = 2.0 * solar.s2 * solar.z12;
+    rec.si3 = 2.0 * solar.s2 * (solar.z13 - solar.z11);
+    rec.sl2 = -2.0 * solar.s3 * solar.z2;
+    rec.sl3 = -2.0 * solar.s3 * (solar.z3 - solar.z1);
+    rec.sl4 = -2.0 * solar.s3 * (-21.0 - 9.0 * emsq) * zes;
+    rec.sgh2 = 2.0 * solar.s4 * solar.z32;
+    rec.sgh3 = 2.0 * solar.s4 * (solar.z33 - solar.z31);
+    rec.sgh4 = -18.0 * solar.s4 * zes;
+    rec.sh2 = -2.0 * solar.s2 * solar.z22;
+    rec.sh3 = -2.0 * solar.s2 * (solar.z23 - solar.z21);
+
+    // Lunar terms
+    rec.ee2 = 2.0 * lunar.s1 * lunar.s6;
+    rec.e3 = 2.0 * lunar.s1 * lunar.s7;
+    rec.xi2 = 2.0 * lunar.s2 * lunar.z12;
+    rec.xi3 = 2.0 * lunar.s2 * (lunar.z13 - lunar.z11);
+    rec.xl2 = -2.0 * lunar.s3 * lunar.z2;
+    rec.xl3 = -2.0 * lunar.s3 * (lunar.z3 - lunar.z1);
+    rec.xl4 = -2.0 * lunar.s3 * (-21.0 - 9.0 * emsq) * zel;
+    rec.xgh2 = 2.0 * lunar.s4 * lunar.z32;
+    rec.xgh3 = 2.0 * lunar.s4 * (lunar.z33 - lunar.z31);
+    rec.xgh4 = -18.0 * lunar.s4 * zel;
+    rec.xh2 = -2.0 * lunar.s2 * lunar.z22;
+    rec.xh3 = -2.0 * lunar.s2 * (lunar.z23 - lunar.z21);
+
+    return {
+      snodm, cnodm, sinim, cosim, sinomm, cosomm, day, em, emsq, gam, rtemsq, nm,
+      s1: lunar.s1, s2: lunar.s2, s3: lunar.s3, s4: lunar.s4, s5: lunar.s5, s6: lunar.s6, s7: lunar.s7,
+      ss1: solar.s1, ss2: solar.s2, ss3: solar.s3, ss4: solar.s4, ss5: solar.s5, ss6: solar.s6, ss7: solar.s7,
+      sz1: solar.z1, sz2: solar.z2, sz3: solar.z3, sz11: solar.z11, sz12: solar.z12, sz13: solar.z13,
+      sz21: solar.z21, sz22: solar.z22, sz23: solar.z23, sz31: solar.z31, sz32: solar.z32, sz33: solar.z33,
+      z1: lunar.z1, z2: lunar.z2, z3: lunar.z3, z11: lunar.z11, z12: lunar.z12, z13: lunar.z13,
+      z21: lunar.z21, z22: lunar.z22, z23: lunar.z23, z31: lunar.z31, z32: lunar.z32, z33: lunar.z33,
+    };
+  }
+
+  /**
+   * Deep-space long-period lunar-solar periodic contributions (dpper)
+   */
+  private dpper(elements: PeriodicElements): PeriodicElements {
+    const rec = this.rec;
+    const TWO_PI = Sgp4Propagator.TWO_PI;
+    const zns = 1.19459e-5;
+    const zes = 0.01675;
+    const znl = 1.5835218e-4;
+    const zel = 0.05490;
+    let { ep, inclp, nodep, argpp, mp } = elements;
+
+    // Solar periodics
+    let zm = rec.init ? rec.zmos : rec.zmos + zns * rec.t;
+    let zf = zm + 2.0 * zes * Math.sin(zm);
+    let sinzf = Math.sin(zf);
+    let f2 = 0.5 * sinzf * sinzf - 0.25;
+    let f3 = -0.5 * sinzf * Math.cos(zf);
+    const ses = rec.se2 * f2 + rec.se3 * f3;
+    const sis = rec.si2 * f2 + rec.si3 * f3;
+    const sls = rec.sl2 * f2 + rec.sl3 * f3 + rec.sl4 * sinzf;
+    const sghs = rec.sgh2 * f2 + rec.sgh3 * f3 + rec.sgh4 * sinzf;
+    const shs = rec.sh2 * f2 + rec.sh3 * f3;
+
+    // Lunar periodics
+    zm = rec.init ? rec.zmol : rec.zmol + znl * rec.t;
+    zf = zm + 2.0 * zel * Math.sin(zm);
+    sinzf = Math.sin(zf);
+    f2 = 0.5 * sinzf * sinzf - 0.25;
+    f3 = -0.5 * sinzf * Math.cos(zf);
+    const sel = rec.ee2 * f2 + rec.e3 * f3;
+    const sil = rec.xi2 * f2 + rec.xi3 * f3;
+    const sll = rec.xl2 * f2 + rec.xl3 * f3 + rec.xl4 * sinzf;
+    const sghl = rec.xgh2 * f2 + rec.xgh3 * f3 + rec.xgh4 * sinzf;
+    const shll = rec.xh2 * f2 + rec.xh3 * f3;
+
+    let pe = ses + sel;
+    let pinc = sis + sil;
+    let pl = sls + sll;
+    let pgh = sghs + sghl;
+    let ph = shs + shll;
+
+    if (!rec.init) {
+      pe -= rec.peo;
+      pinc -= rec.pinco;
+      pl -= rec.plo;
+      pgh -= rec.pgho;
+      ph -= rec.pho;
+      inclp += pinc;
+      ep += pe;
+      const sinip = Math.sin(inclp);
+      const cosip = Math.cos(inclp);
+
+      if (inclp >= 0.2) {
+        // Apply periodics directly
+        ph /= sinip;
+        pgh -= cosip * ph;
+        argpp += pgh;
+        nodep += ph;
+        mp += pl;
+      } else {
+        // Apply periodics with the Lyddane modification for low inclinations
+        const sinop = Math.sin(nodep);
+        const cosop = Math.cos(nodep);
+        let alfdp = sinip * sinop;
+        let betdp = sinip * cosop;
+        const dalf = ph * cosop + pinc * cosip * sinop;
+        const dbet = -ph * sinop + pinc * cosip * cosop;
+        alfdp += dalf;
+        betdp += dbet;
+        nodep %= TWO_PI;
+        let xls = mp + argpp + cosip * nodep;
+        const dls = pl + pgh - pinc * nodep * sinip;
+        xls += dls;
+        const xnoh = nodep;
+        nodep = Math.atan2(alfdp, betdp);
+        if (Math.abs(xnoh - nodep) > Math.PI) {
+          nodep = nodep < xnoh ? nodep + TWO_PI : nodep - TWO_PI;
+        }
+        mp += pl;
+        argpp = xls - mp - cosip * nodep;
+      }
+    }
+
+    return { ep, inclp, nodep, argpp, mp };
+  }
+
+  /**
+   * Deep-space secular rates and geopotential resonance initialization (dsinit)
+   */
+  private dsinit(common: DeepSpaceCommon, tc: number, xpidot: number, eccsq: number): void {
+    const rec = this.rec;
+    const { XKE, X2O3, TWO_PI } = Sgp4Propagator;
+    const q22 = 1.7891679e-6;
+    const q31 = 2.1460748e-6;
+    const q33 = 2.2123015e-7;
+    const root22 = 1.7891679e-6;
+    const root44 = 7.3636953e-9;
+    const root54 = 2.1765803e-9;
+    const rptim = 4.37526908801129966e-3; // Earth rotation rate, rad/min
+    const root32 = 3.7393792e-7;
+    const root52 = 1.1428639e-7;
+    const znl = 1.5835218e-4;
+    const zns = 1.19459e-5;
+
+    const { cosim, sinim, s1, s2, s3, s4, s5, ss1, ss2, ss3, ss4, ss5, sz1, sz3, sz11, sz13, sz21, sz23, sz31, sz33, z1, z3, z11, z13, z21, z23, z31, z33 } = common;
+    let { em, emsq } = common;
+    const inclm = rec.inclo;
+    const nm = rec.no;
+
+    // Resonance flags: 1 for 24-hour (synchronous), 2 for 12-hour orbits
+    rec.irez = 0;
+    if (nm < 0.0052359877 && nm > 0.0034906585) {
+      rec.irez = 1;
+    }
+    if (nm >= 8.26e-3 && nm <= 9.24e-3 && em >= 0.5) {
+      rec.irez = 2;
+    }
+
+    // Solar terms
+    const ses = ss1 * zns * ss5;
+    const sis = ss2 * zns * (sz11 + sz13);
+    const sls = -zns * ss3 * (sz1 + sz3 - 14.0 - 6.0 * emsq);
+    const sghs = ss4 * zns * (sz31 + sz33 - 6.0);
+    let shs = -zns * ss2 * (sz21 + sz23);
+
+    // Near-equatorial and retrograde-equatorial orbits have no node rate
+    if (inclm < 5.2359877e-2 || inclm > Math.PI - 5.2359877e-2) {
+      shs = 0.0;
+    }
+    if (sinim !== 0.0) {
+      shs /= sinim;
+    }
+    const sgs = sghs - cosim * shs;
+
+    // Lunar terms
+    rec.dedt = ses + s1 * znl * s5;
+    rec.didt = sis + s2 * znl * (z11 + z13);
+    rec.dmdt = sls - znl * s3 * (z1 + z3 - 14.0 - 6.0 * emsq);
+    const sghl = s4 * znl * (z31 + z33 - 6.0);
+    let shll = -znl * s2 * (z21 + z23);
+
+    if (inclm < 5.2359877e-2 || inclm > Math.PI - 5.2359877e-2) {
+      shll = 0.0;
+    }
+    rec.domdt = sgs + sghl;
+    rec.dnodt = shs;
+    if (sinim !== 0.0) {
+      rec.domdt -= cosim / sinim * shll;
+      rec.dnodt += shll / sinim;
+    }
+
+    const theta = (rec.gsto + tc * rptim) % TWO_PI;
+
+    if (rec.irez === 0) {
+      return;
+    }
+
+    const aonv = Math.pow(nm / XKE, X2O3);
+
+    // Geopotential resonance for 12-hour orbits
+    if (rec.irez === 2) {
+      const cosisq = cosim * cosim;
+      const emo = em;
+      em = rec.ecco;
+      const emsqo = emsq;
+      emsq = eccsq;
+      const eoc = em * emsq;
+      const g201 = -0.306 - (em - 0.64) * 0.440;
+
+      let g211: number, g310: number, g322: number, g410: number, g422: number, g520: number;
+      if (em <= 0.65) {
+        g211 = 3.616 - 13.2470 * em + 16.2900 * emsq;
+        g310 = -19.302 + 117.3900 * em - 228.4190 * emsq + 156.5910 * eoc;
+        g322 = -18.9068 + 109.7927 * em - 214.6334 * emsq + 146.5816 * eoc;
+        g410 = -41.122 + 242.6940 * em - 471.0940 * emsq + 313.9530 * eoc;
+        g422 = -146.407 + 841.8800 * em - 1629.014 * emsq + 1083.4350 * eoc;
+        g520 = -532.114 + 3017.977 * em - 5740.032 * emsq + 3708.2760 * eoc;
+      } else {
+        g211 = -72.099 + 331.819 * em - 508.738 * emsq + 266.724 * eoc;
+        g310 = -346.844 + 1582.851 * em - 2415.925 * emsq + 1246.113 * eoc;
+        g322 = -342.585 + 1554.908 * em - 2366.899 * emsq + 1215.972 * eoc;
+        g410 = -1052.797 + 4758.686 * em - 7193.992 * emsq + 3651.957 * eoc;
+        g422 = -3581.690 + 16178.110 * em - 24462.770 * emsq + 12422.520 * eoc;
+        g520 = em > 0.715
+          ? -5149.66 + 29936.92 * em - 54087.36 * emsq + 31324.56 * eoc
+          : 1464.74 - 4664.75 * em + 3763.64 * emsq;
+      }
+
+      let g533: number, g521: number, g532: number;
+      if (em < 0.7) {
+        g533 = -919.22770 + 4988.6100 * em - 9064.7700 * emsq + 5542.21 * eoc;
+        g521 = -822.71072 + 4568.6173 * em - 8491.4146 * emsq + 5337.524 * eoc;
+        g532 = -853.66600 + 4690.2500 * em - 8624.7700 * emsq + 5341.4 * eoc;
+      } else {
+        g533 = -37995.780 + 161616.52 * em - 229838.20 * emsq + 109377.94 * eoc;
+        g521 = -51752.104 + 218913.95 * em - 309468.16 * emsq + 146349.42 * eoc;
+        g532 = -40023.880 + 170470.89 * em - 242699.48 * emsq + 115605.82 * eoc;
+      }
+
+      const sini2 = sinim * sinim;
+      const f220 = 0.75 * (1.0 + 2.0 * cosim + cosisq);
+      const f221 = 1.5 * sini2;
+      const f321 = 1.875 * sinim * (1.0 - 2.0 * cosim - 3.0 * cosisq);
+      const f322 = -1.875 * sinim * (1.0 + 2.0 * cosim - 3.0 * cosisq);
+      const f441 = 35.0 * sini2 * f220;
+      const f442 = 39.3750 * sini2 * sini2;
+      const f522 = 9.84375 * sinim * (sini2 * (1.0 - 2.0 * cosim - 5.0 * cosisq) +
+        0.33333333 * (-2.0 + 4.0 * cosim + 6.0 * cosisq));
+      const f523 = sinim * (4.92187512 * sini2 * (-2.0 - 4.0 * cosim + 10.0 * cosisq) +
+        6.56250012 * (1.0 + 2.0 * cosim - 3.0 * cosisq));
+      const f542 = 29.53125 * sinim * (2.0 - 8.0 * cosim + cosisq * (-12.0 + 8.0 * cosim + 10.0 * cosisq));
+      const f543 = 29.53125 * sinim * (-2.0 - 8.0 * cosim + cosisq * (12.0 + 8.0 * cosim - 10.0 * cosisq));
+
+      const xno2 = nm * nm;
+      const ainv2 = aonv * aonv;
+      let temp1 = 3.0 * xno2 * ainv2;
+      let temp = temp1 * root22;
+      rec.d2201 = temp * f220 * g201;
+      rec.d2211 = temp * f221 * g211;
+      temp1 *= aonv;
+      temp = temp1 * root32;
+      rec.d3210 = temp * f321 * g310;
+      rec.d3222 = temp * f322 * g322;
+      temp1 *= aonv;
+      temp = 2.0 * temp1 * root44;
+      rec.d4410 = temp * f441 * g410;
+      rec.d4422 = temp * f442 * g422;
+      temp1 *= aonv;
+      temp = temp1 * root52;
+      rec.d5220 = temp * f522 * g520;
+      rec.d5232 = temp * f523 * g532;
+      temp = 2.0 * temp1 * root54;
+      rec.d5421 = temp * f542 * g521;
+      rec.d5433 = temp * f543 * g533;
+      rec.xlamo = (rec.mo + rec.nodeo + rec.nodeo - (theta + theta)) % TWO_PI;
+      rec.xfact = rec.mdot + rec.dmdt + 2.0 * (rec.nodedot + rec.dnodt - rptim) - rec.no;
+      em = emo;
+      emsq = emsqo;
+    }
+
+    // Synchronous resonance terms
+    if (rec.irez === 1) {
+      const g200 = 1.0 + emsq * (-2.5 + 0.8125 * emsq);
+      const g310 = 1.0 + 2.0 * emsq;
+      const g300 = 1.0 + emsq * (-6.0 + 6.60937 * emsq);
+      const f220 = 0.75 * (1.0 + cosim) * (1.0 + cosim);
+      const f311 = 0.9375 * sinim * sinim * (1.0 + 3.0 * cosim) - 0.75 * (1.0 + cosim);
+      let f330 = 1.0 + cosim;
+      f330 *= 1.875 * f330 * f330;
+      rec.del1 = 3.0 * nm * nm * aonv * aonv;
+      rec.del2 = 2.0 * rec.del1 * f220 * g200 * q22;
+      rec.del3 = 3.0 * rec.del1 * f330 * g300 * q33 * aonv;
+      rec.del1 = rec.del1 * f311 * g310 * q31 * aonv;
+      rec.xlamo = (rec.mo + rec.nodeo + rec.argpo - theta) % TWO_PI;
+      rec.xfact = rec.mdot + xpidot + rec.dmdt + rec.domdt + rec.dnodt - (rec.no + rptim);
+    }
+
+    // Initialize the resonance integrator
+    rec.xli = rec.xlamo;
+    rec.xni = rec.no;
+    rec.atime = 0.0;
+  }
+
+  /**
+   * Deep-space secular effects and resonance integration (dspace)
+   */
+  private dspace(
+    t: number,
+    mean: { em: number; argpm: number; inclm: number; mm: number; nodem: number; nm: number }
+  ): { em: number; argpm: number; inclm: number; mm: number; nodem: number; nm: number } {
+    const rec = this.rec;
+    const TWO_PI = Sgp4Propagator.TWO_PI;
+    const fasx2 = 0.13130908;
+    const fasx4 = 2.8843198;
+    const fasx6 = 0.37448087;
+    const g22 = 5.7686396;
+    const g32 = 0.95240898;
+    const g44 = 1.8014998;
+    const g52 = 1.0508330;
+    const g54 = 4.4108898;
+    const rptim = 4.37526908801129966e-3;
+    const stepp = 720.0;
+    const stepn = -720.0;
+    const step2 = 259200.0;
+
+    let { em, argpm, inclm, mm, nodem, nm } = mean;
+
+    const theta = (rec.gsto + t * rptim) % TWO_PI;
+    em += rec.dedt * t;
+    inclm += rec.didt * t;
+    argpm += rec.domdt * t;
+    nodem += rec.dnodt * t;
+    mm += rec.dmdt * t;
+
+    if (rec.irez !== 0) {
+      // Restart the integration from epoch when stepping backwards or across epoch
+      if (rec.atime === 0.0 || t * rec.atime <= 0.0 || Math.abs(t) < Math.abs(rec.atime)) {
+        rec.atime = 0.0;
+        rec.xni = rec.no;
+        rec.xli = rec.xlamo;
+      }
+
+      const delt = t > 0.0 ? stepp : stepn;
+      let ft = 0.0;
+      let xndt = 0.0;
+      let xldot = 0.0;
+      let xnddt = 0.0;
+      let integrating = true;
+
+      while (integrating) {
+        if (rec.irez !== 2) {
+          // Near-synchronous resonance terms
+          xndt = rec.del1 * Math.sin(rec.xli - fasx2) +
+            rec.del2 * Math.sin(2.0 * (rec.xli - fasx4)) +
+            rec.del3 * Math.sin(3.0 * (rec.xli - fasx6));
+          xldot = rec.xni + rec.xfact;
+          xnddt = rec.del1 * Math.cos(rec.xli - fasx2) +
+            2.0 * rec.del2 * Math.cos(2.0 * (rec.xli - fasx4)) +
+            3.0 * rec.del3 * Math.cos(3.0 * (rec.xli - fasx6));
+          xnddt *= xldot;
+        } else {
+          // Near half-day resonance terms
+          const xomi = rec.argpo + rec.argpdot * rec.atime;
+          const x2omi = xomi + xomi;
+          const x2li = rec.xli + rec.xli;
+          xndt = rec.d2201 * Math.sin(x2omi + rec.xli - g22) +
+            rec.d2211 * Math.sin(rec.xli - g22) +
+            rec.d3210 * Math.sin(xomi + rec.xli - g32) +
+            rec.d3222 * Math.sin(-xomi + rec.xli - g32) +
+            rec.d4410 * Math.sin(x2omi + x2li - g44) +
+            rec.d4422 * Math.sin(x2li - g44) +
+            rec.d5220 * Math.sin(xomi + rec.xli - g52) +
+            rec.d5232 * Math.sin(-xomi + rec.xli - g52) +
+            rec.d5421 * Math.sin(xomi + x2li - g54) +
+            rec.d5433 * Math.sin(-xomi + x2li - g54);
+          xldot = rec.xni + rec.xfact;
+          xnddt = rec.d2201 * Math.cos(x2omi + rec.xli - g22) +
+            rec.d2211 * Math.cos(rec.xli - g22) +
+            rec.d3210 * Math.cos(xomi + rec.xli - g32) +
+            rec.d3222 * Math.cos(-xomi + rec.xli - g32) +
+            rec.d5220 * Math.cos(xomi + rec.xli - g52) +
+            rec.d5232 * Math.cos(-xomi + rec.xli - g52) +
+            2.0 * (rec.d4410 * Math.cos(x2omi + x2li - g44) +
+              rec.d4422 * Math.cos(x2li - g44) +
+              rec.d5421 * Math.cos(xomi + x2li - g54) +
+              rec.d5433 * Math.cos(-xomi + x2li - g54));
+          xnddt *= xldot;
+        }
+
+        // Euler-Maclaurin integrator with fixed 720 minute steps
+        if (Math.abs(t - rec.atime) >= stepp) {
+          rec.xli += xldot * delt + xndt * step2;
+          rec.xni += xndt * delt + xnddt * step2;
+          rec.atime += delt;
+        } else {
+          ft = t - rec.atime;
+          integrating = false;
+        }
+      }
+
+      nm = rec.xni + xndt * ft + xnddt * ft * ft * 0.5;
+      const xl = rec.xli + xldot * ft + xndt * ft * ft * 0.5;
+      if (rec.irez !== 1) {
+        mm = xl - 2.0 * nodem + 2.0 * theta;
+      } else {
+        mm = xl - nodem - argpm + theta;
+      }
+      const dndt = nm - rec.no;
+      nm = rec.no + dndt;
+    }
+
+    return { em, argpm, inclm, mm, nodem, nm };
+  }
+}
@@ -1,4 +1,5 @@
 import * as THREE from 'three';
+import { SimulationClock } from '../models/SimulationClock';
 
 export interface SolarPosition {
   azimuth: number;        // Solar azimuth angle (radians from south)
@@ -32,6 +33,7 @@ export class TimeOfDayLighting {
   private scene: THREE.Scene;
   private config: TimeOfDayConfig;
   private currentTime: Date;
+  private simulationClock: SimulationClock | null = null;
   
   // Lighting components
   private sunLight!: THREE.DirectionalLight;
@@ -213,8 +215,12 @@ export class TimeOfDayLighting {
   }
 
   public update(deltaTime: number): void {
-    // Update time
-    this.currentTime.setTime(this.currentTime.getTime() + deltaTime * 1000 * this.config.timeScale);
+    // Update time - follow the shared clock when attached, otherwise keep a local time scale
+    if (this.simulationClock) {
+      this.currentTime = this.simulationClock.getDate();
+    } else {
+      this.currentTime.setTime(this.currentTime.getTime() + deltaTime * 1000 * this.config.timeScale);
+    }
     
     // Update lighting every 100ms (10 times per second) to avoid excessive calculations
     this.timeUpdateInterval += deltaTime;
@@ -498,12 +504,31 @@ export class TimeOfDayLighting {
     };
   }
 
+  /**
+   * Drive lighting from the shared simulation clock. While attached, setTime and
+   * setTimeScale act on the clock so every subsystem stays in step.
+   */
+  public setSimulationClock(clock: SimulationClock | null): void {
+    this.simulationClock = clock;
+    if (clock) {
+      this.currentTime = clock.getDate();
+      this.updateLighting();
+    }
+  }
+
   public setTime(date: Date): void {
+    if (this.simulationClock) {
+      this.simulationClock.jumpTo(date);
+    }
     this.currentTime = new Date(date);
     this.updateLighting();
   }
 
   public setTimeScale(scale: number): void {
+    if (this.simulationClock) {
+      this.simulationClock.setWarpFactor(scale);
+      return;
+    }
     this.config.timeScale = scale;
   }
 
@@ -1,4 +1,6 @@
 import * as THREE from 'three';
+import { Sgp4Propagator, TemeState } from './Sgp4Propagator';
+import { Coordinates } from '../models/Coordinates';
 
 export interface TleData {
   name: string;
@@ -6,6 +8,11 @@ export interface TleData {
   line2: string;
 }
 
+// A TLE as found in a file, before validation
+export interface TleRecord extends TleData {
+  lineNumber: number; // 1-based line of the first element line
+}
+
 export interface OrbitalElements {
   inclination: number;
   raan: number; // Right Ascension of Ascending Node
@@ -16,19 +23,49 @@ export interface OrbitalElements {
   epochYear: number;
   epochDay: number;
   noradId: number;
+  classification: string; // U, C or S
+  internationalDesignator: string;
+  firstDerivativeMeanMotion: number; // revolutions per day²
+  secondDerivativeMeanMotion: number; // revolutions per day³
+  bstar: number; // drag term, 1/earth radii
+  ephemerisType: number;
+  elementSetNumber: number;
+  revolutionNumber: number;
 }
 
 export interface SatellitePosition {
   position: THREE.Vector3;
   velocity: THREE.Vector3;
   orbitalElements: OrbitalElements;
+  teme: TemeState; // unscaled SGP4 output in km and km/s
 }
 
 export class TleParser {
   private static readonly EARTH_RADIUS = 6371; // km
-  private static readonly MU = 398600.4418; // Earth's standard gravitational parameter (km³/s²)
-  private static readonly MINUTES_PER_DAY = 1440;
   private static readonly J2000_EPOCH = 2451545.0; // Julian date for J2000.0 epoch
+  
+  // Initialized SGP4 propagators keyed by NORAD ID and element set epoch
+  private static propagators: Map<string, Sgp4Propagator> = new Map();
+  
+  // Fixed columns of each element line (0-based start, exclusive end) and their formats
+  private static readonly TLE_FIELDS: { line: 1 | 2; start: number; end: number; name: string; format: RegExp }[] = [
+    { line: 1, start: 2, end: 7, name: 'catalog number', format: /^(\s*\d+|[A-HJ-NP-Z]\d{4})$/ },
+    { line: 1, start: 7, end: 8, name: 'classification', format: /^[UCS ]$/ },
+    { line: 1, start: 18, end: 32, name: 'epoch', format: /^[\d ]{2}[\d ]{3}\.[\d ]+$/ },
+    { line: 1, start: 33, end: 43, name: 'first derivative of mean motion', format: /^[ +-]\.\d{8}$/ },
+    { line: 1, start: 44, end: 52, name: 'second derivative of mean motion', format: /^[ +-]\d{5}[+-]\d$/ },
+    { line: 1, start: 53, end: 61, name: 'B*', format: /^[ +-]\d{5}[+-]\d$/ },
+    { line: 1, start: 62, end: 63, name: 'ephemeris type', format: /^[\d ]$/ },
+    { line: 1, start: 64, end: 68, name: 'element set number', format: /^ *\d*$/ },
+    { line: 2, start: 2, end: 7, name: 'catalog number', format: /^(\s*\d+|[A-HJ-NP-Z]\d{4})$/ },
+    { line: 2, start: 8, end: 16, name: 'inclination', format: /^ *\d{1,3}\.\d+ *$/ },
+    { line: 2, start: 17, end: 25, name: 'right ascension of the ascending node', format: /^ *\d{1,3}\.\d+ *$/ },
+    { line: 2, start: 26, end: 33, name: 'eccentricity', format: /^\d{7}$/ },
+    { line: 2, start: 34, end: 42, name: 'argument of perigee', format: /^ *\d{1,3}\.\d+ *$/ },
+    { line: 2, start: 43, end: 51, name: 'mean anomaly', format: /^ *\d{1,3}\.\d+ *$/ },
+    { line: 2, start: 52, end: 63, name: 'mean motion', format: /^ *\d{1,2}\.\d+ *$/ },
+    { line: 2, start: 63, end: 68, name: 'revolution number', format: /^ *\d*$/ }
+  ];
 
   /**
    * Fetch Starlink TLE data from CelesTrak
@@ -45,32 +82,124 @@ export class TleParser {
       const tleText = await response.text();
       return this.parseTleText(tleText);
     } catch (error) {
-      console.warn('Failed to fetch live TLE data, using sample data:', error);
-      return this.getSampleStarlinkTles();
+      // Offline: element sets have to come from local files (see CatalogIngestion)
+      console.warn('Failed to fetch live TLE data:', error);
+      return [];
     }
   }
 
   /**
-   * Parse TLE text format into structured data
+   * Parse TLE text format into structured data, skipping element sets that fail validation
    */
   public static parseTleText(tleText: string): TleData[] {
-    const lines = tleText.trim().split('\n').map(line => line.trim()).filter(line => line.length > 0);
     const tleData: TleData[] = [];
 
-    for (let i = 0; i < lines.length; i += 3) {
-      if (i + 2 < lines.length) {
-        const name = lines[i];
-        const line1 = lines[i + 1];
-        const line2 = lines[i + 2];
+    this.splitTleRecords(tleText).forEach(record => {
+      const problems = this.validateTle(record.line1, record.line2);
+      if (problems.length > 0) {
+        console.warn(`Skipping TLE ${record.name} at line ${record.lineNumber}: ${problems.join('; ')}`);
+        return;
+      }
+      tleData.push({ name: record.name, line1: record.line1, line2: record.line2 });
+    });
+
+    return tleData;
+  }
+
+  /**
+   * Group the lines of a 2-line or 3-line TLE file into element sets. A name line is
+   * optional (a leading "0 " is dropped); sets without one are named after their
+   * catalog number.
+   */
+  public static splitTleRecords(tleText: string): TleRecord[] {
+    const lines = tleText.split(/\r?\n/).map(line => line.trimEnd());
+    const records: TleRecord[] = [];
+    let name: string | null = null;
 
-        // Validate TLE format
-        if (line1.startsWith('1 ') && line2.startsWith('2 ')) {
-          tleData.push({ name, line1, line2 });
+    for (let i = 0; i < lines.length; i++) {
+      const line = lines[i];
+      if (line.trim().length === 0) continue;
+
+      if (line.startsWith('1 ') && i + 1 < lines.length && lines[i + 1].startsWith('2 ')) {
+        records.push({
+          name: name ?? line.substring(2, 7).trim(),
+          line1: line,
+          line2: lines[i + 1],
+          lineNumber: i + 1
+        });
+        name = null;
+        i++;
+      } else {
+        name = line.trim().replace(/^0 /, '');
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Column, checksum and consistency problems of an element set; empty when valid
+   */
+  public static validateTle(line1: string, line2: string): string[] {
+    const problems: string[] = [];
+    const lines = { 1: line1, 2: line2 };
+
+    ([1, 2] as const).forEach(lineNumber => {
+      const line = lines[lineNumber];
+      if (!line.startsWith(`${lineNumber} `)) {
+        problems.push(`line ${lineNumber} must start with "${lineNumber} "`);
+        return;
+      }
+      if (line.length !== 69) {
+        problems.push(`line ${lineNumber} has ${line.length} characters, expected 69`);
+        return;
+      }
+
+      const checksum = this.tleChecksum(line);
+      if (line.charAt(68) !== String(checksum)) {
+        problems.push(`line ${lineNumber} checksum is ${line.charAt(68)}, expected ${checksum}`);
+      }
+
+      this.TLE_FIELDS.filter(field => field.line === lineNumber).forEach(field => {
+        if (!field.format.test(line.substring(field.start, field.end))) {
+          problems.push(`line ${lineNumber} columns ${field.start + 1}-${field.end} (${field.name}) are malformed`);
         }
+      });
+    });
+
+    if (problems.length === 0 && line1.substring(2, 7) !== line2.substring(2, 7)) {
+      problems.push('catalog numbers of line 1 and line 2 differ');
+    }
+
+    return problems;
+  }
+
+  /**
+   * Modulo-10 checksum of the first 68 columns: digits count their value, minus signs one
+   */
+  public static tleChecksum(line: string): number {
+    let sum = 0;
+    for (let i = 0; i < Math.min(line.length, 68); i++) {
+      const char = line.charAt(i);
+      if (char >= '0' && char <= '9') {
+        sum += char.charCodeAt(0) - 48;
+      } else if (char === '-') {
+        sum += 1;
       }
     }
+    return sum % 10;
+  }
 
-    return tleData;
+  /**
+   * Catalog number field, including the Alpha-5 scheme (A0000 = 100000; I and O are skipped)
+   */
+  public static parseCatalogNumber(field: string): number {
+    const trimmed = field.trim();
+    const match = /^([A-HJ-NP-Z])(\d{4})$/.exec(trimmed);
+    if (!match) return /^\d+$/.test(trimmed) ? parseInt(trimmed, 10) : NaN;
+
+    const letters = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+    return (letters.indexOf(match[1]) + 10) * 10000 + parseInt(match[2], 10);
   }
 
   /**
@@ -80,9 +209,16 @@ export class TleParser {
     // Line 1: 1 NNNNNC NNNNNAAA NNNNN.NNNNNNNN +.NNNNNNNN +NNNNN-N +NNNNN-N N NNNNN
     // Line 2: 2 NNNNN NNN.NNNN NNN.NNNN NNNNNNN NNN.NNNN NNN.NNNN NN.NNNNNNNNNNNNNN
 
-    const noradId = parseInt(line1.substring(2, 7));
+    const noradId = this.parseCatalogNumber(line1.substring(2, 7));
+    const classification = line1.substring(7, 8).trim() || 'U';
+    const internationalDesignator = line1.substring(9, 17).trim();
     const epochYear = parseInt(line1.substring(18, 20));
     const epochDay = parseFloat(line1.substring(20, 32));
+    const firstDerivativeMeanMotion = parseFloat(line1.substring(33, 43)) * 2; // TLE stores ṅ/2
+    const secondDerivativeMeanMotion = this.parseExponentialField(line1.substring(44, 52)) * 6; // TLE stores n̈/6
+    const bstar = this.parseExponentialField(line1.substring(53, 61));
+    const ephemerisType = parseInt(line1.substring(62, 63)) || 0;
+    const elementSetNumber = parseInt(line1.substring(64, 68)) || 0;
 
     const inclination = parseFloat(line2.substring(8, 16)); // degrees
     const raan = parseFloat(line2.substring(17, 25)); // degrees
@@ -90,6 +226,12 @@ export class TleParser {
     const argumentOfPeriapsis = parseFloat(line2.substring(34, 42)); // degrees
     const meanAnomaly = parseFloat(line2.substring(43, 51)); // degrees
     const meanMotion = parseFloat(line2.substring(52, 63)); // revolutions per day
+    const revolutionNumber = parseInt(line2.substring(63, 68)) || 0;
+
+    if ([noradId, epochYear, epochDay, inclination, raan, eccentricity, argumentOfPeriapsis, meanAnomaly, meanMotion, bstar]
+        .some(value => isNaN(value))) {
+      throw new Error(`Malformed TLE element set for NORAD ID ${line1.substring(2, 7).trim()}`);
+    }
 
     return {
       inclination,
@@ -98,117 +240,71 @@ export class TleParser {
       argumentOfPeriapsis,
       meanAnomaly,
       meanMotion,
-      epochYear: epochYear > 50 ? 1900 + epochYear : 2000 + epochYear,
+      epochYear: epochYear > 56 ? 1900 + epochYear : 2000 + epochYear,
       epochDay,
-      noradId
+      noradId,
+      classification,
+      internationalDesignator,
+      firstDerivativeMeanMotion,
+      secondDerivativeMeanMotion,
+      bstar,
+      ephemerisType,
+      elementSetNumber,
+      revolutionNumber
     };
   }
 
   /**
-   * Calculate satellite position from orbital elements at given time
+   * Parse a TLE field with an implied leading decimal point and exponent, e.g. " 12345-4" = 0.12345e-4
    */
-  public static calculatePosition(elements: OrbitalElements, timeOffsetMinutes: number = 0): SatellitePosition {
-    // Convert mean motion to radians per minute
-    const n = elements.meanMotion * 2 * Math.PI / this.MINUTES_PER_DAY;
-    
-    // Calculate semi-major axis from mean motion
-    const a = Math.pow(this.MU / Math.pow(n / 60, 2), 1/3); // km
-    
-    // Update mean anomaly for current time
-    const M = (elements.meanAnomaly * Math.PI / 180) + n * timeOffsetMinutes;
-    
-    // Solve Kepler's equation for eccentric anomaly (simplified Newton-Raphson)
-    let E = M;
-    for (let i = 0; i < 10; i++) {
-      E = M + elements.eccentricity * Math.sin(E);
+  private static parseExponentialField(field: string): number {
+    const trimmed = field.trim();
+    if (trimmed.length === 0) return 0;
+
+    const match = /^([+-]?)(\d+)([+-]\d)$/.exec(trimmed);
+    if (!match) return NaN;
+
+    return parseFloat(`${match[1]}0.${match[2]}e${match[3]}`);
+  }
+
+  /**
+   * Get the (cached) SGP4 propagator for an element set
+   */
+  public static getPropagator(elements: OrbitalElements): Sgp4Propagator {
+    const key = `${elements.noradId}:${elements.epochYear}:${elements.epochDay}`;
+    let propagator = this.propagators.get(key);
+    if (!propagator) {
+      propagator = new Sgp4Propagator(elements);
+      this.propagators.set(key, propagator);
     }
+    return propagator;
+  }
+
+  /**
+   * Calculate satellite position from orbital elements at an absolute UTC time using SGP4/SDP4
+   */
+  public static calculatePosition(elements: OrbitalElements, time: Date = new Date()): SatellitePosition {
+    const propagator = this.getPropagator(elements);
+    const teme = propagator.propagate(time);
     
-    // Calculate true anomaly
-    const nu = 2 * Math.atan2(
-      Math.sqrt(1 + elements.eccentricity) * Math.sin(E / 2),
-      Math.sqrt(1 - elements.eccentricity) * Math.cos(E / 2)
-    );
-    
-    // Distance from Earth center
-    const r = a * (1 - elements.eccentricity * Math.cos(E));
-    
-    // Position in orbital plane
-    const xOrbital = r * Math.cos(nu);
-    const yOrbital = r * Math.sin(nu);
-    
-    // Convert angles to radians
-    const incRad = elements.inclination * Math.PI / 180;
-    const raanRad = elements.raan * Math.PI / 180;
-    const argPRad = elements.argumentOfPeriapsis * Math.PI / 180;
-    
-    // Rotate from orbital plane to Earth-centered inertial frame
-    // First rotate by argument of periapsis
-    const x1 = xOrbital * Math.cos(argPRad) - yOrbital * Math.sin(argPRad);
-    const y1 = xOrbital * Math.sin(argPRad) + yOrbital * Math.cos(argPRad);
-    
-    // Then rotate by inclination
-    const x2 = x1;
-    const y2 = y1 * Math.cos(incRad);
-    const z2 = y1 * Math.sin(incRad);
-    
-    // Finally rotate by RAAN
-    const x = x2 * Math.cos(raanRad) - y2 * Math.sin(raanRad);
-    const y = x2 * Math.sin(raanRad) + y2 * Math.cos(raanRad);
-    const z = z2;
-    
-    // Calculate velocity
-    const h = Math.sqrt(this.MU * a * (1 - elements.eccentricity * elements.eccentricity));
-    const vr = (this.MU / h) * elements.eccentricity * Math.sin(nu);
-    const vt = h / r;
-    
-    // Velocity in orbital plane
-    const vxOrbital = vr * Math.cos(nu) - vt * Math.sin(nu);
-    const vyOrbital = vr * Math.sin(nu) + vt * Math.cos(nu);
-    
-    // Apply same rotations to velocity
-    const vx1 = vxOrbital * Math.cos(argPRad) - vyOrbital * Math.sin(argPRad);
-    const vy1 = vxOrbital * Math.sin(argPRad) + vyOrbital * Math.cos(argPRad);
-    
-    const vx2 = vx1;
-    const vy2 = vy1 * Math.cos(incRad);
-    const vz2 = vy1 * Math.sin(incRad);
-    
-    const vx = vx2 * Math.cos(raanRad) - vy2 * Math.sin(raanRad);
-    const vy = vx2 * Math.sin(raanRad) + vy2 * Math.cos(raanRad);
-    const vz = vz2;
+    if (!teme) {
+      throw new Error(`SGP4 propagation failed for NORAD ID ${elements.noradId}: ${propagator.getErrorMessage()}`);
+    }
     
-    // Convert to Three.js coordinate system and scale for visualization
-    const scaleFactor = 1/2;
-    const position = new THREE.Vector3(x, z, y).multiplyScalar(scaleFactor);
-    const velocity = new THREE.Vector3(vx, vz, vy).multiplyScalar(scaleFactor);
+    // TEME to the inertial scene frame shared with SatelliteNetwork (km, Y-up)
+    const scenePosition = Coordinates.toSceneAxes(teme.position);
+    const sceneVelocity = Coordinates.toSceneAxes(teme.velocity);
+    const position = new THREE.Vector3(scenePosition.x, scenePosition.y, scenePosition.z);
+    const velocity = new THREE.Vector3(sceneVelocity.x, sceneVelocity.y, sceneVelocity.z);
     
     return {
       position,
       velocity,
-      orbitalElements: elements
+      orbitalElements: elements,
+      teme
     };
   }
 
-  /**
-   * Sample Starlink TLE data for when live data is unavailable
-   */
-  private static getSampleStarlinkTles(): TleData[] {
-    // Sample TLE data for a few Starlink satellites (these are real but may be outdated)
-    return [
-      {
-        name: "STARLINK-1007",
-        line1: "1 44713U 19074A   24001.12345678  .00001234  00000-0  12345-4 0  9999",
-        line2: "2 44713  53.0000 123.4567 0001234 123.4567 236.5432 15.05000000123456"
-      },
-      {
-        name: "STARLINK-1008", 
-        line1: "1 44714U 19074B   24001.12345678  .00001234  00000-0  12345-4 0  9999",
-        line2: "2 44714  53.0000 123.4567 0001234 123.4567 236.5432 15.05000000123456"
-      },
-      // Add more sample TLEs as needed...
-    ];
-  }
-
   /**
    * Filter TLE data to get only active Starlink satellites
    */
@@ -1,11 +1,13 @@
 import * as THREE from 'three';
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls';
-import { SatelliteNetwork } from '../models/SatelliteNetwork';
+import { SatelliteNetwork, Satellite as NetworkSatellite } from '../models/SatelliteNetwork';
 import { GroundStationNetwork } from '../models/GroundStationNetwork';
+import { SimulationClock } from '../models/SimulationClock';
 import { Earth } from './Earth';
 import { SatelliteManager } from './SatelliteManager';
 import { GroundStationManager } from './GroundStationManager';
 import { DataFlowManager } from './DataFlowManager';
+import { ElementSetRecord } from './CatalogIngestion';
 import { GroundStationView } from './GroundStationView';
 import { EnhancedGroundStationView } from './EnhancedGroundStationView';
 import { SimpleWalkableView } from './SimpleWalkableView';
@@ -48,8 +50,7 @@ export class VisualizationEngine {
   
   private animationFrameId: number | null = null;
   private clock: THREE.Clock;
-  private simulationSpeed: number = 1;
-  private isPaused: boolean = false;
+  private simulationClock: SimulationClock;
   private satelliteNetwork: SatelliteNetwork | null = null;
   private groundStationNetwork: GroundStationNetwork | null = null;
   private lastUpdateTime: number = 0;
@@ -62,9 +63,10 @@ export class VisualizationEngine {
   private isLowPerformanceMode: boolean = true; // Default to performance mode
   private updateInterval: number = 1; // Update every frame by default
 
-  constructor(container: HTMLElement) {
+  constructor(container: HTMLElement, simulationClock: SimulationClock = new SimulationClock()) {
     this.container = container;
     this.clock = new THREE.Clock();
+    this.simulationClock = simulationClock;
     
     // Initialize scene
     this.scene = new THREE.Scene();
@@ -121,6 +123,7 @@ export class VisualizationEngine {
     
     // Initialize Earth
     this.earth = new Earth();
+    this.earth.setSimulationClock(this.simulationClock);
     this.scene.add(this.earth.getMesh());
     
     // Initialize FPS monitoring
@@ -129,6 +132,7 @@ export class VisualizationEngine {
     // Initialize satellite manager with high fidelity settings
     this.satelliteManager = new SatelliteManager();
     this.satelliteManager.setEarth(this.earth);
+    this.satelliteManager.setSimulationClock(this.simulationClock);
     this.satelliteManager.setPerformanceMode(false); // Disable performance mode for high fidelity
     const satelliteObj = this.satelliteManager.getObject();
     satelliteObj.visible = true;
@@ -148,6 +152,7 @@ export class VisualizationEngine {
       this.satelliteManager,
       this.groundStationManager
     );
+    this.dataFlowManager.setEarth(this.earth);
     this.scene.add(this.dataFlowManager.getObject());
     
     // Initialize ground station view
@@ -167,12 +172,14 @@ export class VisualizationEngine {
         timeScale: 1 // Normal time for stability
       }
     );
+    this.enhancedGroundStationView.setSimulationClock(this.simulationClock);
     
     // Initialize simple walkable view as stable alternative
     this.simpleWalkableView = new SimpleWalkableView(this.scene, this.camera, this.renderer);
     
     // Initialize enhanced visualization integration
     this.enhancedVisualizationIntegration = new EnhancedVisualizationIntegration(this.scene, this.camera, this.renderer);
+    this.enhancedVisualizationIntegration.setSimulationClock(this.simulationClock);
     
     // Initialize enhanced systems (disabled by default for performance)
     // this.initializeEnhancedSystems();
@@ -186,6 +193,7 @@ export class VisualizationEngine {
     
     // Initialize physical sky system
     this.physicalSkySystem = new PhysicalSkySystem(this.scene, this.renderer, this.camera);
+    this.physicalSkySystem.setSimulationClock(this.simulationClock);
     
     // Initialize time-based lighting with default location (can be updated later)
     const timeConfig = {
@@ -193,7 +201,7 @@ export class VisualizationEngine {
       longitude: -74.0060,
       elevation: 10,
       timeZone: -5,
-      date: new Date(),
+      date: this.simulationClock.getDate(),
       timeScale: 1.0,
       atmospheric: {
         turbidity: 2.0,
@@ -204,6 +212,7 @@ export class VisualizationEngine {
       }
     };
     this.timeOfDayLighting = new TimeOfDayLighting(this.scene, timeConfig, this.renderer);
+    this.timeOfDayLighting.setSimulationClock(this.simulationClock);
     
     // Initialize atmospheric scattering
     this.atmosphericScattering = new AtmosphericScatteringSystem(this.scene, this.renderer, this.camera);
@@ -227,6 +236,8 @@ export class VisualizationEngine {
   
   public setSatelliteNetwork(network: SatelliteNetwork): void {
     this.satelliteNetwork = network;
+    this.satelliteManager.getRoutingController()?.setSatelliteNetwork(network);
+    this.dataFlowManager.setTrafficDemand(network.getTrafficDemand(), network.getClock());
     
     // Set up event listeners
     network.on('update', () => {
@@ -248,14 +259,59 @@ export class VisualizationEngine {
     network.on('packetDropped', (packet) => {
       this.dataFlowManager.removePacket(packet.id);
     });
+    
+    network.on('satelliteLaunched', (satellite: NetworkSatellite) => {
+      this.addNetworkSatellite(satellite);
+    });
+    
+    network.on('satelliteLifecycleChanged', (satellite: NetworkSatellite) => {
+      const managed = this.satelliteManager.getSatellite(satellite.id);
+      if (managed) {
+        managed.status = satellite.status;
+      }
+    });
+    
+    // The renderer draws exactly the network's laser links that are up
+    network.on('islLinksChanged', (added: [string, string][], removed: [string, string][]) => {
+      removed.forEach(([idA, idB]) => this.satelliteManager.removeConnection(idA, idB));
+      added.forEach(([idA, idB]) => this.satelliteManager.addConnection(idA, idB));
+    });
+    
+    network.on('satelliteReentered', (satellite) => {
+      this.satelliteManager.clearConnections(satellite.id);
+      this.satelliteManager.removeSatellite(satellite.id);
+    });
 
     // Initialize satellites in the visualization from the network
     this.initializeSatellitesFromNetwork();
+    network.getIslLinks()
+      .filter(link => link.state === 'up')
+      .forEach(link => this.satelliteManager.addConnection(link.satelliteA, link.satelliteB));
     
     // Ensure initial visualization of existing satellites and connections
     this.updateVisualization();
   }
   
+  // Convert from SatelliteNetwork format to SatelliteManager format and add it to the scene
+  private addNetworkSatellite(satellite: NetworkSatellite): void {
+    const position = new THREE.Vector3(satellite.position.x, satellite.position.y, satellite.position.z);
+    const velocity = new THREE.Vector3(satellite.velocity.x, satellite.velocity.y, satellite.velocity.z);
+    
+    this.satelliteManager.addSatellite({
+      id: satellite.id,
+      position: position,
+      velocity: velocity,
+      orbitalParameters: satellite.orbitalParameters,
+      connections: satellite.connections,
+      beams: satellite.beams,
+      timeSlots: satellite.timeSlots.map(slot => ({ duration: slot.duration, allocation: slot.allocation })),
+      status: satellite.status,
+      type: satellite.type,
+      eclipse: satellite.eclipse,
+      sunlitFraction: satellite.sunlitFraction
+    });
+  }
+  
   // Initialize satellites in SatelliteManager from SatelliteNetwork
   private initializeSatellitesFromNetwork(): void {
     if (!this.satelliteNetwork) return;
@@ -265,40 +321,13 @@ export class VisualizationEngine {
     console.log(`Found ${satellites.length} satellites in network`);
     
     satellites.forEach((satellite, index) => {
-      // Convert from SatelliteNetwork format to SatelliteManager format
-      // Apply a scale factor to make satellites more visible if needed
-      const scaleFactor = 1.0; // Keep realistic scale for now
-      const position = new THREE.Vector3(
-        satellite.position.x * scaleFactor, 
-        satellite.position.y * scaleFactor, 
-        satellite.position.z * scaleFactor
-      );
-      const velocity = new THREE.Vector3(satellite.velocity.x, satellite.velocity.y, satellite.velocity.z);
-      
       // Debug log for first few satellites
       if (index < 3) {
         console.log(`Satellite ${satellite.id} original position:`, satellite.position);
-        console.log(`Satellite ${satellite.id} distance from origin:`, position.length());
         console.log(`Satellite ${satellite.id} orbital altitude:`, satellite.orbitalParameters.altitude);
       }
       
-      const satelliteForManager = {
-        id: satellite.id,
-        position: position,
-        velocity: velocity,
-        orbitalParameters: satellite.orbitalParameters,
-        connections: satellite.connections,
-        beams: satellite.beams,
-        timeSlots: satellite.timeSlots.map(slot => ({ duration: slot.duration, allocation: slot.allocation })),
-        status: satellite.status,
-        type: satellite.type
-      };
-      
-      // Add satellite to manager
-      this.satelliteManager.addSatellite(satelliteForManager);
-      if (index < 3) {
-        console.log(`Added satellite ${satellite.id} to manager at position:`, position);
-      }
+      this.addNetworkSatellite(satellite);
     });
     
     console.log(`Initialized ${satellites.length} satellites in visualization`);
@@ -378,7 +407,7 @@ export class VisualizationEngine {
       satellite.connections.groundStations.forEach(groundStationId => {
         const groundStation = this.groundStationManager.getGroundStation(groundStationId);
         if (groundStation) {
-          const position = this.earth.latLongToVector3(
+          const position = this.earth.latLongToWorld(
             groundStation.position.latitude,
             groundStation.position.longitude,
             10 // Slight elevation above surface
@@ -439,24 +468,40 @@ export class VisualizationEngine {
     this.camera = null as any;
   }
   
+  public getSimulationClock(): SimulationClock {
+    return this.simulationClock;
+  }
+  
   public setSimulationSpeed(speed: number): void {
-    this.simulationSpeed = speed;
+    this.simulationClock.setWarpFactor(speed);
     
     // Adjust update interval based on simulation speed
     if (speed > 5) {
-      this.updateInterval = Math.max(1, Math.floor(10 / this.currentFps * speed));
+      this.updateInterval = Math.min(5, Math.max(1, Math.floor(10 / this.currentFps * speed)));
     } else {
       this.updateInterval = this.isLowPerformanceMode ? 3 : 1;
     }
   }
   
   public setPaused(paused: boolean): void {
-    this.isPaused = paused;
-    if (paused) {
-      this.clock.stop();
-    } else {
-      this.clock.start();
-    }
+    this.simulationClock.setPaused(paused);
+  }
+  
+  public jumpToDate(date: Date): void {
+    this.simulationClock.jumpTo(date);
+    
+    // Bring renderer-side propagation to the new time even while paused
+    this.earth.update(0);
+    this.groundStationManager.update(0);
+    this.satelliteManager.update(0);
+    this.updateVisualization();
+  }
+  
+  /**
+   * Show satellites from locally loaded element sets alongside the network, propagated with SGP4
+   */
+  public loadElementSets(records: ElementSetRecord[]): number {
+    return this.satelliteManager.addElementSets(records);
   }
   
   public setVisibility(type: 'satellites' | 'groundStations' | 'dataFlow', visible: boolean): void {
@@ -489,7 +534,7 @@ export class VisualizationEngine {
         }
       } else {
         // Just focus on the ground station in global view
-        const position = this.earth.latLongToVector3(
+        const position = this.earth.latLongToWorld(
           groundStation.position.latitude,
           groundStation.position.longitude,
           500 // Elevation above surface
@@ -711,9 +756,9 @@ export class VisualizationEngine {
     // Update controls
     this.controls.update();
     
-    // Get elapsed time
+    // Advance the shared simulation clock by the real elapsed time
     const currentTime = this.clock.getElapsedTime();
-    const deltaTime = (currentTime - this.lastUpdateTime) * this.simulationSpeed;
+    const deltaTime = this.simulationClock.tick(currentTime - this.lastUpdateTime);
     this.lastUpdateTime = currentTime;
     
     // FPS monitoring
@@ -735,9 +780,10 @@ export class VisualizationEngine {
       }
     }
     
-    if (!this.isPaused) {
-      // Update Earth rotation
+    if (!this.simulationClock.isPaused()) {
+      // Update Earth rotation and the ground stations fixed to it
       this.earth.update(deltaTime);
+      this.groundStationManager.update(deltaTime);
       
       // Update satellite network
       if (this.satelliteNetwork) {
@@ -834,7 +880,6 @@ export class VisualizationEngine {
     
     // Update sky system with sun position
     this.physicalSkySystem.setLocation(40.7128, -74.0060); // Default coordinates
-    this.physicalSkySystem.setTime(new Date());
     this.physicalSkySystem.update(deltaTime);
     
     // Update atmospheric scattering
@@ -1004,7 +1049,7 @@ export class VisualizationEngine {
         const groundStation = this.groundStationManager.getGroundStation(gsId);
         if (groundStation) {
           const beamId = `gs_${satellite.id}-${gsId}`;
-          const gsPos = this.earth.latLongToVector3(
+          const gsPos = this.earth.latLongToWorld(
             groundStation.position.latitude,
             groundStation.position.longitude,
             50 // Antenna height
@@ -1036,9 +1081,20 @@ export class VisualizationEngine {
   private updateVisualization(): void {
     if (!this.satelliteNetwork) return;
     
+    // Launch trains are few and move visibly, so they are redrawn in full every update
+    const network = this.satelliteNetwork;
+    this.satelliteManager.updateLaunchTrains(network.getLaunchTrains().map(train => ({
+      batchId: train.batchId,
+      positions: train.satelliteIds
+        .map(id => network.getSatellite(id))
+        .filter((satellite): satellite is NetworkSatellite => satellite !== undefined)
+        .map(satellite => new THREE.Vector3(satellite.position.x, satellite.position.y, satellite.position.z))
+    })));
+    
     // Update satellite positions - process only a subset of satellites per frame for better performance
     const satellites = this.satelliteNetwork.getAllSatellites();
     const satelliteCount = satellites.length;
+    if (satelliteCount === 0) return;
     
     // Significantly reduce satellites processed per frame
     const maxSatellitesToProcess = this.isLowPerformanceMode ? 20 : 40;
@@ -1056,17 +1112,8 @@ export class VisualizationEngine {
       this.satelliteManager.updateSatellitePositionById(satellite.id, position);
       
       // Update connections more frequently - reduced from i % 5 to i % 3
+      // Laser links follow islLinksChanged; ground links are refreshed here
       if (i % 3 === 0) {
-        // Clear existing connections
-        this.satelliteManager.clearConnections(satellite.id);
-        
-        // Increased max connections from 2 to 4 for better visualization
-        const maxConnections = Math.min(4, satellite.connections.satellites.length);
-        for (let j = 0; j < maxConnections; j++) {
-          const connectedId = satellite.connections.satellites[j];
-          this.satelliteManager.addConnection(satellite.id, connectedId);
-        }
-        
         // Process ALL ground station connections for each satellite (removed i % 10 filter)
         if (satellite.connections.groundStations.length > 0) {
           // Process all ground station connections, not just the first one
@@ -1074,8 +1121,8 @@ export class VisualizationEngine {
             const groundStationId = satellite.connections.groundStations[k];
             const groundStation = this.groundStationManager.getGroundStation(groundStationId);
             if (groundStation) {
-              // Calculate position on Earth's surface using Earth's latLongToVector3 method
-              const position = this.earth.latLongToVector3(
+              // Calculate position on Earth's surface, following the Earth's current rotation
+              const position = this.earth.latLongToWorld(
                 groundStation.position.latitude,
                 groundStation.position.longitude,
                 10 // Slight elevation above surface